@@ -0,0 +1,193 @@
+/**
+ * Activity command - steps, active energy, exercise minutes and stand hours trends
+ */
+import { success, error } from '../utils/responses.js';
+import { action, because, COMMON_ACTIONS, PARAMS } from '../utils/actions.js';
+import { DataProvider } from '../data/provider.js';
+import { compareHalves } from '../data/statistics.js';
+import { ActivityData } from '../types/responses.js';
+import { ActivityResult, ActivityResultSchema } from '../types/schemas.js';
+
+type ActivityMetric = 'steps' | 'active_calories' | 'exercise_minutes' | 'stand_hours';
+
+/** Daily targets - 10k steps, and the default Apple Watch move, exercise and stand rings */
+const GOALS: Record<ActivityMetric, number> = {
+  steps: 10000,
+  active_calories: 500,
+  exercise_minutes: 30,
+  stand_hours: 12
+};
+
+export function activityCommand(provider: DataProvider, days: number = 7) {
+  // Validate input
+  if (days < 1 || days > 90) {
+    return error(
+      `activity --days ${days}`,
+      'Days parameter must be between 1 and 90',
+      'INVALID_DAYS_RANGE',
+      'Use a value between 1 and 90 days',
+      [
+        action(['health', 'activity'], 'Use default 7 days', { rel: 'remediate' }),
+        action(['health', 'activity', '--days', '{days}'], 'Try 2 weeks', { rel: 'remediate', params: [PARAMS.days(14)] }),
+        action(['health', 'activity', '--days', '{days}'], 'Try 1 month', { rel: 'remediate', params: [PARAMS.days(30)] })
+      ]
+    );
+  }
+
+  const activityData = provider.activity(days);
+
+  if (activityData.length === 0) {
+    return error(
+      `activity --days ${days}`,
+      `No activity data available from the ${provider.name} source`,
+      'NO_DATA',
+      'Import an Apple Health export that contains Activity Summaries or Step Count records',
+      [
+        COMMON_ACTIONS.IMPORT,
+        COMMON_ACTIONS.STATUS
+      ]
+    );
+  }
+
+  const weekdays = activityData.filter(d => !isWeekend(d.date));
+  const weekend = activityData.filter(d => isWeekend(d.date));
+  const weekdayAverages = weekdays.length > 0 ? { ...calculateAverages(weekdays), days: weekdays.length } : null;
+  const weekendAverages = weekend.length > 0 ? { ...calculateAverages(weekend), days: weekend.length } : null;
+
+  const summary: Omit<ActivityResult, 'insights'> = {
+    period: {
+      days: days,
+      start_date: activityData[0].date,
+      end_date: activityData[activityData.length - 1].date
+    },
+    latest: activityData[activityData.length - 1],
+    averages: calculateAverages(activityData),
+    goals: {
+      steps: goalProgress(activityData, 'steps'),
+      active_calories: goalProgress(activityData, 'active_calories'),
+      exercise_minutes: goalProgress(activityData, 'exercise_minutes'),
+      stand_hours: goalProgress(activityData, 'stand_hours')
+    },
+    weekday_vs_weekend: {
+      weekday: weekdayAverages,
+      weekend: weekendAverages,
+      steps_difference_percent: weekdayAverages && weekendAverages && weekdayAverages.steps > 0
+        ? Math.round((weekendAverages.steps - weekdayAverages.steps) / weekdayAverages.steps * 100)
+        : null
+    },
+    trend: {
+      steps: analyzeActivityTrend(activityData.map(d => d.steps)),
+      active_calories: analyzeActivityTrend(activityData.map(d => d.active_calories)),
+      exercise_minutes: analyzeActivityTrend(activityData.map(d => d.exercise_minutes)),
+      stand_hours: analyzeActivityTrend(activityData.map(d => d.stand_hours))
+    },
+    data: activityData
+  };
+  const result: ActivityResult = { ...summary, insights: generateActivityInsights(summary) };
+
+  const nextActions = [
+    COMMON_ACTIONS.STATUS,
+    COMMON_ACTIONS.HRV
+  ];
+
+  // Add period-specific next actions
+  if (days === 7) {
+    nextActions.push(action(['health', 'activity', '--days', '{days}'], 'View monthly activity pattern', {
+      rel: 'widen-range',
+      params: [PARAMS.days(30)]
+    }));
+  }
+
+  if (result.latest.steps < GOALS.steps / 2) {
+    nextActions.unshift(because(COMMON_ACTIONS.ALERTS, `Added because the latest day had ${result.latest.steps} steps`));
+  }
+
+  if (result.trend.exercise_minutes.direction === 'improving' && result.trend.exercise_minutes.significance === 'significant') {
+    nextActions.push(because(COMMON_ACTIONS.SLEEP, 'Added because exercise is rising sharply - check that sleep keeps up', 'medium'));
+  }
+
+  return success(
+    `activity --days ${days}`,
+    ActivityResultSchema,
+    result,
+    nextActions,
+    provider.describe(['activity'])
+  );
+}
+
+function calculateAverages(data: ActivityData[]): ActivityResult['averages'] {
+  const average = (metric: ActivityMetric) => data.reduce((sum, d) => sum + d[metric], 0) / data.length;
+  return {
+    steps: Math.round(average('steps')),
+    active_calories: Math.round(average('active_calories')),
+    exercise_minutes: Math.round(average('exercise_minutes')),
+    stand_hours: Math.round(average('stand_hours') * 10) / 10
+  };
+}
+
+function goalProgress(data: ActivityData[], metric: ActivityMetric): ActivityResult['goals']['steps'] {
+  const daysMet = data.filter(d => d[metric] >= GOALS[metric]).length;
+  return {
+    target: GOALS[metric],
+    days_met: daysMet,
+    hit_rate: Math.round(daysMet / data.length * 100)
+  };
+}
+
+/** Saturday or Sunday - dates are calendar days, so read them as UTC */
+function isWeekend(date: string): boolean {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+}
+
+/**
+ * Same test as the HRV trend: the second half of the period against the
+ * first (see compareHalves), with the change also in percent because the
+ * metrics are on very different scales
+ */
+function analyzeActivityTrend(values: number[]): ActivityResult['trend']['steps'] {
+  const trend = compareHalves(values);
+  if (!trend) return { direction: 'insufficient_data', change: 0, significance: 'none' };
+
+  return {
+    direction: trend.significance === 'none' ? 'stable' : trend.effect_size > 0 ? 'improving' : 'declining',
+    change: Math.round(trend.change),
+    ...(trend.change_percent !== null && { change_percent: Math.round(trend.change_percent) }),
+    significance: trend.significance
+  };
+}
+
+function generateActivityInsights(result: Omit<ActivityResult, 'insights'>): string[] {
+  const insights = [];
+
+  if (result.trend.steps.direction === 'improving') {
+    insights.push('💚 Daily steps trending upward - keep it going');
+  } else if (result.trend.steps.direction === 'declining') {
+    insights.push('🔴 Daily steps declining - look for chances to walk more');
+  } else if (result.trend.steps.direction === 'stable') {
+    insights.push('🟡 Daily steps stable');
+  }
+
+  if (result.goals.steps.hit_rate < 50) {
+    insights.push(`⚠️ Reaching ${GOALS.steps} steps on only ${result.goals.steps.hit_rate}% of days`);
+  } else if (result.goals.steps.hit_rate > 80) {
+    insights.push('🎯 Consistently meeting the daily step goal');
+  }
+
+  if (result.averages.exercise_minutes * 7 < 150) {
+    insights.push(`⏱️ About ${result.averages.exercise_minutes * 7} exercise minutes a week - 150 is the common guideline`);
+  }
+
+  const difference = result.weekday_vs_weekend.steps_difference_percent;
+  if (difference !== null && Math.abs(difference) >= 20) {
+    insights.push(difference < 0
+      ? `🛋️ Weekends are ${-difference}% less active than weekdays`
+      : `🏞️ Weekends are ${difference}% more active than weekdays`);
+  }
+
+  if (result.trend.exercise_minutes.significance === 'significant' && result.trend.exercise_minutes.direction === 'improving') {
+    insights.push('📈 Exercise minutes rising sharply - balance training load with recovery');
+  }
+
+  return insights;
+}
@@ -1,15 +1,89 @@
 /**
  * Alert command - Check health alerts and warning thresholds
  */
-import { success, COMMON_ACTIONS } from '../utils/responses.js';
-import { generateMockAlerts } from '../data/mockData.js';
+import { success, error } from '../utils/responses.js';
+import { action, because, COMMON_ACTIONS, PARAMS } from '../utils/actions.js';
+import { DataProvider } from '../data/provider.js';
+import { evaluateRules, resolveRules, ruleAdvice, RuleAdvice } from '../data/alertRules.js';
+import { loadConfig, AlertRule, THRESHOLD_DEFINITIONS } from '../utils/config.js';
+import { AlertThreshold, NextAction } from '../types/responses.js';
+import {
+  emptyAlertState,
+  readAlertState,
+  writeAlertState,
+  readAlertHistory,
+  reconcileAlerts,
+  getAlertStatePath,
+  AlertRecord,
+  AlertChange
+} from '../data/alertState.js';
+import { parseDuration } from '../utils/dates.js';
+import { notifySinks, deliver, AlertNotification } from '../utils/notify.js';
+import {
+  AlertResult,
+  AlertResultSchema,
+  AlertChangeResultSchema,
+  AlertHistoryResultSchema,
+  DeliveryResultSchema
+} from '../types/schemas.js';
 
-export function alertCommand() {
-  const alerts = generateMockAlerts();
-  
+const ALERT_ACTIONS = {
+  CONFIG: action(['health', 'config', 'get', 'notifications'], 'Show configured notification sinks', { rel: 'navigate' }),
+  HISTORY: action(['health', 'alert', 'history'], 'Review alert history and current alert state', { rel: 'navigate' }),
+  CHANGES: action(['health', 'alert', '--changes-only'], 'Check for new or escalated alerts', { rel: 'navigate' })
+};
+
+/**
+ * Evaluates the rules and records the outcome in the alert state. With
+ * `changesOnly` only alerts worth raising are listed - new or escalated, and
+ * not acknowledged or snoozed - so a scheduled agent does not repeat itself.
+ * A past day reproduced with --as-of, or mock data from a random seed that
+ * the next run would not see again, starts from an empty state and leaves
+ * the stored state and the sinks alone.
+ */
+export async function alertCommand(provider: DataProvider, changesOnly: boolean = false) {
+  const config = loadConfig('alert');
+  if ('ok' in config) return config;
+
+  const rules = resolveRules(config);
+  const { alerts, skipped } = evaluateRules(provider, rules, config.heart);
+
+  if (alerts.length === 0) {
+    return error(
+      'alert',
+      `Not enough data from the ${provider.name} source to evaluate any alert rule`,
+      'NO_DATA',
+      'Import an Apple Health export that contains HRV, sleep and activity records',
+      [
+        COMMON_ACTIONS.IMPORT,
+        COMMON_ACTIONS.ROOT
+      ]
+    );
+  }
+
+  const replay = provider.asOf !== null || !provider.reproducible;
+  const state = replay ? emptyAlertState() : readAlertState(provider.name);
+  const { reconciled, resolved, events } = reconcileAlerts(state, alerts, provider.now(), skipped);
+  const nextCheck = getNextCheckTime(provider.now());
+  state.next_check = nextCheck;
+  if (!replay) writeAlertState(provider.name, state, events);
+
+  // Sinks hear about exactly the alerts that --changes-only would list
+  const notifications: AlertNotification[] = reconciled.filter(r => r.notify).map(r => ({
+    event: r.change === 'ongoing' ? 'reminder' : r.change,
+    sent_at: provider.now().toISOString(),
+    source: provider.name,
+    alert: { id: r.record.id, ...r.alert },
+    lifecycle: { first_seen: r.record.first_seen, occurrences: r.record.occurrences }
+  }));
+  const deliveries = replay ? [] : await notifySinks(config.notifications.sinks, notifications);
+
+  const rulesById = new Map(rules.map(rule => [rule.id, rule]));
+  const lifecycle = new Map(reconciled.map(r => [r.alert.rule, r]));
   const activeAlerts = alerts.filter(a => a.status !== 'ok');
-  const result = {
-    timestamp: new Date().toISOString(),
+  const reported = changesOnly ? activeAlerts.filter(a => lifecycle.get(a.rule)!.notify) : activeAlerts;
+  const result: AlertResult = {
+    timestamp: provider.now().toISOString(),
     alert_summary: {
       total_checks: alerts.length,
       active_alerts: activeAlerts.length,
@@ -17,83 +91,288 @@ export function alertCommand() {
       critical: alerts.filter(a => a.status === 'critical').length,
       ok: alerts.filter(a => a.status === 'ok').length
     },
-    active_alerts: activeAlerts.map(alert => ({
+    changes: {
+      new: reconciled.filter(r => r.change === 'new').map(r => r.record.id),
+      escalated: reconciled.filter(r => r.change === 'escalated').map(r => r.record.id),
+      resolved: resolved.map(r => r.id),
+      to_notify: reconciled.filter(r => r.notify).map(r => r.record.id)
+    },
+    active_alerts: reported.map(alert => ({
+      id: alert.rule,
+      rule: alert.rule,
       metric: alert.metric,
       status: alert.status,
+      condition: alert.condition,
       current_value: alert.current,
       threshold: alert.threshold,
+      ...(alert.baseline !== undefined && { baseline: alert.baseline }),
       message: alert.message,
-      priority: alert.status === 'critical' ? 'high' : 'medium'
+      priority: alert.status === 'critical' ? 'high' : 'medium',
+      lifecycle: describeLifecycle(lifecycle.get(alert.rule)!.record, lifecycle.get(alert.rule)!.change)
     })),
     all_thresholds: alerts,
-    recommendations: generateAlertRecommendations(alerts),
-    next_check: getNextCheckTime()
+    notifications: deliveries,
+    skipped_checks: skipped,
+    recommendations: generateAlertRecommendations(reported, rulesById),
+    next_check: nextCheck,
+    state_file: replay ? null : getAlertStatePath(provider.name)
   };
 
-  const nextActions = [COMMON_ACTIONS.STATUS];
+  const nextActions: NextAction[] = [COMMON_ACTIONS.STATUS];
 
-  // Add specific next actions based on alerts
-  if (activeAlerts.some(a => a.metric === 'HRV')) {
-    nextActions.push({
-      command: 'health hrv --days 14',
-      description: 'Analyze HRV trend to understand alert'
-    });
-  }
-
-  if (activeAlerts.some(a => a.metric === 'Sleep Duration')) {
-    nextActions.push({
-      command: 'health sleep --days 7',
-      description: 'Review recent sleep patterns'
-    });
+  // The most pressing alert that still needs attention can be acknowledged or snoozed
+  const pending = reconciled
+    .filter(r => r.notify)
+    .sort((a, b) => (b.alert.status === 'critical' ? 1 : 0) - (a.alert.status === 'critical' ? 1 : 0))[0];
+  if (pending && !replay) {
+    const reason = `Added because ${pending.record.id} is ${pending.alert.status} and not acknowledged`;
+    nextActions.push(
+      action(['health', 'alert', 'ack', pending.record.id], `Acknowledge "${pending.alert.message}"`, {
+        rel: 'remediate',
+        priority: 'high',
+        reason
+      }),
+      action(['health', 'alert', 'snooze', '--for', '{duration}', pending.record.id], 'Silence this alert for a day', {
+        rel: 'remediate',
+        params: [PARAMS.duration('1d')],
+        reason
+      })
+    );
   }
 
-  if (activeAlerts.some(a => a.metric === 'Daily Steps')) {
-    nextActions.push({
-      command: 'health status',
-      description: 'Check current activity levels'
-    });
+  // Each firing rule contributes its follow-up commands, critical alerts first
+  const byPriority = [...reported].sort((a, b) => (b.status === 'critical' ? 1 : 0) - (a.status === 'critical' ? 1 : 0));
+  for (const alert of byPriority) {
+    for (const ruleAction of ruleAdvice(rulesById.get(alert.rule)!).next_actions) {
+      if (nextActions.some(a => a.command === ruleAction.command)) continue;
+      nextActions.push(because(
+        ruleAction,
+        `Added because ${alert.rule} is ${alert.status}: ${alert.message}`,
+        alert.status === 'critical' ? 'high' : 'medium'
+      ));
+    }
   }
 
   // If no active alerts, suggest other commands
-  if (activeAlerts.length === 0) {
+  if (reported.length === 0) {
     nextActions.push(
       COMMON_ACTIONS.HRV,
       COMMON_ACTIONS.SLEEP
     );
   }
 
-  return success('alert', result, nextActions);
+  const failedSink = deliveries.find(d => !d.ok);
+  if (failedSink) {
+    nextActions.push(action(['health', 'alert', 'test-sink', failedSink.sink], `Debug the ${failedSink.sink} sink`, {
+      rel: 'remediate',
+      priority: 'high',
+      reason: `Added because delivery to ${failedSink.sink} failed: ${failedSink.error}`
+    }));
+  }
+
+  nextActions.push(ALERT_ACTIONS.HISTORY);
+
+  return success(
+    changesOnly ? 'alert --changes-only' : 'alert',
+    AlertResultSchema,
+    result,
+    nextActions,
+    provider.describe(['hrv', 'sleep', 'activity'])
+  );
+}
+
+export function alertAckCommand(provider: DataProvider, id: string, by: string) {
+  const command = `alert ack ${id}`;
+  const state = readAlertState(provider.name);
+  const record = findActiveAlert(state.alerts, id);
+  if (!record) return alertNotFound(command, id);
+
+  const at = provider.now().toISOString();
+  record.acknowledged_by = by;
+  record.acknowledged_at = at;
+  writeAlertState(provider.name, state, [{ at, id, event: 'acknowledged', status: record.status, by }]);
+
+  return success(command, AlertChangeResultSchema, {
+    alert: record,
+    note: 'Acknowledged alerts are not raised again until they escalate or resolve and come back'
+  }, [
+    ALERT_ACTIONS.CHANGES,
+    ALERT_ACTIONS.HISTORY
+  ]);
+}
+
+export function alertSnoozeCommand(provider: DataProvider, id: string, duration: string) {
+  const command = `alert snooze --for ${duration} ${id}`;
+  const milliseconds = parseDuration(duration);
+  if (milliseconds === null) {
+    return error(
+      command,
+      `Invalid duration: ${duration}`,
+      'INVALID_DURATION',
+      'Use a whole number followed by m, h, d or w - e.g. 30m, 12h, 2d, 1w',
+      [
+        action(['health', 'alert', 'snooze', '--for', '{duration}', id], 'Snooze for one day', {
+          rel: 'remediate',
+          params: [PARAMS.duration('1d')]
+        })
+      ]
+    );
+  }
+
+  const state = readAlertState(provider.name);
+  const record = findActiveAlert(state.alerts, id);
+  if (!record) return alertNotFound(command, id);
+
+  const at = provider.now().toISOString();
+  const until = new Date(provider.now().getTime() + milliseconds).toISOString();
+  record.snoozed_until = until;
+  writeAlertState(provider.name, state, [{ at, id, event: 'snoozed', status: record.status, until }]);
+
+  return success(command, AlertChangeResultSchema, {
+    alert: record,
+    note: 'Snoozed alerts are raised again once the snooze expires, or right away if they escalate'
+  }, [
+    ALERT_ACTIONS.CHANGES,
+    ALERT_ACTIONS.HISTORY
+  ]);
+}
+
+export function alertHistoryCommand(provider: DataProvider, limit: number) {
+  const command = `alert history --limit ${limit}`;
+  if (limit < 1) {
+    return error(
+      command,
+      `Invalid limit: ${limit}`,
+      'INVALID_LIMIT',
+      'Use a positive number of events',
+      [ALERT_ACTIONS.HISTORY]
+    );
+  }
+
+  const state = readAlertState(provider.name);
+  const events = readAlertHistory(provider.name);
+  const records = Object.values(state.alerts);
+
+  return success(command, AlertHistoryResultSchema, {
+    last_checked: state.last_checked,
+    next_check: state.next_check,
+    active: records.filter(r => r.status !== 'resolved'),
+    resolved: records.filter(r => r.status === 'resolved'),
+    total_events: events.length,
+    events: events.slice(-limit).reverse()
+  }, [
+    COMMON_ACTIONS.ALERTS,
+    ...records.filter(r => r.status !== 'resolved' && !r.acknowledged_by).slice(0, 1).map(r =>
+      action(['health', 'alert', 'ack', r.id], `Acknowledge the ${r.metric} alert`, {
+        rel: 'remediate',
+        reason: `Added because ${r.id} is ${r.status} and not acknowledged`
+      })
+    )
+  ], provider.describe([]));
 }
 
-function generateAlertRecommendations(alerts: any[]): any {
-  const recommendations = {
-    immediate: [] as string[],
-    short_term: [] as string[],
-    long_term: [] as string[]
+/** Sends a sample alert through one sink, ignoring its enabled flag and min_status */
+export async function alertTestSinkCommand(provider: DataProvider, name: string) {
+  const command = `alert test-sink ${name}`;
+  const config = loadConfig(command);
+  if ('ok' in config) return config;
+
+  const sink = config.notifications.sinks[name];
+  if (!sink) {
+    const names = Object.keys(config.notifications.sinks);
+    return error(
+      command,
+      `No notification sink named ${name}`,
+      'SINK_NOT_FOUND',
+      names.length > 0
+        ? `Configured sinks: ${names.join(', ')}`
+        : 'Add one under notifications.sinks in the config file',
+      [
+        ALERT_ACTIONS.CONFIG,
+        action(['health', 'config', 'validate'], 'Check the config file for problems', { rel: 'remediate' })
+      ]
+    );
+  }
+
+  const now = provider.now().toISOString();
+  const delivery = await deliver(name, sink, {
+    event: 'test',
+    sent_at: now,
+    source: provider.name,
+    alert: {
+      id: 'test',
+      rule: 'test',
+      metric: 'HRV',
+      condition: 'latest reading below 30',
+      threshold: 30,
+      current: 25,
+      status: 'warning',
+      message: 'Test notification from health alert test-sink'
+    },
+    lifecycle: { first_seen: now, occurrences: 1 }
+  });
+
+  if (!delivery.ok) {
+    return error(
+      command,
+      `Sink ${name} failed after ${delivery.attempts} attempt(s): ${delivery.error}`,
+      'SINK_FAILED',
+      sink.type === 'webhook' ? `Check that ${sink.url} is reachable and accepts JSON POSTs`
+        : sink.type === 'exec' ? 'Run the hook by hand with a JSON payload on stdin and check its exit code'
+        : `Check that ${sink.path} is writable`,
+      [
+        action(['health', 'alert', 'test-sink', name], 'Try the sink again', { rel: 'remediate' }),
+        ALERT_ACTIONS.CONFIG
+      ]
+    );
+  }
+
+  return success(command, DeliveryResultSchema, delivery, [
+    COMMON_ACTIONS.ALERTS,
+    ALERT_ACTIONS.CONFIG
+  ]);
+}
+
+function findActiveAlert(alerts: Record<string, AlertRecord>, id: string): AlertRecord | undefined {
+  const record = alerts[id];
+  return record && record.status !== 'resolved' ? record : undefined;
+}
+
+function alertNotFound(command: string, id: string) {
+  return error(
+    command,
+    `No active alert with id ${id}`,
+    'ALERT_NOT_FOUND',
+    'Alert ids are rule ids - run health alert history to see the active ones',
+    [
+      ALERT_ACTIONS.HISTORY,
+      COMMON_ACTIONS.ALERTS
+    ]
+  );
+}
+
+function describeLifecycle(record: AlertRecord, change: AlertChange) {
+  return {
+    change,
+    first_seen: record.first_seen,
+    occurrences: record.occurrences,
+    acknowledged_by: record.acknowledged_by,
+    snoozed_until: record.snoozed_until
   };
+}
 
-  alerts.forEach(alert => {
-    if (alert.status === 'warning' || alert.status === 'critical') {
-      switch (alert.metric) {
-        case 'HRV':
-          recommendations.immediate.push('Take a rest day or reduce training intensity');
-          recommendations.short_term.push('Focus on stress management and recovery practices');
-          recommendations.long_term.push('Evaluate training load and recovery balance');
-          break;
-        
-        case 'Sleep Duration':
-          recommendations.immediate.push('Prioritize earlier bedtime tonight');
-          recommendations.short_term.push('Establish consistent sleep schedule');
-          recommendations.long_term.push('Optimize sleep environment and hygiene');
-          break;
-        
-        case 'Daily Steps':
-          recommendations.immediate.push('Take breaks for short walks throughout the day');
-          recommendations.short_term.push('Incorporate more movement into daily routine');
-          recommendations.long_term.push('Set progressive activity goals');
-          break;
-      }
-    }
+function generateAlertRecommendations(activeAlerts: AlertThreshold[], rules: Map<string, AlertRule>): RuleAdvice {
+  const recommendations: RuleAdvice = {
+    immediate: [],
+    short_term: [],
+    long_term: []
+  };
+
+  activeAlerts.forEach(alert => {
+    const advice = ruleAdvice(rules.get(alert.rule)!).recommendations;
+    recommendations.immediate.push(...advice.immediate);
+    recommendations.short_term.push(...advice.short_term);
+    recommendations.long_term.push(...advice.long_term);
   });
 
   // Remove duplicates
@@ -111,27 +390,22 @@ function generateAlertRecommendations(alerts: any[]): any {
   return recommendations;
 }
 
-function getNextCheckTime(): string {
-  const tomorrow = new Date();
+function getNextCheckTime(now: Date): string {
+  const tomorrow = new Date(now);
   tomorrow.setDate(tomorrow.getDate() + 1);
   tomorrow.setHours(8, 0, 0, 0); // 8 AM next day
   return tomorrow.toISOString();
 }
 
-// Alert configuration and thresholds
+// Alert configuration and thresholds (defaults - override in the config file)
 export const ALERT_CONFIG = {
-  thresholds: {
-    hrv_low: 30,        // milliseconds
-    sleep_min: 6,       // hours
-    steps_min: 5000,    // daily steps
-    exercise_max: 360,  // minutes (6 hours)
-    screen_time_max: 600, // minutes (10 hours)
-    late_usage_threshold: 2 // hours after midnight
-  },
+  thresholds: Object.fromEntries(
+    Object.entries(THRESHOLD_DEFINITIONS).map(([key, definition]) => [key, definition.warning])
+  ),
   
   categories: {
-    recovery: ['HRV', 'Sleep Duration', 'Sleep Quality'],
-    activity: ['Daily Steps', 'Exercise Minutes', 'Active Calories'],
+    recovery: ['HRV', 'Resting Heart Rate', 'Sleep Duration', 'Sleep Quality'],
+    activity: ['Daily Steps', 'Exercise Minutes', 'Active Calories', 'Acute:Chronic Workload Ratio'],
     lifestyle: ['Screen Time', 'Late Night Usage', 'Stress Level']
   },
   
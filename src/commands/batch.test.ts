@@ -0,0 +1,38 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const CLI = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'index.ts');
+
+/** The parts of the status and hrv envelopes these tests read */
+interface Envelope {
+  data_source: { type: string; seed: number };
+  result: { hrv?: { current: number }; data?: { value: number }[] };
+}
+
+/** Runs `health <args> batch` with one line per command and returns the envelopes */
+function batch(args: string[], lines: string[][]): Envelope[] {
+  const run = spawnSync(process.execPath, ['--import', 'tsx', CLI, ...args, 'batch'], {
+    input: lines.map(line => JSON.stringify(line)).join('\n'),
+    encoding: 'utf8',
+    timeout: 60000
+  });
+  return run.stdout.trim().split('\n').map(line => JSON.parse(line));
+}
+
+describe('batch', () => {
+  test('gives every command of an unseeded mock batch the same data', () => {
+    const [status, hrv] = batch(['--source', 'mock'], [['status'], ['hrv', '--days', '7']]);
+    assert.equal(status.data_source.seed, hrv.data_source.seed);
+    assert.equal(status.result.hrv?.current, hrv.result.data?.at(-1)?.value);
+  });
+
+  test('lets an item override one global option and inherit the others', () => {
+    const [inherited, own] = batch(['--source', 'mock', '--seed', '3'], [['status'], ['--seed', '5', 'status']]);
+    assert.equal(inherited.data_source.seed, 3);
+    assert.equal(own.data_source.seed, 5);
+    assert.equal(own.data_source.type, 'mock');
+  });
+});
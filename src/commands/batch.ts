@@ -0,0 +1,139 @@
+/**
+ * Batch command - runs one command per stdin line in a single process
+ * Lines are an argv array, a command string, or an object with a correlation
+ * id: {"id": "a", "argv": ["hrv", "--days", "14"]} or {"id": "a", "command": "hrv --days 14"}.
+ * Every line gets one NDJSON envelope on stdout with the id echoed back.
+ */
+import { Either } from 'effect';
+import * as readline from 'readline';
+import { CLIResponse } from '../types/responses.js';
+import { error } from '../utils/responses.js';
+import { action, COMMON_ACTIONS } from '../utils/actions.js';
+import { NoResponse, cliFailure } from '../utils/errors.js';
+
+export type BatchId = string | number;
+
+interface BatchItem {
+  id: BatchId;
+  argv: string[];
+}
+
+/** Long-running or stdin-reading commands that cannot share a batch */
+const UNSUPPORTED = ['batch', 'mcp', 'serve'];
+
+/** Effect CLI built-ins that print help text instead of a response */
+const BUILT_IN_FLAGS = ['--help', '-h', '--version', '--wizard', '--completions', '--log-level'];
+
+/**
+ * Runs every line through `run` in order. Returns whether all of them
+ * succeeded; with stopOnError the batch ends after the first failure.
+ */
+export async function batchCommand(
+  run: (argv: string[]) => Promise<Either.Either<CLIResponse, NoResponse>>,
+  stopOnError: boolean
+): Promise<boolean> {
+  const lines = readline.createInterface({ input: process.stdin, terminal: false });
+  let lineNumber = 0;
+  let allOk = true;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) continue;
+
+    const item = parseLine(line, lineNumber);
+    const response = 'ok' in item ? item : await runItem(item, run);
+    const id = 'ok' in item ? lineNumber : item.id;
+
+    process.stdout.write(JSON.stringify({ id, ...response }) + '\n');
+    if (!response.ok) {
+      allOk = false;
+      if (stopOnError) break;
+    }
+  }
+
+  lines.close();
+  return allOk;
+}
+
+async function runItem(
+  item: BatchItem,
+  run: (argv: string[]) => Promise<Either.Either<CLIResponse, NoResponse>>
+): Promise<CLIResponse> {
+  const command = item.argv.join(' ');
+  const name = item.argv.find(arg => !arg.startsWith('-'));
+
+  if (name && UNSUPPORTED.includes(name)) {
+    return error(
+      command,
+      `${name} cannot run inside a batch`,
+      'UNSUPPORTED_IN_BATCH',
+      'Run it as its own process',
+      [action(['health', name], `Start ${name} on its own`, { rel: 'remediate' })]
+    );
+  }
+  if (item.argv.some(arg => BUILT_IN_FLAGS.includes(arg))) {
+    return error(
+      command,
+      'Help, version and wizard flags are not available inside a batch',
+      'UNSUPPORTED_IN_BATCH',
+      'Use the root command for documentation: health',
+      [COMMON_ACTIONS.ROOT]
+    );
+  }
+
+  const result = await run(item.argv);
+  return Either.getOrElse(result, ended => failedItem(command, ended));
+}
+
+/** A command that ended without a response - an invalid command line, or a crash */
+function failedItem(command: string, ended: NoResponse): CLIResponse {
+  const failure = cliFailure(command, ended) ?? { message: 'The command ended without a response', code: 'INTERNAL_ERROR' as const };
+  return error(command, failure.message, failure.code);
+}
+
+function parseLine(line: string, lineNumber: number): BatchItem | CLIResponse {
+  const trimmed = line.trim();
+  let value: unknown = trimmed;
+
+  if (/^[[{"]/.test(trimmed)) {
+    try {
+      value = JSON.parse(trimmed);
+    } catch {
+      return invalidLine(lineNumber, 'Line is not valid JSON');
+    }
+  }
+
+  let id: BatchId = lineNumber;
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    const object = value as Record<string, unknown>;
+    if (object.id !== undefined) {
+      if (typeof object.id !== 'string' && typeof object.id !== 'number') return invalidLine(lineNumber, 'id must be a string or number');
+      id = object.id;
+    }
+    value = object.argv ?? object.command;
+  }
+
+  const argv = typeof value === 'string' ? splitCommand(value)
+    : Array.isArray(value) && value.every(arg => typeof arg === 'string' || typeof arg === 'number') ? value.map(String)
+    : null;
+  if (!argv) return invalidLine(lineNumber, 'Expected an argv array, a command string, or an object with argv or command');
+
+  // A leading program name is optional
+  if (argv[0] === 'health') argv.shift();
+  return { id, argv };
+}
+
+/** Splits a command string on whitespace, keeping single- or double-quoted parts together */
+function splitCommand(command: string): string[] {
+  return [...command.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)].map(match => match[1] ?? match[2] ?? match[3]);
+}
+
+function invalidLine(lineNumber: number, message: string): CLIResponse {
+  return error(
+    `batch (line ${lineNumber})`,
+    message,
+    'INVALID_BATCH_LINE',
+    'Write one command per line, e.g. ["hrv", "--days", "14"] or {"id": "a", "command": "sleep --days 30"}',
+    [COMMON_ACTIONS.ROOT]
+  );
+}
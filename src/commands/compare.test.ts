@@ -0,0 +1,80 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { compareCommand } from './compare.js';
+import { loadFixtureProvider } from '../data/fixture.js';
+import { DataProvider } from '../data/provider.js';
+import { addDays } from '../utils/dates.js';
+
+/** Two weeks of HRV at the start of 2023 and of 2024 */
+const hrv = ['2023-01-01', '2024-01-01'].flatMap(from => Array.from({ length: 14 }, (_, i) => ({ date: addDays(from, i), value: 50 + i })));
+
+describe('compareCommand', () => {
+  let dir: string;
+  let provider: DataProvider;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-compare-'));
+    const file = path.join(dir, 'fixture.json');
+    fs.writeFileSync(file, JSON.stringify({ hrv }));
+    const loaded = loadFixtureProvider(file);
+    assert.ok(!('ok' in loaded));
+    provider = loaded;
+  });
+  after(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  const compare = (vs: string) => compareCommand(provider, { metrics: 'hrv', period: '7d', vs });
+
+  test('ends the current period on the latest day with data', () => {
+    const response = compare('previous');
+    assert.ok(response.ok);
+    assert.deepEqual(response.result.current_period, { days: 7, start_date: '2024-01-08', end_date: '2024-01-14' });
+  });
+
+  test('compares with the period before', () => {
+    const response = compare('previous');
+    assert.ok(response.ok);
+    assert.deepEqual(response.result.baseline_period, { days: 7, start_date: '2024-01-01', end_date: '2024-01-07', vs: 'previous' });
+  });
+
+  test('compares with the same dates a year earlier', () => {
+    const response = compare('same-last-year');
+    assert.ok(response.ok);
+    assert.deepEqual(response.result.baseline_period, { days: 7, start_date: '2023-01-08', end_date: '2023-01-14', vs: 'same-last-year' });
+  });
+
+  test('compares with an explicit range of any length', () => {
+    const response = compare(' 2023-01-01..2023-01-14 ');
+    assert.ok(response.ok);
+    assert.deepEqual(response.result.baseline_period, { days: 14, start_date: '2023-01-01', end_date: '2023-01-14', vs: 'range' });
+    assert.equal(response.result.metrics[0].baseline.days, 14);
+  });
+
+  test('offers to swap a range given backwards', () => {
+    const response = compare('2023-01-14..2023-01-01');
+    assert.ok(!response.ok);
+    assert.equal(response.error.code, 'INVALID_RANGE');
+    assert.deepEqual(response.next_actions[0].argv, ['health', 'compare', '--metric', 'hrv', '--period', '7d', '--vs', '2023-01-01..2023-01-14']);
+  });
+
+  test('rejects a range longer than the source covers', () => {
+    // The fixture covers 379 days, so that is the longest range
+    assert.ok(compare('2023-01-01..2024-01-14').ok);
+
+    const response = compare('2022-12-31..2024-01-14');
+    assert.ok(!response.ok);
+    assert.equal(response.error.code, 'INVALID_DAYS_RANGE');
+    assert.match(response.error.message, /is 380 days; comparisons support up to 379/);
+    assert.deepEqual(response.next_actions[0].argv, ['health', 'compare', '--metric', 'hrv', '--period', '7d', '--vs', '2024-01-08..2024-01-14']);
+  });
+
+  test('rejects anything else', () => {
+    for (const [vs, code] of [['last-week', 'INVALID_COMPARISON'], ['2023-01-01..2023-02-30', 'INVALID_DATE']]) {
+      const response = compare(vs);
+      assert.ok(!response.ok);
+      assert.equal(response.error.code, code);
+    }
+  });
+});
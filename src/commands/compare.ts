@@ -0,0 +1,316 @@
+/**
+ * Compare command - one period against another across metrics, e.g. this
+ * week against last week or a training block against the same weeks a year
+ * earlier, with a significance test per metric
+ */
+import { success, error } from '../utils/responses.js';
+import { action, because, COMMON_ACTIONS, PARAMS } from '../utils/actions.js';
+import { MAX_DAYS } from '../utils/period.js';
+import { addDays, addYears, daysBetween, isValidDay, parseDuration, toDay } from '../utils/dates.js';
+import { NextAction } from '../types/responses.js';
+import { DataProvider, Metric } from '../data/provider.js';
+import {
+  COMPARE_METRIC_NAMES,
+  COMPARE_METRICS,
+  CompareMetric,
+  compareMetric,
+  DateRange,
+  isCompareMetric,
+  MetricComparison
+} from '../data/comparison.js';
+import { ALPHA } from '../data/statistics.js';
+import { CompareResult, CompareResultSchema } from '../types/schemas.js';
+
+export interface CompareOptions {
+  /** Comma-separated metric names; every metric when left out */
+  metrics?: string;
+  period: string;
+  vs: string;
+}
+
+type Baseline = CompareResult['baseline_period']['vs'];
+
+const DAY_MS = 86400000;
+
+/** Fewest days a side that can reach significance: with 3 against 3 the smallest exact p-value is 0.1 */
+const MIN_TESTABLE_DAYS = 4;
+
+/** Where to look at each metric day by day over the current period */
+const DRILL_ACTIONS: Record<CompareMetric, (period: DateRange, days: number) => NextAction> = {
+  hrv: period => action(['health', 'hrv', '--from', '{from}', '--to', '{to}'], 'Analyze HRV over the current period', {
+    rel: 'drill-down',
+    params: [PARAMS.date('from', period.from, 'First day, YYYY-MM-DD'), PARAMS.date('to', period.to, 'Last day, YYYY-MM-DD')]
+  }),
+  resting_hr: (_, days) => action(['health', 'heart', '--days', '{days}'], 'Check resting HR over the current period', { rel: 'drill-down', params: [PARAMS.days(days)] }),
+  sleep: period => action(['health', 'sleep', '--from', '{from}', '--to', '{to}'], 'Review sleep over the current period', {
+    rel: 'drill-down',
+    params: [PARAMS.date('from', period.from, 'First day, YYYY-MM-DD'), PARAMS.date('to', period.to, 'Last day, YYYY-MM-DD')]
+  }),
+  sleep_score: period => action(['health', 'sleep', '--from', '{from}', '--to', '{to}'], 'Review sleep quality over the current period', {
+    rel: 'drill-down',
+    params: [PARAMS.date('from', period.from, 'First day, YYYY-MM-DD'), PARAMS.date('to', period.to, 'Last day, YYYY-MM-DD')]
+  }),
+  steps: (_, days) => action(['health', 'activity', '--days', '{days}'], 'Review daily activity over the current period', { rel: 'drill-down', params: [PARAMS.days(days)] }),
+  active_calories: (_, days) => action(['health', 'activity', '--days', '{days}'], 'Review daily activity over the current period', { rel: 'drill-down', params: [PARAMS.days(days)] }),
+  exercise_minutes: (_, days) => action(['health', 'activity', '--days', '{days}'], 'Review daily activity over the current period', { rel: 'drill-down', params: [PARAMS.days(days)] })
+};
+
+/**
+ * Compares the last `period` days, ending on the latest day with data,
+ * against the period before, the same dates a year earlier or an explicit
+ * range
+ */
+export function compareCommand(provider: DataProvider, options: CompareOptions) {
+  const command = [
+    'compare',
+    ...(options.metrics !== undefined ? ['--metric', options.metrics] : []),
+    '--period', options.period,
+    '--vs', options.vs
+  ].join(' ');
+
+  const names = options.metrics === undefined
+    ? COMPARE_METRIC_NAMES
+    : [...new Set(options.metrics.split(',').map(name => name.trim()).filter(name => name !== ''))];
+  const unknown = names.filter(name => !isCompareMetric(name));
+  if (unknown.length > 0 || names.length === 0) {
+    const known = names.filter(isCompareMetric);
+    return error(
+      command,
+      names.length === 0 ? 'No metric given' : `Unknown metric: ${unknown.join(', ')}`,
+      'INVALID_METRIC',
+      `Use a comma-separated list of ${COMPARE_METRIC_NAMES.join(', ')}`,
+      [
+        ...(known.length > 0 ? [action(['health', 'compare', '--metric', known.join(','), '--period', options.period, '--vs', options.vs], 'Compare the known metrics only', { rel: 'remediate' })] : []),
+        action(['health', 'compare', '--period', options.period, '--vs', options.vs], 'Compare every metric', { rel: 'remediate' })
+      ]
+    );
+  }
+  const metrics = names as CompareMetric[];
+
+  const invalidPeriod = (message: string, fix: string) => error(
+    command,
+    message,
+    'INVALID_PERIOD',
+    fix,
+    [
+      action(compareArgv(options, '7d', options.vs), 'Compare weeks', { rel: 'remediate' }),
+      action(compareArgv(options, '28d', options.vs), 'Compare 4-week blocks', { rel: 'remediate' })
+    ]
+  );
+
+  const duration = parseDuration(options.period);
+  if (duration === null || !/[dw]$/.test(options.period.trim())) {
+    return invalidPeriod(`Invalid period: ${options.period}`, 'Use a whole number followed by d or w - e.g. 7d, 28d or 4w');
+  }
+  const days = duration / DAY_MS;
+
+  const sources = [...new Set(metrics.map(metric => COMPARE_METRICS[metric].source))] as Metric[];
+  const source = provider.describe(sources);
+  const coverage = source.coverage ?? null;
+  const dataEnd = coverage?.end ?? source.as_of ?? toDay(provider.now());
+  // A store with a longer history can compare longer periods
+  const maxDays = Math.max(MAX_DAYS, coverage ? daysBetween(coverage.start, coverage.end) + 1 : 0);
+  if (days > maxDays) {
+    return invalidPeriod(`A ${days}-day period is longer than the ${maxDays} days the ${provider.name} source supports`, `Use a period of at most ${maxDays} days`);
+  }
+
+  const current: DateRange = { from: addDays(dataEnd, -(days - 1)), to: dataEnd };
+  const baseline = resolveBaseline(command, options, current, days, maxDays);
+  if ('ok' in baseline) return baseline;
+
+  // Reads count back from the latest day, so reach back to the earlier of the two periods
+  const earliest = baseline.range.from < current.from ? baseline.range.from : current.from;
+  const history = daysBetween(earliest, dataEnd) + 1;
+  const comparisons = metrics.map(metric => compareMetric(metric, COMPARE_METRICS[metric].daily(provider, history), current, baseline.range));
+
+  if (comparisons.every(c => c.current.days === 0 && c.baseline.days === 0)) {
+    return error(
+      command,
+      `No ${metrics.map(metric => COMPARE_METRICS[metric].label).join(', ')} data from the ${provider.name} source in either period`,
+      'NO_DATA',
+      'Import an Apple Health export that covers both periods',
+      [
+        COMMON_ACTIONS.IMPORT,
+        COMMON_ACTIONS.STATUS
+      ]
+    );
+  }
+
+  const mostChanged = comparisons
+    .filter(c => c.test !== null)
+    .sort((a, b) => Math.abs(b.test!.effect_size) - Math.abs(a.test!.effect_size))[0];
+
+  const summary: Omit<CompareResult, 'insights'> = {
+    current_period: { days, start_date: current.from, end_date: current.to },
+    baseline_period: {
+      days: daysBetween(baseline.range.from, baseline.range.to) + 1,
+      start_date: baseline.range.from,
+      end_date: baseline.range.to,
+      vs: baseline.vs
+    },
+    alpha: ALPHA,
+    metrics: comparisons.map(describeComparison),
+    most_changed: mostChanged?.metric ?? null
+  };
+  const result: CompareResult = { ...summary, insights: generateCompareInsights(summary) };
+
+  const nextActions: NextAction[] = [];
+
+  // Drill into whichever metric moved most
+  if (mostChanged) {
+    const { label } = COMPARE_METRICS[mostChanged.metric];
+    const { effect_size, magnitude, p_value, significant } = mostChanged.test!;
+    nextActions.push(because(
+      DRILL_ACTIONS[mostChanged.metric](current, days),
+      `Added because ${label} moved most: a ${magnitude} effect (r = ${effect_size}, p = ${p_value})`,
+      significant ? 'high' : 'medium'
+    ));
+  }
+
+  const worse = result.metrics.filter(m => m.assessment === 'worse');
+  if (worse.length > 0) {
+    nextActions.push(because(COMMON_ACTIONS.ALERTS, `Added because ${worse.map(m => m.label).join(', ')} got significantly worse`, 'medium'));
+  }
+
+  if (baseline.vs !== 'previous') {
+    nextActions.push(action(compareArgv(options, options.period, 'previous'), `Compare with the ${days} days before`, { rel: 'navigate' }));
+  }
+  // Only offer periods the source has data for
+  const covers = (day: string) => coverage === null || coverage.start <= day;
+  if (baseline.vs !== 'same-last-year' && covers(addYears(current.from, -1))) {
+    nextActions.push(action(compareArgv(options, options.period, 'same-last-year'), 'Compare with the same dates last year', { rel: 'navigate' }));
+  }
+  if (days < 28 && covers(addDays(dataEnd, -55))) {
+    nextActions.push(action(compareArgv(options, '28d', options.vs), 'Compare 4-week blocks', { rel: 'widen-range' }));
+  }
+  nextActions.push(COMMON_ACTIONS.READINESS);
+
+  return success(
+    command,
+    CompareResultSchema,
+    result,
+    nextActions,
+    provider.describe(sources)
+  );
+}
+
+/** The baseline period from --vs: the period before, the same dates a year earlier, or YYYY-MM-DD..YYYY-MM-DD */
+function resolveBaseline(command: string, options: CompareOptions, current: DateRange, days: number, maxDays: number) {
+  const vs = options.vs.trim();
+  if (vs === 'previous') {
+    return { vs: 'previous' as Baseline, range: { from: addDays(current.from, -days), to: addDays(current.from, -1) } };
+  }
+  if (vs === 'same-last-year') {
+    return { vs: 'same-last-year' as Baseline, range: { from: addYears(current.from, -1), to: addYears(current.to, -1) } };
+  }
+
+  const rangeArgv = (from: string, to: string) => compareArgv(options, options.period, `${from}..${to}`);
+  const match = vs.match(/^(\S+)\.\.(\S+)$/);
+  if (!match) {
+    return error(
+      command,
+      `Invalid comparison: ${options.vs}`,
+      'INVALID_COMPARISON',
+      'Use --vs previous, --vs same-last-year or a YYYY-MM-DD..YYYY-MM-DD range',
+      [
+        action(compareArgv(options, options.period, 'previous'), 'Compare with the period before', { rel: 'remediate' }),
+        action(compareArgv(options, options.period, 'same-last-year'), 'Compare with the same dates last year', { rel: 'remediate' })
+      ]
+    );
+  }
+
+  const [from, to] = [match[1], match[2]];
+  const invalid = [from, to].find(day => !isValidDay(day));
+  if (invalid !== undefined) {
+    return error(
+      command,
+      `Invalid date: ${invalid}`,
+      'INVALID_DATE',
+      'Use calendar dates in YYYY-MM-DD format, e.g. --vs 2024-01-01..2024-01-07',
+      [
+        action(rangeArgv(addDays(current.from, -days), addDays(current.from, -1)), 'Compare with the period before as an explicit range', { rel: 'remediate' })
+      ]
+    );
+  }
+  if (from > to) {
+    return error(
+      command,
+      `The range starts on ${from}, after it ends on ${to}`,
+      'INVALID_RANGE',
+      'Put the earlier date first',
+      [action(rangeArgv(to, from), 'Swap the dates', { rel: 'remediate' })]
+    );
+  }
+  const length = daysBetween(from, to) + 1;
+  if (length > maxDays) {
+    return error(
+      command,
+      `The range from ${from} to ${to} is ${length} days; comparisons support up to ${maxDays}`,
+      'INVALID_DAYS_RANGE',
+      `Use a range of at most ${maxDays} days`,
+      [action(rangeArgv(addDays(to, -(days - 1)), to), `Compare with the ${days} days up to ${to}`, { rel: 'remediate' })]
+    );
+  }
+  return { vs: 'range' as Baseline, range: { from, to } };
+}
+
+/** The compare command line with another period or baseline, keeping --metric */
+function compareArgv(options: CompareOptions, period: string, vs: string): string[] {
+  return [
+    'health', 'compare',
+    ...(options.metrics !== undefined ? ['--metric', options.metrics] : []),
+    '--period', period, '--vs', vs
+  ];
+}
+
+function describeComparison(comparison: MetricComparison): CompareResult['metrics'][number] {
+  const { label, unit } = COMPARE_METRICS[comparison.metric];
+  const { test } = comparison;
+  return {
+    metric: comparison.metric,
+    label,
+    unit,
+    current: comparison.current,
+    baseline: comparison.baseline,
+    change: comparison.change,
+    change_percent: comparison.change_percent,
+    effect_size: test?.effect_size ?? null,
+    magnitude: test?.magnitude ?? null,
+    test: test && { u: test.u, p_value: test.p_value, exact: test.exact, significant: test.significant },
+    assessment: comparison.assessment
+  };
+}
+
+function generateCompareInsights(result: Omit<CompareResult, 'insights'>): string[] {
+  const insights = [];
+  const describe = (m: CompareResult['metrics'][number]) => {
+    const change = m.change_percent !== null ? `${Math.abs(m.change_percent)}%` : `${Math.abs(m.change!)} ${m.unit}`;
+    return `${m.label} ${m.change! >= 0 ? 'up' : 'down'} ${change} (${m.current.mean} vs ${m.baseline.mean} ${m.unit})`;
+  };
+
+  const significant = result.metrics.filter(m => m.test?.significant);
+  for (const m of significant) {
+    const icon = m.assessment === 'better' ? '✅' : '⚠️';
+    insights.push(`${icon} ${describe(m)}, a ${m.magnitude} effect (p = ${m.test!.p_value}) - ${m.assessment}`);
+  }
+
+  const noisy = result.metrics.filter(m => m.test && !m.test.significant && (m.magnitude === 'medium' || m.magnitude === 'large'));
+  for (const m of noisy) {
+    insights.push(`↔️ ${describe(m)}, but not significant (p = ${m.test!.p_value}) - it may be day-to-day variation`);
+  }
+
+  if (significant.length === 0 && result.metrics.some(m => m.test)) {
+    insights.push(`➖ No metric changed significantly from ${result.baseline_period.start_date}..${result.baseline_period.end_date} to ${result.current_period.start_date}..${result.current_period.end_date}`);
+  }
+
+  const untested = result.metrics.filter(m => !m.test);
+  if (untested.length > 0) {
+    insights.push(`ℹ️ Too few days of ${untested.map(m => m.label).join(', ')} in one of the periods to compare`);
+  }
+
+  if (result.metrics.some(m => m.test && Math.min(m.current.days, m.baseline.days) < MIN_TESTABLE_DAYS)) {
+    insights.push(`ℹ️ With fewer than ${MIN_TESTABLE_DAYS} days a side no change can reach significance - try a longer --period`);
+  }
+
+  return insights;
+}
@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { configValidateCommand } from './config.js';
+
+describe('configValidateCommand', () => {
+  let dir: string;
+
+  beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-config-')); });
+  afterEach(() => {
+    delete process.env.HEALTH_CLI_CONFIG;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const validate = (configPath: string) => {
+    process.env.HEALTH_CLI_CONFIG = configPath;
+    const response = configValidateCommand();
+    assert.ok(!response.ok);
+    assert.equal(response.error.code, 'INVALID_CONFIG');
+    return response;
+  };
+
+  test('asks for valid JSON when the file does not parse', () => {
+    const file = path.join(dir, 'config.json');
+    fs.writeFileSync(file, '{"alerts":');
+    assert.equal(validate(file).fix, 'The config file must be valid JSON - fix the syntax or delete the file');
+  });
+
+  test('asks for a readable file when reading it fails', () => {
+    const response = validate(dir);
+    assert.match(response.error.message, /EISDIR/);
+    assert.equal(response.fix, `Make ${dir} a readable file, or point HEALTH_CLI_CONFIG at another one`);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Config commands - read, change and validate the user config file
+ */
+import { Either } from 'effect';
+import * as fs from 'fs';
+import { success, error } from '../utils/responses.js';
+import { isSystemError } from '../utils/errors.js';
+import { action, COMMON_ACTIONS } from '../utils/actions.js';
+import {
+  getConfigPath,
+  readConfigFile,
+  validateConfig,
+  resolveConfig,
+  writeConfigFile,
+  getPath,
+  setPath,
+  THRESHOLD_KEYS
+} from '../utils/config.js';
+import { ConfigGetResultSchema, ConfigSetResultSchema, ConfigValidateResultSchema } from '../types/schemas.js';
+
+const CONFIG_ACTIONS = {
+  GET: action(['health', 'config', 'get'], 'Show the effective configuration', { rel: 'navigate' }),
+  VALIDATE: action(['health', 'config', 'validate'], 'Check the config file for problems', { rel: 'remediate' }),
+  ALERTS: action(['health', 'alert'], 'Check alerts with the current thresholds', { rel: 'navigate' })
+};
+
+export function configGetCommand(key?: string) {
+  const command = key ? `config get ${key}` : 'config get';
+  const raw = readRawConfig(command);
+  if ('ok' in raw) return raw;
+
+  const validated = validateConfig(raw.value);
+  if (Either.isLeft(validated)) return invalidConfig(command, validated.left);
+  const effective = resolveConfig(validated.right);
+
+  if (!key) {
+    return success(command, ConfigGetResultSchema, {
+      path: getConfigPath(),
+      exists: fs.existsSync(getConfigPath()),
+      config: effective
+    }, [
+      CONFIG_ACTIONS.VALIDATE,
+      action(['health', 'config', 'set', 'alerts.thresholds.hrv_low.warning', '{value}'], 'Override a threshold', {
+        rel: 'navigate',
+        params: [{ name: 'value', type: 'string', required: true, default: 35 }]
+      })
+    ]);
+  }
+
+  const value = getPath(effective, key);
+  if (value === undefined) {
+    return error(
+      command,
+      `Unknown config key: ${key}`,
+      'UNKNOWN_CONFIG_KEY',
+      `Use a dotted path such as alerts.thresholds.<name>.warning where <name> is one of: ${THRESHOLD_KEYS.join(', ')}`,
+      [CONFIG_ACTIONS.GET]
+    );
+  }
+
+  return success(command, ConfigGetResultSchema, {
+    key,
+    value,
+    source: getPath(raw.value, key) === undefined ? 'default' : 'file'
+  }, [
+    action(['health', 'config', 'set', key, '{value}'], 'Change this value', {
+      rel: 'navigate',
+      params: [{ name: 'value', type: 'string', required: true, description: 'A number, true/false, or text' }]
+    }),
+    CONFIG_ACTIONS.GET
+  ]);
+}
+
+export function configSetCommand(key: string, rawValue: string) {
+  const command = `config set ${key} ${rawValue}`;
+  const raw = readRawConfig(command);
+  if ('ok' in raw) return raw;
+
+  const value = parseValue(rawValue);
+  const updated = setPath(raw.value, key, value);
+
+  // Validate before writing so a bad value never lands on disk
+  const validated = validateConfig(updated);
+  if (Either.isLeft(validated)) return invalidConfig(command, validated.left, false);
+
+  writeConfigFile(validated.right);
+
+  return success(command, ConfigSetResultSchema, {
+    path: getConfigPath(),
+    key,
+    value,
+    previous: getPath(raw.value, key) ?? null,
+    effective: getPath(resolveConfig(validated.right), key)
+  }, [
+    CONFIG_ACTIONS.ALERTS,
+    CONFIG_ACTIONS.GET
+  ]);
+}
+
+export function configValidateCommand() {
+  const raw = readRawConfig('config validate');
+  if ('ok' in raw) return raw;
+
+  const validated = validateConfig(raw.value);
+  if (Either.isLeft(validated)) return invalidConfig('config validate', validated.left);
+
+  const thresholds = resolveConfig(validated.right).alerts.thresholds;
+  return success('config validate', ConfigValidateResultSchema, {
+    path: getConfigPath(),
+    exists: fs.existsSync(getConfigPath()),
+    valid: true,
+    enabled_thresholds: THRESHOLD_KEYS.filter(key => thresholds[key].enabled),
+    disabled_thresholds: THRESHOLD_KEYS.filter(key => !thresholds[key].enabled)
+  }, [
+    CONFIG_ACTIONS.ALERTS,
+    CONFIG_ACTIONS.GET
+  ]);
+}
+
+function readRawConfig(command: string) {
+  try {
+    return { value: readConfigFile() };
+  } catch (readError: unknown) {
+    // A failed read (EACCES, EISDIR) is not fixed by editing the file
+    return error(
+      command,
+      `Could not read ${getConfigPath()}: ${readError instanceof Error ? readError.message : String(readError)}`,
+      'INVALID_CONFIG',
+      isSystemError(readError)
+        ? `Make ${getConfigPath()} a readable file, or point HEALTH_CLI_CONFIG at another one`
+        : 'The config file must be valid JSON - fix the syntax or delete the file',
+      [CONFIG_ACTIONS.VALIDATE]
+    );
+  }
+}
+
+function invalidConfig(command: string, issues: { path: string; message: string }[], onDisk: boolean = true) {
+  return error(
+    command,
+    `${onDisk ? 'Config file is invalid' : 'Value rejected'}: ${issues.map(i => `${i.path}: ${i.message}`).join('; ')}`,
+    'INVALID_CONFIG',
+    onDisk
+      ? `Correct the listed keys in ${getConfigPath()}`
+      : 'Thresholds take numbers for warning/critical and true/false for enabled',
+    [
+      CONFIG_ACTIONS.GET,
+      COMMON_ACTIONS.ROOT
+    ]
+  );
+}
+
+/** Values are JSON when they parse (numbers, booleans), plain strings otherwise */
+function parseValue(rawValue: string): unknown {
+  try {
+    return JSON.parse(rawValue);
+  } catch {
+    return rawValue;
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Command definitions - Effect CLI's Command, Options and Args builders,
+ * wrapped to record what each command, option and argument is as it is
+ * built. help.ts documents the commands and tools.ts derives tool input
+ * schemas from these records; Effect CLI keeps the same information in
+ * internal descriptors. Only the builders index.ts uses are here, under the
+ * names it would import from @effect/cli.
+ */
+import { Args as CliArgs, Command as CliCommand, Options as CliOptions } from '@effect/cli';
+import { Effect, Option, Types } from 'effect';
+import { ParameterDoc } from '../types/schemas.js';
+
+export interface Constraints {
+  min?: number;
+  max?: number;
+}
+
+export interface CommandNotes {
+  examples?: string[];
+  note?: string;
+}
+
+export interface CommandDefinition extends CommandNotes {
+  name: string;
+  description: string;
+  options: ParameterDoc[];
+  args: ParameterDoc[];
+  subcommands: CommandDefinition[];
+}
+
+type PathExists = 'yes' | 'no' | 'either';
+
+// Commands are invariant in their parsed type, so the list takes Effect CLI's own bound
+type SubcommandList = Parameters<typeof CliCommand.withSubcommands>[1];
+
+// Builders return new objects, so each record is keyed by the object it describes
+const parameters = new WeakMap<object, ParameterDoc>();
+// Keyed by descriptor: Command.provideEffect and the like keep it, so the root's record survives them
+const commands = new WeakMap<object, CommandDefinition>();
+
+/** What an option or argument was defined as */
+export function parameterDoc(parameter: CliOptions.Options<unknown> | CliArgs.Args<unknown>): ParameterDoc {
+  const doc = parameters.get(parameter);
+  if (!doc) throw new Error('The option or argument was not built with the builders in definitions.ts');
+  return doc;
+}
+
+/** What a command was defined as, with its subcommands */
+export function commandDefinition<Name extends string, R, E, A>(command: CliCommand.Command<Name, R, E, A>): CommandDefinition {
+  const definition = commands.get(command.descriptor);
+  if (!definition) throw new Error('The command was not built with the builders in definitions.ts');
+  return definition;
+}
+
+function recordParameter<P extends object>(parameter: P, doc: ParameterDoc): P {
+  parameters.set(parameter, doc);
+  return parameter;
+}
+
+function recordCommand<Name extends string, R, E, A>(command: CliCommand.Command<Name, R, E, A>, definition: CommandDefinition): CliCommand.Command<Name, R, E, A> {
+  commands.set(command.descriptor, definition);
+  return command;
+}
+
+/**
+ * Rejects values outside a numeric range and records it, e.g. --days 1-90.
+ * Optional options are only checked when given.
+ */
+export function withConstraints(range: Constraints) {
+  return <A extends number | Option.Option<number>>(option: CliOptions.Options<A>): CliOptions.Options<A> => {
+    const doc = parameterDoc(option);
+    const inRange = (value: number) => (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+    const accepts = (value: number | Option.Option<number>) => Option.isOption(value) ? Option.isNone(value) || inRange(value.value) : inRange(value);
+    const checked = CliOptions.filterMap(option, value => accepts(value) ? Option.some(value) : Option.none(), `${doc.name} must be ${rangeText(range)}`);
+    return recordParameter(checked, { ...doc, ...range });
+  };
+}
+
+function rangeText({ min, max }: Constraints): string {
+  if (min !== undefined && max !== undefined) return `between ${min} and ${max}`;
+  return min !== undefined ? `at least ${min}` : `at most ${max}`;
+}
+
+/** Records examples and a note for a command */
+export function withDocs(docs: CommandNotes) {
+  return <Name extends string, R, E, A>(command: CliCommand.Command<Name, R, E, A>) => recordCommand(command, {
+    ...commandDefinition(command),
+    ...(docs.examples && { examples: docs.examples }),
+    ...(docs.note && { note: docs.note })
+  });
+}
+
+function pathDoc(exists: PathExists | undefined): Pick<ParameterDoc, 'type' | 'must_exist'> {
+  return { type: 'path', ...(exists === 'yes' && { must_exist: true }) };
+}
+
+function withDefaultDoc(doc: ParameterDoc, fallback: unknown): ParameterDoc {
+  // Options.optional and Args.optional have no value at all to fall back to
+  const hasDefault = typeof fallback === 'string' || typeof fallback === 'number' || typeof fallback === 'boolean';
+  const { default: _, ...rest } = doc;
+  return { ...rest, required: false, ...(hasDefault && { default: fallback }) };
+}
+
+export const Options = {
+  text: (name: string) =>
+    recordParameter(CliOptions.text(name), { name: `--${name}`, type: 'string', required: true }),
+
+  integer: (name: string) =>
+    recordParameter(CliOptions.integer(name), { name: `--${name}`, type: 'integer', required: true }),
+
+  choice: <A extends string, C extends ReadonlyArray<A>>(name: string, choices: C) =>
+    recordParameter(CliOptions.choice(name, choices), { name: `--${name}`, type: 'choice', required: true, choices: [...choices] }),
+
+  file: (name: string, config?: { exists?: PathExists }) =>
+    recordParameter(CliOptions.file(name, config), { name: `--${name}`, ...pathDoc(config?.exists), required: true }),
+
+  boolean: (name: string) =>
+    recordParameter(CliOptions.boolean(name), { name: `--${name}`, type: 'boolean', required: false, default: false }),
+
+  withDescription: (description: string) => <A>(self: CliOptions.Options<A>) =>
+    recordParameter(CliOptions.withDescription(self, description), { ...parameterDoc(self), description }),
+
+  withDefault: <const B>(fallback: B) => <A>(self: CliOptions.Options<A>) =>
+    recordParameter(CliOptions.withDefault(self, fallback), withDefaultDoc(parameterDoc(self), fallback)),
+
+  optional: <A>(self: CliOptions.Options<A>) =>
+    recordParameter(CliOptions.optional(self), withDefaultDoc(parameterDoc(self), undefined))
+};
+
+export const Args = {
+  text: (config: { name: string }) =>
+    recordParameter(CliArgs.text(config), { name: `<${config.name}>`, type: 'string', required: true }),
+
+  file: (config: { name: string; exists?: PathExists }) =>
+    recordParameter(CliArgs.file(config), { name: `<${config.name}>`, ...pathDoc(config.exists), required: true }),
+
+  withDescription: (description: string) => <A>(self: CliArgs.Args<A>) =>
+    recordParameter(CliArgs.withDescription(self, description), { ...parameterDoc(self), description }),
+
+  optional: <A>(self: CliArgs.Args<A>) =>
+    recordParameter(CliArgs.optional(self), withDefaultDoc(parameterDoc(self), undefined)),
+
+  repeated: <A>(self: CliArgs.Args<A>) =>
+    recordParameter(CliArgs.repeated(self), { ...parameterDoc(self), required: false, repeated: true })
+};
+
+function make<Name extends string, const Config extends CliCommand.Command.Config, R, E>(
+  name: Name,
+  config: Config,
+  handler: (_: Types.Simplify<CliCommand.Command.ParseConfig<Config>>) => Effect.Effect<void, E, R>
+) {
+  // The repo's configs are flat records of options and arguments
+  const values = Object.values(config);
+  return recordCommand(CliCommand.make(name, config, handler), {
+    name,
+    description: '',
+    options: values.filter(CliOptions.isOptions).map(parameterDoc),
+    args: values.filter(CliArgs.isArgs).map(parameterDoc),
+    subcommands: []
+  });
+}
+
+function withDescription(description: string) {
+  return <Name extends string, R, E, A>(self: CliCommand.Command<Name, R, E, A>) =>
+    recordCommand(CliCommand.withDescription(self, description), { ...commandDefinition(self), description });
+}
+
+function withSubcommands<Subcommands extends SubcommandList>(subcommands: Subcommands) {
+  return <Name extends string, R, E, A>(self: CliCommand.Command<Name, R, E, A>) =>
+    recordCommand(CliCommand.withSubcommands(self, subcommands), {
+      ...commandDefinition(self),
+      subcommands: subcommands.map(commandDefinition)
+    });
+}
+
+export const Command = {
+  make,
+  withDescription,
+  withSubcommands,
+  // These keep the descriptor, and with it the record
+  provideEffect: CliCommand.provideEffect,
+  provideEffectDiscard: CliCommand.provideEffectDiscard,
+  run: CliCommand.run
+};
+
+export declare namespace Command {
+  export type Command<Name extends string, R, E, A> = CliCommand.Command<Name, R, E, A>;
+  export namespace Command {
+    export type ParseConfig<Config extends CliCommand.Command.Config> = CliCommand.Command.ParseConfig<Config>;
+  }
+}
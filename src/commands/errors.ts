@@ -0,0 +1,36 @@
+/**
+ * Errors command - the error registry: every error code with its exit code,
+ * category, retryability and default fix
+ */
+import { success, error } from '../utils/responses.js';
+import { action, COMMON_ACTIONS } from '../utils/actions.js';
+import { ERRORS, ERROR_CODES, ErrorCode, isErrorCode } from '../utils/errors.js';
+import { ErrorsResultSchema } from '../types/schemas.js';
+
+export function errorsCommand(code?: string) {
+  if (!code) {
+    return success('errors', ErrorsResultSchema, {
+      errors: ERROR_CODES.map(describeError)
+    }, [
+      action(['health', 'errors', '{code}'], 'Show one error code', {
+        rel: 'drill-down',
+        params: [{ name: 'code', type: 'string', required: true, default: 'NO_DATA', description: 'An error code, e.g. INVALID_DAYS_RANGE' }]
+      }),
+      COMMON_ACTIONS.ROOT
+    ]);
+  }
+
+  const key = code.toUpperCase();
+  if (!isErrorCode(key)) {
+    return error(`errors ${code}`, `Unknown error code: ${code}`, 'UNKNOWN_ERROR_CODE');
+  }
+
+  return success(`errors ${code}`, ErrorsResultSchema, describeError(key), [
+    action(['health', 'errors'], 'List every error code', { rel: 'navigate' }),
+    ...ERRORS[key].next_actions
+  ]);
+}
+
+function describeError(code: ErrorCode) {
+  return { code, ...ERRORS[code] };
+}
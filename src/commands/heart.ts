@@ -0,0 +1,279 @@
+/**
+ * Heart command - resting heart rate against its baseline, time in heart
+ * rate zones and post-workout recovery
+ */
+import { success, error } from '../utils/responses.js';
+import { action, because, COMMON_ACTIONS, PARAMS } from '../utils/actions.js';
+import { addDays } from '../utils/dates.js';
+import { loadConfig, HealthConfig } from '../utils/config.js';
+import { DataProvider } from '../data/provider.js';
+import { DEFAULT_MAX_HR, maxHeartRate } from '../data/health.js';
+import { compareHalves } from '../data/statistics.js';
+import { HeartRateData, HeartRecoveryData } from '../types/responses.js';
+import { HeartResult, HeartResultSchema } from '../types/schemas.js';
+
+/** Days before the latest reading that make up the resting HR baseline */
+const BASELINE_DAYS = 30;
+
+/** Zone boundaries as fractions of max HR, or of the heart rate reserve */
+const ZONE_BOUNDS = [0.5, 0.6, 0.7, 0.8, 0.9, 1.0];
+const ZONE_NAMES = ['Very light', 'Light', 'Moderate', 'Hard', 'Maximum'];
+
+export function heartCommand(provider: DataProvider, days: number = 7) {
+  const command = `heart --days ${days}`;
+
+  // Validate input
+  if (days < 1 || days > 90) {
+    return error(
+      command,
+      'Days parameter must be between 1 and 90',
+      'INVALID_DAYS_RANGE',
+      'Use a value between 1 and 90 days',
+      [
+        action(['health', 'heart'], 'Use default 7 days', { rel: 'remediate' }),
+        action(['health', 'heart', '--days', '{days}'], 'Try 2 weeks', { rel: 'remediate', params: [PARAMS.days(14)] }),
+        action(['health', 'heart', '--days', '{days}'], 'Try 1 month', { rel: 'remediate', params: [PARAMS.days(30)] })
+      ]
+    );
+  }
+
+  const config = loadConfig(command);
+  if ('ok' in config) return config;
+
+  // Read the baseline period too, so drift can be judged on the first day of the window
+  const history = provider.heart(days + BASELINE_DAYS);
+
+  if (history.length === 0) {
+    return error(
+      command,
+      `No heart rate data available from the ${provider.name} source`,
+      'NO_DATA',
+      'Import an Apple Health export that contains Heart Rate or Resting Heart Rate records',
+      [
+        COMMON_ACTIONS.IMPORT,
+        COMMON_ACTIONS.HRV
+      ]
+    );
+  }
+
+  const endDate = history[history.length - 1].date;
+  const startDate = addDays(endDate, -(days - 1));
+  const heartData = history.filter(d => d.date >= startDate);
+  const recoveries = provider.hrRecovery(days).filter(d => d.date >= startDate && d.date <= endDate);
+
+  const restingHr = analyzeRestingHr(heartData, history, config);
+  const zones = analyzeZones(heartData, config, restingHr.baseline ?? restingHr.average);
+  const summary: Omit<HeartResult, 'insights'> = {
+    period: {
+      days: days,
+      start_date: heartData[0].date,
+      end_date: endDate
+    },
+    resting_hr: restingHr,
+    walking_hr: {
+      latest: [...heartData].reverse().find(d => d.walking_hr_avg !== null)?.walking_hr_avg ?? null,
+      average: mean(heartData.map(d => d.walking_hr_avg))
+    },
+    zones,
+    recovery: analyzeRecovery(recoveries),
+    data: heartData.map(d => ({
+      date: d.date,
+      resting_hr: d.resting_hr,
+      walking_hr_avg: d.walking_hr_avg,
+      zone_minutes: zones.zones.map((zone, index) => minutesBetween([d], zone.min_bpm, index === 4 ? Infinity : zone.max_bpm))
+    }))
+  };
+  const result: HeartResult = { ...summary, insights: generateHeartInsights(summary) };
+
+  const nextActions = [
+    COMMON_ACTIONS.STATUS,
+    COMMON_ACTIONS.HRV
+  ];
+
+  if (result.resting_hr.elevated) {
+    nextActions.unshift(because(COMMON_ACTIONS.ALERTS, `Added because resting HR is ${result.resting_hr.drift} bpm above its baseline`));
+  }
+
+  if (result.zones.max_hr_source === 'default') {
+    nextActions.push(action(['health', 'config', 'set', 'heart.max_hr', '{bpm}'], 'Set your max heart rate so zones fit you', {
+      rel: 'remediate',
+      priority: 'low',
+      params: [{ name: 'bpm', type: 'integer', required: true, min: 100, max: 230, description: 'Highest heart rate reached in a maximal effort' }]
+    }));
+  }
+
+  // Add period-specific next actions
+  if (days === 7) {
+    nextActions.push(action(['health', 'heart', '--days', '{days}'], 'Compare with the last month', {
+      rel: 'widen-range',
+      params: [PARAMS.days(30)]
+    }));
+  }
+
+  return success(
+    command,
+    HeartResultSchema,
+    result,
+    nextActions,
+    provider.describe(['heart'])
+  );
+}
+
+/**
+ * The baseline is the 30 days before the latest reading, so a rise does not
+ * drag its own reference up; it needs at least half of them
+ */
+function analyzeRestingHr(heartData: HeartRateData[], history: HeartRateData[], config: HealthConfig): HeartResult['resting_hr'] {
+  const readings = heartData.filter(d => d.resting_hr !== null);
+  const values = readings.map(d => d.resting_hr!);
+  const latest = readings.length > 0 ? readings[readings.length - 1] : null;
+  const threshold = config.alerts.thresholds.rhr_elevated.warning;
+
+  let baseline: number | null = null;
+  if (latest) {
+    const baselineValues = history
+      .filter(d => d.resting_hr !== null && d.date < latest.date && d.date >= addDays(latest.date, -BASELINE_DAYS))
+      .map(d => d.resting_hr);
+    baseline = baselineValues.length >= BASELINE_DAYS / 2 ? mean(baselineValues) : null;
+  }
+  const drift = latest && baseline !== null ? round(latest.resting_hr! - baseline) : null;
+
+  return {
+    latest: latest?.resting_hr ?? null,
+    average: mean(values),
+    min: values.length > 0 ? Math.min(...values) : null,
+    max: values.length > 0 ? Math.max(...values) : null,
+    baseline,
+    drift,
+    elevated: drift !== null && drift > threshold,
+    threshold,
+    trend: analyzeRestingTrend(values)
+  };
+}
+
+/** Same test as the HRV trend (see compareHalves); a falling resting HR is the improvement */
+function analyzeRestingTrend(values: number[]): HeartResult['resting_hr']['trend'] {
+  const trend = compareHalves(values);
+  if (!trend) return { direction: 'insufficient_data', change: 0, significance: 'none' };
+
+  return {
+    direction: trend.significance === 'none' ? 'stable' : trend.effect_size < 0 ? 'improving' : 'declining',
+    change: round(trend.change),
+    ...(trend.change_percent !== null && { change_percent: Math.round(trend.change_percent) }),
+    significance: trend.significance
+  };
+}
+
+/**
+ * Five zones from 50% to 100% of max HR, or of the heart rate reserve
+ * (Karvonen: resting + fraction x (max - resting)) with zone_method hrr.
+ * Max HR comes from heart.max_hr, then 220 - heart.age, then a default.
+ */
+function analyzeZones(heartData: HeartRateData[], config: HealthConfig, measuredResting: number | null): HeartResult['zones'] {
+  const settings = config.heart;
+  const { max_hr: maxHr, source } = maxHeartRate(settings);
+  const resting = settings.zone_method === 'hrr' ? settings.resting_hr ?? (measuredResting !== null ? Math.round(measuredResting) : null) : null;
+
+  const bounds = ZONE_BOUNDS.map(fraction => Math.round(resting !== null ? resting + fraction * (maxHr - resting) : fraction * maxHr));
+  const zones = ZONE_NAMES.map((name, index) => {
+    const last = index === ZONE_NAMES.length - 1;
+    return {
+      zone: index + 1,
+      name,
+      min_bpm: bounds[index],
+      max_bpm: last ? maxHr : bounds[index + 1] - 1,
+      // Readings above max HR still count towards zone 5
+      minutes: minutesBetween(heartData, bounds[index], last ? Infinity : bounds[index + 1] - 1)
+    };
+  });
+  const zonedMinutes = zones.reduce((sum, zone) => sum + zone.minutes, 0);
+  const belowZoneMinutes = minutesBetween(heartData, 0, bounds[0] - 1);
+
+  return {
+    method: resting !== null ? 'hrr' : 'max_hr',
+    max_hr: maxHr,
+    max_hr_source: source,
+    resting_hr: resting,
+    zones: zones.map(zone => ({ ...zone, percent: zonedMinutes > 0 ? Math.round(zone.minutes / zonedMinutes * 100) : 0 })),
+    below_zone_minutes: belowZoneMinutes,
+    total_minutes: Math.round(belowZoneMinutes + zonedMinutes)
+  };
+}
+
+function minutesBetween(heartData: HeartRateData[], minBpm: number, maxBpm: number): number {
+  const minutes = heartData
+    .flatMap(d => d.hr_minutes)
+    .filter(bin => bin.bpm >= minBpm && bin.bpm <= maxBpm)
+    .reduce((sum, bin) => sum + bin.minutes, 0);
+  return Math.round(minutes);
+}
+
+/**
+ * A 1-minute drop of 12 bpm or less, or a 2-minute drop of 22 bpm or less,
+ * is the usual cut-off for a slow recovery
+ */
+function analyzeRecovery(sessions: HeartRecoveryData[]): HeartResult['recovery'] {
+  const oneMinute = mean(sessions.map(s => s.recovery_1_min));
+  const twoMinutes = mean(sessions.map(s => s.recovery_2_min));
+
+  let status: HeartResult['recovery']['status'] = 'no_workouts';
+  if (oneMinute !== null) {
+    status = oneMinute >= 20 ? 'good' : oneMinute > 12 ? 'fair' : 'poor';
+  } else if (twoMinutes !== null) {
+    status = twoMinutes >= 35 ? 'good' : twoMinutes > 22 ? 'fair' : 'poor';
+  }
+
+  return {
+    workouts: sessions.length,
+    average_1_min: oneMinute,
+    average_2_min: twoMinutes,
+    status,
+    sessions
+  };
+}
+
+function generateHeartInsights(result: Omit<HeartResult, 'insights'>): string[] {
+  const insights = [];
+  const resting = result.resting_hr;
+
+  if (resting.elevated) {
+    insights.push(`🔴 Resting HR is ${resting.drift} bpm above your ${BASELINE_DAYS}-day baseline - a sign of illness, stress or incomplete recovery`);
+  } else if (resting.drift !== null && resting.drift <= -3) {
+    insights.push(`💚 Resting HR is ${-resting.drift} bpm below your baseline - fitness or recovery improving`);
+  } else if (resting.drift !== null) {
+    insights.push('🟡 Resting HR in line with your baseline');
+  } else if (resting.latest !== null) {
+    insights.push(`📊 Building a resting HR baseline - it needs ${BASELINE_DAYS / 2} days of readings before the latest one`);
+  }
+
+  if (resting.trend.direction === 'declining' && resting.trend.significance === 'significant') {
+    insights.push('📈 Resting HR climbing over the period - watch training load and sleep');
+  }
+
+  const zones = result.zones.zones;
+  const hardMinutes = zones[3].minutes + zones[4].minutes;
+  const easyMinutes = zones[0].minutes + zones[1].minutes;
+  if (hardMinutes > 0 && hardMinutes > easyMinutes) {
+    insights.push('⚠️ More time in zones 4-5 than in zones 1-2 - add easier sessions');
+  }
+  if (result.zones.max_hr_source === 'default') {
+    insights.push(`ℹ️ Zones assume a max HR of ${DEFAULT_MAX_HR} - set heart.max_hr or heart.age for zones that fit you`);
+  }
+
+  if (result.recovery.status === 'good') {
+    insights.push('💪 Heart rate drops quickly after workouts - good cardiovascular fitness');
+  } else if (result.recovery.status === 'poor') {
+    insights.push('🐢 Slow heart rate recovery after workouts - ease off until it improves');
+  }
+
+  return insights;
+}
+
+function mean(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0 ? round(present.reduce((sum, v) => sum + v, 0) / present.length) : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,77 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Effect } from 'effect';
+import { commandReference, helpCommand, optionsFirst, registerCommandTree } from './help.js';
+import { Args, Command, Options, withConstraints, withDocs } from './definitions.js';
+
+/** health [--source] [--verbose] alert [--changes-only] snooze --for <id> */
+function commandTree() {
+  const snooze = Command.make('snooze', {
+    duration: Options.text('for').pipe(Options.withDescription('How long, e.g. 2d')),
+    id: Args.text({ name: 'id' }).pipe(Args.withDescription('Alert id'))
+  }, () => Effect.void).pipe(Command.withDescription('Snooze an alert'));
+
+  const alert = Command.make('alert', {
+    changesOnly: Options.boolean('changes-only'),
+    limit: Options.integer('limit').pipe(Options.withDefault(20), withConstraints({ min: 1, max: 500 }))
+  }, () => Effect.void).pipe(
+    Command.withDescription('Evaluate alerts'),
+    Command.withSubcommands([snooze]),
+    withDocs({ examples: ['health alert snooze hrv_low --for 2d'] })
+  );
+
+  return Command.make('health', {
+    source: Options.text('source').pipe(Options.optional),
+    verbose: Options.boolean('verbose')
+  }, () => Effect.void).pipe(Command.withSubcommands([alert]));
+}
+
+describe('help', () => {
+  before(() => registerCommandTree(commandTree()));
+
+  test('moves options given after an argument in front of it', () => {
+    assert.deepEqual(optionsFirst(['alert', 'snooze', 'sleep_debt', '--for', '2d']), ['alert', 'snooze', '--for', '2d', 'sleep_debt']);
+    assert.deepEqual(optionsFirst(['alert', 'snooze', 'sleep_debt', '--for=2d']), ['alert', 'snooze', '--for=2d', 'sleep_debt']);
+  });
+
+  test('leaves global options and subcommand names where they are', () => {
+    assert.deepEqual(
+      optionsFirst(['--source', 'mock', '--verbose', 'alert', 'snooze', 'x', '--for', '2d']),
+      ['--source', 'mock', '--verbose', 'alert', 'snooze', '--for', '2d', 'x']
+    );
+    assert.deepEqual(optionsFirst(['alert', 'snooze', '--for', '2d', 'x']), ['alert', 'snooze', '--for', '2d', 'x']);
+  });
+
+  test('treats negative numbers and command names after the command as arguments', () => {
+    assert.deepEqual(optionsFirst(['alert', 'snooze', '-5', '--for', '2d']), ['alert', 'snooze', '--for', '2d', '-5']);
+    assert.deepEqual(optionsFirst(['alert', 'snooze', 'alert', '--for', '2d']), ['alert', 'snooze', '--for', '2d', 'alert']);
+  });
+
+  test('documents each command from its definition', () => {
+    assert.deepEqual(commandReference().map(doc => doc.name), ['health', 'alert', 'alert snooze']);
+
+    const response = helpCommand('health alert');
+    assert.ok(response.ok);
+    const { command, subcommands, global_options } = response.result;
+    assert.equal(command.usage, 'health alert [--changes-only] [--limit <integer>] [snooze]');
+    assert.deepEqual(command.options[1], { name: '--limit', type: 'integer', required: false, default: 20, min: 1, max: 500 });
+    assert.deepEqual(command.examples, ['health alert snooze hrv_low --for 2d']);
+    assert.deepEqual(subcommands.map(doc => doc.name), ['alert snooze']);
+    assert.deepEqual(global_options.map(doc => doc.name), ['--source', '--verbose']);
+  });
+
+  test('suggests running the command with its required parameters', () => {
+    const response = helpCommand('alert snooze');
+    assert.ok(response.ok);
+    assert.equal(response.result.command.usage, 'health alert snooze --for <string> <id>');
+    assert.deepEqual(response.next_actions[0].argv, ['health', 'alert', 'snooze', '--for', '{for}', '{id}']);
+    assert.equal(response.next_actions.at(-1)?.command, 'health help alert');
+  });
+
+  test('rejects an unknown command', () => {
+    const response = helpCommand('alert mute');
+    assert.ok(!response.ok);
+    assert.equal(response.error.code, 'UNKNOWN_COMMAND');
+    assert.equal(response.fix, 'Use one of: alert, alert snooze');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Help command - per-command reference generated from the command
+ * definitions (definitions.ts), so a new command, option or argument
+ * documents itself. Ranges and examples are attached where the command is
+ * defined with withConstraints and withDocs.
+ */
+import { Command } from '@effect/cli';
+import { ActionParam, NextAction } from '../types/responses.js';
+import { CommandDoc, HelpResultSchema, ParameterDoc, RESULT_SCHEMAS } from '../types/schemas.js';
+import { success, error } from '../utils/responses.js';
+import { action, COMMON_ACTIONS } from '../utils/actions.js';
+import { CommandDefinition, commandDefinition } from './definitions.js';
+
+let commandTree: CommandDefinition | undefined;
+let reference: CommandDoc[] | undefined;
+
+/** Called once by index.ts with the root command */
+export function registerCommandTree<Name extends string, R, E, A>(root: Command.Command<Name, R, E, A>): void {
+  commandTree = commandDefinition(root);
+  reference = undefined;
+}
+
+/** Every command, root ("health") first, then depth-first in definition order */
+export function commandReference(): CommandDoc[] {
+  if (!commandTree) throw new Error('The command tree has not been registered');
+  reference ??= documentCommand(commandTree, []);
+  return reference;
+}
+
+/**
+ * Effect CLI only reads a command's options before its arguments. Moves
+ * options given after an argument, as in `alert snooze sleep_debt --for 2d`,
+ * in front of the arguments so both orders work.
+ */
+export function optionsFirst(argv: string[]): string[] {
+  const docs = commandReference();
+  let doc = docs[0];
+  let start = 0;
+  // Global options and subcommand names lead to the command that takes the arguments
+  for (; start < argv.length; start++) {
+    if (isFlag(argv[start])) {
+      if (takesValue(doc, argv[start])) start++;
+      continue;
+    }
+    const child = doc.subcommands?.includes(argv[start]) ? docs.find(candidate => candidate.name === childName(doc, argv[start])) : undefined;
+    if (!child) break;
+    doc = child;
+  }
+
+  const options: string[] = [];
+  const args: string[] = [];
+  for (let index = start; index < argv.length; index++) {
+    if (!isFlag(argv[index])) {
+      args.push(argv[index]);
+      continue;
+    }
+    options.push(argv[index]);
+    if (takesValue(doc, argv[index]) && index + 1 < argv.length) options.push(argv[++index]);
+  }
+  return [...argv.slice(0, start), ...options, ...args];
+}
+
+export function helpCommand(target?: string) {
+  const key = target?.replace(/^health(\s+|$)/, '').trim() || 'health';
+  const command = target ? `help ${target}` : 'help';
+  const docs = commandReference();
+  const doc = docs.find(candidate => candidate.name === key);
+
+  if (!doc) {
+    const names = docs.map(candidate => candidate.name).filter(name => name !== 'health');
+    return error(
+      command,
+      `No such command: ${key}`,
+      'UNKNOWN_COMMAND',
+      `Use one of: ${names.join(', ')}`,
+      [
+        action(['health', 'help'], 'Reference for the root command and its global options', { rel: 'remediate' }),
+        COMMON_ACTIONS.ROOT
+      ]
+    );
+  }
+
+  const [root] = docs;
+  const subcommands = (doc.subcommands ?? []).map(name => docs.find(candidate => candidate.name === childName(doc, name))!);
+  return success(command, HelpResultSchema, {
+    command: doc,
+    subcommands,
+    global_options: root.options
+  }, helpActions(doc));
+}
+
+function helpActions(doc: CommandDoc): NextAction[] {
+  const path = doc.name === 'health' ? [] : doc.name.split(' ');
+  const actions = [runAction(doc, path)];
+
+  if (doc.subcommands && doc.subcommands.length > 0) {
+    actions.push(action(['health', 'help', ...path, '{subcommand}'], 'Reference for a subcommand', {
+      rel: 'drill-down',
+      params: [{ name: 'subcommand', type: 'string', required: true, default: doc.subcommands[0], description: `One of: ${doc.subcommands.join(', ')}` }]
+    }));
+  }
+  if (doc.name in RESULT_SCHEMAS) {
+    actions.push(action(['health', 'schema', ...(path.length > 0 ? path : ['health'])], 'JSON Schema for the response', { rel: 'navigate' }));
+  }
+  if (path.length > 0) {
+    actions.push(action(['health', 'help', ...path.slice(0, -1)], path.length > 1 ? `Reference for health ${path.slice(0, -1).join(' ')}` : 'Reference for the root command', { rel: 'navigate' }));
+  }
+  return actions;
+}
+
+/** The command itself, with its required options and arguments as params */
+function runAction(doc: CommandDoc, path: string[]): NextAction {
+  const required = [...doc.options, ...doc.args].filter(parameter => parameter.required);
+  const params: ActionParam[] = required.map(parameter => ({
+    name: paramName(parameter),
+    type: parameter.type === 'integer' ? 'integer' : parameter.type === 'path' ? 'path' : 'string',
+    required: true,
+    ...(parameter.description !== undefined && { description: parameter.description })
+  }));
+  const argv = [
+    'health',
+    ...path,
+    ...required.filter(isOption).flatMap(option => [option.name, `{${paramName(option)}}`]),
+    ...required.filter(parameter => !isOption(parameter)).map(arg => `{${paramName(arg)}}`)
+  ];
+  return action(argv, `Run health${path.length > 0 ? ` ${path.join(' ')}` : ''}`, { rel: 'navigate', params });
+}
+
+// Documenting the command tree
+
+function documentCommand(command: CommandDefinition, parentPath: string[]): CommandDoc[] {
+  const path = [...parentPath, command.name];
+  const { options, args, examples, note } = command;
+  const names = command.subcommands.map(child => child.name);
+  const usage = [...path, ...options.map(usageToken), ...args.map(usageToken)].join(' ');
+  const doc: CommandDoc = {
+    name: path.length === 1 ? path[0] : path.slice(1).join(' '),
+    description: command.description,
+    usage: names.length > 0 ? `${usage} [${names.join('|')}]` : usage,
+    options,
+    args,
+    ...(names.length > 0 && { subcommands: names }),
+    ...(examples && { examples }),
+    ...(note && { note })
+  };
+  return [doc, ...command.subcommands.flatMap(child => documentCommand(child, path))];
+}
+
+function childName(doc: CommandDoc, name: string): string {
+  return doc.name === 'health' ? name : `${doc.name} ${name}`;
+}
+
+/** --days or -d, but not a negative number */
+function isFlag(token: string): boolean {
+  return /^--?[a-z]/i.test(token);
+}
+
+/** Whether the flag reads the next token as its value - booleans and --flag=value do not */
+function takesValue(doc: CommandDoc, flag: string): boolean {
+  const option = doc.options.find(candidate => candidate.name === flag || candidate.aliases?.includes(flag));
+  return option !== undefined && option.type !== 'boolean';
+}
+
+/** `--days <integer>`, `[--dry-run]`, `<file>`, `[<command>...]` */
+function usageToken(parameter: ParameterDoc): string {
+  const value = parameter.type === 'choice' ? parameter.choices!.join('|') : parameter.type;
+  const token = !isOption(parameter) ? parameter.name
+    : parameter.type === 'boolean' ? parameter.name
+    : `${parameter.name} <${value}>`;
+  const repeated = parameter.repeated ? `${token}...` : token;
+  return parameter.required ? repeated : `[${repeated}]`;
+}
+
+function isOption(parameter: ParameterDoc): boolean {
+  return parameter.name.startsWith('-');
+}
+
+/** Param name for next_actions: --for becomes {for}, <id> becomes {id} */
+function paramName(parameter: ParameterDoc): string {
+  return parameter.name.replace(/^-+|^<|>$/g, '');
+}
@@ -0,0 +1,36 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { hrvCommand } from './hrv.js';
+import { loadFixtureProvider } from '../data/fixture.js';
+import { compareHalves } from '../data/statistics.js';
+import { addDays } from '../utils/dates.js';
+
+describe('hrvCommand', () => {
+  let dir: string;
+
+  before(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-hrv-')); });
+  after(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  test('compares the halves of the period until there is a baseline', () => {
+    // 20 days leave 13 readings before the rolling week, one short of a baseline
+    const values = Array.from({ length: 20 }, (_, i) => (i < 10 ? 40 : 55) + i % 3);
+    const file = path.join(dir, 'fixture.json');
+    fs.writeFileSync(file, JSON.stringify({ hrv: values.map((value, i) => ({ date: addDays('2024-01-01', i), value })) }));
+    const provider = loadFixtureProvider(file);
+    assert.ok(!('ok' in provider));
+
+    const response = hrvCommand(provider, { days: 20 });
+    assert.ok(response.ok);
+    const halves = compareHalves(values)!;
+    assert.equal(response.result.baseline, null);
+    assert.deepEqual(response.result.trend, {
+      direction: 'improving',
+      change: Math.round(halves.change),
+      change_percent: Math.round(halves.change_percent!),
+      significance: 'significant'
+    });
+  });
+});
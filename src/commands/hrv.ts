@@ -1,39 +1,60 @@
 /**
- * HRV command - Heart Rate Variability trends
+ * HRV command - Heart Rate Variability trends against the personal baseline
  */
-import { success, error, COMMON_ACTIONS } from '../utils/responses.js';
-import { generateMockHRV } from '../data/mockData.js';
-
-export function hrvCommand(days: number = 7) {
-  // Validate input
-  if (days < 1 || days > 90) {
+import { success, error } from '../utils/responses.js';
+import { action, because, COMMON_ACTIONS, PARAMS } from '../utils/actions.js';
+import { groupByCalendar, inPeriod, periodActions, PeriodOptions, resolvePeriod } from '../utils/period.js';
+import { DataProvider } from '../data/provider.js';
+import { compareHalves } from '../data/statistics.js';
+import { BASELINE_DAYS, HRVPosition, hrvPosition, MIN_BASELINE_READINGS, ROLLING_DAYS } from '../data/hrvBaseline.js';
+import { HRVData } from '../types/responses.js';
+import { HRVResult, HRVResultSchema } from '../types/schemas.js';
+
+export function hrvCommand(provider: DataProvider, options: PeriodOptions = {}) {
+  const period = resolvePeriod('hrv', provider, 'hrv', options);
+  if ('ok' in period) return period;
+
+  // Read the baseline period too, so the latest day can be placed against it
+  const history = period.provider.hrv(period.days + ROLLING_DAYS - 1 + BASELINE_DAYS);
+  const hrvData = inPeriod(period, history);
+
+  if (hrvData.length === 0) {
     return error(
-      `hrv --days ${days}`,
-      'Days parameter must be between 1 and 90',
-      'INVALID_DAYS_RANGE',
-      'Use a value between 1 and 90 days',
+      period.command,
+      `No HRV data available from the ${provider.name} source`,
+      'NO_DATA',
+      'Import an Apple Health export that contains Heart Rate Variability records',
       [
-        { command: 'health hrv', description: 'Use default 7 days' },
-        { command: 'health hrv --days 14', description: 'Try 2 weeks' },
-        { command: 'health hrv --days 30', description: 'Try 1 month' }
+        COMMON_ACTIONS.IMPORT,
+        COMMON_ACTIONS.SLEEP
       ]
     );
   }
 
-  const hrvData = generateMockHRV(days);
-  const analysis = analyzeHRVTrend(hrvData);
+  const current = hrvData[hrvData.length - 1];
+  const position = hrvPosition(history, current.date);
+  const analysis = position ? analyzeBaselineTrend(position) : analyzeHRVTrend(hrvData);
+  const rmssdDays = hrvData.filter(d => d.rmssd !== null && d.rmssd > 0);
 
-  const result = {
+  const summary: Omit<HRVResult, 'insights'> = {
     period: {
-      days: days,
-      start_date: hrvData[0].date,
-      end_date: hrvData[hrvData.length - 1].date
+      days: period.days,
+      start_date: period.from,
+      end_date: period.to
     },
     current: {
-      value: hrvData[hrvData.length - 1].value,
-      category: hrvData[hrvData.length - 1].category,
-      date: hrvData[hrvData.length - 1].date
+      value: current.value,
+      rmssd: current.rmssd,
+      ln_rmssd: current.rmssd !== null && current.rmssd > 0 ? round(Math.log(current.rmssd), 2) : null,
+      category: current.category,
+      date: current.date
     },
+    baseline: position && describeBaseline(position),
+    beat_to_beat: rmssdDays.length > 0 ? {
+      days: rmssdDays.length,
+      average_rmssd: round(rmssdDays.reduce((sum, d) => sum + d.rmssd!, 0) / rmssdDays.length, 1),
+      average_ln_rmssd: round(rmssdDays.reduce((sum, d) => sum + Math.log(d.rmssd!), 0) / rmssdDays.length, 2)
+    } : null,
     statistics: {
       average: Math.round(hrvData.reduce((sum, d) => sum + d.value, 0) / hrvData.length),
       min: Math.min(...hrvData.map(d => d.value)),
@@ -46,9 +67,17 @@ export function hrvCommand(days: number = 7) {
       normal: hrvData.filter(d => d.category === 'normal').length,
       high: hrvData.filter(d => d.category === 'high').length
     },
-    data: hrvData.slice(-10), // Last 10 days for display
-    insights: generateHRVInsights(hrvData, analysis)
+    ...(period.groupBy !== null && {
+      groups: groupByCalendar(hrvData, period.groupBy).map(group => ({
+        period: group.key,
+        start_date: group.start < period.from ? period.from : group.start,
+        end_date: group.end > period.to ? period.to : group.end,
+        ...describeReadings(group.entries)
+      }))
+    }),
+    data: hrvData
   };
+  const result: HRVResult = { ...summary, insights: generateHRVInsights(hrvData, summary) };
 
   const nextActions = [
     COMMON_ACTIONS.STATUS,
@@ -56,52 +85,99 @@ export function hrvCommand(days: number = 7) {
   ];
 
   // Add period-specific next actions
+  const days = period.explicit ? null : period.days;
   if (days === 7) {
-    nextActions.push({
-      command: 'health hrv --days 14',
-      description: 'Extend analysis to 2 weeks'
-    });
+    nextActions.push(action(['health', 'hrv', '--days', '{days}'], 'Extend analysis to 2 weeks', {
+      rel: 'widen-range',
+      params: [PARAMS.days(14)]
+    }));
   } else if (days === 14) {
-    nextActions.push({
-      command: 'health hrv --days 30',
-      description: 'View monthly HRV pattern'
-    });
+    nextActions.push(action(['health', 'hrv', '--days', '{days}'], 'View monthly HRV pattern', {
+      rel: 'widen-range',
+      params: [PARAMS.days(30)]
+    }));
   }
 
+  nextActions.push(...periodActions('hrv', period));
+
   if (result.current.category === 'low') {
-    nextActions.unshift(COMMON_ACTIONS.ALERTS);
+    nextActions.unshift(because(COMMON_ACTIONS.ALERTS, 'Added because the current HRV category is low'));
+    nextActions.push(COMMON_ACTIONS.READINESS);
   }
 
-  return success(`hrv --days ${days}`, result, nextActions);
+  return success(
+    period.command,
+    HRVResultSchema,
+    result,
+    nextActions,
+    period.provider.describe(['hrv'])
+  );
 }
 
-function analyzeHRVTrend(data: any[]): any {
-  if (data.length < 2) return { direction: 'insufficient_data', change: 0, significance: 'none' };
+/** Statistics for one week or month of readings */
+function describeReadings(readings: HRVData[]): Omit<NonNullable<HRVResult['groups']>[number], 'period' | 'start_date' | 'end_date'> {
+  const values = readings.map(d => d.value);
+  const rmssd = readings.filter(d => d.rmssd !== null && d.rmssd > 0).map(d => d.rmssd!);
+  return {
+    days: readings.length,
+    average: Math.round(values.reduce((sum, v) => sum + v, 0) / values.length),
+    min: Math.min(...values),
+    max: Math.max(...values),
+    std_dev: Math.round(calculateStandardDeviation(values) * 10) / 10,
+    average_rmssd: rmssd.length > 0 ? round(rmssd.reduce((sum, v) => sum + v, 0) / rmssd.length, 1) : null,
+    low_days: readings.filter(d => d.category === 'low').length
+  };
+}
 
-  const recent = data.slice(-3).reduce((sum, d) => sum + d.value, 0) / 3;
-  const earlier = data.slice(0, 3).reduce((sum, d) => sum + d.value, 0) / 3;
-  const change = recent - earlier;
-  const changePercent = Math.round((change / earlier) * 100);
+/** Baseline values in the metric's own precision - ms to 0.1, ln-RMSSD to 0.01 */
+function describeBaseline(position: HRVPosition): NonNullable<HRVResult['baseline']> {
+  const digits = position.metric === 'sdnn' ? 1 : 2;
+  const { rolling, baseline } = position;
+  return {
+    metric: position.metric,
+    rolling_average: round(rolling.average, digits),
+    rolling_cv_percent: rolling.cv_percent !== null ? round(rolling.cv_percent, 1) : null,
+    mean: round(baseline.mean, digits),
+    sd: round(baseline.sd, digits),
+    cv_percent: round(baseline.cv_percent, 1),
+    normal_range: { lower: round(baseline.lower, digits), upper: round(baseline.upper, digits) },
+    readings: baseline.readings,
+    position: position.category === 'low' ? 'below' : position.category === 'high' ? 'above' : 'within'
+  };
+}
 
-  let direction: string;
-  let significance: string;
+/**
+ * The 7-day average against the baseline: outside the normal range is a
+ * moderate change, more than one baseline SD away a significant one. For
+ * ln-RMSSD the percentage is the change in RMSSD itself.
+ */
+function analyzeBaselineTrend(position: HRVPosition): HRVResult['trend'] {
+  const { rolling, baseline } = position;
+  const change = rolling.average - baseline.mean;
+  const changePercent = position.metric === 'ln_rmssd' ? (Math.exp(change) - 1) * 100 : change / baseline.mean * 100;
 
-  if (Math.abs(change) < 2) {
-    direction = 'stable';
-    significance = 'none';
-  } else if (change > 0) {
-    direction = 'improving';
-    significance = change > 5 ? 'significant' : 'moderate';
-  } else {
-    direction = 'declining';
-    significance = change < -5 ? 'significant' : 'moderate';
-  }
+  return {
+    direction: position.category === 'low' ? 'declining' : position.category === 'high' ? 'improving' : 'stable',
+    change: round(change, position.metric === 'sdnn' ? 1 : 2),
+    change_percent: Math.round(changePercent),
+    significance: Math.abs(change) > baseline.sd ? 'significant' : position.category !== 'normal' ? 'moderate' : 'none'
+  };
+}
+
+/**
+ * The second half of the period against the first - used until there is a
+ * baseline. A Mann-Whitney test below 0.05 is a significant change, a large
+ * effect that falls short of it a moderate one (see compareHalves).
+ */
+function analyzeHRVTrend(data: HRVData[]): HRVResult['trend'] {
+  const trend = compareHalves(data.map(d => d.value));
+  if (!trend) return { direction: 'insufficient_data', change: 0, significance: 'none' };
 
   return {
-    direction,
-    change: Math.round(change),
-    change_percent: changePercent,
-    significance
+    direction: trend.significance === 'none' ? 'stable' : trend.effect_size > 0 ? 'improving' : 'declining',
+    change: Math.round(trend.change),
+    ...(trend.change_percent !== null && { change_percent: Math.round(trend.change_percent) }),
+    significance: trend.significance
   };
 }
 
@@ -112,20 +188,33 @@ function calculateStandardDeviation(values: number[]): number {
   return Math.sqrt(avgSquaredDiff);
 }
 
-function generateHRVInsights(data: any[], analysis: any): string[] {
+function generateHRVInsights(data: HRVData[], result: Omit<HRVResult, 'insights'>): string[] {
   const insights = [];
-  const current = data[data.length - 1];
-
-  if (analysis.direction === 'improving') {
-    insights.push('💚 HRV trending upward - recovery practices are working');
-  } else if (analysis.direction === 'declining') {
-    insights.push('🔴 HRV declining - consider stress management and recovery focus');
+  const { baseline, trend } = result;
+
+  if (baseline) {
+    const unit = baseline.metric === 'sdnn' ? ' ms' : '';
+    const range = `${baseline.normal_range.lower}-${baseline.normal_range.upper}${unit}`;
+    if (baseline.position === 'below') {
+      insights.push(`🔴 7-day HRV (${baseline.rolling_average}${unit}) below your normal range of ${range} - prioritize rest and recovery`);
+    } else if (baseline.position === 'above') {
+      insights.push(`💚 7-day HRV (${baseline.rolling_average}${unit}) above your normal range of ${range} - recovering well`);
+    } else {
+      insights.push(`🟡 7-day HRV (${baseline.rolling_average}${unit}) within your normal range of ${range}`);
+    }
+
+    if (baseline.rolling_cv_percent !== null && baseline.rolling_cv_percent > baseline.cv_percent * 1.5) {
+      insights.push(`⚠️ HRV swinging more than usual day to day (CV ${baseline.rolling_cv_percent}% vs ${baseline.cv_percent}% at baseline) - a sign of accumulating stress`);
+    }
   } else {
-    insights.push('🟡 HRV stable - maintain current recovery practices');
-  }
-
-  if (current.category === 'low') {
-    insights.push('⚠️ Current HRV is low - prioritize rest and recovery today');
+    if (trend.direction === 'improving') {
+      insights.push('💚 HRV trending upward - recovery practices are working');
+    } else if (trend.direction === 'declining') {
+      insights.push('🔴 HRV declining - consider stress management and recovery focus');
+    } else {
+      insights.push('🟡 HRV stable - maintain current recovery practices');
+    }
+    insights.push(`📊 Building your HRV baseline - it needs ${MIN_BASELINE_READINGS} readings in the ${BASELINE_DAYS} days before the last ${ROLLING_DAYS}; categories use fixed 30/60 ms cutoffs until then`);
   }
 
   const lowDays = data.filter(d => d.category === 'low').length;
@@ -133,9 +222,16 @@ function generateHRVInsights(data: any[], analysis: any): string[] {
     insights.push('📊 Frequent low HRV days - consider lifestyle factors (sleep, stress, training)');
   }
 
-  if (analysis.significance === 'significant') {
-    insights.push('📈 Significant trend detected - correlate with recent changes in routine');
+  if (baseline?.metric === 'ln_rmssd') {
+    insights.push('ℹ️ The baseline uses ln-RMSSD from beat-to-beat intervals; value is SDNN, the metric Apple Health records');
+  } else if (!result.beat_to_beat) {
+    insights.push('ℹ️ Values are SDNN, the metric Apple Health records - no beat-to-beat intervals for RMSSD');
   }
 
   return insights;
-}
\ No newline at end of file
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
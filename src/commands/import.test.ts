@@ -0,0 +1,70 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { importCommand } from './import.js';
+
+const HRV_AND_SLEEP = `<?xml version="1.0"?>
+<HealthData>
+  <Record type="HKQuantityTypeIdentifierHeartRateVariabilitySDNN" sourceName="Watch" unit="ms" value="45"
+    startDate="2024-01-01 03:00:00 +0000" endDate="2024-01-01 03:01:00 +0000"/>
+  <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Watch" value="HKCategoryValueSleepAnalysisAsleepCore"
+    startDate="2024-01-01 00:00:00 +0000" endDate="2024-01-01 06:00:00 +0000"/>
+</HealthData>
+`;
+
+const EXPORT = `<?xml version="1.0"?>
+<HealthData>
+  <Record type="HKQuantityTypeIdentifierStepCount" sourceName="iPhone" unit="count" value="100"
+    startDate="2024-01-01 08:00:00 +0000" endDate="2024-01-01 08:10:00 +0000"/>
+</HealthData>
+`;
+
+describe('importCommand', () => {
+  let dir: string;
+  const dataDir = process.env.HEALTH_CLI_DATA_DIR;
+
+  before(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-import-')); });
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    if (dataDir === undefined) delete process.env.HEALTH_CLI_DATA_DIR;
+    else process.env.HEALTH_CLI_DATA_DIR = dataDir;
+  });
+
+  const write = (name: string, content: string) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  test('only points at alerts when the import raised warnings', async () => {
+    process.env.HEALTH_CLI_DATA_DIR = path.join(dir, 'data');
+    const clean = await importCommand(write('clean.xml', HRV_AND_SLEEP), true);
+    assert.ok(clean.ok);
+    assert.deepEqual(clean.result.warnings, []);
+    assert.equal(clean.result.note, 'Dry run - nothing was saved to the local store');
+    assert.equal(clean.next_actions[0].command, 'health status');
+
+    const stepsOnly = await importCommand(write('steps.xml', EXPORT), true);
+    assert.ok(stepsOnly.ok);
+    assert.deepEqual(stepsOnly.result.warnings, ['HRV data not found in export', 'Sleep data not found in export']);
+    assert.equal(stepsOnly.next_actions[0].command, 'health alert');
+    assert.equal(stepsOnly.next_actions[0].reason, 'Added because the import raised 2 warning(s)');
+  });
+
+  test('reports malformed XML as a parse error', async () => {
+    process.env.HEALTH_CLI_DATA_DIR = path.join(dir, 'data');
+    const response = await importCommand(write('other.xml', '<Other/>'));
+    assert.equal(!response.ok && response.error.code, 'PARSE_ERROR');
+  });
+
+  test('reports a store that cannot be written as an io error', async () => {
+    // A regular file where the data directory should be
+    process.env.HEALTH_CLI_DATA_DIR = path.join(write('blocker', ''), 'data');
+    const response = await importCommand(write('export.xml', EXPORT));
+    assert.ok(!response.ok);
+    assert.equal(response.error.code, 'STORE_WRITE_FAILED');
+    assert.equal(response.error.category, 'io');
+  });
+});
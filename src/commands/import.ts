@@ -1,12 +1,18 @@
 /**
- * Import command - Apple Health XML parser (structure only, no personal data storage)
+ * Import command - Apple Health XML parser, saves records to the local store
  */
-import { success, error, COMMON_ACTIONS } from '../utils/responses.js';
+import { success, error } from '../utils/responses.js';
+import { isSystemError } from '../utils/errors.js';
+import { action, because, COMMON_ACTIONS, PARAMS } from '../utils/actions.js';
 import { ImportResult } from '../types/responses.js';
+import { ImportResultSchema } from '../types/schemas.js';
+import { ParseProgress, HealthRecord, Workout, ActivitySummary, Correlation } from '../types/appleHealth.js';
+import { parseAppleHealthExport, ParseSummary } from '../data/appleHealthParser.js';
+import { createStoreWriter, getStorePath, StoreWriter } from '../data/store.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
-export function importCommand(filePath: string): any {
+export async function importCommand(filePath: string, dryRun: boolean = false) {
   // Validate file exists
   if (!fs.existsSync(filePath)) {
     return error(
@@ -15,197 +21,169 @@ export function importCommand(filePath: string): any {
       'FILE_NOT_FOUND',
       'Check the file path and ensure the file exists',
       [
-        { command: 'ls -la', description: 'List files in current directory' },
-        { command: 'health', description: 'Return to main menu' }
-      ]
-    );
-  }
-
-  // Check file size (warn if too large)
-  const stats = fs.statSync(filePath);
-  const fileSizeMB = stats.size / (1024 * 1024);
-  
-  if (fileSizeMB > 100) {
-    return error(
-      `import ${filePath}`,
-      `File too large: ${fileSizeMB.toFixed(1)}MB (max 100MB for demo)`,
-      'FILE_TOO_LARGE',
-      'Use a smaller Apple Health export or process in chunks',
-      [
-        { command: 'health', description: 'Return to main menu' },
-        { command: 'health status', description: 'View current mock data instead' }
+        action(['ls', '-la'], 'List files in current directory', { rel: 'remediate' }),
+        action(['health'], 'Return to main menu', { rel: 'navigate' })
       ]
     );
   }
 
+  let writer: StoreWriter | null = null;
   try {
-    // Parse XML structure (demo implementation)
-    const xmlContent = fs.readFileSync(filePath, 'utf8');
-    const parseResult = parseAppleHealthXML(xmlContent);
+    writer = dryRun ? null : createStoreWriter();
+
+    // Stream the export - no size limit, memory stays constant
+    const startedAt = Date.now();
+    const summary = await parseAppleHealthExport(filePath, {
+      onProgress: reportProgress,
+      ...(writer && storeHandlers(writer))
+    });
+    const manifest = writer?.commit(path.resolve(filePath));
 
     const result: ImportResult = {
       file: path.basename(filePath),
-      records_processed: parseResult.recordCount,
-      data_types: parseResult.dataTypes,
-      date_range: parseResult.dateRange,
-      warnings: parseResult.warnings
+      bytes_processed: summary.bytes,
+      duration_ms: Date.now() - startedAt,
+      records_processed: summary.counts.records + summary.counts.workouts +
+        summary.counts.activity_summaries + summary.counts.correlations,
+      elements: summary.counts,
+      data_types: Object.keys(summary.record_types).map(simplifyTypeName).sort(),
+      record_types: summary.record_types,
+      date_range: summary.date_range,
+      store: manifest ? {
+        path: getStorePath(),
+        collections: Object.keys(manifest.collections).length,
+        imported_at: manifest.imported_at
+      } : null,
+      warnings: generateImportWarnings(summary),
+      // Privacy notice, kept apart from the warnings so it does not count as one
+      note: manifest
+        ? 'Records are saved to a local store only - no health data is transmitted'
+        : 'Dry run - nothing was saved to the local store'
     };
 
     const nextActions = [
       COMMON_ACTIONS.STATUS,
-      {
-        command: 'health hrv --days 30',
-        description: 'View HRV trends (using mock data for demo)'
-      },
-      {
-        command: 'health sleep --days 30', 
-        description: 'View sleep patterns (using mock data for demo)'
-      }
+      action(
+        ['health', 'hrv', '--days', '{days}'],
+        manifest ? 'View HRV trends from imported data' : 'View HRV trends (dry run - using mock data)',
+        { rel: 'drill-down', params: [PARAMS.days(30)] }
+      ),
+      action(
+        ['health', 'sleep', '--days', '{days}'],
+        manifest ? 'View sleep patterns from imported data' : 'View sleep patterns (dry run - using mock data)',
+        { rel: 'drill-down', params: [PARAMS.days(30)] }
+      )
     ];
 
     // Add warnings to next actions if any critical issues
-    if (parseResult.warnings.length > 0) {
-      nextActions.unshift({
-        command: 'health alert',
-        description: 'Check for any data quality alerts'
-      });
+    if (result.warnings.length > 0) {
+      nextActions.unshift(because(
+        action(['health', 'alert'], 'Check for any data quality alerts', { rel: 'drill-down' }),
+        `Added because the import raised ${result.warnings.length} warning(s)`
+      ));
     }
 
-    return success(`import ${filePath}`, result, nextActions);
+    return success(`import ${filePath}`, ImportResultSchema, result, nextActions);
+
+  } catch (importError: unknown) {
+    writer?.abort();
+    return importFailure(filePath, importError);
+  }
+}
+
+/**
+ * The parser throws plain errors for malformed XML; file system errors name
+ * the system call and the path they failed on, which tells the export being
+ * read from the store being written
+ */
+function importFailure(filePath: string, failure: unknown) {
+  const command = `import ${filePath}`;
+  const message = failure instanceof Error ? failure.message : String(failure);
 
-  } catch (parseError: any) {
+  if (!isSystemError(failure)) {
     return error(
-      `import ${filePath}`,
-      `Failed to parse Apple Health XML: ${parseError.message}`,
+      command,
+      `Failed to parse Apple Health XML: ${message}`,
       'PARSE_ERROR',
       'Ensure the file is a valid Apple Health export XML',
       [
-        { command: 'health', description: 'Return to main menu' },
-        { command: 'health status', description: 'Use mock data instead' }
+        action(['health'], 'Return to main menu', { rel: 'navigate' }),
+        action(['health', 'status'], 'Use mock data instead', { rel: 'remediate' })
       ]
     );
   }
+  if (failure.code === 'ENOSPC') {
+    return error(command, `Ran out of disk space writing the local store: ${message}`, 'DISK_FULL');
+  }
+  if (failure.path?.startsWith(getStorePath())) {
+    return error(command, `Could not write the local store at ${getStorePath()}: ${message}`, 'STORE_WRITE_FAILED');
+  }
+  return error(command, `Could not read ${filePath}: ${message}`, 'FILE_READ_FAILED');
 }
 
-interface ParseResult {
-  recordCount: number;
-  dataTypes: string[];
-  dateRange: {
-    start: string;
-    end: string;
-  };
-  warnings: string[];
+/**
+ * Progress goes to stderr as one JSON object per line so stdout stays a
+ * single parseable response
+ */
+function reportProgress(progress: ParseProgress): void {
+  process.stderr.write(JSON.stringify({ progress }) + '\n');
 }
 
-function parseAppleHealthXML(xmlContent: string): ParseResult {
-  const warnings: string[] = [];
-  
-  // Basic XML validation
-  if (!xmlContent.includes('<HealthData')) {
-    throw new Error('Not a valid Apple Health export - missing HealthData root element');
-  }
+function simplifyTypeName(fullType: string): string {
+  // Remove HKQuantityTypeIdentifier-style prefixes and split camel case
+  return fullType.replace(/HK[A-Za-z]*TypeIdentifier/, '').replace(/([A-Z])/g, ' $1').trim();
+}
 
-  // Extract basic structure info (demo parsing - not storing actual data)
-  const recordMatches = xmlContent.match(/<Record[^>]*>/g) || [];
-  const workoutMatches = xmlContent.match(/<Workout[^>]*>/g) || [];
-  
-  const recordCount = recordMatches.length + workoutMatches.length;
-  
-  // Extract data types from Record elements
-  const dataTypes = new Set<string>();
-  
-  recordMatches.slice(0, 1000).forEach(record => { // Sample first 1000 for performance
-    const typeMatch = record.match(/type="([^"]+)"/);
-    if (typeMatch) {
-      const fullType = typeMatch[1];
-      // Simplify type names (remove HKQuantityTypeIdentifier prefix)
-      const simplifiedType = fullType.replace(/HK[A-Za-z]*TypeIdentifier/, '').replace(/([A-Z])/g, ' $1').trim();
-      dataTypes.add(simplifiedType);
-    }
+/** Store handlers keyed by local calendar day of each element */
+function storeHandlers(writer: StoreWriter) {
+  const compact = (record: HealthRecord) => ({
+    start: record.startDate,
+    end: record.endDate,
+    value: record.value,
+    unit: record.unit,
+    source: record.sourceName,
+    ...(record.metadata.length > 0 && {
+      metadata: Object.fromEntries(record.metadata.map(m => [m.key, m.value]))
+    }),
+    ...(record.beats.length > 0 && { beats: record.beats })
   });
 
-  // Extract date range
-  let startDate = '';
-  let endDate = '';
-  
-  const dateMatches = xmlContent.match(/startDate="([^"]+)"/g) || [];
-  if (dateMatches.length > 0) {
-    const dates = dateMatches
-      .map(match => match.match(/startDate="([^"]+)"/)?.[1])
-      .filter(Boolean)
-      .sort();
-    
-    startDate = dates[0]?.split(' ')[0] || '';
-    endDate = dates[dates.length - 1]?.split(' ')[0] || '';
-  }
+  return {
+    onRecord(record: HealthRecord) {
+      if (record.startDate) writer.append(record.type, record.startDate.substring(0, 10), compact(record));
+    },
+    onWorkout(workout: Workout) {
+      if (workout.startDate) writer.append('Workout', workout.startDate.substring(0, 10), workout);
+    },
+    onActivitySummary(summary: ActivitySummary) {
+      if (summary.date) writer.append('ActivitySummary', summary.date, summary);
+    },
+    onCorrelation(correlation: Correlation) {
+      if (correlation.startDate) {
+        writer.append(correlation.type, correlation.startDate.substring(0, 10), {
+          ...correlation,
+          records: correlation.records.map(compact)
+        });
+      }
+    }
+  };
+}
+
+function generateImportWarnings(summary: ParseSummary): string[] {
+  const warnings: string[] = [];
+  const types = Object.keys(summary.record_types);
 
-  // Generate warnings based on data analysis
-  if (recordCount === 0) {
+  if (summary.counts.records + summary.counts.workouts === 0) {
     warnings.push('No health records found in export');
   }
-  
-  if (recordCount > 50000) {
-    warnings.push(`Large dataset (${recordCount} records) - processing limited for demo`);
-  }
-  
-  if (!dataTypes.has('Heart Rate Variability SDNN')) {
+
+  if (!types.includes('HKQuantityTypeIdentifierHeartRateVariabilitySDNN')) {
     warnings.push('HRV data not found in export');
   }
-  
-  if (!dataTypes.has('Sleep Analysis')) {
+
+  if (!types.includes('HKCategoryTypeIdentifierSleepAnalysis')) {
     warnings.push('Sleep data not found in export');
   }
 
-  // Privacy notice
-  warnings.push('NOTE: This is a parser demo - no personal health data is stored or transmitted');
-
-  return {
-    recordCount,
-    dataTypes: Array.from(dataTypes).sort(),
-    dateRange: {
-      start: startDate,
-      end: endDate
-    },
-    warnings
-  };
+  return warnings;
 }
-
-// Supported Apple Health data types (for reference)
-export const SUPPORTED_DATA_TYPES = {
-  vitals: [
-    'Heart Rate',
-    'Heart Rate Variability SDNN',
-    'Resting Heart Rate',
-    'Blood Pressure Systolic',
-    'Blood Pressure Diastolic',
-    'Respiratory Rate'
-  ],
-  
-  activity: [
-    'Step Count',
-    'Distance Walking Running',
-    'Active Energy Burned',
-    'Basal Energy Burned',
-    'Flights Climbed',
-    'Exercise Minutes'
-  ],
-  
-  sleep: [
-    'Sleep Analysis',
-    'Sleep Duration'
-  ],
-  
-  body: [
-    'Body Mass',
-    'Height',
-    'Body Fat Percentage',
-    'Lean Body Mass'
-  ],
-  
-  nutrition: [
-    'Dietary Energy Consumed',
-    'Dietary Protein',
-    'Dietary Carbohydrates',
-    'Dietary Fat Total'
-  ]
-};
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const CLI = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'index.ts');
+
+/** The parts of the results these tests read */
+interface RpcResult {
+  protocolVersion?: string;
+  tools?: { name: string; inputSchema: { properties: Record<string, unknown> } }[];
+  isError?: boolean;
+  structuredContent?: { command: string; error?: { code: string } };
+  content?: { text: string }[];
+  contents?: { uri: string; text: string }[];
+}
+
+interface RpcResponse {
+  id: number | null;
+  result?: RpcResult;
+  error?: { code: number; message: string };
+}
+
+/** Sends the lines to `health --source mock --seed 1 mcp` and returns its responses */
+function session(lines: string[]): RpcResponse[] {
+  const run = spawnSync(process.execPath, ['--import', 'tsx', CLI, '--source', 'mock', '--seed', '1', 'mcp'], {
+    input: lines.join('\n') + '\n',
+    encoding: 'utf8',
+    timeout: 60000
+  });
+  assert.equal(run.status, 0, run.stderr);
+  return run.stdout.trim().split('\n').map(line => JSON.parse(line));
+}
+
+const request = (id: number, method: string, params?: unknown) => JSON.stringify({ jsonrpc: '2.0', id, method, params });
+
+describe('mcp', () => {
+  let responses: RpcResponse[];
+  const byId = (id: number | null) => responses.find(response => response.id === id)!;
+
+  before(() => {
+    responses = session([
+      request(1, 'initialize', { protocolVersion: '2024-11-05' }),
+      JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+      request(2, 'tools/list'),
+      '{not json',
+      request(3, 'tools/call', { name: 'hrv', arguments: { days: 7 } }),
+      request(4, 'tools/call', { name: 'hrv', arguments: { days: 'a week' } }),
+      request(5, 'tools/call', { name: 'config', arguments: {} }),
+      request(6, 'resources/read', { uri: 'health://commands' }),
+      request(7, 'tools/list', ['not', 'an', 'object']),
+      request(8, 'sampling/createMessage')
+    ]);
+  });
+
+  test('answers requests in order and never notifications', () => {
+    assert.deepEqual(responses.map(response => response.id), [1, 2, null, 3, 4, 5, 6, 7, 8]);
+    assert.equal(byId(1).result?.protocolVersion, '2024-11-05');
+  });
+
+  test('lists every command tool with an input schema', () => {
+    const tools = byId(2).result!.tools!;
+    assert.deepEqual(tools.map(tool => tool.name), ['status', 'hrv', 'sleep', 'activity', 'heart', 'workouts', 'readiness', 'compare', 'alert', 'import']);
+    assert.deepEqual(Object.keys(tools[1].inputSchema.properties), ['days', 'from', 'to', 'group_by']);
+  });
+
+  test('returns the envelope with the next actions as tool calls', () => {
+    const result = byId(3).result!;
+    assert.equal(result.isError, false);
+    assert.equal(result.structuredContent?.command, 'health hrv --days 7');
+    const [envelope, followUps] = result.content!.map(block => JSON.parse(block.text));
+    assert.deepEqual(envelope, result.structuredContent);
+    const { next_tool_calls } = followUps;
+    assert.ok(next_tool_calls.length > 0);
+    assert.ok(next_tool_calls.every((call: { name: string }) => typeof call.name === 'string'));
+  });
+
+  test('reports invalid tool arguments as a tool error', () => {
+    const result = byId(4).result!;
+    assert.equal(result.isError, true);
+    assert.equal(result.structuredContent?.error?.code, 'INVALID_ARGUMENTS');
+  });
+
+  test('reports protocol errors with JSON-RPC codes', () => {
+    assert.equal(byId(null).error?.code, -32700);
+    assert.deepEqual(byId(5).error, { code: -32602, message: 'Unknown tool: config' });
+    assert.deepEqual(byId(7).error, { code: -32602, message: 'params must be an object' });
+    assert.deepEqual(byId(8).error, { code: -32601, message: 'Method not found: sampling/createMessage' });
+  });
+
+  test('publishes the root self-description as a resource', () => {
+    const [content] = byId(6).result!.contents!;
+    assert.equal(content.uri, 'health://commands');
+    assert.equal(JSON.parse(content.text).ok, true);
+  });
+});
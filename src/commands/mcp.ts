@@ -0,0 +1,163 @@
+/**
+ * MCP command - Model Context Protocol server over stdio
+ * Newline-delimited JSON-RPC 2.0 on stdin/stdout. Every command tool is an
+ * MCP tool, and the root self-description is published as a resource.
+ */
+import { Either } from 'effect';
+import * as readline from 'readline';
+import { DataProvider } from '../data/provider.js';
+import { rootCommand } from './root.js';
+import { CommandTool, ToolRuntime, inputSchema, parseInput, toToolCall } from './tools.js';
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: unknown;
+}
+
+const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const ROOT_RESOURCE = {
+  uri: 'health://commands',
+  name: 'health',
+  title: 'health-cli command reference',
+  description: 'The root self-description: commands, global options, examples and data sources',
+  mimeType: 'application/json'
+};
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Serves requests until stdin closes. Requests are handled one at a time, in
+ * order, so responses never interleave on stdout.
+ */
+export async function runMcpServer(tools: CommandTool[], provider: DataProvider, runtime: ToolRuntime): Promise<void> {
+  const byName = new Map(tools.map(tool => [tool.name, tool]));
+  const lines = readline.createInterface({ input: process.stdin, terminal: false });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      send({ jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } });
+      continue;
+    }
+
+    // Notifications (no id) never get a response
+    const isRequest = message.id !== undefined && message.id !== null;
+    try {
+      if (message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+        throw new RpcError(INVALID_REQUEST, 'Invalid request');
+      }
+      const params = message.params ?? {};
+      if (!isRecord(params)) throw new RpcError(INVALID_PARAMS, 'params must be an object');
+      const result = await handle(message.method, params, byName, provider, runtime);
+      if (isRequest) send({ jsonrpc: '2.0', id: message.id, result });
+    } catch (handlerError: unknown) {
+      if (!isRequest) continue;
+      const code = handlerError instanceof RpcError ? handlerError.code : -32603;
+      const text = handlerError instanceof Error ? handlerError.message : String(handlerError);
+      send({ jsonrpc: '2.0', id: message.id, error: { code, message: text } });
+    }
+  }
+}
+
+async function handle(
+  method: string,
+  params: Record<string, unknown>,
+  tools: Map<string, CommandTool>,
+  provider: DataProvider,
+  runtime: ToolRuntime
+): Promise<unknown> {
+  switch (method) {
+    case 'initialize':
+      return {
+        protocolVersion: typeof params.protocolVersion === 'string' && PROTOCOL_VERSIONS.includes(params.protocolVersion)
+          ? params.protocolVersion
+          : PROTOCOL_VERSIONS[0],
+        capabilities: { tools: {}, resources: {} },
+        serverInfo: { name: 'health-cli', version: '1.0.0' },
+        instructions: 'Every tool returns the health-cli response envelope. Follow next_actions - the suggested follow-up tool calls - to explore further.'
+      };
+    case 'ping':
+      return {};
+    case 'notifications/initialized':
+    case 'notifications/cancelled':
+      return undefined;
+    case 'tools/list':
+      return {
+        tools: [...tools.values()].map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: inputSchema(tool)
+        }))
+      };
+    case 'tools/call': {
+      const tool = typeof params.name === 'string' ? tools.get(params.name) : undefined;
+      if (!tool) throw new RpcError(INVALID_PARAMS, `Unknown tool: ${String(params.name)}`);
+      const input = params.arguments ?? {};
+      if (!isRecord(input)) throw new RpcError(INVALID_PARAMS, 'Tool arguments must be an object');
+      return callTool(tool, input, tools, provider, runtime);
+    }
+    case 'resources/list':
+      return { resources: [ROOT_RESOURCE] };
+    case 'resources/templates/list':
+      return { resourceTemplates: [] };
+    case 'resources/read':
+      if (params.uri !== ROOT_RESOURCE.uri) throw new RpcError(INVALID_PARAMS, `Unknown resource: ${String(params.uri)}`);
+      return {
+        contents: [{ uri: ROOT_RESOURCE.uri, mimeType: ROOT_RESOURCE.mimeType, text: JSON.stringify(rootCommand(), null, 2) }]
+      };
+    default:
+      throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+  }
+}
+
+/**
+ * Runs a tool and wraps its envelope as an MCP result. The envelope is the
+ * text content and the structured content; next_actions that map onto a tool
+ * follow as a second block of ready-to-send tool calls.
+ */
+async function callTool(
+  tool: CommandTool,
+  input: Record<string, unknown>,
+  tools: Map<string, CommandTool>,
+  provider: DataProvider,
+  runtime: ToolRuntime
+) {
+  const parsed = await parseInput(tool, input, runtime);
+  const response = Either.isLeft(parsed) ? parsed.left : await tool.run(parsed.right, provider);
+  const followUps = response.next_actions.flatMap(action => toToolCall(action, tools) ?? []);
+
+  return {
+    content: [
+      { type: 'text', text: JSON.stringify(response, null, 2) },
+      ...(followUps.length > 0 ? [{ type: 'text', text: JSON.stringify({ next_tool_calls: followUps }, null, 2) }] : [])
+    ],
+    structuredContent: response,
+    isError: !response.ok
+  };
+}
+
+/** A JSON object - not an array or null */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function send(message: unknown): void {
+  process.stdout.write(JSON.stringify(message) + '\n');
+}
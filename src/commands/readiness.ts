@@ -0,0 +1,122 @@
+/**
+ * Readiness command - today's composite recovery score and how much each
+ * factor raised or lowered it
+ */
+import { success, error } from '../utils/responses.js';
+import { action, COMMON_ACTIONS, PARAMS } from '../utils/actions.js';
+import { loadConfig } from '../utils/config.js';
+import { NextAction } from '../types/responses.js';
+import { DataProvider } from '../data/provider.js';
+import { computeReadiness, READINESS_LABELS, READINESS_WEIGHTS, ReadinessFactor } from '../data/readiness.js';
+import { ReadinessResult, ReadinessResultSchema } from '../types/schemas.js';
+
+/** Contributors that take at least this many points off get a drill-down */
+const DRAG_POINTS = 3;
+
+/** Where to look more closely at each factor */
+const FACTOR_ACTIONS: Record<ReadinessFactor, (reason: string, priority: 'high' | 'medium') => NextAction> = {
+  hrv: (reason, priority) => action(['health', 'hrv', '--days', '{days}'], 'Analyze HRV trend over 2 weeks', { rel: 'drill-down', params: [PARAMS.days(14)], priority, reason }),
+  resting_hr: (reason, priority) => action(['health', 'heart', '--days', '{days}'], 'Check resting HR drift over 2 weeks', { rel: 'drill-down', params: [PARAMS.days(14)], priority, reason }),
+  sleep_duration: (reason, priority) => action(['health', 'sleep', '--days', '{days}'], 'Review sleep duration this week', { rel: 'drill-down', params: [PARAMS.days(7)], priority, reason }),
+  sleep_consistency: (reason, priority) => action(['health', 'sleep', '--days', '{days}'], 'Review bedtimes and wake times over 2 weeks', { rel: 'drill-down', params: [PARAMS.days(14)], priority, reason }),
+  prior_day_load: (reason, priority) => action(['health', 'workouts', '--days', '{days}'], 'See how training load built up', { rel: 'drill-down', params: [PARAMS.days(28)], priority, reason })
+};
+
+export function readinessCommand(provider: DataProvider) {
+  const command = 'readiness';
+
+  const config = loadConfig(command);
+  if ('ok' in config) return config;
+
+  const readiness = computeReadiness(provider, config);
+
+  if (!readiness) {
+    return error(
+      command,
+      `Not enough HRV and sleep data from the ${provider.name} source for a readiness score`,
+      'NO_DATA',
+      'Import an Apple Health export that contains HRV and Sleep Analysis records',
+      [
+        COMMON_ACTIONS.IMPORT,
+        COMMON_ACTIONS.STATUS
+      ]
+    );
+  }
+
+  const summary: Omit<ReadinessResult, 'insights'> = {
+    ...readiness,
+    contributors: readiness.contributors.map(c => ({
+      factor: c.factor,
+      label: READINESS_LABELS[c.factor],
+      value: c.value,
+      reference: c.reference,
+      unit: c.unit,
+      weight: READINESS_WEIGHTS[c.factor],
+      points: c.points,
+      available: c.available,
+      detail: c.detail
+    }))
+  };
+  const result: ReadinessResult = { ...summary, insights: generateReadinessInsights(summary) };
+
+  const nextActions = [
+    COMMON_ACTIONS.STATUS
+  ];
+
+  // Drill into whatever pulled the score down, worst first
+  const drags = result.contributors.filter(c => c.points <= -DRAG_POINTS).sort((a, b) => a.points - b.points);
+  const seen = new Set<string>();
+  drags.forEach((c, index) => {
+    const next = FACTOR_ACTIONS[c.factor](`Added because ${c.label} took ${-c.points} points off readiness`, index === 0 ? 'high' : 'medium');
+    if (seen.has(next.command)) return;
+    seen.add(next.command);
+    nextActions.push(next);
+  });
+
+  if (result.level === 'low' || result.level === 'poor') {
+    nextActions.push(COMMON_ACTIONS.ALERTS);
+  }
+
+  if (!result.contributors.some(c => c.factor === 'prior_day_load' && c.available)) {
+    nextActions.push(COMMON_ACTIONS.WORKOUTS);
+  }
+
+  return success(
+    command,
+    ReadinessResultSchema,
+    result,
+    nextActions,
+    provider.describe(['hrv', 'sleep', 'heart', 'workouts'])
+  );
+}
+
+function generateReadinessInsights(result: Omit<ReadinessResult, 'insights'>): string[] {
+  const insights = [];
+  const available = result.contributors.filter(c => c.available);
+
+  if (result.level === 'high') {
+    insights.push(`💚 Readiness ${result.score}/100 - ${result.recommendation.toLowerCase()}`);
+  } else if (result.level === 'moderate') {
+    insights.push(`🟡 Readiness ${result.score}/100 - ${result.recommendation.toLowerCase()}`);
+  } else if (result.level === 'low') {
+    insights.push(`🟠 Readiness ${result.score}/100 - ${result.recommendation.toLowerCase()}`);
+  } else {
+    insights.push(`🔴 Readiness ${result.score}/100 - ${result.recommendation.toLowerCase()}`);
+  }
+
+  const best = [...available].sort((a, b) => b.points - a.points)[0];
+  const worst = [...available].sort((a, b) => a.points - b.points)[0];
+  if (best && best.points >= DRAG_POINTS) {
+    insights.push(`⬆️ ${best.label} added the most (+${best.points}): ${best.detail}`);
+  }
+  if (worst && worst.points <= -DRAG_POINTS) {
+    insights.push(`⬇️ ${worst.label} cost the most (${worst.points}): ${worst.detail}`);
+  }
+
+  const missing = result.contributors.filter(c => !c.available);
+  if (missing.length > 0) {
+    insights.push(`ℹ️ No data for ${missing.map(c => c.label).join(', ')} - the score covers ${Math.round(result.coverage * 100)}% of the factor weight and stays closer to 50`);
+  }
+
+  return insights;
+}
@@ -1,10 +1,14 @@
 /**
  * Root command - Self-documenting command tree
- * Following agent-first CLI principles
+ * Following agent-first CLI principles; the commands come from help.ts
  */
-import { success, COMMON_ACTIONS } from '../utils/responses.js';
+import { success } from '../utils/responses.js';
+import { COMMON_ACTIONS } from '../utils/actions.js';
+import { RootResultSchema } from '../types/schemas.js';
+import { commandReference } from './help.js';
 
 export function rootCommand() {
+  const [root, ...commands] = commandReference();
   const result = {
     name: 'health-cli',
     version: '1.0.0',
@@ -12,60 +16,17 @@ export function rootCommand() {
     design_principles: [
       'JSON-only output for agent consumption',
       'HATEOAS next_actions for discoverability',
-      'Self-documenting command structure',
+      'Self-documenting command structure, generated from the command definitions',
       'Consistent error handling with fix suggestions',
-      'Mock data only - no personal health data'
-    ],
-    commands: [
-      {
-        name: 'health',
-        description: 'Show this help and available commands',
-        usage: 'health'
-      },
-      {
-        name: 'status',
-        description: 'Today\'s health overview with key metrics',
-        usage: 'health status'
-      },
-      {
-        name: 'hrv',
-        description: 'Heart Rate Variability trends and analysis',
-        usage: 'health hrv [--days 7]',
-        options: [
-          { name: '--days', description: 'Number of days to analyze (default: 7)' }
-        ]
-      },
-      {
-        name: 'sleep',
-        description: 'Sleep analysis and patterns',
-        usage: 'health sleep [--days 7]',
-        options: [
-          { name: '--days', description: 'Number of days to analyze (default: 7)' }
-        ]
-      },
-      {
-        name: 'alert',
-        description: 'Check health alerts and warning thresholds',
-        usage: 'health alert'
-      },
-      {
-        name: 'import',
-        description: 'Import Apple Health XML data (parser only)',
-        usage: 'health import <file>',
-        note: 'Parser implementation - processes structure without storing personal data'
-      }
-    ],
-    examples: [
-      'health status                 # Today\'s overview',
-      'health hrv --days 14         # 2 weeks HRV trend',
-      'health sleep --days 30       # Monthly sleep analysis',
-      'health alert                 # Check current alerts',
-      'health import export.xml     # Parse Apple Health export'
+      'Local only - imported health data never leaves this machine'
     ],
+    global_options: root.options,
+    commands,
+    examples: commandReference().flatMap(doc => doc.examples ?? []),
     data_sources: {
-      note: 'All data is mock/example data for demonstration',
-      supported_formats: ['Apple Health XML', 'HealthKit exports'],
-      privacy: 'No personal health data is stored or transmitted'
+      note: 'Mock data until an export is imported; every response reports its data_source',
+      supported_formats: ['Apple Health XML export (export.xml)'],
+      privacy: 'Imported records are stored locally (HEALTH_CLI_DATA_DIR) and never transmitted'
     }
   };
 
@@ -76,5 +37,5 @@ export function rootCommand() {
     COMMON_ACTIONS.ALERTS
   ];
 
-  return success('', result, nextActions);
-}
\ No newline at end of file
+  return success('', RootResultSchema, result, nextActions);
+}
@@ -0,0 +1,77 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { schemaCommand } from './schema.js';
+import { hrvCommand } from './hrv.js';
+import { loadFixtureProvider } from '../data/fixture.js';
+import { RESULT_SCHEMAS } from '../types/schemas.js';
+import { addDays } from '../utils/dates.js';
+
+const DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+interface ObjectSchema {
+  required: string[];
+  properties: Record<string, unknown>;
+  additionalProperties: boolean;
+}
+
+describe('schemaCommand', () => {
+  let dir: string;
+
+  before(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-schema-')); });
+  after(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  test('lists the envelopes and every command result', () => {
+    const response = schemaCommand();
+    assert.ok(response.ok);
+    assert.equal(response.result.dialect, DIALECT);
+    assert.deepEqual(response.result.commands, Object.keys(RESULT_SCHEMAS));
+    assert.deepEqual(Object.keys(response.result.schemas), ['success_envelope', 'error_envelope', ...Object.keys(RESULT_SCHEMAS)]);
+    for (const schema of Object.values(response.result.schemas)) {
+      assert.equal((schema as { $schema: string }).$schema, DIALECT);
+    }
+  });
+
+  test('describes one command, with or without the program name', () => {
+    for (const target of ['alert history', 'health alert history']) {
+      const response = schemaCommand(target);
+      assert.ok(response.ok);
+      assert.equal(response.command, `health schema ${target}`);
+      assert.equal(response.result.command, 'health alert history');
+      assert.deepEqual(Object.keys(response.result.schemas), ['success', 'error']);
+      assert.deepEqual(response.next_actions.map(action => action.command), ['health alert history', 'health schema']);
+    }
+
+    const root = schemaCommand('health');
+    assert.ok(root.ok);
+    assert.equal(root.result.command, 'health');
+    assert.deepEqual(root.next_actions[0].argv, ['health']);
+  });
+
+  test('matches the result a command returns', () => {
+    const file = path.join(dir, 'fixture.json');
+    fs.writeFileSync(file, JSON.stringify({ hrv: Array.from({ length: 7 }, (_, i) => ({ date: addDays('2024-01-01', i), value: 40 + i })) }));
+    const provider = loadFixtureProvider(file);
+    assert.ok(!('ok' in provider));
+    const hrv = hrvCommand(provider, { days: 7 });
+    assert.ok(hrv.ok);
+
+    const response = schemaCommand('hrv');
+    assert.ok(response.ok);
+    const { $defs } = response.result.schemas.success as { $defs: Record<string, ObjectSchema> };
+    const result = $defs.HRVResult;
+    const keys = Object.keys(hrv.result);
+    assert.equal(result.additionalProperties, false);
+    assert.deepEqual(keys.filter(key => !(key in result.properties)), []);
+    assert.deepEqual(result.required.filter(key => !keys.includes(key)), []);
+  });
+
+  test('rejects a command without a schema', () => {
+    const response = schemaCommand('hrv history');
+    assert.ok(!response.ok);
+    assert.equal(response.error.code, 'UNKNOWN_COMMAND');
+    assert.deepEqual(response.next_actions.map(action => action.command), ['health schema', 'health']);
+  });
+});
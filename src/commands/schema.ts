@@ -0,0 +1,81 @@
+/**
+ * Schema command - JSON Schema (draft 2020-12) for the response envelope and
+ * every command result, generated from the Effect Schemas in types/schemas.ts
+ */
+import { JSONSchema, Schema } from 'effect';
+import { success, error } from '../utils/responses.js';
+import { action, COMMON_ACTIONS } from '../utils/actions.js';
+import {
+  RESULT_SCHEMAS,
+  ErrorResponseSchema,
+  SchemaResultSchema,
+  successResponseSchema
+} from '../types/schemas.js';
+
+const DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+type SchemaCommand = keyof typeof RESULT_SCHEMAS;
+
+const SCHEMA_COMMANDS = Object.keys(RESULT_SCHEMAS) as SchemaCommand[];
+
+const SCHEMA_ACTIONS = {
+  LIST: action(['health', 'schema'], 'List every published schema', { rel: 'navigate' })
+};
+
+export function schemaCommand(target?: string) {
+  const command = target ? `schema ${target}` : 'schema';
+  const key = target?.replace(/^health\s+/, '').trim() || undefined;
+
+  if (!key) {
+    return success(command, SchemaResultSchema, {
+      dialect: DIALECT,
+      commands: SCHEMA_COMMANDS,
+      schemas: {
+        success_envelope: toJSONSchema(successResponseSchema(Schema.Unknown)),
+        error_envelope: toJSONSchema(ErrorResponseSchema),
+        ...Object.fromEntries(SCHEMA_COMMANDS.map(name => [name, toJSONSchema(RESULT_SCHEMAS[name])]))
+      }
+    }, [
+      action(['health', 'schema', '{command}'], 'Full response schema for one command', {
+        rel: 'drill-down',
+        params: [{ name: 'command', type: 'string', required: true, default: 'status', description: `One of: ${SCHEMA_COMMANDS.join(', ')}` }]
+      }),
+      COMMON_ACTIONS.ROOT
+    ]);
+  }
+
+  if (!isSchemaCommand(key)) {
+    return error(
+      command,
+      `No schema for command: ${key}`,
+      'UNKNOWN_COMMAND',
+      `Use one of: ${SCHEMA_COMMANDS.join(', ')}`,
+      [
+        SCHEMA_ACTIONS.LIST,
+        COMMON_ACTIONS.ROOT
+      ]
+    );
+  }
+
+  return success(command, SchemaResultSchema, {
+    dialect: DIALECT,
+    command: key === 'health' ? 'health' : `health ${key}`,
+    commands: SCHEMA_COMMANDS,
+    schemas: {
+      success: toJSONSchema(successResponseSchema<Schema.Schema.Any>(RESULT_SCHEMAS[key])),
+      error: toJSONSchema(ErrorResponseSchema)
+    }
+  }, [
+    action(key === 'health' ? ['health'] : ['health', ...key.split(' ')], 'Run the command this schema describes', { rel: 'navigate' }),
+    SCHEMA_ACTIONS.LIST
+  ]);
+}
+
+function isSchemaCommand(key: string): key is SchemaCommand {
+  return (SCHEMA_COMMANDS as string[]).includes(key);
+}
+
+/** Encoded side only - that is what goes out on stdout */
+function toJSONSchema(schema: Schema.Schema.Any): JSONSchema.JsonSchema7Root {
+  return JSONSchema.make(Schema.encodedSchema(schema), { target: 'jsonSchema2020-12' });
+}
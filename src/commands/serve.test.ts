@@ -0,0 +1,129 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChildProcess, spawn, spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { Link } from './serve.js';
+
+const CLI = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'index.ts');
+
+/** The parts of the response body these tests read */
+interface Body {
+  ok: boolean;
+  command: string;
+  error?: { code: string };
+  _links: Link[];
+}
+
+describe('serve', () => {
+  let dir: string;
+  let server: ChildProcess;
+  let base: string;
+
+  before(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-serve-'));
+    server = spawn(process.execPath, ['--import', 'tsx', CLI, '--source', 'mock', '--seed', '1', 'serve', '--port', '0'], {
+      env: { ...process.env, HEALTH_CLI_DATA_DIR: dir, HEALTH_CLI_CONFIG: path.join(dir, 'config.json') },
+      stdio: ['ignore', 'ignore', 'pipe']
+    });
+    // The listening address is the first line on stderr
+    base = await new Promise<string>((resolve, reject) => {
+      let stderr = '';
+      const timer = setTimeout(() => reject(new Error(`No listening address: ${stderr}`)), 60000);
+      server.stderr!.on('data', chunk => {
+        stderr += chunk;
+        const listening = /"listening":"([^"]+)"/.exec(stderr);
+        if (listening) {
+          clearTimeout(timer);
+          resolve(listening[1]);
+        }
+      });
+      server.once('exit', code => reject(new Error(`Exited with ${code}: ${stderr}`)));
+    });
+  });
+  after(() => {
+    server.kill();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const request = async (pathname: string, init?: RequestInit) => {
+    const response = await fetch(`${base}${pathname}`, init);
+    return { status: response.status, headers: response.headers, body: await response.json() as Body };
+  };
+
+  test('links next actions to the endpoints they map onto', async () => {
+    const { status, body } = await request('/hrv?days=7');
+    assert.equal(status, 200);
+    assert.equal(body.command, 'health hrv --days 7');
+    assert.deepEqual(body._links[0], { rel: 'self', href: '/hrv?days=7', method: 'GET', title: 'health hrv --days 7' });
+    assert.deepEqual(body._links.slice(1).find(link => link.href.startsWith('/hrv?')), {
+      rel: 'hrv', href: '/hrv?days=14', method: 'GET', title: 'Extend analysis to 2 weeks'
+    });
+  });
+
+  test('puts every argument of a linked command in the query', async () => {
+    const { status, body } = await request('/compare?metric=hrv,pace&period=7d&vs=previous');
+    assert.equal(status, 400);
+    assert.equal(body.error?.code, 'INVALID_METRIC');
+    assert.deepEqual(body._links.map(link => link.href).slice(1), [
+      '/compare?metric=hrv&period=7d&vs=previous',
+      '/compare?period=7d&vs=previous'
+    ]);
+  });
+
+  test('links the root command to the index', async () => {
+    const { status, body } = await request('/sleeping');
+    assert.equal(status, 404);
+    assert.equal(body.error?.code, 'NOT_FOUND');
+    assert.deepEqual(body._links[1], { rel: 'index', href: '/', method: 'GET', title: 'Show available commands' });
+  });
+
+  test('reads a bare boolean in the query as true', async () => {
+    assert.equal((await request('/alerts?changes_only')).body.command, 'health alert --changes-only');
+    assert.equal((await request('/alerts?changes_only=no')).body.command, 'health alert');
+  });
+
+  test('maps error codes to HTTP statuses', async () => {
+    const invalid = await request('/hrv?days=a%20week');
+    assert.equal(invalid.status, 400);
+    assert.equal(invalid.body.error?.code, 'INVALID_ARGUMENTS');
+
+    const unknown = await request('/hrv?weeks=2');
+    assert.equal(unknown.status, 400);
+    assert.equal(unknown.body.error?.code, 'INVALID_ARGUMENTS');
+
+    const wrongMethod = await request('/hrv', { method: 'POST' });
+    assert.equal(wrongMethod.status, 405);
+    assert.equal(wrongMethod.headers.get('allow'), 'GET');
+  });
+
+  test('takes POST arguments from a JSON body', async () => {
+    const notJson = await request('/import', { method: 'POST', body: '{"file":' });
+    assert.equal(notJson.status, 400);
+    assert.equal(notJson.body.error?.code, 'INVALID_BODY');
+
+    const missing = await request('/import', { method: 'POST', body: JSON.stringify({ file: path.join(dir, 'export.xml'), dry_run: true }) });
+    assert.equal(missing.status, 400);
+    assert.equal(missing.body.error?.code, 'INVALID_ARGUMENTS');
+  });
+});
+
+describe('serve on a port in use', () => {
+  test('fails with PORT_IN_USE', async () => {
+    const blocker = net.createServer();
+    await new Promise<void>(resolve => blocker.listen(0, '127.0.0.1', resolve));
+    const { port } = blocker.address() as net.AddressInfo;
+    try {
+      const run = spawnSync(process.execPath, ['--import', 'tsx', CLI, '--source', 'mock', 'serve', '--port', String(port)], { encoding: 'utf8', timeout: 60000 });
+      const body = JSON.parse(run.stdout);
+      assert.equal(body.error.code, 'PORT_IN_USE');
+      assert.match(body.error.message, new RegExp(`Could not listen on port ${port}: listen EADDRINUSE`));
+      assert.equal(run.status, 52);
+    } finally {
+      blocker.close();
+    }
+  });
+});
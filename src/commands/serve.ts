@@ -0,0 +1,285 @@
+/**
+ * Serve command - local HTTP API over the same command tools as the CLI
+ * Responses are the usual envelope plus `_links`, the next_actions rendered
+ * as hypermedia links, and the HTTP status follows the error code.
+ */
+import { Either } from 'effect';
+import * as http from 'http';
+import { ActionParam, CLIResponse, ErrorResponse, NextAction } from '../types/responses.js';
+import { DataProvider } from '../data/provider.js';
+import { error } from '../utils/responses.js';
+import { isSystemError } from '../utils/errors.js';
+import { action, COMMON_ACTIONS } from '../utils/actions.js';
+import { rootCommand } from './root.js';
+import { CommandTool, ToolRuntime, parseInput, toToolCall, toolParameters } from './tools.js';
+
+export interface Link {
+  rel: string;
+  href: string;
+  method: 'GET' | 'POST';
+  title: string;
+}
+
+interface Route {
+  path: string;
+  method: Link['method'];
+}
+
+/** Route per tool; alert evaluation is a read of the current alerts, import changes the store */
+const ROUTES: Record<string, Route> = {
+  status: { path: '/status', method: 'GET' },
+  hrv: { path: '/hrv', method: 'GET' },
+  sleep: { path: '/sleep', method: 'GET' },
+  activity: { path: '/activity', method: 'GET' },
+  heart: { path: '/heart', method: 'GET' },
+  workouts: { path: '/workouts', method: 'GET' },
+  readiness: { path: '/readiness', method: 'GET' },
+  compare: { path: '/compare', method: 'GET' },
+  alert: { path: '/alerts', method: 'GET' },
+  import: { path: '/import', method: 'POST' }
+};
+
+const INDEX_ROUTE: Route = { path: '/', method: 'GET' };
+
+/** Error code to HTTP status; anything unlisted is a server-side failure */
+const HTTP_STATUS: Record<string, number> = {
+  INVALID_DAYS_RANGE: 400,
+  INVALID_ARGUMENTS: 400,
+  INVALID_DATE: 400,
+  INVALID_RANGE: 400,
+  INVALID_PERIOD: 400,
+  INVALID_COMPARISON: 400,
+  INVALID_METRIC: 400,
+  INVALID_DURATION: 400,
+  INVALID_LIMIT: 400,
+  INVALID_BODY: 400,
+  INVALID_PORT: 400,
+  MISSING_FIXTURE: 400,
+  NOT_FOUND: 404,
+  NO_DATA: 404,
+  NO_STORE: 404,
+  FILE_NOT_FOUND: 404,
+  ALERT_NOT_FOUND: 404,
+  SINK_NOT_FOUND: 404,
+  METHOD_NOT_ALLOWED: 405,
+  PARSE_ERROR: 422,
+  INVALID_FIXTURE: 422,
+  FILE_READ_FAILED: 422,
+  SINK_FAILED: 502,
+  DISK_FULL: 507
+};
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+const PORT = (suggested: number): ActionParam => ({ name: 'port', type: 'integer', required: false, default: suggested, min: 0, max: 65535 });
+
+/**
+ * Serves until the process is stopped. The returned promise only settles if
+ * the server cannot start; the listening address goes to stderr.
+ */
+export async function serveCommand(
+  port: number,
+  tools: CommandTool[],
+  provider: DataProvider,
+  runtime: ToolRuntime
+): Promise<ErrorResponse> {
+  const command = `serve --port ${port}`;
+  if (port < 0 || port > 65535) {
+    return error(
+      command,
+      `Invalid port: ${port}`,
+      'INVALID_PORT',
+      'Use a port between 1 and 65535, or 0 for any free port',
+      [action(['health', 'serve', '--port', '{port}'], 'Serve on the default port', { rel: 'remediate', params: [PORT(8080)] })]
+    );
+  }
+
+  let server: http.Server;
+  try {
+    server = await startHttpServer(port, tools, provider, runtime);
+  } catch (listenError: unknown) {
+    const inUse = isSystemError(listenError) && listenError.code === 'EADDRINUSE';
+    return error(
+      command,
+      `Could not listen on port ${port}: ${listenError instanceof Error ? listenError.message : String(listenError)}`,
+      inUse ? 'PORT_IN_USE' : 'SERVE_FAILED',
+      inUse ? 'Stop the other process or pick another --port' : 'Check that the port is free and allowed',
+      [action(['health', 'serve', '--port', '{port}'], 'Try the next port', { rel: 'remediate', params: [PORT(port + 1)] })]
+    );
+  }
+
+  const address = server.address() as { port: number };
+  process.stderr.write(JSON.stringify({
+    listening: `http://127.0.0.1:${address.port}`,
+    endpoints: [INDEX_ROUTE, ...Object.values(ROUTES)].map(route => `${route.method} ${route.path}`)
+  }) + '\n');
+  return new Promise(() => {});
+}
+
+/** Resolves once the port is bound */
+function startHttpServer(
+  port: number,
+  tools: CommandTool[],
+  provider: DataProvider,
+  runtime: ToolRuntime
+): Promise<http.Server> {
+  const byName = new Map(tools.map(tool => [tool.name, tool]));
+  const server = http.createServer((request, response) => {
+    handleRequest(request, byName, provider, runtime)
+      .catch((handlerError: unknown) => error(
+        'serve',
+        handlerError instanceof Error ? handlerError.message : String(handlerError),
+        'INTERNAL_ERROR',
+        'Check the server log and report this error to the maintainers',
+        [COMMON_ACTIONS.ROOT]
+      ))
+      .then(body => {
+        const status = body.ok ? 200 : HTTP_STATUS[body.error.code] ?? 500;
+        const headers: http.OutgoingHttpHeaders = { 'content-type': 'application/json; charset=utf-8' };
+        if (!body.ok && body.error.code === 'METHOD_NOT_ALLOWED') headers.allow = allowedMethods(request.url ?? '/', byName);
+        response.writeHead(status, headers);
+        response.end(JSON.stringify(withLinks(body, request, byName), null, 2) + '\n');
+      });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    // Local only - the API serves personal health data
+    server.listen(port, '127.0.0.1', () => resolve(server));
+  });
+}
+
+async function handleRequest(
+  request: http.IncomingMessage,
+  tools: Map<string, CommandTool>,
+  provider: DataProvider,
+  runtime: ToolRuntime
+): Promise<CLIResponse> {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  const method = request.method ?? 'GET';
+
+  if (url.pathname === INDEX_ROUTE.path) {
+    return method === 'GET' ? rootCommand() : methodNotAllowed(url.pathname, method);
+  }
+
+  const entry = Object.entries(ROUTES).find(([, route]) => route.path === url.pathname);
+  const tool = entry && tools.get(entry[0]);
+  if (!entry || !tool) {
+    return error(
+      `serve ${url.pathname}`,
+      `No endpoint at ${url.pathname}`,
+      'NOT_FOUND',
+      `Endpoints: ${[INDEX_ROUTE, ...Object.values(ROUTES)].map(route => `${route.method} ${route.path}`).join(', ')}`,
+      [COMMON_ACTIONS.ROOT]
+    );
+  }
+  if (method !== entry[1].method) return methodNotAllowed(url.pathname, method);
+
+  const body = method === 'POST' ? await readJsonBody(request) : Either.right({});
+  if (Either.isLeft(body)) {
+    return error(tool.name, body.left, 'INVALID_BODY', 'Send a JSON object, e.g. {"file": "export.xml"}', [COMMON_ACTIONS.ROOT]);
+  }
+
+  const parsed = await parseInput(tool, { ...queryInput(tool, url.searchParams), ...body.right }, runtime);
+  return Either.isLeft(parsed) ? parsed.left : tool.run(parsed.right, provider);
+}
+
+/** Query values are strings; booleans also accept a bare flag (?changes_only) */
+function queryInput(tool: CommandTool, query: URLSearchParams): Record<string, unknown> {
+  const parameters = toolParameters(tool);
+  const input: Record<string, unknown> = {};
+  for (const name of new Set(query.keys())) {
+    const parameter = parameters.get(name);
+    const values = query.getAll(name);
+    if (parameter?.bool) input[name] = ['', 'true', '1', 'yes'].includes(values[0]);
+    else input[name] = parameter?.repeated ? values : values[0];
+  }
+  return input;
+}
+
+function readJsonBody(request: http.IncomingMessage): Promise<Either.Either<Record<string, unknown>, string>> {
+  return new Promise(resolve => {
+    let raw = '';
+    request.setEncoding('utf8');
+    request.on('data', chunk => {
+      raw += chunk;
+      if (raw.length > MAX_BODY_BYTES) {
+        resolve(Either.left('Request body is too large'));
+        // Drain the rest so the response can still be written
+        request.removeAllListeners('data');
+        request.removeAllListeners('end');
+        request.resume();
+      }
+    });
+    request.on('end', () => {
+      if (!raw.trim()) return resolve(Either.right({}));
+      try {
+        const body = JSON.parse(raw);
+        resolve(typeof body === 'object' && body !== null && !Array.isArray(body)
+          ? Either.right(body)
+          : Either.left('Request body must be a JSON object'));
+      } catch {
+        resolve(Either.left('Request body is not valid JSON'));
+      }
+    });
+  });
+}
+
+function methodNotAllowed(path: string, method: string): CLIResponse {
+  return error(
+    `serve ${path}`,
+    `${method} is not supported on ${path}`,
+    'METHOD_NOT_ALLOWED',
+    'See the Allow header for the supported method',
+    [COMMON_ACTIONS.ROOT]
+  );
+}
+
+function allowedMethods(requestUrl: string, tools: Map<string, CommandTool>): string {
+  const path = new URL(requestUrl, 'http://localhost').pathname;
+  if (path === INDEX_ROUTE.path) return INDEX_ROUTE.method;
+  const entry = Object.entries(ROUTES).find(([name, route]) => route.path === path && tools.has(name));
+  return entry ? entry[1].method : '';
+}
+
+// Hypermedia links
+
+function withLinks(response: CLIResponse, request: http.IncomingMessage, tools: Map<string, CommandTool>) {
+  const self: Link = {
+    rel: 'self',
+    href: request.url ?? '/',
+    method: request.method === 'POST' ? 'POST' : 'GET',
+    title: response.command
+  };
+  return {
+    ...response,
+    _links: [self, ...response.next_actions.flatMap(action => toLink(action, tools) ?? [])]
+  };
+}
+
+/**
+ * next_actions that map onto an endpoint become links. CLI-only commands
+ * (subcommands, config, schema) have no link and stay in next_actions.
+ */
+function toLink(action: NextAction, tools: Map<string, CommandTool>): Link | null {
+  if (action.command.trim() === 'health') {
+    return { rel: 'index', href: INDEX_ROUTE.path, method: INDEX_ROUTE.method, title: action.description };
+  }
+
+  const call = toToolCall(action, tools);
+  const route = call && ROUTES[call.name];
+  if (!call || !route) return null;
+
+  // POST endpoints take their arguments in the body, GET endpoints in the query
+  const query = new URLSearchParams();
+  if (route.method === 'GET') {
+    for (const [name, value] of Object.entries(call.arguments)) query.append(name, String(value));
+  }
+  const search = query.toString();
+  return {
+    rel: route.path.slice(1),
+    href: search ? `${route.path}?${search}` : route.path,
+    method: route.method,
+    title: action.description
+  };
+}
@@ -1,33 +1,45 @@
 /**
  * Sleep command - Sleep analysis and patterns
  */
-import { success, error, COMMON_ACTIONS } from '../utils/responses.js';
-import { generateMockSleep } from '../data/mockData.js';
+import { success, error } from '../utils/responses.js';
+import { action, because, COMMON_ACTIONS, PARAMS } from '../utils/actions.js';
+import { groupByCalendar, inPeriod, periodActions, PeriodOptions, resolvePeriod } from '../utils/period.js';
+import { DataProvider } from '../data/provider.js';
+import { calculateSleepConsistency } from '../data/health.js';
+import { calculateSleepRegularity } from '../data/sleepRegularity.js';
+import { circularMeanMinutes, minutesToTime, timeToMinutes } from '../utils/dates.js';
+import { SleepData } from '../types/responses.js';
+import { SleepResult, SleepResultSchema } from '../types/schemas.js';
 
-export function sleepCommand(days: number = 7) {
-  // Validate input
-  if (days < 1 || days > 90) {
+export function sleepCommand(provider: DataProvider, options: PeriodOptions = {}) {
+  const period = resolvePeriod('sleep', provider, 'sleep', options);
+  if ('ok' in period) return period;
+
+  const sleepData = inPeriod(period, period.provider.sleep(period.days));
+
+  if (sleepData.length === 0) {
     return error(
-      `sleep --days ${days}`,
-      'Days parameter must be between 1 and 90',
-      'INVALID_DAYS_RANGE',
-      'Use a value between 1 and 90 days',
+      period.command,
+      `No sleep data available from the ${provider.name} source`,
+      'NO_DATA',
+      'Import an Apple Health export that contains Sleep Analysis records',
       [
-        { command: 'health sleep', description: 'Use default 7 days' },
-        { command: 'health sleep --days 14', description: 'Try 2 weeks' },
-        { command: 'health sleep --days 30', description: 'Try 1 month' }
+        COMMON_ACTIONS.IMPORT,
+        COMMON_ACTIONS.HRV
       ]
     );
   }
 
-  const sleepData = generateMockSleep(days);
   const analysis = analyzeSleepPattern(sleepData);
+  const lastNight = sleepData[sleepData.length - 1];
+  const napCount = sleepData.reduce((sum, s) => sum + s.nap_count, 0);
+  const napHours = sleepData.reduce((sum, s) => sum + s.nap_hours, 0);
 
-  const result = {
+  const summary: Omit<SleepResult, 'insights'> = {
     period: {
-      days: days,
-      start_date: sleepData[0].date,
-      end_date: sleepData[sleepData.length - 1].date
+      days: period.days,
+      start_date: period.from,
+      end_date: period.to
     },
     last_night: {
       duration: sleepData[sleepData.length - 1].duration_hours,
@@ -35,22 +47,45 @@ export function sleepCommand(days: number = 7) {
       bedtime: sleepData[sleepData.length - 1].bedtime,
       wake_time: sleepData[sleepData.length - 1].wake_time,
       deep_sleep: sleepData[sleepData.length - 1].deep_sleep_hours,
-      rem_sleep: sleepData[sleepData.length - 1].rem_sleep_hours
+      rem_sleep: sleepData[sleepData.length - 1].rem_sleep_hours,
+      core_sleep: lastNight.core_sleep_hours,
+      time_in_bed: lastNight.time_in_bed_hours,
+      efficiency: lastNight.efficiency,
+      latency_minutes: lastNight.latency_minutes,
+      waso_minutes: lastNight.waso_minutes
     },
     averages: {
-      duration: Math.round(sleepData.reduce((sum, s) => sum + s.duration_hours, 0) / days * 10) / 10,
-      score: Math.round(sleepData.reduce((sum, s) => sum + s.sleep_score, 0) / days),
-      deep_sleep: Math.round(sleepData.reduce((sum, s) => sum + s.deep_sleep_hours, 0) / days * 10) / 10,
-      rem_sleep: Math.round(sleepData.reduce((sum, s) => sum + s.rem_sleep_hours, 0) / days * 10) / 10,
+      duration: Math.round(sleepData.reduce((sum, s) => sum + s.duration_hours, 0) / sleepData.length * 10) / 10,
+      score: Math.round(sleepData.reduce((sum, s) => sum + s.sleep_score, 0) / sleepData.length),
+      deep_sleep: Math.round(sleepData.reduce((sum, s) => sum + s.deep_sleep_hours, 0) / sleepData.length * 10) / 10,
+      rem_sleep: Math.round(sleepData.reduce((sum, s) => sum + s.rem_sleep_hours, 0) / sleepData.length * 10) / 10,
+      core_sleep: averageOf(sleepData.map(s => s.core_sleep_hours), 10),
       bedtime: calculateAverageTime(sleepData.map(s => s.bedtime)),
-      wake_time: calculateAverageTime(sleepData.map(s => s.wake_time))
+      wake_time: calculateAverageTime(sleepData.map(s => s.wake_time)),
+      efficiency: averageOf(sleepData.map(s => s.efficiency), 1),
+      latency_minutes: averageOf(sleepData.map(s => s.latency_minutes), 1),
+      waso_minutes: averageOf(sleepData.map(s => s.waso_minutes), 1)
+    },
+    naps: {
+      days_with_naps: sleepData.filter(s => s.nap_count > 0).length,
+      total_hours: Math.round(napHours * 10) / 10,
+      average_minutes: napCount > 0 ? Math.round(napHours * 60 / napCount) : null
     },
     patterns: analysis,
     sleep_debt: calculateSleepDebt(sleepData),
     consistency: calculateSleepConsistency(sleepData),
-    data: sleepData.slice(-10), // Last 10 days for display
-    insights: generateSleepInsights(sleepData, analysis)
+    regularity: calculateSleepRegularity(sleepData),
+    ...(period.groupBy !== null && {
+      groups: groupByCalendar(sleepData, period.groupBy).map(group => ({
+        period: group.key,
+        start_date: group.start < period.from ? period.from : group.start,
+        end_date: group.end > period.to ? period.to : group.end,
+        ...describeNights(group.entries)
+      }))
+    }),
+    data: sleepData
   };
+  const result: SleepResult = { ...summary, insights: generateSleepInsights(sleepData, analysis, summary) };
 
   const nextActions = [
     COMMON_ACTIONS.STATUS,
@@ -58,28 +93,38 @@ export function sleepCommand(days: number = 7) {
   ];
 
   // Add period-specific next actions
+  const days = period.explicit ? null : period.days;
   if (days === 7) {
-    nextActions.push({
-      command: 'health sleep --days 30',
-      description: 'View monthly sleep patterns'
-    });
+    nextActions.push(action(['health', 'sleep', '--days', '{days}'], 'View monthly sleep patterns', {
+      rel: 'widen-range',
+      params: [PARAMS.days(30)]
+    }));
   }
 
+  nextActions.push(...periodActions('sleep', period));
+
   if (result.last_night.duration < 7) {
-    nextActions.unshift(COMMON_ACTIONS.ALERTS);
+    nextActions.unshift(because(COMMON_ACTIONS.ALERTS, `Added because last night's sleep was ${result.last_night.duration}h, under 7h`));
   }
 
   if (result.consistency.bedtime_variance > 60) {
-    nextActions.push({
-      command: 'health sleep --days 14',
-      description: 'Analyze bedtime consistency over 2 weeks'
-    });
+    nextActions.push(action(['health', 'sleep', '--days', '{days}'], 'Analyze bedtime consistency over 2 weeks', {
+      rel: 'drill-down',
+      params: [PARAMS.days(14)],
+      reason: `Added because bedtime varies by ${result.consistency.bedtime_variance} minutes`
+    }));
   }
 
-  return success(`sleep --days ${days}`, result, nextActions);
+  return success(
+    period.command,
+    SleepResultSchema,
+    result,
+    nextActions,
+    period.provider.describe(['sleep'])
+  );
 }
 
-function analyzeSleepPattern(data: any[]): any {
+function analyzeSleepPattern(data: SleepData[]): SleepResult['patterns'] {
   const durations = data.map(s => s.duration_hours);
   const scores = data.map(s => s.sleep_score);
   
@@ -101,7 +146,7 @@ function analyzeSleepPattern(data: any[]): any {
   };
 }
 
-function calculateTrend(values: number[]): string {
+function calculateTrend(values: number[]): SleepResult['patterns']['duration_trend'] {
   if (values.length < 3) return 'insufficient_data';
   
   const recent = values.slice(-3).reduce((sum, v) => sum + v, 0) / 3;
@@ -112,7 +157,7 @@ function calculateTrend(values: number[]): string {
   return change > 0 ? 'improving' : 'declining';
 }
 
-function calculateSleepDebt(data: any[]): any {
+function calculateSleepDebt(data: SleepData[]): SleepResult['sleep_debt'] {
   const targetHours = 8;
   let totalDebt = 0;
   
@@ -129,42 +174,37 @@ function calculateSleepDebt(data: any[]): any {
   };
 }
 
-function calculateSleepConsistency(data: any[]): any {
-  const bedtimes = data.map(s => timeToMinutes(s.bedtime));
-  const wakeTimes = data.map(s => timeToMinutes(s.wake_time));
-  
-  const bedtimeAvg = bedtimes.reduce((sum, t) => sum + t, 0) / bedtimes.length;
-  const wakeTimeAvg = wakeTimes.reduce((sum, t) => sum + t, 0) / wakeTimes.length;
-  
-  const bedtimeVariance = Math.round(Math.sqrt(
-    bedtimes.reduce((sum, t) => sum + Math.pow(t - bedtimeAvg, 2), 0) / bedtimes.length
-  ));
-  
-  const wakeTimeVariance = Math.round(Math.sqrt(
-    wakeTimes.reduce((sum, t) => sum + Math.pow(t - wakeTimeAvg, 2), 0) / wakeTimes.length
-  ));
-  
+/** Statistics for one week or month of nights */
+function describeNights(nights: SleepData[]): Omit<NonNullable<SleepResult['groups']>[number], 'period' | 'start_date' | 'end_date'> {
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
   return {
-    bedtime_variance: bedtimeVariance,
-    wake_time_variance: wakeTimeVariance,
-    consistency_score: Math.max(0, 100 - (bedtimeVariance + wakeTimeVariance) / 2)
+    nights: nights.length,
+    duration: Math.round(mean(nights.map(s => s.duration_hours)) * 10) / 10,
+    score: Math.round(mean(nights.map(s => s.sleep_score))),
+    deep_sleep: Math.round(mean(nights.map(s => s.deep_sleep_hours)) * 10) / 10,
+    rem_sleep: Math.round(mean(nights.map(s => s.rem_sleep_hours)) * 10) / 10,
+    efficiency: averageOf(nights.map(s => s.efficiency), 1),
+    bedtime: calculateAverageTime(nights.map(s => s.bedtime)),
+    wake_time: calculateAverageTime(nights.map(s => s.wake_time)),
+    sleep_debt_hours: calculateSleepDebt(nights).total_hours,
+    consistency_score: Math.round(calculateSleepConsistency(nights).consistency_score)
   };
 }
 
-function timeToMinutes(time: string): number {
-  const [hours, minutes] = time.split(':').map(Number);
-  return hours * 60 + minutes;
+/** Mean of the nights that have the measurement, rounded to 1/`precision` */
+function averageOf(values: (number | null)[], precision: number): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  if (present.length === 0) return null;
+  return Math.round(present.reduce((sum, v) => sum + v, 0) / present.length * precision) / precision;
 }
 
+/** Circular mean, so 23:30 and 00:30 average to midnight */
 function calculateAverageTime(times: string[]): string {
-  const minutes = times.map(timeToMinutes);
-  const avgMinutes = Math.round(minutes.reduce((sum, m) => sum + m, 0) / minutes.length);
-  const hours = Math.floor(avgMinutes / 60);
-  const mins = avgMinutes % 60;
-  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+  return minutesToTime(circularMeanMinutes(times.map(timeToMinutes)));
 }
 
-function generateSleepInsights(data: any[], analysis: any): string[] {
+function generateSleepInsights(data: SleepData[], analysis: SleepResult['patterns'], summary: Omit<SleepResult, 'insights'>): string[] {
+  const { averages, consistency, regularity } = summary;
   const insights = [];
   const lastNight = data[data.length - 1];
   
@@ -192,6 +232,38 @@ function generateSleepInsights(data: any[], analysis: any): string[] {
   } else if (lastNight.duration_hours < 7) {
     insights.push('😴 Last night was short - aim for earlier bedtime tonight');
   }
+
+  // Usual clinical cut-offs: efficiency under 85%, over 30 minutes to fall asleep or awake after sleep onset
+  if (averages.efficiency !== null && averages.efficiency < 85) {
+    insights.push(`🛏️ Sleep efficiency averages ${averages.efficiency}% - a lot of time in bed is spent awake`);
+  }
+  if (averages.latency_minutes !== null && averages.latency_minutes > 30) {
+    insights.push(`⏳ Taking ${Math.round(averages.latency_minutes)} minutes on average to fall asleep - wind down earlier`);
+  }
+  if (averages.waso_minutes !== null && averages.waso_minutes > 30) {
+    insights.push(`🌙 Awake ${Math.round(averages.waso_minutes)} minutes a night after falling asleep - check caffeine, alcohol and room temperature`);
+  }
+
+  const napDays = data.filter(s => s.nap_count > 0).length;
+  if (napDays > data.length / 2) {
+    insights.push(`💤 Napped on ${napDays} of ${data.length} days - frequent naps can point to short or broken night sleep`);
+  }
+
+  const sri = consistency.sleep_regularity_index;
+  if (sri !== null && sri < 70) {
+    insights.push(`🔀 Sleep Regularity Index ${sri} - sleep and wake times shift a lot from day to day`);
+  } else if (sri !== null && sri >= 85) {
+    insights.push(`⏰ Sleep Regularity Index ${sri} - a very regular sleep schedule`);
+  }
+
+  const jetLag = regularity.social_jet_lag_minutes;
+  if (jetLag !== null && Math.abs(jetLag) >= 60) {
+    insights.push(`🌍 Social jet lag of ${Math.round(Math.abs(jetLag) / 6) / 10}h - weekend sleep runs ${jetLag > 0 ? 'later' : 'earlier'} than on workdays (midpoint ${regularity.free_day_midpoint} vs ${regularity.workday_midpoint})`);
+  }
+
+  if (regularity.chronotype) {
+    insights.push(`🧭 ${regularity.chronotype.category[0].toUpperCase()}${regularity.chronotype.category.slice(1)} chronotype - free-day mid-sleep ${regularity.chronotype.corrected_free_day_midpoint} after correcting for catch-up sleep`);
+  }
   
   return insights;
 }
\ No newline at end of file
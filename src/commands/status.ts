@@ -1,51 +1,108 @@
 /**
  * Status command - Today's health overview
  */
-import { success, COMMON_ACTIONS } from '../utils/responses.js';
-import { generateMockStatus } from '../data/mockData.js';
-
-export function statusCommand() {
-  const status = generateMockStatus();
+import { success, error } from '../utils/responses.js';
+import { action, because, COMMON_ACTIONS, PARAMS } from '../utils/actions.js';
+import { loadConfig } from '../utils/config.js';
+import { DataProvider } from '../data/provider.js';
+import { computeReadiness } from '../data/readiness.js';
+import { HealthStatus } from '../types/responses.js';
+import { StatusResult, StatusResultSchema } from '../types/schemas.js';
+
+export function statusCommand(provider: DataProvider) {
+  const config = loadConfig('status');
+  if ('ok' in config) return config;
+
+  const status = provider.status();
+
+  if (!status) {
+    return error(
+      'status',
+      `Not enough HRV and sleep data from the ${provider.name} source for a status overview`,
+      'NO_DATA',
+      'Import an Apple Health export that contains HRV and Sleep Analysis records',
+      [
+        COMMON_ACTIONS.IMPORT,
+        COMMON_ACTIONS.ROOT
+      ]
+    );
+  }
   
-  const result = {
+  const readiness = computeReadiness(provider, config);
+  const overview = {
     ...status,
-    summary: generateHealthSummary(status),
-    recommendations: generateRecommendations(status)
+    readiness: readiness && { score: readiness.score, coverage: readiness.coverage, level: readiness.level, recommendation: readiness.recommendation }
+  };
+  const result: StatusResult = {
+    ...overview,
+    summary: generateHealthSummary(overview),
+    recommendations: generateRecommendations(overview)
   };
 
   const nextActions = [
     COMMON_ACTIONS.HRV,
-    COMMON_ACTIONS.SLEEP,
-    COMMON_ACTIONS.ALERTS
+    COMMON_ACTIONS.SLEEP
   ];
 
+  if (overview.readiness && (overview.readiness.level === 'low' || overview.readiness.level === 'poor')) {
+    nextActions.unshift(because(COMMON_ACTIONS.READINESS, `Added because readiness is ${overview.readiness.score}/100`));
+  } else {
+    nextActions.unshift(COMMON_ACTIONS.READINESS);
+  }
+
   // Add specific next actions based on current status
   if (status.alerts.length > 0) {
-    nextActions.unshift(COMMON_ACTIONS.ALERTS);
+    nextActions.unshift(because(COMMON_ACTIONS.ALERTS, `Added because ${status.alerts.length} alert(s) are active`));
+  } else {
+    nextActions.push(COMMON_ACTIONS.ALERTS);
   }
 
   if (status.hrv.category === 'low') {
-    nextActions.push({
-      command: 'health hrv --days 14',
-      description: 'Analyze HRV trend over 2 weeks'
-    });
+    nextActions.push(action(['health', 'hrv', '--days', '{days}'], 'Analyze HRV trend over 2 weeks', {
+      rel: 'drill-down',
+      params: [PARAMS.days(14)],
+      priority: 'high',
+      reason: 'Added because HRV category is low'
+    }));
   }
 
   if (status.sleep.last_night_hours < 7) {
-    nextActions.push({
-      command: 'health sleep --days 7',
-      description: 'Review sleep patterns this week'
-    });
+    nextActions.push(action(['health', 'sleep', '--days', '{days}'], 'Review sleep patterns this week', {
+      rel: 'drill-down',
+      params: [PARAMS.days(7)],
+      priority: 'high',
+      reason: `Added because last night's sleep was ${status.sleep.last_night_hours}h, under 7h`
+    }));
+  }
+
+  if (status.activity && status.activity.steps < 7500) {
+    nextActions.push(action(['health', 'activity', '--days', '{days}'], 'Review activity this week', {
+      rel: 'drill-down',
+      params: [PARAMS.days(7)],
+      reason: `Added because today's steps are ${status.activity.steps}, under 7500`
+    }));
   }
 
-  return success('status', result, nextActions);
+  return success(
+    'status',
+    StatusResultSchema,
+    result,
+    nextActions,
+    provider.describe(['hrv', 'sleep', 'activity', 'heart', 'workouts'])
+  );
 }
 
-function generateHealthSummary(status: any): string {
+type Overview = HealthStatus & Pick<StatusResult, 'readiness'>;
+
+function generateHealthSummary(status: Overview): string {
   const parts = [];
   
-  // HRV assessment
-  if (status.hrv.category === 'high') {
+  // Recovery assessment - the readiness score, else the HRV category
+  const readiness = status.readiness;
+  if (readiness) {
+    const emoji = { high: '💚', moderate: '🟡', low: '🟠', poor: '🔴' }[readiness.level];
+    parts.push(`${emoji} Readiness ${readiness.score}/100 - ${readiness.recommendation.toLowerCase()}`);
+  } else if (status.hrv.category === 'high') {
     parts.push('💚 Excellent recovery state');
   } else if (status.hrv.category === 'normal') {
     parts.push('🟡 Normal recovery state');
@@ -63,7 +120,9 @@ function generateHealthSummary(status: any): string {
   }
 
   // Activity assessment
-  if (status.activity.steps >= 10000) {
+  if (!status.activity) {
+    parts.push('🚶 No activity data');
+  } else if (status.activity.steps >= 10000) {
     parts.push('🚶 Very active');
   } else if (status.activity.steps >= 7500) {
     parts.push('🚶 Moderately active');
@@ -74,9 +133,13 @@ function generateHealthSummary(status: any): string {
   return parts.join(' • ');
 }
 
-function generateRecommendations(status: any): string[] {
+function generateRecommendations(status: Overview): string[] {
   const recommendations = [];
 
+  if (status.readiness && status.readiness.level !== 'high') {
+    recommendations.push(status.readiness.recommendation);
+  }
+
   if (status.hrv.category === 'low') {
     recommendations.push('Consider a rest day or light activity');
     recommendations.push('Focus on stress management and recovery');
@@ -87,7 +150,7 @@ function generateRecommendations(status: any): string[] {
     recommendations.push('Consider sleep hygiene improvements');
   }
 
-  if (status.activity.steps < 7500) {
+  if (status.activity && status.activity.steps < 7500) {
     recommendations.push('Add more walking or light movement today');
   }
 
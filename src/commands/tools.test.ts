@@ -0,0 +1,123 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NodeContext } from '@effect/platform-node';
+import { Either, ManagedRuntime, Option } from 'effect';
+import { defineTool, inputSchema, parseInput, toToolCall, ToolRuntime } from './tools.js';
+import { Args, Options, withConstraints } from './definitions.js';
+import { action, PARAMS } from '../utils/actions.js';
+import { error } from '../utils/responses.js';
+
+const probe = defineTool({
+  name: 'probe',
+  description: 'Takes one of each kind of parameter',
+  options: {
+    days: Options.integer('days').pipe(Options.withDescription('Days'), Options.withDefault(7), withConstraints({ min: 1, max: 90 })),
+    changesOnly: Options.boolean('changes-only'),
+    metric: Options.text('metric').pipe(Options.optional)
+  },
+  args: {
+    file: Args.file({ name: 'file', exists: 'yes' }).pipe(Args.optional)
+  },
+  run: () => error('probe', 'Not run in these tests', 'INTERNAL_ERROR')
+});
+
+const tools = new Map([[probe.name, probe]]);
+
+describe('command tools', () => {
+  const managed = ManagedRuntime.make(NodeContext.layer);
+  let runtime: ToolRuntime;
+  let dir: string;
+
+  before(async () => {
+    runtime = await managed.runtime();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-tools-'));
+  });
+  after(async () => {
+    await managed.dispose();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const parse = async (input: Record<string, unknown>) => {
+    const parsed = await parseInput(probe, input, runtime);
+    assert.ok(Either.isRight(parsed), Either.isLeft(parsed) ? JSON.stringify(parsed.left) : '');
+    return parsed.right;
+  };
+
+  const reject = async (input: Record<string, unknown>) => {
+    const parsed = await parseInput(probe, input, runtime);
+    assert.ok(Either.isLeft(parsed) && !parsed.left.ok);
+    assert.equal(parsed.left.error.code, 'INVALID_ARGUMENTS');
+    return parsed.left.error.message;
+  };
+
+  test('derives the input schema from the options and arguments', () => {
+    assert.deepEqual(inputSchema(probe), {
+      type: 'object',
+      properties: {
+        days: { type: 'integer', description: 'Days', default: 7 },
+        changes_only: { type: 'boolean', default: false },
+        metric: { type: 'string' },
+        file: { type: 'string' }
+      },
+      required: [],
+      additionalProperties: false
+    });
+  });
+
+  test('parses arguments with the command\'s own options and defaults', async () => {
+    const file = path.join(dir, 'export.xml');
+    fs.writeFileSync(file, '');
+    const input = await parse({ days: 14, changes_only: true, metric: 'hrv', file });
+    assert.equal(input.days, 14);
+    assert.equal(input.changesOnly, true);
+    assert.deepEqual(input.metric, Option.some('hrv'));
+    assert.deepEqual(input.file, Option.some(file));
+
+    const defaults = await parse({ metric: null });
+    assert.equal(defaults.days, 7);
+    assert.equal(defaults.changesOnly, false);
+    assert.deepEqual(defaults.metric, Option.none());
+  });
+
+  test('passes a boolean as a bare flag only when it is true', async () => {
+    assert.equal((await parse({ changes_only: false })).changesOnly, false);
+    // Strings are not booleans, so the flag is left off
+    assert.equal((await parse({ changes_only: 'true' })).changesOnly, false);
+  });
+
+  test('validates values the way the command line does', async () => {
+    assert.equal((await parse({ days: '3' })).days, 3);
+    assert.match(await reject({ days: 'many' }), /integer/);
+    assert.equal(await reject({ days: 0 }), '--days must be between 1 and 90');
+    assert.match(await reject({ file: path.join(dir, 'missing.xml') }), /missing\.xml/);
+  });
+
+  test('rejects unknown arguments by name', async () => {
+    assert.equal(await reject({ day: 3 }), 'Unknown argument: day');
+    assert.equal(await reject({ day: 3, changesOnly: true }), 'Unknown arguments: day, changesOnly');
+  });
+
+  test('maps a next action onto a tool call with its params\' defaults', () => {
+    const next = action(['health', 'probe', '--days', '{days}', '--changes-only', '{file}'], 'Probe again', {
+      rel: 'navigate',
+      params: [PARAMS.days(14), PARAMS.file]
+    });
+    // {file} has no default, so the caller fills it in
+    assert.deepEqual(toToolCall(next, tools), { name: 'probe', arguments: { days: 14, changes_only: true }, description: 'Probe again' });
+
+    const positional = action(['health', 'probe', 'export.xml', '--metric', '42'], 'Probe a file', { rel: 'navigate' });
+    assert.deepEqual(toToolCall(positional, tools)?.arguments, { file: 'export.xml', metric: '42' });
+  });
+
+  test('has no tool call for other commands or flags the tool does not take', () => {
+    const call = (argv: string[]) => toToolCall(action(argv, 'Something else', { rel: 'navigate' }), tools);
+    assert.equal(call(['health']), null);
+    assert.equal(call(['health', 'config', 'get']), null);
+    assert.equal(call(['health', 'probe', '--source', 'mock']), null);
+    assert.equal(call(['health', 'probe', 'a.xml', 'b.xml']), null);
+    assert.equal(call(['other', 'probe']), null);
+  });
+});
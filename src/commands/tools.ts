@@ -0,0 +1,212 @@
+/**
+ * Command tools - the commands that agents and other programs can call
+ * without a shell (MCP, HTTP). A tool reuses the CLI command's Options and
+ * Args: its input schema is derived from them and its input is parsed by them.
+ */
+import { Args, CliConfig, HelpDoc, Options, ValidationError } from '@effect/cli';
+import { FileSystem, Path, Terminal } from '@effect/platform';
+import { Effect, Either, Runtime } from 'effect';
+import { CLIResponse, NextAction } from '../types/responses.js';
+import { ParameterDoc } from '../types/schemas.js';
+import { DataProvider } from '../data/provider.js';
+import { error } from '../utils/responses.js';
+import { COMMON_ACTIONS } from '../utils/actions.js';
+import { parameterDoc } from './definitions.js';
+
+type OptionsRecord = Record<string, Options.Options<unknown>>;
+type ArgsRecord = Record<string, Args.Args<unknown>>;
+
+export type ToolInput<O extends OptionsRecord, A extends ArgsRecord> =
+  { [K in keyof O]: O[K] extends Options.Options<infer T> ? T : never } &
+  { [K in keyof A]: A[K] extends Args.Args<infer T> ? T : never };
+
+/** Without type arguments, a tool of any options and args - its input is a record of parsed values */
+export interface CommandTool<O extends OptionsRecord = OptionsRecord, A extends ArgsRecord = ArgsRecord> {
+  name: string;
+  description: string;
+  /** The same Options and Args the CLI command is built from */
+  options: O;
+  args: A;
+  run(input: ToolInput<O, A>, provider: DataProvider): CLIResponse | Promise<CLIResponse>;
+}
+
+/** Typed constructor - infers the run input from the options and args */
+export function defineTool<O extends OptionsRecord, A extends ArgsRecord>(tool: CommandTool<O, A>): CommandTool {
+  return tool;
+}
+
+/** Parsing tool input checks files the way the CLI does, so it runs in the CLI's runtime */
+export type ToolRuntime = Runtime.Runtime<FileSystem.FileSystem | Path.Path | Terminal.Terminal>;
+
+export interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+  description: string;
+}
+
+// Input schemas, derived from the option and argument definitions
+
+export interface Parameter {
+  /** Flag as typed on the command line, e.g. --days; null for positional arguments */
+  flag: string | null;
+  schema: Record<string, unknown>;
+  required: boolean;
+  repeated: boolean;
+  bool: boolean;
+}
+
+export function inputSchema(tool: CommandTool) {
+  const parameters = toolParameters(tool);
+  return {
+    type: 'object',
+    properties: Object.fromEntries([...parameters].map(([name, parameter]) => [name, parameter.schema])),
+    required: [...parameters].filter(([, parameter]) => parameter.required).map(([name]) => name),
+    additionalProperties: false
+  };
+}
+
+/** Property name (snake_case) to parameter, options first, then positional arguments in order */
+export function toolParameters(tool: CommandTool): Map<string, Parameter> {
+  const parameters = new Map<string, Parameter>();
+  for (const option of Object.values(tool.options)) {
+    const doc = parameterDoc(option);
+    parameters.set(doc.name.replace(/^--/, '').replace(/-/g, '_'), toParameter(doc, doc.name));
+  }
+  for (const arg of Object.values(tool.args)) {
+    const doc = parameterDoc(arg);
+    parameters.set(doc.name.replace(/^<|>$/g, ''), toParameter(doc, null));
+  }
+  return parameters;
+}
+
+function toParameter(doc: ParameterDoc, flag: string | null): Parameter {
+  const value = typeSchema(doc);
+  const description = doc.description !== undefined ? { description: doc.description } : {};
+  return {
+    flag,
+    schema: doc.repeated
+      ? { type: 'array', items: value, ...description }
+      : { ...value, ...description, ...(doc.default !== undefined && { default: doc.default }) },
+    required: doc.required,
+    repeated: doc.repeated ?? false,
+    bool: doc.type === 'boolean'
+  };
+}
+
+function typeSchema(doc: ParameterDoc): Record<string, unknown> {
+  switch (doc.type) {
+    case 'integer':
+    case 'number':
+    case 'boolean':
+      return { type: doc.type };
+    case 'choice': return { type: 'string', enum: doc.choices };
+    case 'date-time': return { type: 'string', format: 'date-time' };
+    default: return { type: 'string' };
+  }
+}
+
+// Input parsing - tool arguments become argv for the CLI's own parser
+
+/**
+ * Turns tool arguments into command-line tokens and parses them with the
+ * command's Options and Args, so tools validate exactly like the CLI does
+ */
+export async function parseInput(tool: CommandTool, input: Record<string, unknown>, runtime: ToolRuntime): Promise<Either.Either<Record<string, unknown>, CLIResponse>> {
+  const parameters = toolParameters(tool);
+  const unknown = Object.keys(input).filter(name => !parameters.has(name));
+  if (unknown.length > 0) {
+    return Either.left(invalidInput(tool, `Unknown argument${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`));
+  }
+
+  const flags: string[] = [];
+  const positional: string[] = [];
+  for (const [name, parameter] of parameters) {
+    const value = input[name];
+    if (value === undefined || value === null) continue;
+    const values = parameter.repeated && Array.isArray(value) ? value : [value];
+    for (const item of values) {
+      if (parameter.flag === null) positional.push(String(item));
+      else if (parameter.bool) { if (item === true) flags.push(parameter.flag); }
+      else flags.push(parameter.flag, String(item));
+    }
+  }
+
+  const parse = Effect.gen(function* () {
+    // all() cannot combine an empty record
+    const options: Options.Options<Record<string, unknown>> = Object.keys(tool.options).length > 0
+      ? Options.all(tool.options)
+      : Options.map(Options.none, () => ({}));
+    const args: Args.Args<Record<string, unknown>> = Object.keys(tool.args).length > 0
+      ? Args.all(tool.args)
+      : Args.map(Args.none, () => ({}));
+    const [, rest, optionValues] = yield* Options.processCommandLine(options, [...flags, ...positional], CliConfig.defaultConfig);
+    const [leftover, argValues] = yield* Args.validate(args, rest, CliConfig.defaultConfig);
+    if (leftover.length > 0) {
+      return yield* Effect.fail(ValidationError.invalidArgument(HelpDoc.p(`Unexpected value: ${leftover.join(' ')}`)));
+    }
+    return { ...optionValues, ...argValues };
+  });
+
+  const result = await Runtime.runPromise(runtime)(Effect.either(parse));
+  return Either.mapLeft(result, validationError =>
+    invalidInput(tool, 'error' in validationError ? HelpDoc.toAnsiText(validationError.error).trim() : 'Invalid arguments'));
+}
+
+function invalidInput(tool: CommandTool, message: string): CLIResponse {
+  return error(
+    tool.name,
+    message,
+    'INVALID_ARGUMENTS',
+    'Check the arguments against the tool input schema (tools/list)',
+    [COMMON_ACTIONS.ROOT]
+  );
+}
+
+// next_actions as tool calls
+
+/**
+ * Maps a next_action such as `health hrv --days {days}` onto a tool call.
+ * Commands that are not tools, or that carry flags the tool does not take
+ * (subcommands, global options), have no tool call. Params take their
+ * default; required params without one are left out for the caller to fill in.
+ */
+export function toToolCall(action: NextAction, tools: Map<string, CommandTool>): ToolCall | null {
+  const [program, name, ...tokens] = action.argv.map(token => fillParam(token, action));
+  const tool = program === 'health' && name ? tools.get(name) : undefined;
+  if (!tool) return null;
+
+  const parameters = toolParameters(tool);
+  const byFlag = new Map([...parameters].filter(([, p]) => p.flag !== null).map(([key, p]) => [p.flag!, [key, p] as const]));
+  const positional = [...parameters].filter(([, p]) => p.flag === null);
+  const input: Record<string, unknown> = {};
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token?.startsWith('--')) {
+      const match = byFlag.get(token);
+      if (!match) return null;
+      const [key, parameter] = match;
+      if (parameter.bool) input[key] = true;
+      else if (tokens[++i] !== undefined) input[key] = coerce(tokens[i], parameter);
+    } else {
+      const next = positional.shift();
+      if (!next) return null;
+      if (token !== undefined) input[next[0]] = coerce(token, next[1]);
+    }
+  }
+
+  return { name: tool.name, arguments: input, description: action.description };
+}
+
+/** A `{name}` token becomes its param's default, or undefined when there is none */
+function fillParam(token: string, action: NextAction): string | undefined {
+  const placeholder = /^\{([\w-]+)\}$/.exec(token);
+  if (!placeholder) return token;
+  const value = action.params?.find(param => param.name === placeholder[1])?.default;
+  return value === undefined ? undefined : String(value);
+}
+
+function coerce(value: string | undefined, parameter: Parameter): unknown {
+  const type = parameter.schema.type;
+  return (type === 'integer' || type === 'number') && value !== undefined && !isNaN(Number(value)) ? Number(value) : value;
+}
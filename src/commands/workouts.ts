@@ -0,0 +1,170 @@
+/**
+ * Workouts command - sessions with their training load, and acute load,
+ * chronic load and training stress balance over time
+ */
+import { success, error } from '../utils/responses.js';
+import { action, because, COMMON_ACTIONS, PARAMS } from '../utils/actions.js';
+import { loadConfig } from '../utils/config.js';
+import { DataProvider } from '../data/provider.js';
+import { loadTrainingHistory, WorkoutLoad } from '../data/trainingLoad.js';
+import { WorkoutsResult, WorkoutsResultSchema } from '../types/schemas.js';
+
+export function workoutsCommand(provider: DataProvider, days: number = 7) {
+  const command = `workouts --days ${days}`;
+
+  // Validate input
+  if (days < 1 || days > 90) {
+    return error(
+      command,
+      'Days parameter must be between 1 and 90',
+      'INVALID_DAYS_RANGE',
+      'Use a value between 1 and 90 days',
+      [
+        action(['health', 'workouts'], 'Use default 7 days', { rel: 'remediate' }),
+        action(['health', 'workouts', '--days', '{days}'], 'Try 4 weeks', { rel: 'remediate', params: [PARAMS.days(28)] }),
+        action(['health', 'workouts', '--days', '{days}'], 'Try 3 months', { rel: 'remediate', params: [PARAMS.days(90)] })
+      ]
+    );
+  }
+
+  const config = loadConfig(command);
+  if ('ok' in config) return config;
+
+  const history = loadTrainingHistory(provider, days, config.heart);
+
+  if (!history) {
+    return error(
+      command,
+      `No workouts available from the ${provider.name} source`,
+      'NO_DATA',
+      'Import an Apple Health export that contains Workouts',
+      [
+        COMMON_ACTIONS.IMPORT,
+        COMMON_ACTIONS.ACTIVITY
+      ]
+    );
+  }
+
+  const { range, workouts, daily } = history;
+  const latest = daily[daily.length - 1];
+  const summary: Omit<WorkoutsResult, 'insights'> = {
+    period: {
+      days: days,
+      start_date: daily[0].date,
+      end_date: latest.date
+    },
+    sessions: workouts,
+    totals: {
+      sessions: workouts.length,
+      duration_minutes: Math.round(sum(workouts, w => w.duration_minutes)),
+      distance_km: Math.round(sum(workouts, w => w.distance_km ?? 0) * 10) / 10,
+      energy_kcal: Math.round(sum(workouts, w => w.energy_kcal ?? 0)),
+      load: Math.round(sum(workouts, w => w.load))
+    },
+    by_type: byType(workouts),
+    heart_rate_range: {
+      max_hr: range.max_hr,
+      max_hr_source: range.source,
+      resting_hr: range.resting_hr,
+      resting_hr_source: range.resting_source
+    },
+    training_load: { ...latest, status: loadStatus(latest.acwr) },
+    data: daily
+  };
+  const result: WorkoutsResult = { ...summary, insights: generateWorkoutInsights(summary) };
+
+  const nextActions = [
+    COMMON_ACTIONS.HEART,
+    COMMON_ACTIONS.HRV
+  ];
+
+  if (result.training_load.status === 'high_risk') {
+    nextActions.unshift(because(COMMON_ACTIONS.ALERTS, `Added because acute load is ${result.training_load.acwr}x chronic load`));
+  }
+
+  if (range.source === 'default' && workouts.some(w => w.load_method === 'trimp')) {
+    nextActions.push(action(['health', 'config', 'set', 'heart.max_hr', '{bpm}'], 'Set your max heart rate so TRIMP fits you', {
+      rel: 'remediate',
+      priority: 'low',
+      params: [{ name: 'bpm', type: 'integer', required: true, min: 100, max: 230, description: 'Highest heart rate reached in a maximal effort' }]
+    }));
+  }
+
+  // Add period-specific next actions
+  if (days === 7) {
+    nextActions.push(action(['health', 'workouts', '--days', '{days}'], 'See how load built up over 4 weeks', {
+      rel: 'widen-range',
+      params: [PARAMS.days(28)]
+    }));
+  }
+
+  return success(
+    command,
+    WorkoutsResultSchema,
+    result,
+    nextActions,
+    provider.describe(['workouts'])
+  );
+}
+
+/** Acute:chronic ratio bands - about 0.8-1.3 is the usual sustainable range */
+function loadStatus(acwr: number | null): WorkoutsResult['training_load']['status'] {
+  if (acwr === null) return 'insufficient_history';
+  if (acwr < 0.8) return 'undertraining';
+  if (acwr <= 1.3) return 'optimal';
+  if (acwr <= 1.5) return 'elevated';
+  return 'high_risk';
+}
+
+function byType(workouts: WorkoutLoad[]): WorkoutsResult['by_type'] {
+  const types = [...new Set(workouts.map(w => w.type))];
+  return types
+    .map(type => {
+      const sessions = workouts.filter(w => w.type === type);
+      return {
+        type,
+        sessions: sessions.length,
+        duration_minutes: Math.round(sum(sessions, w => w.duration_minutes)),
+        load: Math.round(sum(sessions, w => w.load))
+      };
+    })
+    .sort((a, b) => b.load - a.load);
+}
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((total, item) => total + value(item), 0);
+}
+
+function generateWorkoutInsights(result: Omit<WorkoutsResult, 'insights'>): string[] {
+  const insights = [];
+  const load = result.training_load;
+
+  if (load.status === 'high_risk') {
+    insights.push(`🔴 Acute load is ${load.acwr}x your chronic load - ramp down to avoid overtraining and injury`);
+  } else if (load.status === 'elevated') {
+    insights.push(`⚠️ Training load ramping quickly (acute:chronic ${load.acwr}) - keep the next sessions easy`);
+  } else if (load.status === 'optimal') {
+    insights.push(`💚 Training load building sustainably (acute:chronic ${load.acwr})`);
+  } else if (load.status === 'undertraining') {
+    insights.push(`📉 Training less than your recent norm (acute:chronic ${load.acwr}) - fitness will start to slip`);
+  } else {
+    insights.push('📊 Not enough workout history yet for the acute:chronic ratio - it needs 4 weeks');
+  }
+
+  if (load.tsb < -30) {
+    insights.push(`😓 Deep fatigue (training stress balance ${load.tsb}) - schedule recovery`);
+  } else if (load.tsb > 15) {
+    insights.push(`🔋 Fresh (training stress balance ${load.tsb}) - a good time for a hard session`);
+  }
+
+  if (result.totals.sessions === 0) {
+    insights.push(`🛋️ No workouts in the last ${result.period.days} days`);
+  }
+
+  const estimated = result.sessions.filter(s => s.load_method === 'duration_intensity').length;
+  if (estimated > 0) {
+    insights.push(`ℹ️ ${estimated} of ${result.totals.sessions} sessions have no heart rate - their load is estimated from duration and activity type`);
+  }
+
+  return insights;
+}
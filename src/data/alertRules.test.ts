@@ -0,0 +1,103 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { evaluateRules, resolveRules } from './alertRules.js';
+import { loadFixtureProvider } from './fixture.js';
+import { DataProvider } from './provider.js';
+import { AlertRule, resolveConfig } from '../utils/config.js';
+import { addDays } from '../utils/dates.js';
+
+const HEART = resolveConfig({}).heart;
+const START = '2024-03-01';
+
+/** Steps per day from START; null leaves the day out */
+const activity = (steps: (number | null)[]) => steps
+  .map((value, i) => value === null ? null : { date: addDays(START, i), steps: value, active_calories: 400, exercise_minutes: 30, stand_hours: 10 })
+  .filter(entry => entry !== null);
+
+const STEPS_RULE: AlertRule = {
+  id: 'low_steps',
+  metric: 'steps',
+  aggregate: 'latest',
+  comparator: 'below',
+  warning: 5000,
+  critical: 2000,
+  consecutive_days: 3,
+  message: 'Steps low three days running'
+};
+
+describe('evaluateRules', () => {
+  let dir: string;
+  let count = 0;
+
+  before(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-rules-')); });
+  after(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  const provider = (fixture: object): DataProvider => {
+    const file = path.join(dir, `fixture-${count++}.json`);
+    fs.writeFileSync(file, JSON.stringify(fixture));
+    const loaded = loadFixtureProvider(file);
+    assert.ok(!('ok' in loaded));
+    return loaded;
+  };
+
+  const evaluate = (fixture: object, rule: AlertRule) => evaluateRules(provider(fixture), [rule], HEART);
+
+  test('grades the latest reading against the warning and critical levels', () => {
+    const rule: AlertRule = { ...STEPS_RULE, consecutive_days: 1 };
+    const levels = [8000, 4000, 1500].map(steps => evaluate({ activity: activity([steps]) }, rule).alerts[0]);
+    assert.deepEqual(levels.map(a => a.status), ['ok', 'warning', 'critical']);
+    assert.deepEqual(levels.map(a => a.threshold), [5000, 5000, 2000]);
+    assert.equal(levels[1].message, 'Steps low three days running');
+  });
+
+  test('takes the mildest level across consecutive days', () => {
+    const { alerts } = evaluate({ activity: activity([9000, 4000, 1500, 1000]) }, STEPS_RULE);
+    assert.equal(alerts[0].status, 'warning');
+    assert.equal(alerts[0].current, 1000);
+  });
+
+  test('does not count breaches with a day missing between them as consecutive', () => {
+    const gap = evaluate({ activity: activity([1000, 1000, null, 1000, 1000]) }, STEPS_RULE);
+    assert.equal(gap.alerts[0].status, 'ok');
+
+    const adjacent = evaluate({ activity: activity([1000, 1000, null, 1000, 1000, 1000]) }, STEPS_RULE);
+    assert.equal(adjacent.alerts[0].status, 'critical');
+  });
+
+  test('compares a window mean with the baseline before it', () => {
+    const rule: AlertRule = {
+      id: 'steps_drop',
+      metric: 'steps',
+      aggregate: 'baseline_ratio',
+      window_days: 3,
+      baseline_days: 10,
+      comparator: 'below',
+      warning: 0.6,
+      critical: 0.4,
+      message: 'Steps dropped'
+    };
+    const { alerts } = evaluate({ activity: activity([...Array(10).fill(10000), 5000, 5000, 5000]) }, rule);
+    assert.equal(alerts[0].baseline, 10000);
+    assert.equal(alerts[0].current, 0.5);
+    assert.equal(alerts[0].status, 'warning');
+  });
+
+  test('skips rules without enough data or a source', () => {
+    const rules = resolveRules(resolveConfig({ alerts: { rules: [STEPS_RULE] } }));
+    const { alerts, skipped } = evaluateRules(provider({ activity: activity([1000, 1000]) }), rules, HEART);
+    const reasons = new Map(skipped.map(s => [s.rule, s.reason]));
+
+    assert.equal(reasons.get('low_steps'), 'Needs 3 days of data');
+    assert.equal(reasons.get('hrv_low'), 'No data source provides this metric');
+    assert.match(reasons.get('activity_drop') ?? '', /days of history/);
+    assert.equal(alerts.find(a => a.rule === 'steps_min')?.status, 'critical');
+  });
+
+  test('leaves out disabled rules', () => {
+    const { alerts, skipped } = evaluate({ activity: activity([1000]) }, { ...STEPS_RULE, enabled: false });
+    assert.equal(alerts.length + skipped.length, 0);
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * Alert rule engine
+ * Rules are data: a metric, an aggregation, a comparator and warning/critical
+ * levels. Built-in rules cover the configurable thresholds plus baseline
+ * checks; custom rules from the config file are evaluated the same way.
+ */
+import { AlertThreshold, NextAction } from '../types/responses.js';
+import { action, fromCommand, PARAMS } from '../utils/actions.js';
+import { DataProvider } from './provider.js';
+import { loadTrainingHistory } from './trainingLoad.js';
+import { addDays } from '../utils/dates.js';
+import {
+  AlertRule,
+  HealthConfig,
+  RuleMetric,
+  ThresholdKey,
+  THRESHOLD_KEYS
+} from '../utils/config.js';
+
+export interface RuleAdvice {
+  immediate: string[];
+  short_term: string[];
+  long_term: string[];
+}
+
+interface MetricInfo {
+  label: string;
+  recommendations: RuleAdvice;
+  next_actions: NextAction[];
+}
+
+const REST_ADVICE: RuleAdvice = {
+  immediate: ['Take a rest day or reduce training intensity'],
+  short_term: ['Focus on stress management and recovery practices'],
+  long_term: ['Evaluate training load and recovery balance']
+};
+
+const MOVEMENT_ADVICE: RuleAdvice = {
+  immediate: ['Take breaks for short walks throughout the day'],
+  short_term: ['Incorporate more movement into daily routine'],
+  long_term: ['Set progressive activity goals']
+};
+
+const LIFESTYLE_ADVICE: RuleAdvice = {
+  immediate: ['Put devices away an hour before bed'],
+  short_term: ['Schedule screen-free breaks during the day'],
+  long_term: ['Build a wind-down routine that does not involve screens']
+};
+
+/** Display names and default advice, used when a rule does not bring its own */
+export const RULE_METRIC_INFO: Record<RuleMetric, MetricInfo> = {
+  hrv: {
+    label: 'HRV',
+    recommendations: REST_ADVICE,
+    next_actions: [action(['health', 'hrv', '--days', '{days}'], 'Analyze HRV trend to understand alert', {
+      rel: 'drill-down',
+      params: [PARAMS.days(14)]
+    })]
+  },
+  sleep_hours: {
+    label: 'Sleep Duration',
+    recommendations: {
+      immediate: ['Prioritize earlier bedtime tonight'],
+      short_term: ['Establish consistent sleep schedule'],
+      long_term: ['Optimize sleep environment and hygiene']
+    },
+    next_actions: [action(['health', 'sleep', '--days', '{days}'], 'Review recent sleep patterns', {
+      rel: 'drill-down',
+      params: [PARAMS.days(7)]
+    })]
+  },
+  sleep_score: {
+    label: 'Sleep Quality',
+    recommendations: {
+      immediate: ['Keep the bedroom dark, cool and quiet tonight'],
+      short_term: ['Cut caffeine after midday and alcohol before bed'],
+      long_term: ['Review sleep hygiene and consider a sleep assessment']
+    },
+    next_actions: [action(['health', 'sleep', '--days', '{days}'], 'Review sleep quality over 2 weeks', {
+      rel: 'drill-down',
+      params: [PARAMS.days(14)]
+    })]
+  },
+  steps: {
+    label: 'Daily Steps',
+    recommendations: MOVEMENT_ADVICE,
+    next_actions: [action(['health', 'status'], 'Check current activity levels', { rel: 'drill-down' })]
+  },
+  active_calories: {
+    label: 'Active Calories',
+    recommendations: MOVEMENT_ADVICE,
+    next_actions: [action(['health', 'status'], 'Check current activity levels', { rel: 'drill-down' })]
+  },
+  exercise_minutes: {
+    label: 'Exercise Minutes',
+    recommendations: {
+      immediate: ['Keep tomorrow to light movement only'],
+      short_term: ['Spread training volume more evenly across the week'],
+      long_term: ['Plan recovery weeks into your training cycle']
+    },
+    next_actions: [action(['health', 'hrv', '--days', '{days}'], 'Check whether recovery keeps up with training', {
+      rel: 'drill-down',
+      params: [PARAMS.days(14)]
+    })]
+  },
+  screen_time: { label: 'Screen Time', recommendations: LIFESTYLE_ADVICE, next_actions: [] },
+  late_usage: { label: 'Late Night Usage', recommendations: LIFESTYLE_ADVICE, next_actions: [] },
+  stress: { label: 'Stress Level', recommendations: REST_ADVICE, next_actions: [] },
+  resting_hr: {
+    label: 'Resting Heart Rate',
+    recommendations: {
+      immediate: ['Skip hard training today and watch for signs of illness'],
+      short_term: ['Prioritize sleep and hydration until resting HR settles'],
+      long_term: ['Evaluate training load and recovery balance']
+    },
+    next_actions: [action(['health', 'heart', '--days', '{days}'], 'Review resting heart rate against its baseline', {
+      rel: 'drill-down',
+      params: [PARAMS.days(14)]
+    })]
+  },
+  acwr: {
+    label: 'Acute:Chronic Workload Ratio',
+    recommendations: {
+      immediate: ['Make the next sessions easy or take a rest day'],
+      short_term: ['Build weekly training load by no more than about 10%'],
+      long_term: ['Plan recovery weeks into your training cycle']
+    },
+    next_actions: [action(['health', 'workouts', '--days', '{days}'], 'Review recent workouts and training load', {
+      rel: 'drill-down',
+      params: [PARAMS.days(28)]
+    })]
+  }
+};
+
+type ThresholdRule = Pick<AlertRule, 'metric' | 'message' | 'ok_message'>
+  & Partial<Pick<AlertRule, 'aggregate' | 'window_days' | 'baseline_days'>>;
+
+/**
+ * The config thresholds are single-day rules on these metrics; rhr_elevated
+ * compares the day with the 30 days before it
+ */
+const THRESHOLD_RULES: Record<ThresholdKey, ThresholdRule> = {
+  hrv_low: { metric: 'hrv', message: 'HRV below recovery threshold', ok_message: 'HRV within normal range' },
+  sleep_min: { metric: 'sleep_hours', message: 'Insufficient sleep duration', ok_message: 'Sleep duration adequate' },
+  sleep_quality_min: { metric: 'sleep_score', message: 'Poor sleep quality', ok_message: 'Sleep quality adequate' },
+  steps_min: { metric: 'steps', message: 'Below recommended daily steps', ok_message: 'Meeting step goals' },
+  exercise_max: { metric: 'exercise_minutes', message: 'Exercise volume above safe daily limit', ok_message: 'Exercise volume within limits' },
+  active_calories_min: { metric: 'active_calories', message: 'Very low active energy', ok_message: 'Active energy adequate' },
+  screen_time_max: { metric: 'screen_time', message: 'Screen time above limit', ok_message: 'Screen time within limits' },
+  late_usage_threshold: { metric: 'late_usage', message: 'Device use late into the night', ok_message: 'No late night usage' },
+  stress_max: { metric: 'stress', message: 'Stress level elevated', ok_message: 'Stress level normal' },
+  rhr_elevated: {
+    metric: 'resting_hr',
+    aggregate: 'baseline_delta',
+    window_days: 1,
+    baseline_days: 30,
+    message: 'Resting heart rate elevated above your baseline',
+    ok_message: 'Resting heart rate in line with your baseline'
+  }
+};
+
+/** Multi-day rules that look at trends rather than a single reading */
+export const BASELINE_RULES: AlertRule[] = [
+  {
+    id: 'hrv_baseline_drop',
+    metric: 'hrv',
+    aggregate: 'baseline_ratio',
+    window_days: 3,
+    baseline_days: 30,
+    comparator: 'below',
+    warning: 0.9,
+    critical: 0.85,
+    consecutive_days: 2,
+    message: 'HRV suppressed against your 30-day baseline',
+    ok_message: 'HRV in line with your baseline'
+  },
+  {
+    id: 'sleep_debt',
+    metric: 'sleep_hours',
+    aggregate: 'mean',
+    window_days: 7,
+    comparator: 'below',
+    warning: 6.5,
+    critical: 6,
+    message: 'Sleep debt building up over the past week',
+    ok_message: 'Weekly sleep average adequate'
+  },
+  {
+    id: 'activity_drop',
+    metric: 'steps',
+    aggregate: 'baseline_ratio',
+    window_days: 3,
+    baseline_days: 30,
+    comparator: 'below',
+    warning: 0.6,
+    critical: 0.4,
+    message: 'Activity well below your usual level',
+    ok_message: 'Activity in line with your baseline'
+  },
+  {
+    id: 'training_load_spike',
+    metric: 'acwr',
+    aggregate: 'latest',
+    comparator: 'above',
+    warning: 1.5,
+    critical: 2,
+    message: 'Acute training load well above your chronic load - overtraining and injury risk',
+    ok_message: 'Training load building at a sustainable rate'
+  }
+];
+
+/**
+ * Every rule `health alert` evaluates: thresholds, then baseline rules, then
+ * custom rules. A custom rule with a built-in id replaces the built-in one.
+ */
+export function resolveRules(config: HealthConfig): AlertRule[] {
+  const thresholdRules: AlertRule[] = THRESHOLD_KEYS.map(key => {
+    const setting = config.alerts.thresholds[key];
+    return {
+      id: key,
+      name: setting.metric,
+      aggregate: 'latest',
+      comparator: setting.direction,
+      warning: setting.warning,
+      critical: setting.critical,
+      enabled: setting.enabled,
+      ...THRESHOLD_RULES[key]
+    };
+  });
+
+  const rules = new Map([...thresholdRules, ...BASELINE_RULES, ...config.alerts.rules].map(rule => [rule.id, rule]));
+  return [...rules.values()];
+}
+
+export function ruleAdvice(rule: AlertRule): { recommendations: RuleAdvice; next_actions: NextAction[] } {
+  const defaults = RULE_METRIC_INFO[rule.metric];
+  return {
+    recommendations: {
+      immediate: [...(rule.recommendations?.immediate ?? defaults.recommendations.immediate)],
+      short_term: [...(rule.recommendations?.short_term ?? defaults.recommendations.short_term)],
+      long_term: [...(rule.recommendations?.long_term ?? defaults.recommendations.long_term)]
+    },
+    next_actions: rule.next_actions?.map(legacy => fromCommand(legacy, 'drill-down')) ?? [...defaults.next_actions]
+  };
+}
+
+/** Human-readable condition, e.g. "3-day mean vs 30-day baseline below 0.9 for 2 days" */
+export function describeRule(rule: AlertRule): string {
+  const window = rule.window_days ?? defaultWindow(rule);
+  const current = window === 1 ? 'latest reading' : `${window}-day mean`;
+  const aggregate = rule.aggregate === 'latest' ? 'latest reading'
+    : rule.aggregate === 'mean' ? current
+    : rule.aggregate === 'baseline_delta' ? `${current} minus ${rule.baseline_days ?? 30}-day baseline`
+    : `${current} vs ${rule.baseline_days ?? 30}-day baseline`;
+  const consecutive = rule.consecutive_days ?? 1;
+  return `${aggregate} ${rule.comparator} ${rule.warning ?? rule.critical}${consecutive > 1 ? ` for ${consecutive} days` : ''}`;
+}
+
+export interface RuleEvaluation {
+  alerts: AlertThreshold[];
+  skipped: { rule: string; metric: string; reason: string }[];
+}
+
+/**
+ * Evaluates every enabled rule against the provider's daily series; the
+ * heart settings feed the training load behind `acwr`
+ */
+export function evaluateRules(provider: DataProvider, rules: AlertRule[], heart: HealthConfig['heart']): RuleEvaluation {
+  const enabled = rules.filter(rule => rule.enabled !== false);
+  const history = Math.max(7, ...enabled.map(historyDays));
+  const series = loadSeries(provider, history, heart);
+  const evaluation: RuleEvaluation = { alerts: [], skipped: [] };
+
+  for (const rule of enabled) {
+    const metric = rule.name ?? RULE_METRIC_INFO[rule.metric].label;
+    const values = series[rule.metric];
+    if (!values) {
+      evaluation.skipped.push({ rule: rule.id, metric, reason: 'No data source provides this metric' });
+      continue;
+    }
+
+    const outcome = evaluateRule(rule, values);
+    if (typeof outcome === 'string') {
+      evaluation.skipped.push({ rule: rule.id, metric, reason: outcome });
+      continue;
+    }
+
+    evaluation.alerts.push({
+      rule: rule.id,
+      metric,
+      condition: describeRule(rule),
+      threshold: (outcome.status === 'critical' ? rule.critical : rule.warning ?? rule.critical)!,
+      current: outcome.current,
+      ...(outcome.baseline !== undefined && { baseline: outcome.baseline }),
+      status: outcome.status,
+      message: outcome.status === 'ok' ? rule.ok_message ?? `${metric} within limits` : rule.message
+    });
+  }
+
+  return evaluation;
+}
+
+type Series = Map<string, number>;
+
+interface RuleOutcome {
+  status: AlertThreshold['status'];
+  current: number;
+  baseline?: number;
+}
+
+const SEVERITY: AlertThreshold['status'][] = ['ok', 'warning', 'critical'];
+
+function defaultWindow(rule: AlertRule): number {
+  return rule.aggregate === 'latest' ? 1 : 3;
+}
+
+function historyDays(rule: AlertRule): number {
+  const window = rule.window_days ?? defaultWindow(rule);
+  const baseline = rule.aggregate === 'baseline_ratio' || rule.aggregate === 'baseline_delta' ? rule.baseline_days ?? 30 : 0;
+  return window + baseline + (rule.consecutive_days ?? 1) - 1;
+}
+
+function loadSeries(provider: DataProvider, days: number, heart: HealthConfig['heart']): Partial<Record<RuleMetric, Series>> {
+  const toSeries = <T extends { date: string }>(rows: T[], value: (row: T) => number): Series | undefined =>
+    rows.length > 0 ? new Map(rows.map(row => [row.date, value(row)])) : undefined;
+
+  const hrv = provider.hrv(days);
+  const sleep = provider.sleep(days);
+  const activity = provider.activity(days);
+  const restingHr = provider.heart(days).filter(d => d.resting_hr !== null);
+  const trainingLoad = loadTrainingHistory(provider, days, heart)?.daily.filter(d => d.acwr !== null) ?? [];
+
+  return {
+    hrv: toSeries(hrv, d => d.value),
+    sleep_hours: toSeries(sleep, d => d.duration_hours),
+    sleep_score: toSeries(sleep, d => d.sleep_score),
+    steps: toSeries(activity, d => d.steps),
+    active_calories: toSeries(activity, d => d.active_calories),
+    exercise_minutes: toSeries(activity, d => d.exercise_minutes),
+    resting_hr: toSeries(restingHr, d => d.resting_hr!),
+    acwr: toSeries(trainingLoad, d => d.acwr!)
+  };
+}
+
+/**
+ * Evaluates the rule on the latest day with data and the `consecutive_days`
+ * - 1 calendar days before it. The result is the lowest severity reached on
+ * all of them, reported with the most recent value; a day without a reading
+ * breaks the run, so it counts as ok. Returns a reason string when there is
+ * too little data.
+ */
+function evaluateRule(rule: AlertRule, series: Series): RuleOutcome | string {
+  const consecutive = rule.consecutive_days ?? 1;
+  if (series.size < consecutive) return `Needs ${consecutive} days of data`;
+  const latest = [...series.keys()].sort()[series.size - 1];
+  const days = Array.from({ length: consecutive }, (_, i) => addDays(latest, i - (consecutive - 1)));
+
+  const outcomes: RuleOutcome[] = [];
+  for (const day of days) {
+    if (!series.has(day)) {
+      outcomes.push({ status: 'ok', current: series.get(latest)! });
+      continue;
+    }
+    const value = aggregate(rule, series, day);
+    if (typeof value === 'string') return value;
+    outcomes.push({ ...value, status: levelOf(rule, value.current) });
+  }
+
+  const status = SEVERITY[Math.min(...outcomes.map(o => SEVERITY.indexOf(o.status)))];
+  return { ...outcomes[outcomes.length - 1], status };
+}
+
+function aggregate(rule: AlertRule, series: Series, day: string): { current: number; baseline?: number } | string {
+  if (rule.aggregate === 'latest') return { current: series.get(day)! };
+
+  const window = rule.window_days ?? defaultWindow(rule);
+  const recent = meanBetween(series, addDays(day, -(window - 1)), day);
+  if (recent === undefined) return `No data in the last ${window} days`;
+  if (rule.aggregate === 'mean') return { current: round(recent) };
+
+  // The baseline is the period just before the window, so a dip does not drag its own reference down
+  const baselineDays = rule.baseline_days ?? 30;
+  const baselineEnd = addDays(day, -window);
+  const baselineValues = valuesBetween(series, addDays(baselineEnd, -(baselineDays - 1)), baselineEnd);
+  if (baselineValues.length < Math.ceil(baselineDays / 2)) {
+    return `Needs at least ${Math.ceil(baselineDays / 2)} days of history for the ${baselineDays}-day baseline`;
+  }
+
+  const baseline = baselineValues.reduce((sum, v) => sum + v, 0) / baselineValues.length;
+  const current = rule.aggregate === 'baseline_delta' ? recent - baseline : recent / baseline;
+  return { current: round(current), baseline: round(baseline) };
+}
+
+function levelOf(rule: AlertRule, value: number): AlertThreshold['status'] {
+  const crosses = (level: number | undefined) =>
+    level !== undefined && (rule.comparator === 'below' ? value < level : value > level);
+  if (crosses(rule.critical)) return 'critical';
+  if (crosses(rule.warning)) return 'warning';
+  return 'ok';
+}
+
+function valuesBetween(series: Series, from: string, to: string): number[] {
+  return [...series.entries()].filter(([day]) => day >= from && day <= to).map(([, value]) => value);
+}
+
+function meanBetween(series: Series, from: string, to: string): number | undefined {
+  const values = valuesBetween(series, from, to);
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
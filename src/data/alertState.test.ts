@@ -0,0 +1,51 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { emptyAlertState, reconcileAlerts } from './alertState.js';
+import { AlertThreshold } from '../types/responses.js';
+
+const alert = (rule: string, status: AlertThreshold['status']): AlertThreshold => ({
+  rule,
+  metric: 'HRV',
+  condition: 'latest reading below 30',
+  threshold: 30,
+  current: 25,
+  status,
+  message: 'HRV below recovery threshold'
+});
+
+const day = (n: number) => new Date(Date.UTC(2024, 0, n, 8));
+
+describe('reconcileAlerts', () => {
+  test('reports new, escalated and ongoing alerts', () => {
+    const state = emptyAlertState();
+    assert.equal(reconcileAlerts(state, [alert('hrv_low', 'warning')], day(1)).reconciled[0].change, 'new');
+
+    const escalated = reconcileAlerts(state, [alert('hrv_low', 'critical')], day(2)).reconciled[0];
+    assert.equal(escalated.change, 'escalated');
+    assert.equal(escalated.notify, true);
+
+    const ongoing = reconcileAlerts(state, [alert('hrv_low', 'critical')], day(3)).reconciled[0];
+    assert.equal(ongoing.change, 'ongoing');
+    assert.equal(ongoing.notify, false);
+    assert.equal(ongoing.record.occurrences, 3);
+  });
+
+  test('resolves an alert once its rule reads ok', () => {
+    const state = emptyAlertState();
+    reconcileAlerts(state, [alert('hrv_low', 'warning')], day(1));
+    const { resolved, events } = reconcileAlerts(state, [alert('hrv_low', 'ok')], day(2));
+    assert.deepEqual(resolved.map(r => r.id), ['hrv_low']);
+    assert.equal(events[0].current, 25);
+    assert.equal(state.alerts.hrv_low.status, 'resolved');
+  });
+
+  test('resolves an alert whose rule is skipped or gone', () => {
+    const state = emptyAlertState();
+    reconcileAlerts(state, [alert('hrv_low', 'warning'), alert('sleep_debt', 'critical')], day(1));
+
+    const { resolved, events } = reconcileAlerts(state, [], day(2), [{ rule: 'hrv_low', reason: 'No data in the last 3 days' }]);
+    assert.deepEqual(resolved.map(r => r.id), ['hrv_low', 'sleep_debt']);
+    assert.deepEqual(events.map(e => e.reason), ['No data in the last 3 days', 'The rule is disabled or no longer configured']);
+    assert.equal(reconcileAlerts(state, [], day(3)).events.length, 0);
+  });
+});
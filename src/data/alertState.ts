@@ -0,0 +1,178 @@
+/**
+ * Alert lifecycle - persisted state so repeated runs report changes, not repeats
+ * Layout: <data dir>/alerts/<source>.json (current state) and
+ * <data dir>/alerts/<source>.history.jsonl (append-only event log).
+ * State is kept per data source so mock runs never touch imported-data alerts.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { AlertThreshold } from '../types/responses.js';
+import { getDataDir } from './store.js';
+import { SourceName } from './provider.js';
+
+export type AlertSeverity = 'warning' | 'critical';
+
+export type AlertChange = 'new' | 'escalated' | 'ongoing';
+
+export interface AlertRecord {
+  /** Alert id - the id of the rule that fires it */
+  id: string;
+  metric: string;
+  status: AlertSeverity | 'resolved';
+  first_seen: string;
+  last_seen: string;
+  occurrences: number;
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+  snoozed_until: string | null;
+}
+
+export interface AlertState {
+  version: 1;
+  last_checked: string | null;
+  next_check: string | null;
+  alerts: Record<string, AlertRecord>;
+}
+
+export interface AlertEvent {
+  at: string;
+  id: string;
+  event: 'new' | 'escalated' | 'resolved' | 'acknowledged' | 'snoozed';
+  status: AlertRecord['status'];
+  current?: number;
+  by?: string;
+  until?: string;
+  /** Why an alert resolved without an ok reading */
+  reason?: string;
+}
+
+export interface ReconciledAlert {
+  alert: AlertThreshold;
+  record: AlertRecord;
+  change: AlertChange;
+  /** False when acknowledged or snoozed - the alert is active but should not be raised again */
+  notify: boolean;
+}
+
+const SEVERITY_RANK: Record<AlertRecord['status'], number> = { resolved: 0, warning: 1, critical: 2 };
+
+export function getAlertStatePath(source: SourceName): string {
+  return path.join(getDataDir(), 'alerts', `${source}.json`);
+}
+
+function getHistoryPath(source: SourceName): string {
+  return path.join(getDataDir(), 'alerts', `${source}.history.jsonl`);
+}
+
+export function emptyAlertState(): AlertState {
+  return { version: 1, last_checked: null, next_check: null, alerts: {} };
+}
+
+export function readAlertState(source: SourceName): AlertState {
+  const statePath = getAlertStatePath(source);
+  if (!fs.existsSync(statePath)) return emptyAlertState();
+  return JSON.parse(fs.readFileSync(statePath, 'utf8'));
+}
+
+export function writeAlertState(source: SourceName, state: AlertState, events: AlertEvent[]): void {
+  const statePath = getAlertStatePath(source);
+  fs.mkdirSync(path.dirname(statePath), { recursive: true });
+
+  // Write-then-rename so an interrupted run never leaves half a state file
+  fs.writeFileSync(`${statePath}.tmp`, JSON.stringify(state, null, 2) + '\n');
+  fs.renameSync(`${statePath}.tmp`, statePath);
+
+  if (events.length > 0) {
+    fs.appendFileSync(getHistoryPath(source), events.map(e => JSON.stringify(e)).join('\n') + '\n');
+  }
+}
+
+export function readAlertHistory(source: SourceName): AlertEvent[] {
+  const historyPath = getHistoryPath(source);
+  if (!fs.existsSync(historyPath)) return [];
+  return fs.readFileSync(historyPath, 'utf8').split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+/**
+ * Folds one evaluation into the state. Active alerts are new (first time, or
+ * back after resolving), escalated (severity went up - this clears any
+ * acknowledgement) or ongoing. Alerts that stopped firing are resolved, and
+ * so are alerts whose rule was skipped, switched off or removed, since
+ * nothing confirms them any more.
+ */
+export function reconcileAlerts(
+  state: AlertState,
+  alerts: AlertThreshold[],
+  now: Date,
+  skipped: { rule: string; reason: string }[] = []
+): { reconciled: ReconciledAlert[]; resolved: AlertRecord[]; events: AlertEvent[] } {
+  const at = now.toISOString();
+  const reconciled: ReconciledAlert[] = [];
+  const resolved: AlertRecord[] = [];
+  const events: AlertEvent[] = [];
+
+  for (const alert of alerts) {
+    const previous = state.alerts[alert.rule];
+
+    if (alert.status === 'ok') {
+      if (previous && previous.status !== 'resolved') {
+        previous.status = 'resolved';
+        previous.last_seen = at;
+        resolved.push(previous);
+        events.push({ at, id: previous.id, event: 'resolved', status: 'resolved', current: alert.current });
+      }
+      continue;
+    }
+
+    let change: AlertChange;
+    let record: AlertRecord;
+    if (!previous || previous.status === 'resolved') {
+      change = 'new';
+      record = {
+        id: alert.rule,
+        metric: alert.metric,
+        status: alert.status,
+        first_seen: at,
+        last_seen: at,
+        occurrences: 1,
+        acknowledged_by: null,
+        acknowledged_at: null,
+        snoozed_until: null
+      };
+    } else {
+      record = previous;
+      change = SEVERITY_RANK[alert.status] > SEVERITY_RANK[record.status] ? 'escalated' : 'ongoing';
+      record.status = alert.status;
+      record.last_seen = at;
+      record.occurrences++;
+      if (change === 'escalated') {
+        record.acknowledged_by = null;
+        record.acknowledged_at = null;
+        record.snoozed_until = null;
+      }
+    }
+
+    if (change !== 'ongoing') events.push({ at, id: record.id, event: change, status: record.status, current: alert.current });
+    state.alerts[record.id] = record;
+
+    // An expired snooze raises the alert once more, then it is ongoing again
+    const snoozeExpired = record.snoozed_until !== null && record.snoozed_until <= at;
+    if (snoozeExpired) record.snoozed_until = null;
+
+    const quiet = record.snoozed_until !== null || record.acknowledged_by !== null;
+    reconciled.push({ alert, record, change, notify: (change !== 'ongoing' || snoozeExpired) && !quiet });
+  }
+
+  const evaluated = new Set(alerts.map(alert => alert.rule));
+  for (const record of Object.values(state.alerts)) {
+    if (record.status === 'resolved' || evaluated.has(record.id)) continue;
+    const reason = skipped.find(s => s.rule === record.id)?.reason ?? 'The rule is disabled or no longer configured';
+    record.status = 'resolved';
+    record.last_seen = at;
+    resolved.push(record);
+    events.push({ at, id: record.id, event: 'resolved', status: 'resolved', reason });
+  }
+
+  state.last_checked = at;
+  return { reconciled, resolved, events };
+}
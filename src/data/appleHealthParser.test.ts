@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseAppleHealthExport } from './appleHealthParser.js';
+import { Correlation, HealthRecord } from '../types/appleHealth.js';
+
+/** The parser reads the file in chunks of this many bytes */
+const CHUNK_SIZE = 256 * 1024;
+
+const HEADER = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+const DOCTYPE = `<!DOCTYPE HealthData [
+<!-- HealthKit Export Version: 13 -->
+<!ELEMENT HealthData (ExportDate,Me,(Record|Correlation|Workout|ActivitySummary)*)>
+<!ATTLIST HealthData locale CDATA #REQUIRED>
+<!ATTLIST Record type CDATA #REQUIRED unit CDATA #IMPLIED value CDATA #IMPLIED>
+]>
+`;
+
+const STEPS = '<Record type="HKQuantityTypeIdentifierStepCount" sourceName="iPhone" unit="count" startDate="2024-01-02 08:00:00 +0000" endDate="2024-01-02 08:10:00 +0000" value="523"/>';
+
+const exportOf = (body: string) => `${HEADER}${DOCTYPE}<HealthData locale="en_US">\n <ExportDate value="2024-01-03 09:00:00 +0000"/>\n${body}\n</HealthData>\n`;
+
+describe('parseAppleHealthExport', () => {
+  let dir: string;
+
+  beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-parser-')); });
+  afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  const parse = async (content: string) => {
+    const file = path.join(dir, 'export.xml');
+    fs.writeFileSync(file, content);
+    const records: HealthRecord[] = [];
+    const correlations: Correlation[] = [];
+    const summary = await parseAppleHealthExport(file, {
+      onRecord: record => records.push(record),
+      onCorrelation: correlation => correlations.push(correlation)
+    });
+    return { summary, records, correlations };
+  };
+
+  test('reads elements after a DOCTYPE with an internal subset', async () => {
+    const { summary, records } = await parse(exportOf(STEPS));
+    assert.equal(summary.export_date, '2024-01-03 09:00:00 +0000');
+    assert.deepEqual(summary.counts, { records: 1, workouts: 0, activity_summaries: 0, correlations: 0 });
+    assert.equal(records[0].value, '523');
+    assert.deepEqual(summary.date_range, { start: '2024-01-02', end: '2024-01-02' });
+  });
+
+  for (const [part, marker] of [['tag name', 'Record type'], ['attribute name', 'sourceName='], ['attribute value', '08:10:00'], ['tag end', '/>']]) {
+    test(`reads a tag split across two chunks in its ${part}`, async () => {
+      const lead = exportOf('').split('\n</HealthData>')[0] + '\n';
+      // Pad with a comment so the chunk boundary falls inside the marker
+      const padding = CHUNK_SIZE - Buffer.byteLength(lead) - '<!---->'.length - STEPS.indexOf(marker) - 1;
+      const content = `${lead}<!--${'x'.repeat(padding)}-->${STEPS}\n${STEPS}\n</HealthData>\n`;
+      const at = content.indexOf(STEPS) + STEPS.indexOf(marker);
+      assert.ok(at < CHUNK_SIZE && CHUNK_SIZE < at + marker.length);
+
+      const { records } = await parse(content);
+      assert.equal(records.length, 2);
+      assert.deepEqual(records[0], records[1]);
+      assert.equal(records[0].endDate, '2024-01-02 08:10:00 +0000');
+    });
+  }
+
+  test('collects metadata and beat-to-beat readings nested in a record', async () => {
+    const { records } = await parse(exportOf(`
+ <Record type="HKQuantityTypeIdentifierHeartRateVariabilitySDNN" unit="ms" startDate="2024-01-02 07:00:00 +0000" endDate="2024-01-02 07:01:00 +0000" value="48.2">
+  <MetadataEntry key="HKAlgorithmVersion" value="2"/>
+  <HeartRateVariabilityMetadataList>
+   <InstantaneousBeatsPerMinute bpm="61" time="7:00:01.25 AM"/>
+   <InstantaneousBeatsPerMinute bpm="64" time="7:00:02.19 AM"/>
+  </HeartRateVariabilityMetadataList>
+ </Record>`));
+
+    assert.deepEqual(records[0].metadata, [{ key: 'HKAlgorithmVersion', value: '2' }]);
+    assert.deepEqual(records[0].beats, [{ bpm: 61, time: '7:00:01.25 AM' }, { bpm: 64, time: '7:00:02.19 AM' }]);
+  });
+
+  test('emits a correlation with its records, not the records on their own', async () => {
+    const { summary, records, correlations } = await parse(exportOf(`
+ <Correlation type="HKCorrelationTypeIdentifierBloodPressure" startDate="2024-01-02 08:00:00 +0000" endDate="2024-01-02 08:00:00 +0000">
+  <MetadataEntry key="HKWasUserEntered" value="1"/>
+  <Record type="HKQuantityTypeIdentifierBloodPressureSystolic" unit="mmHg" startDate="2024-01-02 08:00:00 +0000" endDate="2024-01-02 08:00:00 +0000" value="118"/>
+  <Record type="HKQuantityTypeIdentifierBloodPressureDiastolic" unit="mmHg" startDate="2024-01-02 08:00:00 +0000" endDate="2024-01-02 08:00:00 +0000" value="76"/>
+ </Correlation>`));
+
+    assert.equal(records.length, 0);
+    assert.equal(summary.counts.correlations, 1);
+    assert.deepEqual(correlations[0].records.map(record => record.value), ['118', '76']);
+    assert.deepEqual(correlations[0].metadata, [{ key: 'HKWasUserEntered', value: '1' }]);
+  });
+
+  test('decodes entities in attribute values', async () => {
+    const { records } = await parse(exportOf(
+      STEPS.replace('sourceName="iPhone"', 'sourceName="Ana&apos;s &quot;Watch&quot; &amp; &lt;Phone&gt; &#233;&#x2764;"')
+    ));
+    assert.equal(records[0].sourceName, 'Ana\'s "Watch" & <Phone> é❤');
+  });
+
+  test('rejects a truncated file', async () => {
+    await assert.rejects(parse(exportOf(STEPS).replace('\n</HealthData>\n', '')), /truncated/);
+    await assert.rejects(parse(exportOf(STEPS).slice(0, -30)), /end of file/);
+  });
+
+  test('rejects another root element', async () => {
+    await assert.rejects(parse(`${HEADER}<Workouts>${STEPS}</Workouts>`), /root element is <Workouts>, expected <HealthData>/);
+  });
+});
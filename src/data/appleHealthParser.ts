@@ -0,0 +1,380 @@
+/**
+ * Streaming Apple Health XML parser
+ * Reads export.xml in chunks and emits one event per top-level element,
+ * so memory stays constant regardless of export size (real exports are 1-4GB)
+ */
+import * as fs from 'fs';
+import {
+  XMLAttributes,
+  MetadataEntry,
+  HealthRecord,
+  Workout,
+  WorkoutStatistic,
+  ActivitySummary,
+  Correlation,
+  ParseProgress
+} from '../types/appleHealth.js';
+
+export interface ParserHandlers {
+  onRecord?: (record: HealthRecord) => void;
+  onWorkout?: (workout: Workout) => void;
+  onActivitySummary?: (summary: ActivitySummary) => void;
+  onCorrelation?: (correlation: Correlation) => void;
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+export interface ParseSummary {
+  bytes: number;
+  counts: {
+    records: number;
+    workouts: number;
+    activity_summaries: number;
+    correlations: number;
+  };
+  record_types: Record<string, number>;
+  date_range: {
+    start: string;
+    end: string;
+  };
+  export_date?: string;
+}
+
+interface ElementNode {
+  name: string;
+  attributes: XMLAttributes;
+  children: ElementNode[];
+}
+
+const TOP_LEVEL_ELEMENTS = new Set(['Record', 'Workout', 'ActivitySummary', 'Correlation']);
+const CHUNK_SIZE = 256 * 1024;
+const PROGRESS_STEP = 0.01; // report every 1% of the file
+
+export async function parseAppleHealthExport(filePath: string, handlers: ParserHandlers = {}): Promise<ParseSummary> {
+  const totalBytes = fs.statSync(filePath).size;
+  const summary: ParseSummary = {
+    bytes: totalBytes,
+    counts: { records: 0, workouts: 0, activity_summaries: 0, correlations: 0 },
+    record_types: {},
+    date_range: { start: '', end: '' }
+  };
+
+  let rootSeen = false;
+  let depth = 0;
+  let stack: ElementNode[] = [];
+  let elements = 0;
+  let lastProgress = 0;
+
+  const trackDate = (date: string | undefined) => {
+    const day = date?.substring(0, 10);
+    if (!day) return;
+    if (!summary.date_range.start || day < summary.date_range.start) summary.date_range.start = day;
+    if (!summary.date_range.end || day > summary.date_range.end) summary.date_range.end = day;
+  };
+
+  const emit = (node: ElementNode) => {
+    elements++;
+    switch (node.name) {
+      case 'Record': {
+        const record = toRecord(node);
+        summary.counts.records++;
+        summary.record_types[record.type] = (summary.record_types[record.type] || 0) + 1;
+        trackDate(record.startDate);
+        handlers.onRecord?.(record);
+        break;
+      }
+      case 'Workout': {
+        const workout = toWorkout(node);
+        summary.counts.workouts++;
+        trackDate(workout.startDate);
+        handlers.onWorkout?.(workout);
+        break;
+      }
+      case 'ActivitySummary': {
+        const activity = toActivitySummary(node);
+        summary.counts.activity_summaries++;
+        trackDate(activity.date);
+        handlers.onActivitySummary?.(activity);
+        break;
+      }
+      case 'Correlation': {
+        const correlation = toCorrelation(node);
+        summary.counts.correlations++;
+        trackDate(correlation.startDate);
+        handlers.onCorrelation?.(correlation);
+        break;
+      }
+    }
+  };
+
+  const tokenizer = createTokenizer({
+    onStart(name, attributes, selfClosing) {
+      if (!rootSeen) {
+        if (name !== 'HealthData') {
+          throw new Error(`Not a valid Apple Health export - root element is <${name}>, expected <HealthData>`);
+        }
+        rootSeen = true;
+      } else if (depth === 1) {
+        if (name === 'ExportDate') summary.export_date = attributes.value;
+        if (TOP_LEVEL_ELEMENTS.has(name)) stack = [{ name, attributes, children: [] }];
+      } else if (stack.length > 0) {
+        const node = { name, attributes, children: [] };
+        stack[stack.length - 1].children.push(node);
+        stack.push(node);
+      }
+
+      depth++;
+      if (selfClosing) this.onEnd(name);
+    },
+
+    onEnd(name) {
+      depth--;
+      if (stack.length === 0) return;
+      const node = stack.pop()!;
+      if (node.name !== name) {
+        throw new Error(`Mismatched closing tag </${name}> for <${node.name}>`);
+      }
+      if (stack.length === 0) emit(node);
+    }
+  });
+
+  const stream = fs.createReadStream(filePath, { encoding: 'utf8', highWaterMark: CHUNK_SIZE });
+  for await (const chunk of stream) {
+    tokenizer.write(chunk as string);
+
+    if (handlers.onProgress && totalBytes > 0) {
+      const fraction = stream.bytesRead / totalBytes;
+      if (fraction - lastProgress >= PROGRESS_STEP || stream.bytesRead === totalBytes) {
+        lastProgress = fraction;
+        handlers.onProgress({
+          bytes_read: stream.bytesRead,
+          total_bytes: totalBytes,
+          percent: Math.round(fraction * 1000) / 10,
+          elements
+        });
+      }
+    }
+  }
+  tokenizer.end();
+
+  if (!rootSeen) {
+    throw new Error('Not a valid Apple Health export - missing HealthData root element');
+  }
+  if (depth !== 0) {
+    throw new Error('Unexpected end of file - export appears to be truncated');
+  }
+
+  return summary;
+}
+
+// Element conversion
+
+function toMetadata(node: ElementNode): MetadataEntry[] {
+  return node.children
+    .filter(child => child.name === 'MetadataEntry')
+    .map(child => ({ key: child.attributes.key, value: child.attributes.value }));
+}
+
+function toRecord(node: ElementNode): HealthRecord {
+  const a = node.attributes;
+  const beats = node.children
+    .filter(child => child.name === 'HeartRateVariabilityMetadataList')
+    .flatMap(list => list.children)
+    .filter(child => child.name === 'InstantaneousBeatsPerMinute')
+    .map(child => ({ bpm: Number(child.attributes.bpm), time: child.attributes.time }));
+
+  return {
+    type: a.type,
+    sourceName: a.sourceName,
+    sourceVersion: a.sourceVersion,
+    device: a.device,
+    unit: a.unit,
+    creationDate: a.creationDate,
+    startDate: a.startDate,
+    endDate: a.endDate,
+    value: a.value,
+    metadata: toMetadata(node),
+    beats
+  };
+}
+
+function toWorkout(node: ElementNode): Workout {
+  const a = node.attributes;
+  const statistics: WorkoutStatistic[] = node.children
+    .filter(child => child.name === 'WorkoutStatistics')
+    .map(child => ({
+      type: child.attributes.type,
+      startDate: child.attributes.startDate,
+      endDate: child.attributes.endDate,
+      average: toNumber(child.attributes.average),
+      minimum: toNumber(child.attributes.minimum),
+      maximum: toNumber(child.attributes.maximum),
+      sum: toNumber(child.attributes.sum),
+      unit: child.attributes.unit
+    }));
+
+  return {
+    activityType: a.workoutActivityType,
+    duration: toNumber(a.duration),
+    durationUnit: a.durationUnit,
+    totalDistance: toNumber(a.totalDistance),
+    totalDistanceUnit: a.totalDistanceUnit,
+    totalEnergyBurned: toNumber(a.totalEnergyBurned),
+    totalEnergyBurnedUnit: a.totalEnergyBurnedUnit,
+    sourceName: a.sourceName,
+    startDate: a.startDate,
+    endDate: a.endDate,
+    metadata: toMetadata(node),
+    statistics
+  };
+}
+
+function toActivitySummary(node: ElementNode): ActivitySummary {
+  const a = node.attributes;
+  return {
+    date: a.dateComponents,
+    activeEnergyBurned: toNumber(a.activeEnergyBurned),
+    activeEnergyBurnedGoal: toNumber(a.activeEnergyBurnedGoal),
+    activeEnergyBurnedUnit: a.activeEnergyBurnedUnit,
+    appleExerciseTime: toNumber(a.appleExerciseTime),
+    appleExerciseTimeGoal: toNumber(a.appleExerciseTimeGoal),
+    appleStandHours: toNumber(a.appleStandHours),
+    appleStandHoursGoal: toNumber(a.appleStandHoursGoal)
+  };
+}
+
+function toCorrelation(node: ElementNode): Correlation {
+  const a = node.attributes;
+  return {
+    type: a.type,
+    sourceName: a.sourceName,
+    startDate: a.startDate,
+    endDate: a.endDate,
+    metadata: toMetadata(node),
+    records: node.children.filter(child => child.name === 'Record').map(toRecord)
+  };
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// Incremental XML tokenizer
+
+interface TokenizerHandlers {
+  onStart(name: string, attributes: XMLAttributes, selfClosing: boolean): void;
+  onEnd(name: string): void;
+}
+
+/**
+ * Minimal push tokenizer covering what Apple Health exports contain:
+ * elements with attributes, comments, processing instructions, CDATA and a
+ * DOCTYPE with an internal subset. Text content is skipped.
+ */
+function createTokenizer(handlers: TokenizerHandlers) {
+  let buffer = '';
+
+  const drain = (final: boolean) => {
+    let pos = 0;
+
+    while (true) {
+      const open = buffer.indexOf('<', pos);
+      if (open === -1) {
+        pos = buffer.length;
+        break;
+      }
+
+      const end = findMarkupEnd(buffer, open);
+      if (end === -1) {
+        if (final) throw new Error('Unexpected end of file inside markup');
+        pos = open;
+        break;
+      }
+
+      const markup = buffer.substring(open, end);
+      pos = end;
+
+      if (markup.startsWith('</')) {
+        handlers.onEnd(markup.slice(2, -1).trim());
+      } else if (!markup.startsWith('<!') && !markup.startsWith('<?')) {
+        const selfClosing = markup.endsWith('/>');
+        const body = markup.slice(1, selfClosing ? -2 : -1);
+        const nameEnd = body.search(/[\s/]|$/);
+        handlers.onStart(body.substring(0, nameEnd), parseAttributes(body.substring(nameEnd)), selfClosing);
+      }
+    }
+
+    buffer = buffer.substring(pos);
+  };
+
+  return {
+    write(chunk: string) {
+      buffer += chunk;
+      drain(false);
+    },
+    end() {
+      drain(true);
+    }
+  };
+}
+
+/** Returns the index just past the markup starting at `start`, or -1 if it is incomplete */
+function findMarkupEnd(buffer: string, start: number): number {
+  const after = (terminator: string, from: number) => {
+    const index = buffer.indexOf(terminator, from);
+    return index === -1 ? -1 : index + terminator.length;
+  };
+
+  if (buffer.startsWith('<!--', start)) return after('-->', start + 4);
+  if (buffer.startsWith('<![CDATA[', start)) return after(']]>', start + 9);
+  if (buffer.startsWith('<?', start)) return after('?>', start + 2);
+
+  // Tags and declarations: find '>' outside quotes (and outside the DOCTYPE internal subset)
+  let quote = '';
+  let bracketDepth = 0;
+  for (let i = start + 1; i < buffer.length; i++) {
+    const char = buffer[i];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '[') {
+      bracketDepth++;
+    } else if (char === ']') {
+      bracketDepth--;
+    } else if (char === '<' && bracketDepth > 0 && buffer.startsWith('<!--', i)) {
+      const commentEnd = buffer.indexOf('-->', i + 4);
+      if (commentEnd === -1) return -1;
+      i = commentEnd + 2;
+    } else if (char === '>' && bracketDepth <= 0) {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+function parseAttributes(source: string): XMLAttributes {
+  const attributes: XMLAttributes = {};
+  const pattern = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+function decodeEntities(value: string): string {
+  if (!value.includes('&')) return value;
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return '\'';
+      default:
+        return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+  });
+}
@@ -0,0 +1,62 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareMetric, DailyValue, DateRange } from './comparison.js';
+import { addDays } from '../utils/dates.js';
+
+const BASELINE: DateRange = { from: '2024-01-01', to: '2024-01-07' };
+const CURRENT: DateRange = { from: '2024-01-08', to: '2024-01-14' };
+
+/** One value a day from `from` */
+const days = (from: string, values: number[]): DailyValue[] => values.map((value, i) => ({ date: addDays(from, i), value }));
+
+const week = (start: number) => Array.from({ length: 7 }, (_, i) => start + i);
+
+describe('compareMetric', () => {
+  test('reports a rise as the current mean minus the baseline mean', () => {
+    const comparison = compareMetric('hrv', [...days(BASELINE.from, week(60)), ...days(CURRENT.from, week(70))], CURRENT, BASELINE);
+    assert.deepEqual(comparison.current, { days: 7, mean: 73, median: 73 });
+    assert.deepEqual(comparison.baseline, { days: 7, mean: 63, median: 63 });
+    assert.equal(comparison.change, 10);
+    assert.equal(comparison.change_percent, 15.9);
+    assert.equal(comparison.test?.effect_size, 1);
+    assert.equal(comparison.assessment, 'better');
+  });
+
+  test('reports a fall with a negative sign', () => {
+    const comparison = compareMetric('hrv', [...days(BASELINE.from, week(70)), ...days(CURRENT.from, week(60))], CURRENT, BASELINE);
+    assert.equal(comparison.change, -10);
+    assert.equal(comparison.change_percent, -13.7);
+    assert.equal(comparison.test?.effect_size, -1);
+    assert.equal(comparison.assessment, 'worse');
+  });
+
+  test('takes a fall in resting HR as better', () => {
+    const rise = compareMetric('resting_hr', [...days(BASELINE.from, week(60)), ...days(CURRENT.from, week(70))], CURRENT, BASELINE);
+    assert.equal(rise.change, 10);
+    assert.equal(rise.assessment, 'worse');
+
+    const fall = compareMetric('resting_hr', [...days(BASELINE.from, week(70)), ...days(CURRENT.from, week(60))], CURRENT, BASELINE);
+    assert.equal(fall.change, -10);
+    assert.equal(fall.assessment, 'better');
+  });
+
+  test('finds no change when the periods overlap', () => {
+    const comparison = compareMetric('steps', [...days(BASELINE.from, [1, 3, 5, 7, 9, 11, 13]), ...days(CURRENT.from, [2, 4, 6, 8, 10, 12, 14])], CURRENT, BASELINE);
+    assert.equal(comparison.change, 1);
+    assert.equal(comparison.assessment, 'no_change');
+  });
+
+  test('needs two days a side to test', () => {
+    const comparison = compareMetric('hrv', [...days(BASELINE.from, week(60)), ...days(CURRENT.from, [70])], CURRENT, BASELINE);
+    assert.equal(comparison.current.days, 1);
+    assert.equal(comparison.change, 7);
+    assert.equal(comparison.test, null);
+    assert.equal(comparison.assessment, 'insufficient_data');
+
+    const empty = compareMetric('hrv', days(CURRENT.from, week(70)), CURRENT, BASELINE);
+    assert.deepEqual(empty.baseline, { days: 0, mean: null, median: null });
+    assert.equal(empty.change, null);
+    assert.equal(empty.change_percent, null);
+    assert.equal(empty.assessment, 'insufficient_data');
+  });
+});
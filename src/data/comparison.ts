@@ -0,0 +1,152 @@
+/**
+ * Period comparison
+ * Daily values of one metric in two date ranges, compared with a
+ * Mann-Whitney test (see statistics.ts). Only days with a reading count, so
+ * a period with gaps is compared on the days it has.
+ */
+import { DataProvider, Metric } from './provider.js';
+import { mannWhitney, mean, median, MannWhitney } from './statistics.js';
+
+export type CompareMetric = 'hrv' | 'resting_hr' | 'sleep' | 'sleep_score' | 'steps' | 'active_calories' | 'exercise_minutes';
+
+interface MetricInfo {
+  label: string;
+  unit: string;
+  /** Where the daily values come from */
+  source: Metric;
+  /** Whether a rise is an improvement - false for resting HR */
+  higher_is_better: boolean;
+  digits: number;
+  daily: (provider: DataProvider, days: number) => DailyValue[];
+}
+
+export interface DailyValue {
+  date: string;
+  value: number;
+}
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface RangeSummary {
+  days: number;
+  mean: number | null;
+  median: number | null;
+}
+
+export interface MetricComparison {
+  metric: CompareMetric;
+  current: RangeSummary;
+  baseline: RangeSummary;
+  /** Current mean minus baseline mean */
+  change: number | null;
+  change_percent: number | null;
+  test: MannWhitney | null;
+  /** Whether the change is significant and in the metric's better direction, the worse one, or neither */
+  assessment: 'better' | 'worse' | 'no_change' | 'insufficient_data';
+}
+
+export const COMPARE_METRICS: Record<CompareMetric, MetricInfo> = {
+  hrv: {
+    label: 'HRV',
+    unit: 'ms',
+    source: 'hrv',
+    higher_is_better: true,
+    digits: 1,
+    daily: (provider, days) => provider.hrv(days).map(d => ({ date: d.date, value: d.value }))
+  },
+  resting_hr: {
+    label: 'Resting HR',
+    unit: 'bpm',
+    source: 'heart',
+    higher_is_better: false,
+    digits: 1,
+    daily: (provider, days) => provider.heart(days)
+      .filter(d => d.resting_hr !== null)
+      .map(d => ({ date: d.date, value: d.resting_hr! }))
+  },
+  sleep: {
+    label: 'Sleep duration',
+    unit: 'hours',
+    source: 'sleep',
+    higher_is_better: true,
+    digits: 2,
+    daily: (provider, days) => provider.sleep(days).map(d => ({ date: d.date, value: d.duration_hours }))
+  },
+  sleep_score: {
+    label: 'Sleep score',
+    unit: 'score',
+    source: 'sleep',
+    higher_is_better: true,
+    digits: 1,
+    daily: (provider, days) => provider.sleep(days).map(d => ({ date: d.date, value: d.sleep_score }))
+  },
+  steps: {
+    label: 'Steps',
+    unit: 'steps',
+    source: 'activity',
+    higher_is_better: true,
+    digits: 0,
+    daily: (provider, days) => provider.activity(days).map(d => ({ date: d.date, value: d.steps }))
+  },
+  active_calories: {
+    label: 'Active calories',
+    unit: 'kcal',
+    source: 'activity',
+    higher_is_better: true,
+    digits: 0,
+    daily: (provider, days) => provider.activity(days).map(d => ({ date: d.date, value: d.active_calories }))
+  },
+  exercise_minutes: {
+    label: 'Exercise minutes',
+    unit: 'minutes',
+    source: 'activity',
+    higher_is_better: true,
+    digits: 0,
+    daily: (provider, days) => provider.activity(days).map(d => ({ date: d.date, value: d.exercise_minutes }))
+  }
+};
+
+export const COMPARE_METRIC_NAMES = Object.keys(COMPARE_METRICS) as CompareMetric[];
+
+export function isCompareMetric(name: string): name is CompareMetric {
+  return name in COMPARE_METRICS;
+}
+
+/** Compares the metric's daily values in `current` against `baseline`, given values reaching back to both */
+export function compareMetric(metric: CompareMetric, values: DailyValue[], current: DateRange, baseline: DateRange): MetricComparison {
+  const { digits, higher_is_better } = COMPARE_METRICS[metric];
+  const within = (range: DateRange) => values.filter(d => d.date >= range.from && d.date <= range.to).map(d => d.value);
+  const [now, before] = [within(current), within(baseline)];
+
+  const summarize = (sample: number[]): RangeSummary => ({
+    days: sample.length,
+    mean: sample.length > 0 ? round(mean(sample), digits) : null,
+    median: sample.length > 0 ? round(median(sample), digits) : null
+  });
+
+  const test = mannWhitney(now, before);
+  const change = now.length > 0 && before.length > 0 ? mean(now) - mean(before) : null;
+  const baselineMean = before.length > 0 ? mean(before) : 0;
+
+  return {
+    metric,
+    current: summarize(now),
+    baseline: summarize(before),
+    change: change === null ? null : round(change, digits),
+    change_percent: change === null || baselineMean === 0 ? null : round(change / baselineMean * 100, 1),
+    test: test && { ...test, effect_size: round(test.effect_size, 2), p_value: round(test.p_value, 4) },
+    assessment: !test
+      ? 'insufficient_data'
+      : !test.significant
+        ? 'no_change'
+        : (test.effect_size > 0) === higher_is_better ? 'better' : 'worse'
+  };
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
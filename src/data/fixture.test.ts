@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadFixtureProvider } from './fixture.js';
+
+const FIXTURE = {
+  hrv: [
+    { date: '2024-01-03', value: 48, rmssd: 52 },
+    { date: '2024-01-01', value: 42 },
+    { date: '2024-01-02', value: 28 }
+  ],
+  sleep: [
+    { date: '2024-01-02', duration_hours: 7.1, deep_sleep_hours: 1.2, rem_sleep_hours: 1.5, sleep_score: 80, bedtime: '23:00', wake_time: '06:10' }
+  ],
+  activity: [
+    { date: '2024-01-02', steps: 4200, active_calories: 300, exercise_minutes: 10, stand_hours: 7 }
+  ]
+};
+
+describe('loadFixtureProvider', () => {
+  let dir: string;
+
+  beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-fixture-')); });
+  afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  const write = (content: string) => {
+    const file = path.join(dir, 'fixture.json');
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  const load = (content: unknown) => loadFixtureProvider(write(typeof content === 'string' ? content : JSON.stringify(content)));
+
+  test('sorts entries by date and fills in the optional fields', () => {
+    const provider = load(FIXTURE);
+    assert.ok(!('ok' in provider));
+
+    const hrv = provider.hrv(7);
+    assert.deepEqual(hrv.map(d => d.date), ['2024-01-01', '2024-01-02', '2024-01-03']);
+    assert.deepEqual(hrv.map(d => d.rmssd), [null, null, 52]);
+    assert.ok(hrv.every(d => ['low', 'normal', 'high'].includes(d.category)));
+
+    const [night] = provider.sleep(7);
+    assert.equal(night.core_sleep_hours, null);
+    assert.equal(night.nap_count, 0);
+  });
+
+  test('counts windows back from the newest entry', () => {
+    const provider = load(FIXTURE);
+    assert.ok(!('ok' in provider));
+    assert.deepEqual(provider.hrv(2).map(d => d.date), ['2024-01-02', '2024-01-03']);
+    assert.deepEqual(provider.describe(['hrv', 'sleep']).coverage, { start: '2024-01-01', end: '2024-01-03' });
+  });
+
+  test('reports the status date\'s activity, or none when that day has none', () => {
+    const provider = load(FIXTURE);
+    assert.ok(!('ok' in provider));
+    // HRV runs to 2024-01-03, a day past the last activity
+    assert.equal(provider.status()?.date, '2024-01-03');
+    assert.equal(provider.status()?.activity, null);
+    assert.deepEqual(provider.until('2024-01-02').status()?.activity, { steps: 4200, active_calories: 300, exercise_minutes: 10 });
+  });
+
+  test('until() leaves out later entries', () => {
+    const provider = load(FIXTURE);
+    assert.ok(!('ok' in provider));
+    const past = provider.until('2024-01-02');
+    assert.equal(past.asOf, '2024-01-02');
+    assert.deepEqual(past.hrv(7).map(d => d.date), ['2024-01-01', '2024-01-02']);
+    assert.equal(past.describe(['hrv']).as_of, '2024-01-02');
+  });
+
+  test('rejects a file that is not JSON', () => {
+    const result = load('{ not json');
+    assert.ok('ok' in result);
+    assert.equal(result.error.code, 'INVALID_FIXTURE');
+    assert.match(result.error.message, /^Could not load fixture/);
+  });
+
+  test('rejects null with the root path', () => {
+    const result = load('null');
+    assert.ok('ok' in result);
+    assert.equal(result.error.code, 'INVALID_FIXTURE');
+    assert.match(result.error.message, /\(root\)/);
+  });
+
+  test('rejects a section that is not an array', () => {
+    const result = load({ hrv: {} });
+    assert.ok('ok' in result);
+    assert.equal(result.error.code, 'INVALID_FIXTURE');
+    assert.match(result.error.message, /^Invalid fixture: hrv: /);
+  });
+
+  test('names the failing entry and field', () => {
+    const missing = load({ hrv: [{ value: 40 }] });
+    assert.ok('ok' in missing);
+    assert.match(missing.error.message, /hrv\.0\.date: is missing/);
+
+    const badDay = load({ activity: [{ ...FIXTURE.activity[0], date: '2024-02-30' }] });
+    assert.ok('ok' in badDay);
+    assert.match(badDay.error.message, /activity\.0\.date: Expected a calendar day/);
+
+    const badTime = load({ sleep: [{ ...FIXTURE.sleep[0], bedtime: '11pm' }] });
+    assert.ok('ok' in badTime);
+    assert.match(badTime.error.message, /sleep\.0\.bedtime: Expected a wall-clock time/);
+  });
+});
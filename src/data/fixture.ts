@@ -0,0 +1,175 @@
+/**
+ * JSON fixture provider - fixed data for demos and deterministic tests
+ *
+ * Fixture format:
+ *   { "hrv": HRVData[], "sleep": SleepData[], "activity": ActivityData[],
+ *     "heart": HeartRateData[], "hr_recovery": HeartRecoveryData[],
+ *     "workouts": WorkoutData[] }
+ * Any section may be omitted. Entries are decoded with the data schemas,
+ * with the fields the provider can derive optional. Entries are sorted by
+ * date and windows are counted back from the newest entry (on or before
+ * --as-of, when given).
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { Either, ParseResult, Schema } from 'effect';
+import { ErrorResponse } from '../types/responses.js';
+import { ActivityDataSchema, HeartRecoveryDataSchema, HRVDataSchema, SleepDataSchema, WorkoutDataSchema } from '../types/schemas.js';
+import { error } from '../utils/responses.js';
+import { COMMON_ACTIONS } from '../utils/actions.js';
+import { DataProvider } from './provider.js';
+import { categorizeHRV, buildStatus } from './health.js';
+import { withPersonalCategories } from './hrvBaseline.js';
+import { addDays, isValidDay } from '../utils/dates.js';
+
+const FixtureDay = Schema.String.pipe(
+  Schema.filter(isValidDay, { message: () => 'Expected a calendar day in YYYY-MM-DD format' })
+);
+
+const FixtureTime = Schema.String.pipe(
+  Schema.pattern(/^\d{2}:\d{2}$/, { message: () => 'Expected a wall-clock time in HH:MM format' })
+);
+
+/** The data schemas, with the fields the provider can fill in left optional */
+const FixtureHRV = Schema.Struct({
+  ...HRVDataSchema.fields,
+  date: FixtureDay,
+  rmssd: Schema.optional(HRVDataSchema.fields.rmssd),
+  category: Schema.optional(HRVDataSchema.fields.category)
+}).annotations({ identifier: 'FixtureHRV' });
+
+const FixtureSleep = Schema.Struct({
+  ...SleepDataSchema.fields,
+  date: FixtureDay,
+  bedtime: FixtureTime,
+  wake_time: FixtureTime,
+  core_sleep_hours: Schema.optional(SleepDataSchema.fields.core_sleep_hours),
+  time_in_bed_hours: Schema.optional(SleepDataSchema.fields.time_in_bed_hours),
+  efficiency: Schema.optional(SleepDataSchema.fields.efficiency),
+  latency_minutes: Schema.optional(SleepDataSchema.fields.latency_minutes),
+  waso_minutes: Schema.optional(SleepDataSchema.fields.waso_minutes),
+  nap_count: Schema.optional(SleepDataSchema.fields.nap_count),
+  nap_hours: Schema.optional(SleepDataSchema.fields.nap_hours)
+}).annotations({ identifier: 'FixtureSleep' });
+
+const FixtureActivity = Schema.Struct({ ...ActivityDataSchema.fields, date: FixtureDay }).annotations({ identifier: 'FixtureActivity' });
+
+const FixtureHeart = Schema.Struct({
+  date: FixtureDay,
+  resting_hr: Schema.NullOr(Schema.Number),
+  walking_hr_avg: Schema.NullOr(Schema.Number),
+  hr_minutes: Schema.optional(Schema.Array(Schema.Struct({ bpm: Schema.Number, minutes: Schema.Number })))
+}).annotations({ identifier: 'FixtureHeart' });
+
+const FixtureHeartRecovery = Schema.Struct({ ...HeartRecoveryDataSchema.fields, date: FixtureDay, end_time: FixtureTime })
+  .annotations({ identifier: 'FixtureHeartRecovery' });
+
+const FixtureWorkout = Schema.Struct({ ...WorkoutDataSchema.fields, date: FixtureDay, start_time: FixtureTime })
+  .annotations({ identifier: 'FixtureWorkout' });
+
+const FixtureSchema = Schema.Struct({
+  hrv: Schema.optionalWith(Schema.Array(FixtureHRV), { exact: true }),
+  sleep: Schema.optionalWith(Schema.Array(FixtureSleep), { exact: true }),
+  activity: Schema.optionalWith(Schema.Array(FixtureActivity), { exact: true }),
+  heart: Schema.optionalWith(Schema.Array(FixtureHeart), { exact: true }),
+  hr_recovery: Schema.optionalWith(Schema.Array(FixtureHeartRecovery), { exact: true }),
+  workouts: Schema.optionalWith(Schema.Array(FixtureWorkout), { exact: true })
+}).annotations({ identifier: 'Fixture' });
+
+type Fixture = typeof FixtureSchema.Type;
+
+/** Issues listed in an INVALID_FIXTURE message before the rest are counted */
+const MAX_LISTED_ISSUES = 5;
+
+export function loadFixtureProvider(fixturePath: string): DataProvider | ErrorResponse {
+  const invalid = (message: string) => error(
+    `--fixture ${fixturePath}`,
+    message,
+    'INVALID_FIXTURE',
+    'Point --fixture at a JSON file with hrv, sleep, activity, heart, hr_recovery and/or workouts arrays',
+    [
+      COMMON_ACTIONS.MOCK
+    ]
+  );
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+  } catch (readError) {
+    return invalid(`Could not load fixture: ${readError instanceof Error ? readError.message : String(readError)}`);
+  }
+
+  const decoded = Schema.decodeUnknownEither(FixtureSchema, { errors: 'all' })(raw);
+  if (Either.isLeft(decoded)) {
+    const issues = ParseResult.ArrayFormatter.formatErrorSync(decoded.left)
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    const more = issues.length > MAX_LISTED_ISSUES ? ` (and ${issues.length - MAX_LISTED_ISSUES} more)` : '';
+    return invalid(`Invalid fixture: ${issues.slice(0, MAX_LISTED_ISSUES).join('; ')}${more}`);
+  }
+
+  return fixtureProvider(decoded.right, path.resolve(fixturePath), null);
+}
+
+/** Entries after `asOf` are left out, as if the fixture had been written that day */
+function fixtureProvider(fixture: Fixture, fixturePath: string, asOf: string | null): DataProvider {
+  const byDate = <T extends { date: string }>(entries: readonly T[] = []) =>
+    entries.filter(e => asOf === null || e.date <= asOf).sort((a, b) => a.date.localeCompare(b.date));
+  const lastDays = <T extends { date: string }>(entries: T[], days: number) => {
+    if (entries.length === 0) return entries;
+    const from = addDays(entries[entries.length - 1].date, -(days - 1));
+    return entries.filter(e => e.date >= from);
+  };
+
+  const hrv = byDate(fixture.hrv).map(d => ({ ...d, rmssd: d.rmssd ?? null, category: d.category ?? categorizeHRV(d.value) }));
+  const personalHRV = withPersonalCategories(days => lastDays(hrv, days));
+  const sleep = byDate(fixture.sleep).map(d => ({
+    ...d,
+    core_sleep_hours: d.core_sleep_hours ?? null,
+    time_in_bed_hours: d.time_in_bed_hours ?? null,
+    efficiency: d.efficiency ?? null,
+    latency_minutes: d.latency_minutes ?? null,
+    waso_minutes: d.waso_minutes ?? null,
+    nap_count: d.nap_count ?? 0,
+    nap_hours: d.nap_hours ?? 0
+  }));
+  const activity = byDate(fixture.activity);
+  const heart = byDate(fixture.heart).map(d => ({ ...d, hr_minutes: [...(d.hr_minutes ?? [])] }));
+  const hrRecovery = byDate(fixture.hr_recovery);
+  const workouts = byDate(fixture.workouts);
+
+  return {
+    name: 'fixture',
+    describe: metrics => {
+      const dates = metrics
+        .flatMap(m => ({ hrv, sleep, activity, heart, workouts })[m] as { date: string }[])
+        .map(d => d.date)
+        .sort();
+      return {
+        type: 'fixture',
+        fixture: fixturePath,
+        ...(asOf !== null && { as_of: asOf }),
+        coverage: dates.length > 0 ? { start: dates[0], end: dates[dates.length - 1] } : null
+      };
+    },
+    hrv: personalHRV,
+    sleep: days => lastDays(sleep, days),
+    activity: days => lastDays(activity, days),
+    heart: days => lastDays(heart, days),
+    workouts: days => lastDays(workouts, days),
+    hrRecovery: days => lastDays(hrRecovery, days),
+    status: () => {
+      if (hrv.length === 0 || sleep.length === 0) return null;
+      const date = [hrv[hrv.length - 1].date, sleep[sleep.length - 1].date].sort()[1];
+      const today = activity.find(d => d.date === date);
+      return buildStatus(date, personalHRV(7), lastDays(sleep, 7), today ? {
+        steps: today.steps,
+        active_calories: today.active_calories,
+        exercise_minutes: today.exercise_minutes
+      } : null);
+    },
+    now: () => asOf === null ? new Date() : new Date(`${asOf}T12:00:00Z`),
+    asOf,
+    reproducible: true,
+    until: date => fixtureProvider(fixture, fixturePath, asOf !== null && asOf < date ? asOf : date)
+  };
+}
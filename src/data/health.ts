@@ -0,0 +1,95 @@
+/**
+ * Shared health data derivations
+ * Used by both the mock generators and the local store readers
+ */
+import { HRVData, SleepData, HealthStatus } from '../types/responses.js';
+import { HealthConfig } from '../utils/config.js';
+import { circularSDMinutes, timeToMinutes } from '../utils/dates.js';
+import { sleepRegularityIndex } from './sleepRegularity.js';
+
+/** Max HR when neither heart.max_hr nor heart.age is configured */
+export const DEFAULT_MAX_HR = 190;
+
+export interface MaxHeartRate {
+  max_hr: number;
+  source: 'config' | 'age' | 'default';
+}
+
+/** heart.max_hr, else 220 - heart.age, else the default */
+export function maxHeartRate(settings: HealthConfig['heart']): MaxHeartRate {
+  if (settings.max_hr !== null) return { max_hr: settings.max_hr, source: 'config' };
+  if (settings.age !== null) return { max_hr: 220 - settings.age, source: 'age' };
+  return { max_hr: DEFAULT_MAX_HR, source: 'default' };
+}
+
+/** Population cutoffs, used until there is a personal baseline (see hrvBaseline) */
+export function categorizeHRV(value: number): HRVData['category'] {
+  if (value < 30) return 'low';
+  if (value > 60) return 'high';
+  return 'normal';
+}
+
+export interface SleepConsistency {
+  /** Circular standard deviation of bedtimes, in minutes */
+  bedtime_variance: number;
+  /** Circular standard deviation of wake times, in minutes */
+  wake_time_variance: number;
+  /** Sleep Regularity Index (-100..100); null without enough consecutive nights */
+  sleep_regularity_index: number | null;
+  /**
+   * 100 minus the mean of the two deviations, floored at 0, averaged with
+   * the SRI (floored at 0) when there is one
+   */
+  consistency_score: number;
+}
+
+/** How much bedtime and wake time move from night to night */
+export function calculateSleepConsistency(data: SleepData[]): SleepConsistency {
+  const bedtimeVariance = Math.round(circularSDMinutes(data.map(s => timeToMinutes(s.bedtime))));
+  const wakeTimeVariance = Math.round(circularSDMinutes(data.map(s => timeToMinutes(s.wake_time))));
+  const sri = sleepRegularityIndex(data);
+  const spread = Math.max(0, 100 - (bedtimeVariance + wakeTimeVariance) / 2);
+
+  return {
+    bedtime_variance: bedtimeVariance,
+    wake_time_variance: wakeTimeVariance,
+    sleep_regularity_index: sri,
+    consistency_score: sri === null ? spread : Math.round((spread + Math.max(0, sri)) / 2)
+  };
+}
+
+export function buildStatus(
+  date: string,
+  recentHRV: HRVData[],
+  recentSleep: SleepData[],
+  activity: HealthStatus['activity']
+): HealthStatus {
+  const currentHRV = recentHRV[recentHRV.length - 1];
+  const lastNightSleep = recentSleep[recentSleep.length - 1];
+  const avgSleep = recentSleep.reduce((sum, s) => sum + s.duration_hours, 0) / recentSleep.length;
+
+  // Determine trend
+  const hrvTrend = recentHRV.length > 1 ?
+    (currentHRV.value > recentHRV[recentHRV.length - 2].value ? 'up' :
+     currentHRV.value < recentHRV[recentHRV.length - 2].value ? 'down' : 'stable') : 'stable';
+
+  const alerts: string[] = [];
+  if (currentHRV.category === 'low') alerts.push('🔴 HRV below your normal range - consider rest day');
+  if (lastNightSleep.duration_hours < 6) alerts.push('😴 Insufficient sleep last night');
+
+  return {
+    date,
+    hrv: {
+      current: currentHRV.value,
+      trend: hrvTrend,
+      category: currentHRV.category
+    },
+    sleep: {
+      last_night_hours: lastNightSleep.duration_hours,
+      avg_7_day: Math.round(avgSleep * 10) / 10,
+      score: lastNightSleep.sleep_score
+    },
+    activity,
+    alerts
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { hrvBaseline, hrvPosition } from './hrvBaseline.js';
+import { HRVData } from '../types/responses.js';
+import { addDays } from '../utils/dates.js';
+
+const DATE = '2024-03-31';
+
+const reading = (date: string, value: number, rmssd: number | null = null): HRVData => ({ date, value, rmssd, category: 'normal' });
+
+/**
+ * 60 baseline days alternating 40 and 60 ms (mean 50, SD 10), ending a week
+ * before DATE, then 7 days at `recent`
+ */
+function series(recent: number, rmssd: (value: number) => number | null = () => null): HRVData[] {
+  const baseline = Array.from({ length: 60 }, (_, i) => {
+    const value = i % 2 === 0 ? 40 : 60;
+    return reading(addDays(DATE, i - 66), value, rmssd(value));
+  });
+  const week = Array.from({ length: 7 }, (_, i) => reading(addDays(DATE, i - 6), recent, rmssd(recent)));
+  return [...baseline, ...week];
+}
+
+describe('hrvBaseline', () => {
+  test('takes the mean ± 0.5 SD of the 60 days before the rolling week', () => {
+    assert.deepEqual(hrvBaseline(series(20), DATE, 'sdnn'), {
+      metric: 'sdnn',
+      mean: 50,
+      sd: 10,
+      cv_percent: 20,
+      lower: 45,
+      upper: 55,
+      readings: 60
+    });
+  });
+
+  test('needs 14 readings', () => {
+    const sparse = series(50).filter((_, i) => i >= 47);
+    assert.equal(sparse.filter(r => r.date <= addDays(DATE, -7)).length, 13);
+    assert.equal(hrvBaseline(sparse, DATE, 'sdnn'), null);
+  });
+});
+
+describe('hrvPosition', () => {
+  test('puts the rolling average in a category at the edges of the normal range', () => {
+    const category = (recent: number) => hrvPosition(series(recent), DATE)?.category;
+    assert.equal(category(45), 'normal');
+    assert.equal(category(44.9), 'low');
+    assert.equal(category(55), 'normal');
+    assert.equal(category(55.1), 'high');
+  });
+
+  test('reports how much the rolling week varied', () => {
+    const varied = series(50).map(r => r.date > addDays(DATE, -7) ? { ...r, value: r.date === DATE ? 56 : 49 } : r);
+    const position = hrvPosition(varied, DATE)!;
+    assert.equal(position.rolling.average, 50);
+    assert.equal(position.rolling.readings, 7);
+    assert.ok(Math.abs(position.rolling.cv_percent! - Math.sqrt(6) / 50 * 100) < 1e-9);
+  });
+
+  test('uses ln-RMSSD when the readings have beat-to-beat intervals', () => {
+    const position = hrvPosition(series(40, value => value * 1.1), DATE)!;
+    assert.equal(position.metric, 'ln_rmssd');
+    assert.ok(Math.abs(position.baseline.mean - (Math.log(44) + Math.log(66)) / 2) < 1e-9);
+    assert.equal(position.category, 'low');
+  });
+
+  test('falls back to SDNN when the rolling week has no beat-to-beat intervals', () => {
+    const position = hrvPosition(series(50).map(r => r.date <= addDays(DATE, -7) ? { ...r, rmssd: r.value } : r), DATE)!;
+    assert.equal(position.metric, 'sdnn');
+  });
+
+  test('is null without a baseline', () => {
+    assert.equal(hrvPosition(series(50).slice(-20), DATE), null);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Personal HRV baseline
+ * HRV is judged against the person's own normal rather than population
+ * cutoffs: the 7-day rolling average against the 60 days before it, with a
+ * normal range of the baseline mean ± 0.5 SD. ln-RMSSD from beat-to-beat
+ * intervals is used when there are enough readings with it, otherwise SDNN,
+ * the metric Apple Health records.
+ */
+import { HRVData } from '../types/responses.js';
+import { addDays } from '../utils/dates.js';
+
+export const ROLLING_DAYS = 7;
+export const BASELINE_DAYS = 60;
+
+/** Readings the baseline needs before categories and insights use it */
+export const MIN_BASELINE_READINGS = 14;
+
+/** Half-width of the normal range, in baseline standard deviations */
+const BAND_SD = 0.5;
+
+export type HRVMetric = 'sdnn' | 'ln_rmssd';
+
+export interface HRVBaseline {
+  metric: HRVMetric;
+  mean: number;
+  sd: number;
+  /** Coefficient of variation - SD as a percentage of the mean */
+  cv_percent: number;
+  lower: number;
+  upper: number;
+  readings: number;
+}
+
+export interface HRVPosition {
+  metric: HRVMetric;
+  /** The 7-day rolling average ending on the day, and how much it varied */
+  rolling: { average: number; cv_percent: number | null; readings: number };
+  baseline: HRVBaseline;
+  category: HRVData['category'];
+}
+
+/** A reading in the given metric; null for ln-RMSSD without beat-to-beat intervals */
+export function metricValue(reading: HRVData, metric: HRVMetric): number | null {
+  if (metric === 'sdnn') return reading.value;
+  return reading.rmssd !== null && reading.rmssd > 0 ? Math.log(reading.rmssd) : null;
+}
+
+/**
+ * Baseline for the rolling window ending on `date`: the 60 days before that
+ * window, so a drop does not drag its own reference down
+ */
+export function hrvBaseline(series: HRVData[], date: string, metric: HRVMetric): HRVBaseline | null {
+  const end = addDays(date, -ROLLING_DAYS);
+  const values = valuesBetween(series, addDays(end, -(BASELINE_DAYS - 1)), end, metric);
+  if (values.length < MIN_BASELINE_READINGS) return null;
+
+  const average = mean(values);
+  const sd = standardDeviation(values, average);
+  return {
+    metric,
+    mean: average,
+    sd,
+    cv_percent: sd / average * 100,
+    lower: average - BAND_SD * sd,
+    upper: average + BAND_SD * sd,
+    readings: values.length
+  };
+}
+
+/**
+ * Where the 7-day rolling average ending on `date` sits against the
+ * baseline - in ln-RMSSD when both have beat-to-beat readings, else in
+ * SDNN. Null until there is a baseline.
+ */
+export function hrvPosition(series: HRVData[], date: string): HRVPosition | null {
+  for (const metric of ['ln_rmssd', 'sdnn'] as const) {
+    const baseline = hrvBaseline(series, date, metric);
+    const recent = valuesBetween(series, addDays(date, -(ROLLING_DAYS - 1)), date, metric);
+    if (!baseline || recent.length === 0) continue;
+
+    const average = mean(recent);
+    return {
+      metric,
+      rolling: {
+        average,
+        cv_percent: recent.length >= 3 ? standardDeviation(recent, average) / average * 100 : null,
+        readings: recent.length
+      },
+      baseline,
+      category: average < baseline.lower ? 'low' : average > baseline.upper ? 'high' : 'normal'
+    };
+  }
+  return null;
+}
+
+/**
+ * Wraps a provider's HRV reader so each day's category comes from the
+ * personal baseline. It reads the extra history the baseline needs; days
+ * without a baseline keep the fixed-cutoff category.
+ */
+export function withPersonalCategories(read: (days: number) => HRVData[]): (days: number) => HRVData[] {
+  return days => {
+    const history = read(days + ROLLING_DAYS - 1 + BASELINE_DAYS);
+    if (history.length === 0) return history;
+
+    const from = addDays(history[history.length - 1].date, -(days - 1));
+    return history
+      .filter(reading => reading.date >= from)
+      .map(reading => ({ ...reading, category: hrvPosition(history, reading.date)?.category ?? reading.category }));
+  };
+}
+
+function valuesBetween(series: HRVData[], from: string, to: string, metric: HRVMetric): number[] {
+  return series
+    .filter(reading => reading.date >= from && reading.date <= to)
+    .map(reading => metricValue(reading, metric))
+    .filter((value): value is number => value !== null);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function standardDeviation(values: number[], average: number): number {
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - average) ** 2, 0) / values.length);
+}
@@ -0,0 +1,83 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockProvider, createRandom, SCENARIO_NAMES } from './mockData.js';
+import { DataProvider } from './provider.js';
+import { addDays } from '../utils/dates.js';
+
+const AS_OF = '2024-03-15';
+
+/** Everything a command can read from a provider */
+function snapshot(provider: DataProvider) {
+  return {
+    hrv: provider.hrv(30),
+    sleep: provider.sleep(30),
+    activity: provider.activity(30),
+    heart: provider.heart(30),
+    workouts: provider.workouts(30),
+    hrRecovery: provider.hrRecovery(30),
+    status: provider.status(),
+    source: provider.describe(['hrv'])
+  };
+}
+
+describe('createRandom', () => {
+  test('repeats the same sequence for the same key', () => {
+    const [a, b] = [createRandom(7, 'hrv', AS_OF), createRandom(7, 'hrv', AS_OF)];
+    const draws = Array.from({ length: 5 }, () => [a(), b()]);
+    assert.ok(draws.every(([x, y]) => x === y));
+    assert.ok(draws.every(([x]) => x >= 0 && x < 1));
+  });
+
+  test('differs between keys', () => {
+    assert.notEqual(createRandom(7, 'hrv', AS_OF)(), createRandom(8, 'hrv', AS_OF)());
+  });
+});
+
+describe('createMockProvider', () => {
+  for (const scenario of SCENARIO_NAMES) {
+    test(`gives identical data for the same seed, as-of day and ${scenario} scenario`, () => {
+      const options = { seed: 42, asOf: AS_OF, scenario };
+      assert.deepEqual(snapshot(createMockProvider(options)), snapshot(createMockProvider(options)));
+    });
+  }
+
+  test('gives different data for another seed', () => {
+    const a = createMockProvider({ seed: 1, asOf: AS_OF }).activity(7);
+    const b = createMockProvider({ seed: 2, asOf: AS_OF }).activity(7);
+    assert.notDeepEqual(a, b);
+  });
+
+  test('ends on the as-of day and pins now() to it', () => {
+    const provider = createMockProvider({ seed: 1, asOf: AS_OF });
+    assert.equal(provider.sleep(7).at(-1)?.date, AS_OF);
+    assert.equal(provider.asOf, AS_OF);
+    assert.equal(provider.now().toISOString(), `${AS_OF}T12:00:00.000Z`);
+    assert.equal(provider.describe(['sleep']).as_of, AS_OF);
+  });
+
+  test('gives each day the same values whatever the window', () => {
+    const provider = createMockProvider({ seed: 3, asOf: AS_OF });
+    assert.deepEqual(provider.activity(30).slice(-7), provider.activity(7));
+    assert.deepEqual(provider.sleep(14).slice(-3), provider.sleep(3));
+  });
+
+  test('until() cuts the data off without changing earlier days', () => {
+    const provider = createMockProvider({ seed: 5, asOf: AS_OF, scenario: 'overtraining-week' });
+    const cut = provider.until(addDays(AS_OF, -3));
+    assert.equal(cut.asOf, addDays(AS_OF, -3));
+    assert.deepEqual(cut.activity(10), provider.activity(13).slice(0, 10));
+  });
+
+  test('a scenario only changes the days it covers', () => {
+    const baseline = createMockProvider({ seed: 9, asOf: AS_OF, scenario: 'baseline' }).sleep(14);
+    const illness = createMockProvider({ seed: 9, asOf: AS_OF, scenario: 'illness' }).sleep(14);
+    assert.deepEqual(illness.slice(0, 11), baseline.slice(0, 11));
+    assert.ok(illness.at(-1)!.duration_hours > baseline.at(-1)!.duration_hours);
+  });
+
+  test('is only reproducible with a seed, including after until()', () => {
+    assert.equal(createMockProvider({ seed: 1 }).reproducible, true);
+    assert.equal(createMockProvider({ asOf: AS_OF }).reproducible, false);
+    assert.equal(createMockProvider({ asOf: AS_OF }).until(addDays(AS_OF, -1)).reproducible, false);
+  });
+});
@@ -1,133 +1,318 @@
 /**
  * Mock health data generators
  * NO REAL PERSONAL DATA - Only example/mock data
+ *
+ * Values are derived from a seeded PRNG keyed by (seed, metric, date), so a
+ * given day always gets the same numbers no matter which window or command
+ * asks for it. Scenarios bend the last few days into a coherent story.
  */
-import { HRVData, SleepData, HealthStatus, AlertThreshold } from '../types/responses.js';
+import { HRVData, SleepData, ActivityData, HeartRateData, HeartRecoveryData, WorkoutData, HealthStatus } from '../types/responses.js';
+import { categorizeHRV, buildStatus } from './health.js';
+import { withPersonalCategories } from './hrvBaseline.js';
+import { DataProvider } from './provider.js';
+import { addDays, daysBetween, toDay } from '../utils/dates.js';
+
+export type ScenarioName = 'baseline' | 'overtraining-week' | 'jet-lag' | 'illness';
+
+export interface MockOptions {
+  seed: number;
+  /** Day the data runs up to and the scenario counts back from */
+  asOf: string;
+  scenario: ScenarioName;
+  /** Cuts the data off earlier without moving the scenario */
+  until?: string;
+  /** The seed was picked at random, so every run generates different data */
+  randomSeed?: boolean;
+}
+
+/** Per-day adjustments a scenario applies on top of normal variation */
+interface DayModifiers {
+  hrv: number;            // ms added
+  sleepHours: number;     // hours added
+  sleepQuality: number;   // score points added
+  bedtimeShift: number;   // minutes later
+  activity: number;       // multiplier for steps and calories
+  exercise: number;       // multiplier for exercise minutes
+  restingHr: number;      // bpm added
+}
+
+const NO_CHANGE: DayModifiers = { hrv: 0, sleepHours: 0, sleepQuality: 0, bedtimeShift: 0, activity: 1, exercise: 1, restingHr: 0 };
+
+/** Scenario modifiers by days before the as-of date (0 = as-of day) */
+export const SCENARIOS: Record<ScenarioName, { description: string; modifiers: (daysAgo: number) => DayModifiers }> = {
+  'baseline': {
+    description: 'Normal day-to-day variation',
+    modifiers: () => NO_CHANGE
+  },
+  'overtraining-week': {
+    description: 'Training load ramps up over the last 7 days while HRV and sleep quality slide',
+    modifiers: daysAgo => {
+      if (daysAgo >= 7) return NO_CHANGE;
+      const ramp = (7 - daysAgo) / 7;
+      return { hrv: -18 * ramp, sleepHours: -0.6 * ramp, sleepQuality: -15 * ramp, bedtimeShift: 0, activity: 1 + 0.6 * ramp, exercise: 1 + 2 * ramp, restingHr: 5 * ramp };
+    }
+  },
+  'jet-lag': {
+    description: 'Eastbound flight 5 days ago - late, short sleep that slowly re-aligns',
+    modifiers: daysAgo => {
+      if (daysAgo >= 5) return NO_CHANGE;
+      const decay = (daysAgo + 1) / 5;
+      return { hrv: -8 * decay, sleepHours: -1.8 * decay, sleepQuality: -14 * decay, bedtimeShift: 300 * decay, activity: daysAgo === 4 ? 0.5 : 0.85, exercise: 0.5, restingHr: 3 * decay };
+    }
+  },
+  'illness': {
+    description: 'Coming down with something over the last 3 days - low HRV, raised resting HR, long sleep, little activity',
+    modifiers: daysAgo => {
+      if (daysAgo >= 3) return NO_CHANGE;
+      const onset = (3 - daysAgo) / 3;
+      return { hrv: -16 * onset, sleepHours: 1.2 * onset, sleepQuality: -10 * onset, bedtimeShift: -30 * onset, activity: 1 - 0.6 * onset, exercise: 1 - 0.9 * onset, restingHr: 9 * onset };
+    }
+  }
+};
+
+export const SCENARIO_NAMES = Object.keys(SCENARIOS) as ScenarioName[];
+
+/**
+ * Picked once per process, so every command of an unseeded batch sees the
+ * same data, as the commands of a single invocation do
+ */
+const PROCESS_SEED = Math.floor(Math.random() * 2 ** 32);
+
+export function defaultMockOptions(): MockOptions {
+  return {
+    seed: PROCESS_SEED,
+    asOf: toDay(new Date()),
+    scenario: 'baseline'
+  };
+}
+
+/** mulberry32 seeded from an FNV-1a hash of the key parts */
+export function createRandom(...key: (string | number)[]): () => number {
+  let state = 2166136261;
+  for (const char of key.join(':')) {
+    state ^= char.charCodeAt(0);
+    state = Math.imul(state, 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Last day with data - the as-of day unless the data is cut off earlier */
+function lastDay(options: MockOptions): string {
+  return options.until !== undefined && options.until < options.asOf ? options.until : options.asOf;
+}
+
+function eachDay<T>(days: number, options: MockOptions, metric: string, build: (date: string, random: () => number, mods: DayModifiers) => T): T[] {
+  const data: T[] = [];
+  const scenario = SCENARIOS[options.scenario];
+  const end = lastDay(options);
 
-export function generateMockHRV(days: number): HRVData[] {
-  const data: HRVData[] = [];
-  const baseHRV = 45; // milliseconds
-  
   for (let i = days - 1; i >= 0; i--) {
-    const date = new Date();
-    date.setDate(date.getDate() - i);
-    
-    // Generate realistic HRV variation
-    const variation = (Math.random() - 0.5) * 20;
-    const value = Math.max(20, Math.min(80, baseHRV + variation));
-    
-    let category: 'low' | 'normal' | 'high';
-    if (value < 30) category = 'low';
-    else if (value > 60) category = 'high';
-    else category = 'normal';
-    
-    data.push({
-      date: date.toISOString().split('T')[0],
-      value: Math.round(value),
-      category
-    });
+    const date = addDays(end, -i);
+    data.push(build(date, createRandom(options.seed, metric, date), scenario.modifiers(daysBetween(date, options.asOf))));
   }
-  
+
   return data;
 }
 
-export function generateMockSleep(days: number): SleepData[] {
-  const data: SleepData[] = [];
-  
-  for (let i = days - 1; i >= 0; i--) {
-    const date = new Date();
-    date.setDate(date.getDate() - i);
-    
+export function generateMockHRV(days: number, options: MockOptions = defaultMockOptions()): HRVData[] {
+  const baseHRV = 45; // milliseconds
+
+  return withPersonalCategories(history => eachDay(history, options, 'hrv', (date, random, mods) => {
+    // Generate realistic HRV variation
+    const variation = (random() - 0.5) * 20;
+    const value = Math.max(20, Math.min(80, baseHRV + variation + mods.hrv));
+    // Watch HRV samples come with beat lists; RMSSD runs a little above SDNN at rest
+    const rmssd = value * (1.1 + (random() - 0.5) * 0.3);
+
+    return {
+      date,
+      value: Math.round(value),
+      rmssd: Math.round(rmssd * 10) / 10,
+      category: categorizeHRV(value)
+    };
+  }))(days);
+}
+
+export function generateMockSleep(days: number, options: MockOptions = defaultMockOptions()): SleepData[] {
+  return eachDay(days, options, 'sleep', (date, random, mods) => {
     // Generate realistic sleep data
-    const duration = 6.5 + (Math.random() * 2.5); // 6.5-9 hours
-    const deepSleep = duration * (0.15 + Math.random() * 0.10); // 15-25% deep
-    const remSleep = duration * (0.20 + Math.random() * 0.10); // 20-30% REM
-    
-    const bedtime = new Date(date);
-    bedtime.setHours(22 + Math.floor(Math.random() * 3), Math.floor(Math.random() * 60));
-    
-    const wakeTime = new Date(bedtime);
-    wakeTime.setTime(wakeTime.getTime() + (duration * 60 * 60 * 1000));
-    
-    const sleepScore = Math.round(60 + (Math.random() * 35)); // 60-95
-    
-    data.push({
-      date: date.toISOString().split('T')[0],
+    const duration = Math.max(3, 6.5 + (random() * 2.5) + mods.sleepHours); // 6.5-9 hours
+    const deepSleep = duration * (0.15 + random() * 0.10); // 15-25% deep
+    const remSleep = duration * (0.20 + random() * 0.10); // 20-30% REM
+
+    // Bedtime between 22:00 and 00:59, as minutes after midnight
+    const bedtime = (22 * 60 + Math.floor(random() * 180) + Math.round(mods.bedtimeShift) + 1440) % 1440;
+
+    const sleepScore = Math.round(Math.max(30, Math.min(100, 60 + (random() * 35) + mods.sleepQuality))); // 60-95
+
+    // 5-25 minutes to fall asleep and 10-40 awake in the night, more when sleep quality suffers
+    const latency = Math.round(5 + random() * 20 - mods.sleepQuality * 0.5);
+    const waso = Math.round(10 + random() * 30 - mods.sleepQuality);
+    const inBed = duration * 60 + latency + waso;
+    const wakeTime = (bedtime + Math.round(inBed)) % 1440;
+    const napHours = random() < 0.15 ? 0.3 + random() * 1.2 : 0;
+
+    return {
+      date,
       duration_hours: Math.round(duration * 10) / 10,
       deep_sleep_hours: Math.round(deepSleep * 10) / 10,
       rem_sleep_hours: Math.round(remSleep * 10) / 10,
+      core_sleep_hours: Math.round((duration - deepSleep - remSleep) * 10) / 10,
       sleep_score: sleepScore,
-      bedtime: bedtime.toTimeString().substring(0, 5),
-      wake_time: wakeTime.toTimeString().substring(0, 5)
+      bedtime: formatClock(bedtime),
+      wake_time: formatClock(wakeTime),
+      time_in_bed_hours: Math.round(inBed / 6) / 10,
+      efficiency: Math.round(duration * 60 / inBed * 100),
+      latency_minutes: latency,
+      waso_minutes: waso,
+      nap_count: napHours > 0 ? 1 : 0,
+      nap_hours: Math.round(napHours * 10) / 10
+    };
+  });
+}
+
+export function generateMockActivity(days: number, options: MockOptions = defaultMockOptions()): ActivityData[] {
+  return eachDay(days, options, 'activity', (date, random, mods) => ({
+    date,
+    steps: Math.round((8500 + Math.floor(random() * 3000)) * mods.activity),
+    active_calories: Math.round((450 + Math.floor(random() * 200)) * mods.activity),
+    exercise_minutes: Math.round((25 + Math.floor(random() * 40)) * mods.exercise),
+    stand_hours: 8 + Math.floor(random() * 6)
+  }));
+}
+
+export function generateMockHeart(days: number, options: MockOptions = defaultMockOptions()): HeartRateData[] {
+  return eachDay(days, options, 'heart', (date, random, mods) => {
+    const resting = 56 + (random() - 0.5) * 6 + mods.restingHr;
+
+    // ~15 waking hours a little above resting, then the day's exercise at 120-170 bpm
+    const hrMinutes: HeartRateData['hr_minutes'] = [];
+    for (let offset = 10; offset <= 45; offset += 5) {
+      hrMinutes.push({ bpm: Math.round(resting + offset), minutes: Math.round(900 * (0.04 + random() * 0.14)) });
+    }
+    const exercise = Math.round((25 + random() * 40) * mods.exercise);
+    for (let bpm = 120; bpm <= 170; bpm += 10) {
+      hrMinutes.push({ bpm, minutes: Math.round(exercise * (bpm >= 160 ? 0.1 : 0.2)) });
+    }
+
+    return {
+      date,
+      resting_hr: Math.round(resting),
+      walking_hr_avg: Math.round(resting + 40 + random() * 10),
+      hr_minutes: hrMinutes.filter(bin => bin.minutes > 0)
+    };
+  });
+}
+
+/** Mock workout types with their pace (km per minute), energy (kcal per minute) and average HR */
+const MOCK_WORKOUTS = {
+  Running: { kmPerMinute: 0.18, kcalPerMinute: 11, avgHr: 148 },
+  Cycling: { kmPerMinute: 0.42, kcalPerMinute: 9, avgHr: 135 },
+  TraditionalStrengthTraining: { kmPerMinute: 0, kcalPerMinute: 6, avgHr: 115 },
+  Yoga: { kmPerMinute: 0, kcalPerMinute: 3.5, avgHr: 95 }
+};
+
+/** A weekly plan by UTC day of week (0 = Sunday); null is a rest day */
+const WEEKLY_PLAN: (keyof typeof MOCK_WORKOUTS | null)[] = [
+  'Yoga', 'Running', null, 'TraditionalStrengthTraining', null, 'Cycling', 'Running'
+];
+
+/**
+ * Workouts follow a weekly plan with the odd session skipped. When exercise
+ * ramps up, sessions get longer and harder and rest days get filled.
+ */
+export function generateMockWorkouts(days: number, options: MockOptions = defaultMockOptions()): WorkoutData[] {
+  return eachDay(days, options, 'workouts', (date, random, mods): WorkoutData | null => {
+    const planned = WEEKLY_PLAN[new Date(`${date}T00:00:00Z`).getUTCDay()] ?? (mods.exercise > 1.3 ? 'Running' : null);
+    if (!planned || random() < 0.1 || mods.exercise < 0.3) return null;
+
+    const kind = MOCK_WORKOUTS[planned];
+    const duration = Math.round((40 + random() * 20) * Math.min(2, mods.exercise));
+    const avgHr = Math.round(kind.avgHr + (random() - 0.5) * 8 + (mods.exercise - 1) * 6);
+    // Some sessions are logged without a watch, so there is no heart rate
+    const hasHr = random() > 0.15;
+    return {
+      date,
+      type: planned,
+      start_time: formatClock(17 * 60 + Math.floor(random() * 120)),
+      duration_minutes: duration,
+      distance_km: kind.kmPerMinute > 0 ? Math.round(duration * kind.kmPerMinute * (0.9 + random() * 0.2) * 100) / 100 : null,
+      energy_kcal: Math.round(duration * kind.kcalPerMinute * (0.9 + random() * 0.2)),
+      avg_hr: hasHr ? avgHr : null,
+      max_hr: hasHr ? Math.round(avgHr + 12 + random() * 15) : null
+    };
+  }).filter((entry): entry is WorkoutData => entry !== null);
+}
+
+/** Recovery for each mock workout with heart rate; it slows when resting HR is raised */
+export function generateMockHRRecovery(days: number, options: MockOptions = defaultMockOptions()): HeartRecoveryData[] {
+  const scenario = SCENARIOS[options.scenario];
+  return generateMockWorkouts(days, options)
+    .filter(workout => workout.max_hr !== null)
+    .map(workout => {
+      const random = createRandom(options.seed, 'hr-recovery', workout.date);
+      const daysAgo = daysBetween(workout.date, options.asOf);
+      const drop = Math.max(4, 26 + (random() - 0.5) * 10 - scenario.modifiers(daysAgo).restingHr * 1.5);
+      const [hours, minutes] = workout.start_time.split(':').map(Number);
+      return {
+        date: workout.date,
+        workout: workout.type,
+        end_time: formatClock((hours * 60 + minutes + workout.duration_minutes) % 1440),
+        end_hr: workout.max_hr! - Math.round(random() * 5),
+        recovery_1_min: Math.round(drop),
+        recovery_2_min: Math.round(drop * 1.6)
+      };
     });
-  }
-  
-  return data;
 }
 
-export function generateMockStatus(): HealthStatus {
-  const today = new Date().toISOString().split('T')[0];
-  const recentHRV = generateMockHRV(7);
-  const recentSleep = generateMockSleep(7);
-  
-  const currentHRV = recentHRV[recentHRV.length - 1];
-  const lastNightSleep = recentSleep[recentSleep.length - 1];
-  const avgSleep = recentSleep.reduce((sum, s) => sum + s.duration_hours, 0) / 7;
-  
-  // Determine trend
-  const hrvTrend = recentHRV.length > 1 ? 
-    (currentHRV.value > recentHRV[recentHRV.length - 2].value ? 'up' : 
-     currentHRV.value < recentHRV[recentHRV.length - 2].value ? 'down' : 'stable') : 'stable';
-  
-  const alerts: string[] = [];
-  if (currentHRV.value < 30) alerts.push('🔴 HRV is low - consider rest day');
-  if (lastNightSleep.duration_hours < 6) alerts.push('😴 Insufficient sleep last night');
-  
+export function generateMockStatus(options: MockOptions = defaultMockOptions()): HealthStatus {
+  const { steps, active_calories, exercise_minutes } = generateMockActivity(1, options)[0];
+
+  return buildStatus(lastDay(options), generateMockHRV(7, options), generateMockSleep(7, options), {
+    steps,
+    active_calories,
+    exercise_minutes
+  });
+}
+
+/**
+ * All generators share one set of options, so every command in an
+ * invocation sees the same data
+ */
+export function createMockProvider(overrides: Partial<MockOptions> = {}): DataProvider {
+  const options: MockOptions = { ...defaultMockOptions(), ...overrides, randomSeed: overrides.randomSeed ?? overrides.seed === undefined };
+  const fixedDay = overrides.asOf !== undefined || overrides.until !== undefined;
+
   return {
-    date: today,
-    hrv: {
-      current: currentHRV.value,
-      trend: hrvTrend,
-      category: currentHRV.category
-    },
-    sleep: {
-      last_night_hours: lastNightSleep.duration_hours,
-      avg_7_day: Math.round(avgSleep * 10) / 10,
-      score: lastNightSleep.sleep_score
-    },
-    activity: {
-      steps: 8500 + Math.floor(Math.random() * 3000),
-      active_calories: 450 + Math.floor(Math.random() * 200),
-      exercise_minutes: 25 + Math.floor(Math.random() * 40)
-    },
-    alerts
+    name: 'mock',
+    describe: () => ({
+      type: 'mock',
+      seed: options.seed,
+      as_of: lastDay(options),
+      scenario: options.scenario
+    }),
+    hrv: days => generateMockHRV(days, options),
+    sleep: days => generateMockSleep(days, options),
+    activity: days => generateMockActivity(days, options),
+    heart: days => generateMockHeart(days, options),
+    workouts: days => generateMockWorkouts(days, options),
+    hrRecovery: days => generateMockHRRecovery(days, options),
+    status: () => generateMockStatus(options),
+    now: () => fixedDay ? new Date(`${lastDay(options)}T12:00:00Z`) : new Date(),
+    asOf: fixedDay ? lastDay(options) : null,
+    reproducible: !options.randomSeed,
+    until: date => createMockProvider({ ...options, until: options.until !== undefined && options.until < date ? options.until : date })
   };
 }
 
-export function generateMockAlerts(): AlertThreshold[] {
-  const status = generateMockStatus();
-  
-  return [
-    {
-      metric: 'HRV',
-      threshold: 30,
-      current: status.hrv.current,
-      status: status.hrv.current < 30 ? 'warning' : 'ok',
-      message: status.hrv.current < 30 ? 'HRV below recovery threshold' : 'HRV within normal range'
-    },
-    {
-      metric: 'Sleep Duration',
-      threshold: 6,
-      current: status.sleep.last_night_hours,
-      status: status.sleep.last_night_hours < 6 ? 'warning' : 'ok',
-      message: status.sleep.last_night_hours < 6 ? 'Insufficient sleep duration' : 'Sleep duration adequate'
-    },
-    {
-      metric: 'Daily Steps',
-      threshold: 5000,
-      current: status.activity.steps,
-      status: status.activity.steps < 5000 ? 'warning' : 'ok',
-      message: status.activity.steps < 5000 ? 'Below recommended daily steps' : 'Meeting step goals'
-    }
-  ];
-}
\ No newline at end of file
+function formatClock(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+}
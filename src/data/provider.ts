@@ -0,0 +1,120 @@
+/**
+ * Data provider abstraction
+ * Commands read health data through a DataProvider so the same implementation
+ * serves the demo (mock), imported data (store) and deterministic tests (fixture)
+ */
+import { Context } from 'effect';
+import { HRVData, SleepData, ActivityData, HeartRateData, HeartRecoveryData, WorkoutData, HealthStatus, DataSourceInfo, ErrorResponse } from '../types/responses.js';
+import { error } from '../utils/responses.js';
+import { action, COMMON_ACTIONS } from '../utils/actions.js';
+import { openStore } from './store.js';
+import { isValidDay } from '../utils/dates.js';
+import { createMockProvider, ScenarioName } from './mockData.js';
+import { createStoreProvider } from './storeData.js';
+import { loadFixtureProvider } from './fixture.js';
+
+export type Metric = 'hrv' | 'sleep' | 'activity' | 'heart' | 'workouts';
+
+export type SourceName = 'mock' | 'store' | 'fixture';
+
+export interface DataProvider {
+  readonly name: SourceName;
+  /** Source details for the response envelope, scoped to the metrics a command used */
+  describe(metrics: Metric[]): DataSourceInfo;
+  hrv(days: number): HRVData[];
+  sleep(days: number): SleepData[];
+  activity(days: number): ActivityData[];
+  heart(days: number): HeartRateData[];
+  workouts(days: number): WorkoutData[];
+  /** Heart rate recovery after each workout that has heart rate samples around its end */
+  hrRecovery(days: number): HeartRecoveryData[];
+  /** Today's overview, or null when there is not enough data to build one */
+  status(): HealthStatus | null;
+  /** Reference time for timestamps in responses */
+  now(): Date;
+  /** The day the data is cut off at (--as-of or --to), or null for everything up to today */
+  readonly asOf: string | null;
+  /** Whether another run sees the same data - false for mock data without --seed */
+  readonly reproducible: boolean;
+  /** The same source as it was on `date`: nothing after it, and now() on that day */
+  until(date: string): DataProvider;
+}
+
+export interface SourceOptions {
+  source?: SourceName;
+  fixture?: string;
+  seed?: number;
+  asOf?: string;
+  scenario?: ScenarioName;
+}
+
+export class DataProviderService extends Context.Tag('health-cli/DataProvider')<DataProviderService, DataProvider>() {}
+
+export const SOURCE_NAMES: SourceName[] = ['mock', 'store', 'fixture'];
+
+/**
+ * Resolves the global data source options. Without --source the local store
+ * is used when one exists, otherwise mock data. Mock-only options (--seed,
+ * --scenario) imply the mock source. --as-of works with every source: mock
+ * data is generated up to it, and store and fixture data is cut off after it.
+ */
+export function selectProvider(options: SourceOptions): DataProvider | ErrorResponse {
+  const { source, fixture: fixturePath } = options;
+  const command = `--source ${source ?? 'auto'}`;
+  const mockOptions = {
+    ...(options.seed !== undefined && { seed: options.seed }),
+    ...(options.scenario !== undefined && { scenario: options.scenario })
+  };
+  const asOf = options.asOf !== undefined ? { asOf: options.asOf } : {};
+
+  if (options.asOf !== undefined && !isValidDay(options.asOf)) {
+    return error(
+      `--as-of ${options.asOf}`,
+      `Invalid --as-of date: ${options.asOf}`,
+      'INVALID_DATE',
+      'Use a calendar date in YYYY-MM-DD format',
+      [
+        action(['health', '--as-of', '{date}', 'status'], 'Reproduce the overview for a fixed date', {
+          rel: 'remediate',
+          params: [{ name: 'date', type: 'date', required: true, default: '2024-01-15', description: 'YYYY-MM-DD' }]
+        })
+      ]
+    );
+  }
+
+  if (source === 'fixture' || (source === undefined && fixturePath)) {
+    if (!fixturePath) {
+      return error(
+        command,
+        'The fixture source needs a fixture file',
+        'MISSING_FIXTURE',
+        'Pass --fixture <file> together with --source fixture',
+        [
+          COMMON_ACTIONS.MOCK
+        ]
+      );
+    }
+    const provider = loadFixtureProvider(fixturePath);
+    return 'ok' in provider || options.asOf === undefined ? provider : provider.until(options.asOf);
+  }
+
+  if (source === 'mock' || Object.keys(mockOptions).length > 0) return createMockProvider({ ...mockOptions, ...asOf });
+
+  const store = openStore();
+  if (store) return options.asOf === undefined ? createStoreProvider(store) : createStoreProvider(store).until(options.asOf);
+
+  if (source === 'store') {
+    return error(
+      command,
+      'No local store found - nothing has been imported yet',
+      'NO_STORE',
+      'Import an Apple Health export first, or choose another --source',
+      [
+        COMMON_ACTIONS.IMPORT,
+        COMMON_ACTIONS.MOCK
+      ]
+    );
+  }
+
+  return createMockProvider(asOf);
+}
@@ -0,0 +1,63 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { computeReadiness } from './readiness.js';
+import { loadFixtureProvider } from './fixture.js';
+import { createMockProvider } from './mockData.js';
+import { DataProvider } from './provider.js';
+import { resolveConfig } from '../utils/config.js';
+import { addDays } from '../utils/dates.js';
+
+const CONFIG = resolveConfig({});
+
+const night = (date: string, hours: number) =>
+  ({ date, duration_hours: hours, deep_sleep_hours: 1.2, rem_sleep_hours: 1.6, sleep_score: 80, bedtime: '23:00', wake_time: '07:00' });
+
+const days = (end: string, count: number) => Array.from({ length: count }, (_, i) => addDays(end, i - count + 1));
+
+describe('computeReadiness', () => {
+  let dir: string;
+
+  before(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-readiness-')); });
+  after(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  const provider = (fixture: object): DataProvider => {
+    const file = path.join(dir, 'fixture.json');
+    fs.writeFileSync(file, JSON.stringify(fixture));
+    const loaded = loadFixtureProvider(file);
+    assert.ok(!('ok' in loaded));
+    return loaded;
+  };
+
+  test('scores every factor on a day with full data', () => {
+    const readiness = computeReadiness(createMockProvider({ seed: 4, asOf: '2024-03-01' }), CONFIG)!;
+    assert.equal(readiness.date, '2024-03-01');
+    assert.ok(readiness.contributors.filter(c => c.factor !== 'prior_day_load').every(c => c.available));
+  });
+
+  test('leaves out readings from before the day before', () => {
+    const readiness = computeReadiness(provider({
+      hrv: days('2024-01-20', 40).map(date => ({ date, value: 45 })),
+      sleep: days('2024-01-25', 7).map(date => night(date, 7.5))
+    }), CONFIG)!;
+
+    const hrv = readiness.contributors.find(c => c.factor === 'hrv')!;
+    assert.equal(readiness.date, '2024-01-25');
+    assert.equal(hrv.available, false);
+    assert.equal(hrv.points, 0);
+    assert.match(hrv.detail, /2024-01-20, too long before 2024-01-25/);
+    assert.equal(readiness.contributors.find(c => c.factor === 'sleep_duration')!.available, true);
+    // Only the sleep factors (12 + 5 of 50) have data
+    assert.equal(readiness.coverage, 0.34);
+  });
+
+  test('keeps a reading from the day before', () => {
+    const readiness = computeReadiness(provider({
+      hrv: days('2024-01-24', 40).map(date => ({ date, value: 45 })),
+      sleep: days('2024-01-25', 7).map(date => night(date, 7.5))
+    }), CONFIG)!;
+    assert.equal(readiness.contributors.find(c => c.factor === 'hrv')!.available, true);
+  });
+});
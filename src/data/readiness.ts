@@ -0,0 +1,260 @@
+/**
+ * Readiness
+ * One 0-100 score for how ready the body is to train today. The score
+ * starts at a neutral 50 and each factor adds or takes away points: HRV and
+ * resting HR against their personal baselines, last night's sleep against
+ * the sleep need, bedtime and wake time consistency, and the previous day's
+ * training load against the chronic load.
+ */
+import { HRVData, SleepData } from '../types/responses.js';
+import { HealthConfig } from '../utils/config.js';
+import { addDays } from '../utils/dates.js';
+import { DataProvider } from './provider.js';
+import { calculateSleepConsistency } from './health.js';
+import { loadTrainingHistory, MIN_CHRONIC_LOAD } from './trainingLoad.js';
+import { BASELINE_DAYS as HRV_BASELINE_DAYS, hrvBaseline, metricValue, MIN_BASELINE_READINGS, ROLLING_DAYS } from './hrvBaseline.js';
+
+export type ReadinessFactor = 'hrv' | 'resting_hr' | 'sleep_duration' | 'sleep_consistency' | 'prior_day_load';
+
+export type ReadinessLevel = 'high' | 'moderate' | 'low' | 'poor';
+
+/** Most points each factor can add or take away; they sum to 50, so the score spans 0-100 */
+export const READINESS_WEIGHTS: Record<ReadinessFactor, number> = {
+  hrv: 15,
+  resting_hr: 10,
+  sleep_duration: 12,
+  sleep_consistency: 5,
+  prior_day_load: 8
+};
+
+export const READINESS_LABELS: Record<ReadinessFactor, string> = {
+  hrv: 'HRV',
+  resting_hr: 'Resting HR',
+  sleep_duration: 'Sleep duration',
+  sleep_consistency: 'Sleep consistency',
+  prior_day_load: 'Prior-day training load'
+};
+
+const UNITS: Record<ReadinessFactor, string> = {
+  hrv: 'ms',
+  resting_hr: 'bpm',
+  sleep_duration: 'hours',
+  sleep_consistency: 'score',
+  prior_day_load: 'TRIMP'
+};
+
+/** Lowest score of each level, highest first */
+const LEVELS: { level: ReadinessLevel; min: number; recommendation: string }[] = [
+  { level: 'high', min: 70, recommendation: 'Ready for a hard session' },
+  { level: 'moderate', min: 50, recommendation: 'Train as planned at moderate intensity' },
+  { level: 'low', min: 30, recommendation: 'Keep training easy and prioritize recovery' },
+  { level: 'poor', min: 0, recommendation: 'Take a rest day' }
+];
+
+const NEUTRAL_SCORE = 50;
+
+/** Days before the latest reading that make up the resting HR baseline */
+const BASELINE_DAYS = 30;
+
+/** Nightly sleep need, as for sleep debt */
+const SLEEP_NEED_HOURS = 8;
+
+/** Nights of bedtimes and wake times behind the consistency factor */
+const CONSISTENCY_NIGHTS = 7;
+
+export interface ReadinessContributor {
+  factor: ReadinessFactor;
+  /** The day's value in `unit`; null without data */
+  value: number | null;
+  /** What the value is judged against - a baseline, the sleep need or the chronic load */
+  reference: number | null;
+  unit: string;
+  /** Points added to (positive) or taken from (negative) the neutral 50 */
+  points: number;
+  available: boolean;
+  detail: string;
+}
+
+export interface Readiness {
+  date: string;
+  score: number;
+  /** Share of the factor weights that had data, 0-1 - missing factors pull the score toward 50 */
+  coverage: number;
+  level: ReadinessLevel;
+  recommendation: string;
+  contributors: ReadinessContributor[];
+}
+
+/** A factor's reading, with a signal from -1 (worst) to 1 (best) */
+interface FactorReading {
+  value: number;
+  reference: number | null;
+  unit: string;
+  signal: number;
+  detail: string;
+}
+
+/**
+ * Readiness for the latest day with HRV or sleep data. A factor without
+ * data, or whose latest reading is older than the day before, scores
+ * nothing, so sparse data keeps the score near neutral rather than letting
+ * one factor swing it. Null when no factor has data.
+ */
+export function computeReadiness(provider: DataProvider, config: HealthConfig): Readiness | null {
+  const hrv = provider.hrv(HRV_BASELINE_DAYS + ROLLING_DAYS);
+  const sleep = provider.sleep(CONSISTENCY_NIGHTS);
+  const date = [hrv[hrv.length - 1]?.date, sleep[sleep.length - 1]?.date].filter((d): d is string => d !== undefined).sort().pop();
+  if (!date) return null;
+
+  const readings: Record<ReadinessFactor, FactorReading | string> = {
+    hrv: hrvReading(hrv, date),
+    resting_hr: restingHrReading(provider, config, date),
+    sleep_duration: sleepDurationReading(sleep, date),
+    sleep_consistency: sleepConsistencyReading(sleep.filter(night => night.date > addDays(date, -CONSISTENCY_NIGHTS))),
+    prior_day_load: priorDayLoadReading(provider, config, date)
+  };
+
+  const factors = Object.keys(READINESS_WEIGHTS) as ReadinessFactor[];
+  if (factors.every(factor => typeof readings[factor] === 'string')) return null;
+
+  const contributors = factors.map((factor): ReadinessContributor => {
+    const reading = readings[factor];
+    if (typeof reading === 'string') {
+      return { factor, value: null, reference: null, unit: UNITS[factor], points: 0, available: false, detail: reading };
+    }
+    return {
+      factor,
+      value: reading.value,
+      reference: reading.reference,
+      unit: reading.unit,
+      points: round(reading.signal * READINESS_WEIGHTS[factor]),
+      available: true,
+      detail: reading.detail
+    };
+  });
+
+  const score = Math.round(Math.min(100, Math.max(0, NEUTRAL_SCORE + contributors.reduce((total, c) => total + c.points, 0))));
+  const weight = (list: ReadinessContributor[]) => list.reduce((total, c) => total + READINESS_WEIGHTS[c.factor], 0);
+  const coverage = round(weight(contributors.filter(c => c.available)) / weight(contributors), 2);
+  const { level, recommendation } = LEVELS.find(band => score >= band.min)!;
+  return { date, score, coverage, level, recommendation, contributors };
+}
+
+/**
+ * Latest HRV in standard deviations from the personal baseline (see
+ * hrvBaseline.ts), in ln-RMSSD when the reading has beat-to-beat intervals;
+ * two SDs either way is the full signal. The SD is floored at 5% of the
+ * mean so a very steady baseline does not turn small changes into big swings.
+ */
+function hrvReading(series: HRVData[], date: string): FactorReading | string {
+  const latest = series[series.length - 1];
+  if (!latest) return 'No HRV readings';
+  if (isStale(latest.date, date)) return `Latest HRV reading is from ${latest.date}, too long before ${date}`;
+
+  for (const metric of ['ln_rmssd', 'sdnn'] as const) {
+    const value = metricValue(latest, metric);
+    const baseline = hrvBaseline(series, latest.date, metric);
+    if (value === null || !baseline) continue;
+
+    const z = (value - baseline.mean) / Math.max(baseline.sd, Math.abs(baseline.mean) * 0.05);
+    const sdnn = metric === 'sdnn';
+    const digits = sdnn ? 1 : 2;
+    return {
+      value: round(value, digits),
+      reference: round(baseline.mean, digits),
+      unit: sdnn ? 'ms' : 'ln ms',
+      signal: clamp(z / 2, -1, 1),
+      detail: sdnn
+        ? `SDNN ${round(value, 1)} ms against a baseline of ${round(baseline.mean, 1)} ms (${z >= 0 ? '+' : ''}${round(z, 1)} SD)`
+        : `ln-RMSSD ${round(value, 2)} against a baseline of ${round(baseline.mean, 2)} (${z >= 0 ? '+' : ''}${round(z, 1)} SD)`
+    };
+  }
+  return `Building an HRV baseline - it needs ${MIN_BASELINE_READINGS} readings in the ${HRV_BASELINE_DAYS} days before the last ${ROLLING_DAYS}`;
+}
+
+/** Latest resting HR against the 30 days before it; a drift of the rhr_elevated warning threshold is the full signal */
+function restingHrReading(provider: DataProvider, config: HealthConfig, date: string): FactorReading | string {
+  const readings = provider.heart(BASELINE_DAYS + 1).filter(d => d.resting_hr !== null);
+  const latest = readings[readings.length - 1];
+  if (!latest) return 'No resting heart rate readings';
+  if (isStale(latest.date, date)) return `Latest resting heart rate is from ${latest.date}, too long before ${date}`;
+  const baseline = readings.filter(d => d.date < latest.date && d.date >= addDays(latest.date, -BASELINE_DAYS)).map(d => d.resting_hr!);
+  if (baseline.length < BASELINE_DAYS / 2) return `Building a resting HR baseline - it needs ${BASELINE_DAYS / 2} days of readings`;
+
+  const average = baseline.reduce((sum, v) => sum + v, 0) / baseline.length;
+  const drift = latest.resting_hr! - average;
+  const threshold = config.alerts.thresholds.rhr_elevated.warning;
+  return {
+    value: latest.resting_hr!,
+    reference: round(average),
+    unit: 'bpm',
+    signal: clamp(-drift / threshold, -1, 1),
+    detail: `${latest.resting_hr} bpm, ${round(Math.abs(drift))} bpm ${drift >= 0 ? 'above' : 'below'} the ${BASELINE_DAYS}-day baseline`
+  };
+}
+
+/** Neutral at 90% of the sleep need, full credit from 105%, full penalty at 75% or less */
+function sleepDurationReading(nights: SleepData[], date: string): FactorReading | string {
+  const latest = nights[nights.length - 1];
+  if (!latest) return 'No sleep recorded';
+  if (isStale(latest.date, date)) return `Latest sleep is from ${latest.date}, too long before ${date}`;
+  const lastNight = latest.duration_hours;
+  const ratio = lastNight / SLEEP_NEED_HOURS;
+  return {
+    value: lastNight,
+    reference: SLEEP_NEED_HOURS,
+    unit: 'hours',
+    signal: clamp((ratio - 0.9) / 0.15, -1, 1),
+    detail: `${lastNight}h last night against a need of ${SLEEP_NEED_HOURS}h`
+  };
+}
+
+/** Consistency score over the week up to the day: neutral at 70, full credit at 100, full penalty at 40 or less */
+function sleepConsistencyReading(nights: SleepData[]): FactorReading | string {
+  if (nights.length < 3) return 'Needs at least 3 nights of sleep';
+  const consistency = calculateSleepConsistency(nights);
+  return {
+    value: consistency.consistency_score,
+    reference: 70,
+    unit: 'score',
+    signal: clamp((consistency.consistency_score - 70) / 30, -1, 1),
+    detail: `Bedtime varies by ${consistency.bedtime_variance} min and wake time by ${consistency.wake_time_variance} min over ${nights.length} nights`
+  };
+}
+
+/**
+ * The day before's load as a multiple of the chronic load: a rest day adds
+ * half the weight, a typical day is neutral and three times the usual load
+ * takes the full weight
+ */
+function priorDayLoadReading(provider: DataProvider, config: HealthConfig, date: string): FactorReading | string {
+  const history = loadTrainingHistory(provider, 7, config.heart);
+  if (!history) return 'No workouts recorded';
+  const priorDay = history.daily.find(d => d.date === addDays(date, -1));
+  if (!priorDay) return `No training load for ${addDays(date, -1)}`;
+
+  const ratio = priorDay.load / Math.max(priorDay.ctl, MIN_CHRONIC_LOAD);
+  return {
+    value: priorDay.load,
+    reference: priorDay.ctl,
+    unit: 'TRIMP',
+    signal: clamp((1 - ratio) / 2, -1, 0.5),
+    detail: priorDay.load === 0
+      ? 'Rest day yesterday'
+      : `Load ${priorDay.load} yesterday, ${round(ratio)}x the chronic load of ${priorDay.ctl}`
+  };
+}
+
+/** A reading from before the day before says little about the day */
+function isStale(day: string, date: string): boolean {
+  return day < addDays(date, -1);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number, digits: number = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
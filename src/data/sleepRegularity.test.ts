@@ -0,0 +1,82 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateSleepRegularity, sleepRegularityIndex } from './sleepRegularity.js';
+import { SleepData } from '../types/responses.js';
+import { addDays } from '../utils/dates.js';
+
+const night = (date: string, bedtime: string, wake_time: string): SleepData => ({
+  date,
+  duration_hours: 8,
+  deep_sleep_hours: 1.2,
+  rem_sleep_hours: 1.6,
+  core_sleep_hours: null,
+  sleep_score: 80,
+  bedtime,
+  wake_time,
+  time_in_bed_hours: null,
+  efficiency: null,
+  latency_minutes: null,
+  waso_minutes: null,
+  nap_count: 0,
+  nap_hours: 0
+});
+
+// 2024-01-01 is a Monday; nights waking on the 6th and 7th follow free evenings
+const week = (work: [string, string], free: [string, string]) =>
+  Array.from({ length: 7 }, (_, i) => {
+    const date = addDays('2024-01-01', i);
+    return night(date, ...(i >= 5 ? free : work));
+  });
+
+describe('sleepRegularityIndex', () => {
+  test('is 100 for the same schedule every night', () => {
+    const nights = ['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04'].map(date => night(date, '23:00', '07:00'));
+    assert.equal(sleepRegularityIndex(nights), 100);
+  });
+
+  test('drops as the schedule shifts', () => {
+    const nights = [['23:00', '07:00'], ['01:00', '09:00'], ['23:00', '07:00'], ['01:00', '09:00']]
+      .map(([bedtime, wake], i) => night(addDays('2024-01-01', i), bedtime, wake));
+    // Each pair differs for 4 of 24 hours: 200 * 20/24 - 100
+    assert.equal(sleepRegularityIndex(nights), 67);
+  });
+
+  test('needs 3 pairs of consecutive nights', () => {
+    const consecutive = ['2024-01-01', '2024-01-02', '2024-01-03'].map(date => night(date, '23:00', '07:00'));
+    assert.equal(sleepRegularityIndex(consecutive), null);
+    const gaps = ['2024-01-01', '2024-01-02', '2024-01-04', '2024-01-05', '2024-01-07'].map(date => night(date, '23:00', '07:00'));
+    assert.equal(sleepRegularityIndex(gaps), null);
+  });
+});
+
+describe('calculateSleepRegularity', () => {
+  test('averages midpoints either side of midnight on the clock', () => {
+    const regularity = calculateSleepRegularity([night('2024-01-01', '21:30', '01:30'), night('2024-01-02', '22:30', '02:30')]);
+    assert.equal(regularity.midpoint, '00:00');
+    assert.equal(regularity.social_jet_lag_minutes, null);
+    assert.equal(regularity.chronotype, null);
+  });
+
+  test('gives social jet lag a positive sign when free days run later', () => {
+    const later = calculateSleepRegularity(week(['23:00', '07:00'], ['01:00', '09:00']));
+    assert.equal(later.workday_midpoint, '03:00');
+    assert.equal(later.free_day_midpoint, '05:00');
+    assert.equal(later.social_jet_lag_minutes, 120);
+
+    const earlier = calculateSleepRegularity(week(['00:00', '08:00'], ['23:00', '07:00']));
+    assert.equal(earlier.social_jet_lag_minutes, -60);
+  });
+
+  test('corrects the free-day midpoint for catch-up sleep', () => {
+    // 7 hours on workdays and 10 on free days: half of the 2.1 hours above the weekly average comes off
+    const { chronotype } = calculateSleepRegularity(week(['23:00', '06:00'], ['00:00', '10:00']));
+    assert.deepEqual(chronotype, { corrected_free_day_midpoint: '03:56', category: 'intermediate' });
+  });
+
+  test('puts the corrected midpoint in a chronotype band', () => {
+    const category = (free: [string, string]) => calculateSleepRegularity(week(free, free)).chronotype?.category;
+    assert.equal(category(['22:00', '06:00']), 'early');
+    assert.equal(category(['00:00', '08:00']), 'intermediate');
+    assert.equal(category(['01:00', '09:00']), 'late');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Sleep regularity
+ * Clock-time statistics for nights, treated as a circle so nights either
+ * side of midnight average correctly. Each night is the span from bedtime to
+ * wake time. Nights waking on a Saturday or Sunday follow a free evening and
+ * count as free days for social jet lag and chronotype, as in the Munich
+ * ChronoType Questionnaire.
+ */
+import { SleepData } from '../types/responses.js';
+import { addDays, circularMeanMinutes, clockDifference, minutesToTime, timeToMinutes } from '../utils/dates.js';
+
+/** Pairs of consecutive nights the Sleep Regularity Index needs */
+export const MIN_SRI_PAIRS = 3;
+
+/** Nights on both work and free days that social jet lag and chronotype need */
+const MIN_NIGHTS_PER_GROUP = 2;
+
+/** Latest corrected mid-sleep on free days (minutes after midnight) for each chronotype, earliest first */
+const CHRONOTYPES: { chronotype: Chronotype; before: number }[] = [
+  { chronotype: 'early', before: 3.5 * 60 },
+  { chronotype: 'intermediate', before: 5 * 60 },
+  { chronotype: 'late', before: Infinity }
+];
+
+export type Chronotype = 'early' | 'intermediate' | 'late';
+
+export interface SleepRegularity {
+  /** Circular mean of each night's midpoint */
+  midpoint: string;
+  workday_midpoint: string | null;
+  free_day_midpoint: string | null;
+  /** How much later (positive) or earlier free-day midpoints are than workday ones */
+  social_jet_lag_minutes: number | null;
+  chronotype: {
+    /** Free-day midpoint corrected for catching up on sleep (MSFsc) */
+    corrected_free_day_midpoint: string;
+    category: Chronotype;
+  } | null;
+}
+
+interface Night {
+  date: string;
+  /** Bedtime and wake time in minutes from midnight of the wake date; bedtime is negative when it falls the evening before */
+  onset: number;
+  wake: number;
+}
+
+function toNight(sleep: SleepData): Night {
+  const wake = timeToMinutes(sleep.wake_time);
+  const span = (wake - timeToMinutes(sleep.bedtime) + 1440) % 1440;
+  return { date: sleep.date, onset: wake - span, wake };
+}
+
+function midpoint(night: Night): number {
+  return (night.onset + night.wake) / 2;
+}
+
+function isFreeDay(date: string): boolean {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+}
+
+/**
+ * Sleep Regularity Index: the chance of being in the same state (asleep or
+ * awake) at any two moments 24 hours apart, scaled to -100..100 - 100 is the
+ * same schedule every day. Compares the noon-to-noon windows around
+ * consecutive wake dates; null with fewer than 3 such pairs.
+ */
+export function sleepRegularityIndex(data: SleepData[]): number | null {
+  const nights = new Map(data.map(sleep => [sleep.date, toNight(sleep)]));
+  const agreement: number[] = [];
+
+  for (const [date, night] of nights) {
+    const next = nights.get(addDays(date, 1));
+    if (!next) continue;
+    const [a, b] = [clipToWindow(night), clipToWindow(next)];
+    const overlap = Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+    const differing = (a.end - a.start) + (b.end - b.start) - 2 * overlap;
+    agreement.push(1 - differing / 1440);
+  }
+
+  if (agreement.length < MIN_SRI_PAIRS) return null;
+  return Math.round(200 * agreement.reduce((sum, v) => sum + v, 0) / agreement.length - 100);
+}
+
+/** The asleep span inside the window from noon before the wake date to noon on it */
+function clipToWindow(night: Night): { start: number; end: number } {
+  const start = Math.max(-720, night.onset);
+  return { start, end: Math.max(start, Math.min(720, night.wake)) };
+}
+
+/** Midpoints, social jet lag and chronotype over the nights */
+export function calculateSleepRegularity(data: SleepData[]): SleepRegularity {
+  const nights = data.map(toNight);
+  const free = nights.filter(night => isFreeDay(night.date));
+  const work = nights.filter(night => !isFreeDay(night.date));
+  const grouped = free.length >= MIN_NIGHTS_PER_GROUP && work.length >= MIN_NIGHTS_PER_GROUP;
+
+  const meanMidpoint = (group: Night[]) => circularMeanMinutes(group.map(night => (midpoint(night) + 1440) % 1440));
+  const workMidpoint = grouped ? meanMidpoint(work) : null;
+  const freeMidpoint = grouped ? meanMidpoint(free) : null;
+
+  return {
+    midpoint: minutesToTime(meanMidpoint(nights)),
+    workday_midpoint: workMidpoint === null ? null : minutesToTime(workMidpoint),
+    free_day_midpoint: freeMidpoint === null ? null : minutesToTime(freeMidpoint),
+    social_jet_lag_minutes: workMidpoint === null || freeMidpoint === null ? null : Math.round(clockDifference(workMidpoint, freeMidpoint)),
+    chronotype: freeMidpoint === null ? null : chronotype(freeMidpoint, work, free)
+  };
+}
+
+/**
+ * MSFsc: when free-day sleep runs longer than the weekly average, half the
+ * extra is catch-up sleep and comes off the free-day midpoint
+ */
+function chronotype(freeMidpoint: number, work: Night[], free: Night[]): NonNullable<SleepRegularity['chronotype']> {
+  const duration = (group: Night[]) => group.reduce((sum, night) => sum + night.wake - night.onset, 0) / group.length;
+  const [workDuration, freeDuration] = [duration(work), duration(free)];
+  const weekly = (5 * workDuration + 2 * freeDuration) / 7;
+  const corrected = freeDuration > workDuration ? freeMidpoint - (freeDuration - weekly) / 2 : freeMidpoint;
+
+  // Minutes after midnight, with midpoints before midnight negative
+  const afterMidnight = clockDifference(0, corrected);
+  return {
+    corrected_free_day_midpoint: minutesToTime(corrected),
+    category: CHRONOTYPES.find(band => afterMidnight < band.before)!.chronotype
+  };
+}
@@ -0,0 +1,96 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSleepSessions, SleepSample } from './sleepSessions.js';
+
+const VALUES = {
+  in_bed: 'HKCategoryValueSleepAnalysisInBed',
+  awake: 'HKCategoryValueSleepAnalysisAwake',
+  asleep: 'HKCategoryValueSleepAnalysisAsleepUnspecified',
+  core: 'HKCategoryValueSleepAnalysisAsleepCore',
+  deep: 'HKCategoryValueSleepAnalysisAsleepDeep',
+  rem: 'HKCategoryValueSleepAnalysisAsleepREM'
+};
+
+/** A sample between two "YYYY-MM-DD HH:MM" times in UTC */
+const sample = (stage: keyof typeof VALUES, start: string, end: string): SleepSample =>
+  ({ start: `${start}:00 +0000`, end: `${end}:00 +0000`, value: VALUES[stage] });
+
+describe('buildSleepSessions', () => {
+  test('measures latency, wake after sleep onset and efficiency on a night from two sources', () => {
+    const [night] = buildSleepSessions([
+      // iPhone: in bed and plain asleep
+      sample('in_bed', '2024-01-01 22:30', '2024-01-02 06:30'),
+      sample('asleep', '2024-01-02 02:00', '2024-01-02 04:00'),
+      // Watch: stages, an awakening and a gap with only the in-bed record
+      sample('core', '2024-01-01 23:00', '2024-01-02 01:00'),
+      sample('deep', '2024-01-02 01:00', '2024-01-02 02:00'),
+      sample('awake', '2024-01-02 02:00', '2024-01-02 02:20'),
+      sample('rem', '2024-01-02 03:00', '2024-01-02 04:00'),
+      sample('core', '2024-01-02 04:30', '2024-01-02 06:00')
+    ]);
+
+    assert.equal(night.wake_date, '2024-01-02');
+    assert.equal(night.start, '2024-01-01 22:30:00 +0000');
+    assert.equal(night.final_wake, '2024-01-02 06:00:00 +0000');
+    assert.equal(night.in_bed_minutes, 480);
+    assert.equal(night.asleep_minutes, 370);
+    assert.equal(night.latency_minutes, 30);
+    // 20 minutes awake and 30 with only the in-bed record
+    assert.equal(night.waso_minutes, 50);
+    assert.equal(night.efficiency, 77);
+    assert.equal(night.staged, true);
+    assert.equal(night.nap, false);
+  });
+
+  test('resolves overlapping samples by stage priority', () => {
+    const [night] = buildSleepSessions([
+      sample('in_bed', '2024-01-01 23:30', '2024-01-02 03:30'),
+      sample('asleep', '2024-01-02 00:00', '2024-01-02 03:00'),
+      sample('deep', '2024-01-02 01:00', '2024-01-02 02:00'),
+      sample('awake', '2024-01-02 02:30', '2024-01-02 02:45')
+    ]);
+
+    // Deep and awake take their time from plain asleep, which takes its time from in bed
+    assert.deepEqual(night.stages, { awake: 15, asleep: 105, core: 0, deep: 60, rem: 0 });
+    assert.equal(night.asleep_minutes, 165);
+    assert.equal(night.latency_minutes, 30);
+  });
+
+  test('starts a new session after a gap of more than 60 minutes', () => {
+    const split = buildSleepSessions([
+      sample('asleep', '2024-01-01 23:00', '2024-01-02 03:00'),
+      sample('asleep', '2024-01-02 04:01', '2024-01-02 07:00')
+    ]);
+    assert.deepEqual(split.map(session => session.asleep_minutes), [240, 179]);
+
+    const joined = buildSleepSessions([
+      sample('asleep', '2024-01-01 23:00', '2024-01-02 03:00'),
+      sample('asleep', '2024-01-02 04:00', '2024-01-02 07:00')
+    ]);
+    assert.equal(joined.length, 1);
+    assert.equal(joined[0].waso_minutes, 60);
+    // Starts asleep with no in-bed record, so there is no latency to measure
+    assert.equal(joined[0].latency_minutes, null);
+  });
+
+  test('takes the longest session of at least 3 hours as main sleep and the rest as naps', () => {
+    const sessions = buildSleepSessions([
+      sample('asleep', '2024-01-01 23:30', '2024-01-02 03:00'),
+      sample('asleep', '2024-01-02 05:00', '2024-01-02 09:30'),
+      sample('asleep', '2024-01-02 14:00', '2024-01-02 14:40'),
+      // The only session ending on the 3rd is too short to be main sleep
+      sample('asleep', '2024-01-03 13:00', '2024-01-03 15:00')
+    ]);
+
+    assert.deepEqual(sessions.map(session => [session.wake_date, session.asleep_minutes, session.nap]), [
+      ['2024-01-02', 210, true],
+      ['2024-01-02', 270, false],
+      ['2024-01-02', 40, true],
+      ['2024-01-03', 120, true]
+    ]);
+  });
+
+  test('drops sessions without any sleep', () => {
+    assert.deepEqual(buildSleepSessions([sample('in_bed', '2024-01-01 22:00', '2024-01-02 06:00')]), []);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Sleep sessions
+ * Rebuilds nights from Apple Health Sleep Analysis samples. Watch, phone and
+ * third-party apps all write samples that overlap, so the timeline is cut at
+ * every sample boundary and each slice takes the most specific stage any
+ * source recorded for it. Slices less than an hour apart form one session;
+ * each wake date's longest session of 3 hours or more is the main sleep and
+ * every other session is a nap.
+ */
+import { parseAppleDate } from '../utils/dates.js';
+
+export type SleepStage = 'in_bed' | 'awake' | 'asleep' | 'core' | 'deep' | 'rem';
+
+const STAGE_VALUES: Record<string, SleepStage> = {
+  HKCategoryValueSleepAnalysisInBed: 'in_bed',
+  HKCategoryValueSleepAnalysisAwake: 'awake',
+  HKCategoryValueSleepAnalysisAsleep: 'asleep',
+  HKCategoryValueSleepAnalysisAsleepUnspecified: 'asleep',
+  HKCategoryValueSleepAnalysisAsleepCore: 'core',
+  HKCategoryValueSleepAnalysisAsleepDeep: 'deep',
+  HKCategoryValueSleepAnalysisAsleepREM: 'rem'
+};
+
+/** Most specific first: a recorded stage beats plain asleep or awake, and anything beats in bed */
+const STAGE_PRIORITY: SleepStage[] = ['deep', 'rem', 'core', 'awake', 'asleep', 'in_bed'];
+
+const ASLEEP_STAGES = new Set<SleepStage>(['asleep', 'core', 'deep', 'rem']);
+
+/** Slices further apart than this start a new session */
+const SESSION_GAP_MINUTES = 60;
+
+/** Shorter sessions are always naps */
+const MIN_MAIN_SLEEP_MINUTES = 180;
+
+export interface SleepSample {
+  start: string;
+  end: string;
+  value?: string;
+}
+
+export interface SleepSession {
+  /** Local calendar day of the final wake */
+  wake_date: string;
+  /** Apple Health timestamps - the first record of the session and the end of the last asleep slice */
+  start: string;
+  final_wake: string;
+  in_bed_minutes: number;
+  asleep_minutes: number;
+  /** Minutes from the start of the session to sleep onset; null when it starts asleep with no in-bed record */
+  latency_minutes: number | null;
+  /** Wake after sleep onset - awake or unrecorded minutes between onset and final wake */
+  waso_minutes: number;
+  /** Asleep minutes as a percentage of the session */
+  efficiency: number;
+  stages: Record<Exclude<SleepStage, 'in_bed'>, number>;
+  /** Whether any source recorded core, deep or REM stages */
+  staged: boolean;
+  nap: boolean;
+}
+
+interface Slice {
+  start: number;
+  end: number;
+  stage: SleepStage;
+}
+
+/** Sessions from overlapping sleep samples, oldest first; sessions without any sleep are dropped */
+export function buildSleepSessions(samples: SleepSample[]): SleepSession[] {
+  const timestamps = new Map<number, string>();
+  const parsed = samples
+    .filter(sample => sample.value !== undefined && STAGE_VALUES[sample.value] !== undefined)
+    .map(sample => {
+      const start = parseAppleDate(sample.start).getTime();
+      const end = parseAppleDate(sample.end).getTime();
+      if (!timestamps.has(start)) timestamps.set(start, sample.start);
+      if (!timestamps.has(end)) timestamps.set(end, sample.end);
+      return { start, end, stage: STAGE_VALUES[sample.value!] };
+    })
+    .filter(sample => sample.end > sample.start)
+    .sort((a, b) => a.start - b.start);
+
+  const sessions = groupSessions(mergeSources(parsed))
+    .map(slices => measureSession(slices, timestamps))
+    .filter((session): session is SleepSession => session !== null);
+  return markNaps(sessions);
+}
+
+/** One slice per stretch of time, with the most specific stage active during it */
+function mergeSources(samples: Slice[]): Slice[] {
+  const points = [...new Set(samples.flatMap(sample => [sample.start, sample.end]))].sort((a, b) => a - b);
+  const slices: Slice[] = [];
+  let active: Slice[] = [];
+  let next = 0;
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const [start, end] = [points[i], points[i + 1]];
+    active = active.filter(sample => sample.end > start);
+    while (next < samples.length && samples[next].start <= start) active.push(samples[next++]);
+    if (active.length === 0) continue;
+
+    const stage = STAGE_PRIORITY.find(candidate => active.some(sample => sample.stage === candidate))!;
+    const previous = slices[slices.length - 1];
+    if (previous && previous.end === start && previous.stage === stage) previous.end = end;
+    else slices.push({ start, end, stage });
+  }
+  return slices;
+}
+
+function groupSessions(slices: Slice[]): Slice[][] {
+  const sessions: Slice[][] = [];
+  for (const slice of slices) {
+    const current = sessions[sessions.length - 1];
+    const last = current?.[current.length - 1];
+    if (last && slice.start - last.end <= SESSION_GAP_MINUTES * 60000) current.push(slice);
+    else sessions.push([slice]);
+  }
+  return sessions;
+}
+
+function measureSession(slices: Slice[], timestamps: Map<number, string>): SleepSession | null {
+  const asleep = slices.filter(slice => ASLEEP_STAGES.has(slice.stage));
+  if (asleep.length === 0) return null;
+
+  const minutes = (from: number, to: number) => (to - from) / 60000;
+  const stageMinutes = (stage: SleepStage) => slices
+    .filter(slice => slice.stage === stage)
+    .reduce((sum, slice) => sum + minutes(slice.start, slice.end), 0);
+
+  const start = slices[0].start;
+  const end = slices[slices.length - 1].end;
+  const onset = asleep[0].start;
+  const finalWake = asleep[asleep.length - 1].end;
+  const asleepMinutes = asleep.reduce((sum, slice) => sum + minutes(slice.start, slice.end), 0);
+  const inBedMinutes = minutes(start, end);
+  const hasInBed = slices.some(slice => slice.stage === 'in_bed');
+  const finalWakeStamp = timestamps.get(finalWake)!;
+
+  return {
+    wake_date: finalWakeStamp.substring(0, 10),
+    start: timestamps.get(start)!,
+    final_wake: finalWakeStamp,
+    in_bed_minutes: Math.round(inBedMinutes),
+    asleep_minutes: Math.round(asleepMinutes),
+    latency_minutes: onset > start || hasInBed ? Math.round(minutes(start, onset)) : null,
+    waso_minutes: Math.round(minutes(onset, finalWake) - asleepMinutes),
+    efficiency: Math.round(asleepMinutes / inBedMinutes * 100),
+    stages: {
+      awake: Math.round(stageMinutes('awake')),
+      asleep: Math.round(stageMinutes('asleep')),
+      core: Math.round(stageMinutes('core')),
+      deep: Math.round(stageMinutes('deep')),
+      rem: Math.round(stageMinutes('rem'))
+    },
+    staged: slices.some(slice => slice.stage === 'core' || slice.stage === 'deep' || slice.stage === 'rem'),
+    nap: false
+  };
+}
+
+/** Each wake date's longest session of 3 hours or more is the main sleep */
+function markNaps(sessions: SleepSession[]): SleepSession[] {
+  const main = new Map<string, SleepSession>();
+  for (const session of sessions) {
+    if (session.asleep_minutes < MIN_MAIN_SLEEP_MINUTES) continue;
+    const current = main.get(session.wake_date);
+    if (!current || session.asleep_minutes > current.asleep_minutes) main.set(session.wake_date, session);
+  }
+  return sessions.map(session => ({ ...session, nap: main.get(session.wake_date) !== session }));
+}
@@ -0,0 +1,41 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareHalves, mannWhitney } from './statistics.js';
+
+describe('mannWhitney', () => {
+  test('gives the exact p-value for small samples without ties', () => {
+    const result = mannWhitney([5, 6, 7, 8], [1, 2, 3, 4])!;
+    assert.equal(result.u, 16);
+    assert.equal(result.exact, true);
+    assert.equal(result.effect_size, 1);
+    // 2 of the 70 orderings are as extreme
+    assert.ok(Math.abs(result.p_value - 2 / 70) < 1e-12);
+    assert.equal(result.significant, true);
+  });
+
+  test('needs two values on each side', () => {
+    assert.equal(mannWhitney([1], [2, 3]), null);
+  });
+});
+
+describe('compareHalves', () => {
+  test('compares the second half with the first, leaving out the middle value', () => {
+    const trend = compareHalves([10, 11, 12, 13, 99, 20, 21, 22, 23])!;
+    assert.equal(trend.change, 10);
+    assert.equal(trend.change_percent, 10 / 11.5 * 100);
+    assert.equal(trend.effect_size, 1);
+    assert.equal(trend.significance, 'significant');
+  });
+
+  test('calls a large effect that is not significant moderate', () => {
+    // Three values a side cannot reach p < 0.05
+    const trend = compareHalves([100, 110, 120, 130, 140, 150])!;
+    assert.equal(trend.significance, 'moderate');
+    assert.equal(compareHalves([5, 9, 7, 6, 8, 7])!.significance, 'none');
+  });
+
+  test('has no percentage from a zero mean and no trend from too few values', () => {
+    assert.equal(compareHalves([0, 0, 5, 6])!.change_percent, null);
+    assert.equal(compareHalves([1, 2, 3]), null);
+  });
+});
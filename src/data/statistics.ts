@@ -0,0 +1,166 @@
+/**
+ * Statistics
+ * Two-sample comparison for daily values. Daily health metrics are skewed
+ * and autocorrelated rather than normal, so periods are compared with the
+ * Mann-Whitney U test, which only uses the order of the values, and the
+ * effect size is the matching rank-biserial correlation.
+ */
+
+/** Fewest values on each side for a test */
+export const MIN_SAMPLE = 2;
+
+/** p-values below this are significant */
+export const ALPHA = 0.05;
+
+/** Largest sample, on either side, that gets an exact p-value instead of the normal approximation */
+const EXACT_MAX = 20;
+
+export type EffectMagnitude = 'negligible' | 'small' | 'medium' | 'large';
+
+/** Lowest |r| of each magnitude, largest first (Cohen's bands for correlations) */
+const MAGNITUDES: { magnitude: EffectMagnitude; min: number }[] = [
+  { magnitude: 'large', min: 0.5 },
+  { magnitude: 'medium', min: 0.3 },
+  { magnitude: 'small', min: 0.1 },
+  { magnitude: 'negligible', min: 0 }
+];
+
+export interface MannWhitney {
+  /** Pairs where the first sample's value is higher, ties counting half */
+  u: number;
+  /** Two-sided */
+  p_value: number;
+  /** Whether the p-value is exact or from the normal approximation with tie correction */
+  exact: boolean;
+  /** Rank-biserial correlation, -1 to 1: positive when the first sample tends to be higher */
+  effect_size: number;
+  magnitude: EffectMagnitude;
+  significant: boolean;
+}
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export function effectMagnitude(effectSize: number): EffectMagnitude {
+  return MAGNITUDES.find(band => Math.abs(effectSize) >= band.min)!.magnitude;
+}
+
+/** Mann-Whitney U test of `a` against `b`; null with fewer than 2 values on either side */
+export function mannWhitney(a: number[], b: number[]): MannWhitney | null {
+  if (a.length < MIN_SAMPLE || b.length < MIN_SAMPLE) return null;
+  const [m, n] = [a.length, b.length];
+
+  // Average ranks across both samples, with the sizes of tied groups for the variance correction
+  const pooled = [...a.map(value => ({ value, first: true })), ...b.map(value => ({ value, first: false }))]
+    .sort((x, y) => x.value - y.value);
+  let rankSum = 0;
+  const ties: number[] = [];
+  for (let i = 0; i < pooled.length;) {
+    let j = i;
+    while (j < pooled.length && pooled[j].value === pooled[i].value) j++;
+    const rank = (i + j + 1) / 2;
+    rankSum += pooled.slice(i, j).filter(entry => entry.first).length * rank;
+    ties.push(j - i);
+    i = j;
+  }
+
+  const u = rankSum - m * (m + 1) / 2;
+  const tied = ties.some(size => size > 1);
+  const exact = !tied && m <= EXACT_MAX && n <= EXACT_MAX;
+  const pValue = exact ? exactPValue(u, m, n) : approximatePValue(u, m, n, ties);
+  const effectSize = 2 * u / (m * n) - 1;
+
+  return {
+    u,
+    p_value: pValue,
+    exact,
+    effect_size: effectSize,
+    magnitude: effectMagnitude(effectSize),
+    significant: pValue < ALPHA
+  };
+}
+
+export interface HalvesTrend {
+  /** Mean of the second half minus mean of the first */
+  change: number;
+  /** The change as a percentage of the first half's mean; null when that mean is 0 */
+  change_percent: number | null;
+  /** Rank-biserial correlation, positive when the second half tends to be higher */
+  effect_size: number;
+  /** Significant below ALPHA, moderate for a large effect that falls short of it */
+  significance: 'significant' | 'moderate' | 'none';
+}
+
+/**
+ * Trend of a daily series: the second half against the first, with the
+ * middle value of an odd-length series left out. Null with fewer than
+ * MIN_SAMPLE values in each half.
+ */
+export function compareHalves(values: number[]): HalvesTrend | null {
+  const half = Math.floor(values.length / 2);
+  const earlier = values.slice(0, half);
+  const recent = values.slice(values.length - half);
+  const test = mannWhitney(recent, earlier);
+  if (!test) return null;
+
+  const change = mean(recent) - mean(earlier);
+  return {
+    change,
+    change_percent: mean(earlier) === 0 ? null : change / mean(earlier) * 100,
+    effect_size: test.effect_size,
+    significance: test.significant ? 'significant' : test.magnitude === 'large' ? 'moderate' : 'none'
+  };
+}
+
+/** Two-sided p-value from the distribution of U over every ordering of the two samples */
+function exactPValue(u: number, m: number, n: number): number {
+  const counts = uCounts(m, n, new Map());
+  const total = counts.reduce((sum, c) => sum + c, 0);
+  const lower = counts.slice(0, u + 1).reduce((sum, c) => sum + c, 0) / total;
+  const upper = counts.slice(u).reduce((sum, c) => sum + c, 0) / total;
+  return Math.min(1, 2 * Math.min(lower, upper));
+}
+
+/**
+ * Orderings of m and n values giving each U from 0 to m * n. The largest
+ * value comes from the first sample, beating all n of the second, or from
+ * the second, adding nothing.
+ */
+function uCounts(m: number, n: number, memo: Map<string, number[]>): number[] {
+  if (m === 0 || n === 0) return [1];
+  const key = `${m},${n}`;
+  const cached = memo.get(key);
+  if (cached) return cached;
+
+  const withFirst = uCounts(m - 1, n, memo);
+  const withSecond = uCounts(m, n - 1, memo);
+  const counts = Array.from({ length: m * n + 1 }, (_, u) => (withFirst[u - n] ?? 0) + (withSecond[u] ?? 0));
+  memo.set(key, counts);
+  return counts;
+}
+
+/** Normal approximation with tie and continuity corrections */
+function approximatePValue(u: number, m: number, n: number, ties: number[]): number {
+  const size = m + n;
+  const tieCorrection = ties.reduce((sum, t) => sum + t ** 3 - t, 0) / (size * (size - 1));
+  const sd = Math.sqrt(m * n / 12 * (size + 1 - tieCorrection));
+  if (sd === 0) return 1;
+  const z = Math.max(0, Math.abs(u - m * n / 2) - 0.5) / sd;
+  return Math.min(1, 2 * (1 - normalCdf(z)));
+}
+
+/** Standard normal CDF, from the Abramowitz and Stegun erf approximation (error under 1.5e-7) */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
@@ -0,0 +1,158 @@
+/**
+ * Local health store - append-only JSONL files on disk
+ * Layout: <data dir>/store/<collection>/<YYYY-MM>.jsonl plus manifest.json,
+ * so reads only touch the collections (types) and months they need
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface StoreCollection {
+  count: number;
+  start: string;
+  end: string;
+  partitions: string[];
+}
+
+export interface StoreManifest {
+  version: 1;
+  imported_at: string;
+  source_file: string;
+  collections: Record<string, StoreCollection>;
+}
+
+export type StoredEntry<T> = T & { day: string };
+
+export interface HealthStore {
+  path: string;
+  manifest: StoreManifest;
+  coverage(collection: string): { start: string; end: string } | null;
+  read<T>(collection: string, from: string, to: string): StoredEntry<T>[];
+}
+
+export interface StoreWriter {
+  append(collection: string, day: string, entry: object): void;
+  commit(sourceFile: string): StoreManifest;
+  abort(): void;
+}
+
+const MANIFEST_FILE = 'manifest.json';
+const FLUSH_THRESHOLD = 10000; // buffered lines before writing to disk
+
+export function getDataDir(): string {
+  if (process.env.HEALTH_CLI_DATA_DIR) return process.env.HEALTH_CLI_DATA_DIR;
+  const dataHome = process.env.XDG_DATA_HOME || path.join(os.homedir(), '.local', 'share');
+  return path.join(dataHome, 'health-cli');
+}
+
+export function getStorePath(): string {
+  return path.join(getDataDir(), 'store');
+}
+
+/** Opens the store for reading, or returns null when nothing has been imported yet */
+export function openStore(storePath: string = getStorePath()): HealthStore | null {
+  const manifestPath = path.join(storePath, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) return null;
+
+  const manifest: StoreManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+
+  return {
+    path: storePath,
+    manifest,
+
+    coverage(collection) {
+      const info = manifest.collections[collection];
+      return info ? { start: info.start, end: info.end } : null;
+    },
+
+    read<T>(collection: string, from: string, to: string) {
+      const info = manifest.collections[collection];
+      if (!info) return [];
+
+      const entries: StoredEntry<T>[] = [];
+      for (const partition of info.partitions) {
+        // Partitions are months, so compare on the YYYY-MM prefix
+        if (partition < from.substring(0, 7) || partition > to.substring(0, 7)) continue;
+
+        const file = path.join(storePath, collection, `${partition}.jsonl`);
+        for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+          if (!line) continue;
+          const entry: StoredEntry<T> = JSON.parse(line);
+          if (entry.day >= from && entry.day <= to) entries.push(entry);
+        }
+      }
+      return entries;
+    }
+  };
+}
+
+/**
+ * Writes a complete import into a staging directory, then swaps it in on
+ * commit - re-importing an export replaces the store instead of duplicating it
+ */
+export function createStoreWriter(storePath: string = getStorePath()): StoreWriter {
+  const stagingPath = `${storePath}.staging-${process.pid}`;
+  const collections: Record<string, StoreCollection> = {};
+  const partitions = new Map<string, Set<string>>();
+  const buffers = new Map<string, string[]>();
+  let buffered = 0;
+
+  fs.rmSync(stagingPath, { recursive: true, force: true });
+  fs.mkdirSync(stagingPath, { recursive: true });
+
+  const flush = () => {
+    for (const [file, lines] of buffers) {
+      fs.appendFileSync(file, lines.join('\n') + '\n');
+    }
+    buffers.clear();
+    buffered = 0;
+  };
+
+  return {
+    append(collection, day, entry) {
+      const partition = day.substring(0, 7);
+      let info = collections[collection];
+      if (!info) {
+        info = collections[collection] = { count: 0, start: day, end: day, partitions: [] };
+        partitions.set(collection, new Set());
+        fs.mkdirSync(path.join(stagingPath, collection));
+      }
+
+      info.count++;
+      if (day < info.start) info.start = day;
+      if (day > info.end) info.end = day;
+      partitions.get(collection)!.add(partition);
+
+      const file = path.join(stagingPath, collection, `${partition}.jsonl`);
+      const lines = buffers.get(file) ?? [];
+      lines.push(JSON.stringify({ day, ...entry }));
+      buffers.set(file, lines);
+
+      if (++buffered >= FLUSH_THRESHOLD) flush();
+    },
+
+    commit(sourceFile) {
+      flush();
+      for (const [collection, info] of Object.entries(collections)) {
+        info.partitions = [...partitions.get(collection)!].sort();
+      }
+
+      const manifest: StoreManifest = {
+        version: 1,
+        imported_at: new Date().toISOString(),
+        source_file: sourceFile,
+        collections
+      };
+      fs.writeFileSync(path.join(stagingPath, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+
+      fs.rmSync(storePath, { recursive: true, force: true });
+      fs.renameSync(stagingPath, storePath);
+      return manifest;
+    },
+
+    abort() {
+      buffers.clear();
+      fs.rmSync(stagingPath, { recursive: true, force: true });
+    }
+  };
+}
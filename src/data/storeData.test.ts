@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createStoreWriter, openStore, HealthStore } from './store.js';
+import { COLLECTIONS, readStoredActivity, readStoredHRRecovery, readStoredWorkouts } from './storeData.js';
+
+const PHONE = 'iPhone';
+const WATCH = 'Apple Watch';
+
+const steps = (day: string, time: string, value: number, source: string) =>
+  [COLLECTIONS.STEPS, day, { start: `${day} ${time}:00 +0000`, end: `${day} ${time}:59 +0000`, value: String(value), source }] as const;
+
+const heartRate = (day: string, time: string, bpm: number) =>
+  [COLLECTIONS.HEART_RATE, day, { start: `${day} ${time} +0000`, end: `${day} ${time} +0000`, value: String(bpm) }] as const;
+
+const workout = (day: string, start: string, end: string) =>
+  [COLLECTIONS.WORKOUTS, day, {
+    activityType: 'HKWorkoutActivityTypeRunning',
+    startDate: `${day} ${start}:00 +0000`,
+    endDate: `${day} ${end}:00 +0000`,
+    metadata: [],
+    statistics: []
+  }] as const;
+
+/** Wraps a store to count reads per collection */
+function countingReads(store: HealthStore): { store: HealthStore; reads: Map<string, number> } {
+  const reads = new Map<string, number>();
+  return {
+    reads,
+    store: {
+      ...store,
+      read: (collection, from, to) => {
+        reads.set(collection, (reads.get(collection) ?? 0) + 1);
+        return store.read(collection, from, to);
+      }
+    }
+  };
+}
+
+describe('store readers', () => {
+  let dir: string;
+
+  beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-store-')); });
+  afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  const store = (entries: (readonly [string, string, object])[]): HealthStore => {
+    const writer = createStoreWriter(path.join(dir, 'store'));
+    for (const [collection, day, entry] of entries) writer.append(collection, day, entry);
+    writer.commit('export.xml');
+    return openStore(path.join(dir, 'store'))!;
+  };
+
+  test('counts steps from one source when an iPhone and a Watch overlap', () => {
+    const activity = readStoredActivity(store([
+      steps('2024-01-01', '08:00', 3000, PHONE),
+      steps('2024-01-01', '08:00', 2800, WATCH),
+      steps('2024-01-01', '18:00', 1200, WATCH),
+      steps('2024-01-02', '09:00', 5000, PHONE)
+    ]), 7);
+
+    assert.deepEqual(activity.map(d => [d.date, d.steps]), [['2024-01-01', 4000], ['2024-01-02', 5000]]);
+  });
+
+  test('takes workout heart rate from the samples during each workout, reading them once', () => {
+    const { store: counted, reads } = countingReads(store([
+      workout('2024-01-01', '07:00', '07:30'),
+      workout('2024-01-03', '18:00', '18:45'),
+      heartRate('2024-01-01', '06:55:00', 70),
+      heartRate('2024-01-01', '07:10:00', 140),
+      heartRate('2024-01-01', '07:20:00', 160),
+      heartRate('2024-01-03', '18:30:00', 150),
+      heartRate('2024-01-03', '19:00:00', 90)
+    ]));
+
+    const workouts = readStoredWorkouts(counted, 7);
+    assert.deepEqual(workouts.map(w => [w.date, w.avg_hr, w.max_hr]), [['2024-01-01', 150, 160], ['2024-01-03', 150, 150]]);
+    assert.equal(reads.get(COLLECTIONS.HEART_RATE), 1);
+  });
+
+  test('measures heart rate recovery after each workout from one read of the samples', () => {
+    const { store: counted, reads } = countingReads(store([
+      workout('2024-01-01', '07:00', '07:30'),
+      workout('2024-01-02', '23:00', '23:59'),
+      heartRate('2024-01-01', '07:29:30', 160),
+      heartRate('2024-01-01', '07:31:05', 135),
+      heartRate('2024-01-01', '07:32:00', 120),
+      heartRate('2024-01-02', '23:58:00', 170),
+      heartRate('2024-01-03', '00:00:05', 150)
+    ]));
+
+    const recoveries = readStoredHRRecovery(counted, 7);
+    assert.deepEqual(recoveries.map(r => [r.date, r.end_hr, r.recovery_1_min, r.recovery_2_min]), [
+      ['2024-01-01', 160, 25, 40],
+      ['2024-01-02', 170, 20, null]
+    ]);
+    assert.equal(reads.get(COLLECTIONS.HEART_RATE), 1);
+  });
+});
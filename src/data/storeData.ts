@@ -0,0 +1,466 @@
+/**
+ * Store readers - turn imported Apple Health samples into the daily
+ * structures the analysis commands work on
+ */
+import { HRVData, SleepData, ActivityData, HeartRateData, HeartRecoveryData, WorkoutData, HealthStatus, DataSourceInfo } from '../types/responses.js';
+import { InstantaneousBeat, Workout } from '../types/appleHealth.js';
+import { HealthStore } from './store.js';
+import { DataProvider, Metric } from './provider.js';
+import { categorizeHRV, buildStatus } from './health.js';
+import { withPersonalCategories } from './hrvBaseline.js';
+import { buildSleepSessions } from './sleepSessions.js';
+import { addDays, parseAppleDate, appleClockTime, parseBeatTime } from '../utils/dates.js';
+
+export const COLLECTIONS = {
+  HRV: 'HKQuantityTypeIdentifierHeartRateVariabilitySDNN',
+  SLEEP: 'HKCategoryTypeIdentifierSleepAnalysis',
+  STEPS: 'HKQuantityTypeIdentifierStepCount',
+  HEART_RATE: 'HKQuantityTypeIdentifierHeartRate',
+  RESTING_HR: 'HKQuantityTypeIdentifierRestingHeartRate',
+  WALKING_HR: 'HKQuantityTypeIdentifierWalkingHeartRateAverage',
+  ACTIVITY: 'ActivitySummary',
+  WORKOUTS: 'Workout'
+};
+
+export interface StoredSample {
+  start: string;
+  end: string;
+  value?: string;
+  unit?: string;
+  source?: string;
+  /** Beat-to-beat heart rate recorded with an HRV sample */
+  beats?: InstantaneousBeat[];
+}
+
+interface StoredActivitySummary {
+  activeEnergyBurned?: number;
+  appleExerciseTime?: number;
+  appleStandHours?: number;
+}
+
+/** Distance and energy units Apple exports use, converted to km and kcal */
+const KM_PER_UNIT: Record<string, number> = { km: 1, m: 0.001, mi: 1.609344, yd: 0.0009144 };
+const KCAL_PER_UNIT: Record<string, number> = { kcal: 1, Cal: 1, kJ: 0.239006 };
+
+/** A heart rate sample counts until the next one, but no longer than this */
+const MAX_SAMPLE_MINUTES = 10;
+
+/** Date window of `days` days ending on the last day the collection has data for */
+export function storeWindow(store: HealthStore, collection: string, days: number): { from: string; to: string } | null {
+  const coverage = store.coverage(collection);
+  if (!coverage) return null;
+  return { from: addDays(coverage.end, -(days - 1)), to: coverage.end };
+}
+
+export function describeStore(store: HealthStore, collections: string[]): DataSourceInfo {
+  const ranges = collections.map(c => store.coverage(c)).filter(Boolean) as { start: string; end: string }[];
+  return {
+    type: 'store',
+    store: store.path,
+    imported_at: store.manifest.imported_at,
+    coverage: ranges.length > 0 ? {
+      start: ranges.map(r => r.start).sort()[0],
+      end: ranges.map(r => r.end).sort()[ranges.length - 1]
+    } : null
+  };
+}
+
+/** Daily HRV, categorized against the personal baseline */
+export function readStoredHRV(store: HealthStore, days: number): HRVData[] {
+  return withPersonalCategories(history => readDailyHRV(store, history))(days);
+}
+
+/**
+ * Daily mean SDNN, and mean RMSSD over the samples that carry a beat list
+ */
+function readDailyHRV(store: HealthStore, days: number): HRVData[] {
+  const window = storeWindow(store, COLLECTIONS.HRV, days);
+  if (!window) return [];
+
+  const byDay = new Map<string, { sdnn: number[]; rmssd: number[] }>();
+  for (const sample of store.read<StoredSample>(COLLECTIONS.HRV, window.from, window.to)) {
+    const values = byDay.get(sample.day) ?? { sdnn: [], rmssd: [] };
+    values.sdnn.push(Number(sample.value));
+    const rmssd = sample.beats ? beatRMSSD(sample.beats) : null;
+    if (rmssd !== null) values.rmssd.push(rmssd);
+    byDay.set(sample.day, values);
+  }
+
+  return [...byDay.keys()].sort().map(date => {
+    const { sdnn, rmssd } = byDay.get(date)!;
+    const mean = sdnn.reduce((sum, v) => sum + v, 0) / sdnn.length;
+    return {
+      date,
+      value: Math.round(mean),
+      rmssd: rmssd.length > 0 ? Math.round(rmssd.reduce((sum, v) => sum + v, 0) / rmssd.length * 10) / 10 : null,
+      category: categorizeHRV(mean)
+    };
+  });
+}
+
+/** Intervals outside 300-2000 ms (30-200 bpm) are gaps or artifacts */
+const MIN_RR_MS = 300;
+const MAX_RR_MS = 2000;
+
+/** Successive interval changes above this fraction are treated as ectopic beats */
+const MAX_RR_CHANGE = 0.2;
+
+/** Successive differences a beat list needs for RMSSD */
+const MIN_RR_DIFFERENCES = 10;
+
+/**
+ * RMSSD - root mean square of successive differences between beat-to-beat
+ * intervals. Intervals come from the beat times; null when too few usable
+ * intervals remain after dropping gaps and ectopic beats.
+ */
+function beatRMSSD(beats: InstantaneousBeat[]): number | null {
+  const times = beats.map(beat => parseBeatTime(beat.time));
+  const intervals: (number | null)[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const [previous, current] = [times[i - 1], times[i]];
+    if (previous === null || current === null) {
+      intervals.push(null);
+      continue;
+    }
+    // Beat lists can cross midnight
+    const rr = ((current - previous + 86400) % 86400) * 1000;
+    intervals.push(rr >= MIN_RR_MS && rr <= MAX_RR_MS ? rr : null);
+  }
+
+  const squares: number[] = [];
+  for (let i = 1; i < intervals.length; i++) {
+    const [previous, current] = [intervals[i - 1], intervals[i]];
+    if (previous === null || current === null || Math.abs(current - previous) > previous * MAX_RR_CHANGE) continue;
+    squares.push((current - previous) ** 2);
+  }
+  if (squares.length < MIN_RR_DIFFERENCES) return null;
+  const rmssd = Math.sqrt(squares.reduce((sum, v) => sum + v, 0) / squares.length);
+  // Identical intervals mean the times were rounded rather than measured
+  return rmssd > 0 ? rmssd : null;
+}
+
+/**
+ * Nights rebuilt from every source's Sleep Analysis samples (see
+ * sleepSessions), dated by the day of the final wake. Naps count towards
+ * their day's nap totals; days with only naps have no entry.
+ */
+export function readStoredSleep(store: HealthStore, days: number): SleepData[] {
+  const window = storeWindow(store, COLLECTIONS.SLEEP, days);
+  if (!window) return [];
+
+  const sessions = buildSleepSessions(store.read<StoredSample>(COLLECTIONS.SLEEP, addDays(window.from, -1), window.to))
+    .filter(session => session.wake_date >= window.from && session.wake_date <= window.to);
+  const hours = (minutes: number) => Math.round(minutes / 6) / 10;
+
+  return sessions.filter(session => !session.nap).map(session => {
+    const naps = sessions.filter(nap => nap.nap && nap.wake_date === session.wake_date);
+    const { deep, rem, core } = session.stages;
+    return {
+      date: session.wake_date,
+      duration_hours: hours(session.asleep_minutes),
+      deep_sleep_hours: hours(deep),
+      rem_sleep_hours: hours(rem),
+      core_sleep_hours: session.staged ? hours(core) : null,
+      sleep_score: estimateSleepScore(session.asleep_minutes / 60, (deep + rem) / 60),
+      bedtime: appleClockTime(session.start),
+      wake_time: appleClockTime(session.final_wake),
+      time_in_bed_hours: hours(session.in_bed_minutes),
+      efficiency: session.efficiency,
+      latency_minutes: session.latency_minutes,
+      waso_minutes: session.waso_minutes,
+      nap_count: naps.length,
+      nap_hours: hours(naps.reduce((sum, nap) => sum + nap.asleep_minutes, 0))
+    };
+  });
+}
+
+/**
+ * Daily activity from ActivitySummary elements, with steps from StepCount
+ * samples. An iPhone and a Watch both count the same walk, so each source is
+ * totalled on its own and the day takes the highest total.
+ */
+export function readStoredActivity(store: HealthStore, days: number): ActivityData[] {
+  const windows = [storeWindow(store, COLLECTIONS.ACTIVITY, days), storeWindow(store, COLLECTIONS.STEPS, days)]
+    .filter(Boolean) as { from: string; to: string }[];
+  if (windows.length === 0) return [];
+
+  const to = windows.map(w => w.to).sort()[windows.length - 1];
+  const from = addDays(to, -(days - 1));
+  const byDay = new Map<string, ActivityData>();
+  const dayEntry = (date: string) => {
+    let entry = byDay.get(date);
+    if (!entry) {
+      entry = { date, steps: 0, active_calories: 0, exercise_minutes: 0, stand_hours: 0 };
+      byDay.set(date, entry);
+    }
+    return entry;
+  };
+
+  for (const summary of store.read<StoredActivitySummary>(COLLECTIONS.ACTIVITY, from, to)) {
+    const entry = dayEntry(summary.day);
+    entry.active_calories = Math.round(summary.activeEnergyBurned ?? 0);
+    entry.exercise_minutes = Math.round(summary.appleExerciseTime ?? 0);
+    entry.stand_hours = Math.round(summary.appleStandHours ?? 0);
+  }
+
+  const stepsBySource = new Map<string, Map<string, number>>();
+  for (const sample of store.read<StoredSample>(COLLECTIONS.STEPS, from, to)) {
+    dayEntry(sample.day);
+    const totals = stepsBySource.get(sample.day) ?? new Map<string, number>();
+    const source = sample.source ?? '';
+    totals.set(source, (totals.get(source) ?? 0) + Number(sample.value));
+    stepsBySource.set(sample.day, totals);
+  }
+
+  return [...byDay.keys()].sort().map(date => {
+    const entry = byDay.get(date)!;
+    return { ...entry, steps: Math.round(Math.max(0, ...(stepsBySource.get(date)?.values() ?? []))) };
+  });
+}
+
+/**
+ * Daily resting and walking heart rate, plus minutes at each heart rate from
+ * HeartRate samples - each sample lasts until the next one, up to 10 minutes
+ */
+export function readStoredHeart(store: HealthStore, days: number): HeartRateData[] {
+  const windows = [COLLECTIONS.RESTING_HR, COLLECTIONS.HEART_RATE, COLLECTIONS.WALKING_HR]
+    .map(collection => storeWindow(store, collection, days))
+    .filter(Boolean) as { from: string; to: string }[];
+  if (windows.length === 0) return [];
+
+  const to = windows.map(w => w.to).sort()[windows.length - 1];
+  const from = addDays(to, -(days - 1));
+  const dailyMean = (collection: string) => {
+    const byDay = new Map<string, number[]>();
+    for (const sample of store.read<StoredSample>(collection, from, to)) {
+      const values = byDay.get(sample.day) ?? [];
+      values.push(Number(sample.value));
+      byDay.set(sample.day, values);
+    }
+    return new Map([...byDay].map(([day, values]) => [day, Math.round(values.reduce((sum, v) => sum + v, 0) / values.length)]));
+  };
+
+  const resting = dailyMean(COLLECTIONS.RESTING_HR);
+  const walking = dailyMean(COLLECTIONS.WALKING_HR);
+  const minutes = new Map<string, Map<number, number>>();
+  const samples = store.read<StoredSample>(COLLECTIONS.HEART_RATE, from, to)
+    .map(sample => ({ day: sample.day, time: parseAppleDate(sample.start).getTime(), bpm: Math.round(Number(sample.value)) }))
+    .sort((a, b) => a.time - b.time);
+  samples.forEach((sample, index) => {
+    const next = samples[index + 1];
+    const duration = next ? Math.min(MAX_SAMPLE_MINUTES, (next.time - sample.time) / 60000) : 1;
+    const bins = minutes.get(sample.day) ?? new Map<number, number>();
+    bins.set(sample.bpm, (bins.get(sample.bpm) ?? 0) + duration);
+    minutes.set(sample.day, bins);
+  });
+
+  return [...new Set([...resting.keys(), ...walking.keys(), ...minutes.keys()])].sort().map(date => ({
+    date,
+    resting_hr: resting.get(date) ?? null,
+    walking_hr_avg: walking.get(date) ?? null,
+    hr_minutes: [...(minutes.get(date) ?? new Map<number, number>())]
+      .sort(([a], [b]) => a - b)
+      .map(([bpm, total]) => ({ bpm, minutes: Math.round(total * 10) / 10 }))
+  }));
+}
+
+/**
+ * Workouts with distance, energy and heart rate. Older exports put totals on
+ * the Workout element, newer ones in WorkoutStatistics; heart rate falls back
+ * to the HeartRate samples recorded during the workout.
+ */
+export function readStoredWorkouts(store: HealthStore, days: number): WorkoutData[] {
+  const window = storeWindow(store, COLLECTIONS.WORKOUTS, days);
+  if (!window) return [];
+
+  const workouts = store.read<Workout>(COLLECTIONS.WORKOUTS, window.from, window.to);
+  const heartRate = workouts.some(workout => workout.statistics.find(s => /HeartRate$/.test(s.type))?.average === undefined)
+    ? readHeartRateSamples(store, window.from, addDays(window.to, 1))
+    : [];
+
+  return workouts
+    .map(workout => {
+      const start = parseAppleDate(workout.startDate).getTime();
+      const end = parseAppleDate(workout.endDate).getTime();
+      const statistic = (pattern: RegExp) => workout.statistics.find(s => pattern.test(s.type));
+
+      const distance = workout.totalDistance !== undefined
+        ? convert(workout.totalDistance, workout.totalDistanceUnit, KM_PER_UNIT)
+        : convert(statistic(/Distance/)?.sum, statistic(/Distance/)?.unit, KM_PER_UNIT);
+      const energy = workout.totalEnergyBurned !== undefined
+        ? convert(workout.totalEnergyBurned, workout.totalEnergyBurnedUnit, KCAL_PER_UNIT)
+        : convert(statistic(/ActiveEnergyBurned/)?.sum, statistic(/ActiveEnergyBurned/)?.unit, KCAL_PER_UNIT);
+
+      let avgHr = statistic(/HeartRate$/)?.average ?? null;
+      let maxHr = statistic(/HeartRate$/)?.maximum ?? null;
+      if (avgHr === null) {
+        const samples = samplesBetween(heartRate, start, end).map(sample => sample.bpm);
+        if (samples.length > 0) {
+          avgHr = samples.reduce((sum, bpm) => sum + bpm, 0) / samples.length;
+          maxHr = Math.max(...samples);
+        }
+      }
+
+      return {
+        date: workout.day,
+        type: workout.activityType.replace(/^HKWorkoutActivityType/, ''),
+        start_time: appleClockTime(workout.startDate),
+        duration_minutes: Math.round(durationMinutes(workout) ?? (end - start) / 60000),
+        distance_km: distance !== null ? Math.round(distance * 100) / 100 : null,
+        energy_kcal: energy !== null ? Math.round(energy) : null,
+        avg_hr: avgHr !== null ? Math.round(avgHr) : null,
+        max_hr: maxHr !== null ? Math.round(maxHr) : null
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time));
+}
+
+/**
+ * Heart rate recovery for workouts with HeartRate samples around their end:
+ * the last sample in the final 5 minutes, then the samples closest to 1 and
+ * 2 minutes after (within 30 seconds)
+ */
+export function readStoredHRRecovery(store: HealthStore, days: number): HeartRecoveryData[] {
+  const window = storeWindow(store, COLLECTIONS.WORKOUTS, days);
+  if (!window) return [];
+
+  const workouts = store.read<Workout>(COLLECTIONS.WORKOUTS, window.from, window.to);
+  if (workouts.length === 0) return [];
+  const heartRate = readHeartRateSamples(store, window.from, addDays(window.to, 1));
+
+  const recoveries: HeartRecoveryData[] = [];
+  for (const workout of workouts) {
+    const end = parseAppleDate(workout.endDate).getTime();
+    const endDay = workout.endDate.substring(0, 10);
+    const samples = samplesBetween(heartRate, end - 5 * 60000, end + 150000);
+
+    const atEnd = samples.filter(sample => sample.time <= end).sort((a, b) => b.time - a.time)[0];
+    const after = (seconds: number) => samples
+      .filter(sample => Math.abs(sample.time - (end + seconds * 1000)) <= 30000)
+      .sort((a, b) => Math.abs(a.time - (end + seconds * 1000)) - Math.abs(b.time - (end + seconds * 1000)))[0];
+    const oneMinute = after(60);
+    const twoMinutes = after(120);
+    if (!atEnd || (!oneMinute && !twoMinutes)) continue;
+
+    recoveries.push({
+      date: endDay,
+      workout: workout.activityType.replace(/^HKWorkoutActivityType/, ''),
+      end_time: appleClockTime(workout.endDate),
+      end_hr: Math.round(atEnd.bpm),
+      recovery_1_min: oneMinute ? Math.round(atEnd.bpm - oneMinute.bpm) : null,
+      recovery_2_min: twoMinutes ? Math.round(atEnd.bpm - twoMinutes.bpm) : null
+    });
+  }
+
+  return recoveries.sort((a, b) => a.date.localeCompare(b.date) || a.end_time.localeCompare(b.end_time));
+}
+
+interface TimedSample {
+  time: number;
+  bpm: number;
+}
+
+/** HeartRate samples over a date range, sorted by time so per-workout lookups can binary search */
+function readHeartRateSamples(store: HealthStore, from: string, to: string): TimedSample[] {
+  return store.read<StoredSample>(COLLECTIONS.HEART_RATE, from, to)
+    .map(sample => ({ time: parseAppleDate(sample.start).getTime(), bpm: Number(sample.value) }))
+    .sort((a, b) => a.time - b.time);
+}
+
+/** Samples from `start` to `end` inclusive, out of time-sorted samples */
+function samplesBetween(samples: TimedSample[], start: number, end: number): TimedSample[] {
+  let [low, high] = [0, samples.length];
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (samples[middle].time < start) low = middle + 1;
+    else high = middle;
+  }
+  let last = low;
+  while (last < samples.length && samples[last].time <= end) last++;
+  return samples.slice(low, last);
+}
+
+export function readStoredStatus(store: HealthStore): HealthStatus | null {
+  const recentHRV = readStoredHRV(store, 7);
+  const recentSleep = readStoredSleep(store, 7);
+  if (recentHRV.length === 0 || recentSleep.length === 0) return null;
+
+  const date = [recentHRV[recentHRV.length - 1].date, recentSleep[recentSleep.length - 1].date].sort()[1];
+  // The newest activity can be from another day than the HRV and sleep
+  const today = readStoredActivity(store, 7).find(d => d.date === date);
+
+  return buildStatus(date, recentHRV, recentSleep, today ? {
+    steps: today.steps,
+    active_calories: today.active_calories,
+    exercise_minutes: today.exercise_minutes
+  } : null);
+}
+
+/** The store as it was on `asOf` - coverage and reads stop at that day */
+function storeAsOf(store: HealthStore, asOf: string): HealthStore {
+  return {
+    ...store,
+    coverage: collection => {
+      const coverage = store.coverage(collection);
+      if (!coverage || coverage.start > asOf) return null;
+      return { start: coverage.start, end: coverage.end < asOf ? coverage.end : asOf };
+    },
+    read: <T>(collection: string, from: string, to: string) => store.read<T>(collection, from, to < asOf ? to : asOf)
+  };
+}
+
+export function createStoreProvider(source: HealthStore, asOf: string | null = null): DataProvider {
+  const store = asOf === null ? source : storeAsOf(source, asOf);
+  const collectionsFor: Record<Metric, string[]> = {
+    hrv: [COLLECTIONS.HRV],
+    sleep: [COLLECTIONS.SLEEP],
+    activity: [COLLECTIONS.ACTIVITY, COLLECTIONS.STEPS],
+    heart: [COLLECTIONS.RESTING_HR, COLLECTIONS.HEART_RATE, COLLECTIONS.WALKING_HR],
+    workouts: [COLLECTIONS.WORKOUTS]
+  };
+
+  return {
+    name: 'store',
+    describe: metrics => ({ ...describeStore(store, metrics.flatMap(m => collectionsFor[m])), ...(asOf !== null && { as_of: asOf }) }),
+    hrv: days => readStoredHRV(store, days),
+    sleep: days => readStoredSleep(store, days),
+    activity: days => readStoredActivity(store, days),
+    heart: days => readStoredHeart(store, days),
+    workouts: days => readStoredWorkouts(store, days),
+    hrRecovery: days => readStoredHRRecovery(store, days),
+    status: () => readStoredStatus(store),
+    now: () => asOf === null ? new Date() : new Date(`${asOf}T12:00:00Z`),
+    asOf,
+    reproducible: true,
+    until: date => createStoreProvider(source, asOf !== null && asOf < date ? asOf : date)
+  };
+}
+
+function durationMinutes(workout: Workout): number | null {
+  if (workout.duration === undefined) return null;
+  switch (workout.durationUnit) {
+    case 'min': return workout.duration;
+    case 'hr': return workout.duration * 60;
+    case 's': return workout.duration / 60;
+    default: return null;
+  }
+}
+
+/** Converts with a unit table; unknown units give null rather than a wrong number */
+function convert(value: number | undefined, unit: string | undefined, table: Record<string, number>): number | null {
+  if (value === undefined || unit === undefined || !(unit in table)) return null;
+  return value * table[unit];
+}
+
+/**
+ * Apple exports carry no sleep score, so approximate one from duration
+ * (60 points at 8h+) and restorative stage share (30 points at 45%+)
+ */
+function estimateSleepScore(durationHours: number, restorativeHours: number): number {
+  if (durationHours <= 0) return 0;
+  const durationScore = Math.min(1, durationHours / 8) * 60;
+  const stageScore = restorativeHours > 0
+    ? Math.min(1, restorativeHours / (durationHours * 0.45)) * 30
+    : 15; // no stage data (older watches) - assume average
+  return Math.round(10 + durationScore + stageScore);
+}
@@ -0,0 +1,103 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { dailyLoads, HeartRateRange, loadTrainingHistory, sessionLoad, WorkoutLoad } from './trainingLoad.js';
+import { loadFixtureProvider } from './fixture.js';
+import { WorkoutData } from '../types/responses.js';
+import { addDays } from '../utils/dates.js';
+
+const RANGE: HeartRateRange = { max_hr: 190, source: 'config', resting_hr: 60, resting_source: 'config' };
+
+const workout = (date: string, fields: Partial<WorkoutData> = {}): WorkoutData => ({
+  date,
+  type: 'Running',
+  start_time: '07:00',
+  duration_minutes: 60,
+  distance_km: null,
+  energy_kcal: null,
+  avg_hr: null,
+  max_hr: null,
+  ...fields
+});
+
+/** The same load on every day from `from`, for `days` days */
+const everyDay = (from: string, days: number, load: number): WorkoutLoad[] =>
+  Array.from({ length: days }, (_, i) => ({ ...workout(addDays(from, i)), load, load_method: 'trimp' }));
+
+describe('sessionLoad', () => {
+  test('takes the Banister TRIMP at the average heart rate', () => {
+    // 125 bpm is half the reserve between 60 and 190: 60 x 0.5 x 0.64e^0.96
+    assert.deepEqual(sessionLoad(workout('2024-01-01', { avg_hr: 125 }), RANGE), { load: 50.1, load_method: 'trimp' });
+    // Above max HR counts as the whole reserve
+    assert.deepEqual(sessionLoad(workout('2024-01-01', { avg_hr: 200, duration_minutes: 10 }), RANGE), { load: 43.7, load_method: 'trimp' });
+  });
+
+  test('falls back to a typical intensity for the activity type without heart rate', () => {
+    // Running at 0.7 of the reserve: 30 x 0.7 x 0.64e^1.344
+    assert.deepEqual(sessionLoad(workout('2024-01-01', { duration_minutes: 30 }), RANGE), { load: 51.5, load_method: 'duration_intensity' });
+    // Unknown types at 0.5, the same as the measured workout above
+    assert.equal(sessionLoad(workout('2024-01-01', { type: 'Curling' }), RANGE).load, 50.1);
+    // A reserve of zero cannot place the heart rate
+    assert.equal(sessionLoad(workout('2024-01-01', { avg_hr: 125 }), { ...RANGE, resting_hr: 190 }).load_method, 'duration_intensity');
+  });
+});
+
+describe('dailyLoads', () => {
+  test('starts both averages from the mean load of the first 42 days', () => {
+    const daily = dailyLoads(everyDay('2024-01-01', 60, 21), '2024-01-01', addDays('2024-01-01', 59));
+    assert.equal(daily.length, 60);
+    assert.deepEqual(daily[0], { date: '2024-01-01', load: 21, atl: 21, ctl: 21, tsb: 0, acwr: null });
+    assert.ok(daily.every(day => day.atl === 21 && day.ctl === 21));
+  });
+
+  test('reports the ratio from the 28th day after the first workout', () => {
+    const daily = dailyLoads(everyDay('2024-01-05', 56, 21), '2024-01-01', addDays('2024-01-01', 59));
+    const firstRatio = daily.findIndex(day => day.acwr !== null);
+    assert.equal(daily[firstRatio].date, addDays('2024-01-05', 27));
+    assert.ok(daily.slice(firstRatio).every(day => day.acwr !== null));
+  });
+
+  test('leaves the ratio out while the chronic load is under 10', () => {
+    const daily = dailyLoads(everyDay('2024-01-01', 60, 5), '2024-01-01', addDays('2024-01-01', 59));
+    assert.ok(daily.every(day => day.ctl === 5 && day.acwr === null));
+  });
+});
+
+describe('loadTrainingHistory', () => {
+  let dir: string;
+
+  before(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-training-')); });
+  after(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  test('runs on to the newest activity day so rest days lower the acute load', () => {
+    const file = path.join(dir, 'fixture.json');
+    fs.writeFileSync(file, JSON.stringify({
+      workouts: Array.from({ length: 60 }, (_, i) => workout(addDays('2024-01-01', i), { avg_hr: 125 })),
+      activity: [{ date: '2024-03-07', steps: 3000, active_calories: 150, exercise_minutes: 0, stand_hours: 8 }]
+    }));
+    const provider = loadFixtureProvider(file);
+    assert.ok(!('ok' in provider));
+
+    const history = loadTrainingHistory(provider, 14, { zone_method: 'max_hr', max_hr: 190, age: null, resting_hr: 60 })!;
+    assert.deepEqual(history.range, RANGE);
+    assert.equal(history.daily.length, 14);
+    assert.equal(history.daily[13].date, '2024-03-07');
+    assert.deepEqual(history.workouts.map(w => w.date), Array.from({ length: 7 }, (_, i) => addDays('2024-02-23', i)));
+
+    const rest = history.daily.slice(-8);
+    assert.ok(rest.slice(1).every(day => day.load === 0));
+    assert.ok(rest.slice(1).every((day, i) => day.atl < rest[i].atl));
+    assert.ok(history.daily[13].tsb > 0);
+    assert.ok(history.daily[13].acwr! < 1);
+  });
+
+  test('is null without workouts', () => {
+    const file = path.join(dir, 'empty.json');
+    fs.writeFileSync(file, '{}');
+    const provider = loadFixtureProvider(file);
+    assert.ok(!('ok' in provider));
+    assert.equal(loadTrainingHistory(provider, 14, { zone_method: 'max_hr', max_hr: 190, age: null, resting_hr: 60 }), null);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Training load
+ * Each workout gets a load from its heart rate (Banister TRIMP) or, without
+ * heart rate, from its duration and a typical intensity for the activity
+ * type. Daily totals then give acute and chronic load as exponentially
+ * weighted averages.
+ */
+import { WorkoutData } from '../types/responses.js';
+import { HealthConfig } from '../utils/config.js';
+import { addDays } from '../utils/dates.js';
+import { DataProvider } from './provider.js';
+import { maxHeartRate, MaxHeartRate } from './health.js';
+
+/** Time constants of the acute (fatigue) and chronic (fitness) averages */
+export const ACUTE_DAYS = 7;
+export const CHRONIC_DAYS = 42;
+
+/** Resting HR when neither heart.resting_hr nor resting HR readings are available */
+const DEFAULT_RESTING_HR = 60;
+
+/** Below this chronic load there is too little training for the ratio to mean anything */
+export const MIN_CHRONIC_LOAD = 10;
+
+/** Days since the first workout before the acute:chronic ratio is reported */
+const MIN_HISTORY_DAYS = 28;
+
+/**
+ * Typical heart rate reserve fraction per activity type, for workouts logged
+ * without heart rate
+ */
+const TYPICAL_INTENSITY: Record<string, number> = {
+  Running: 0.7,
+  HighIntensityIntervalTraining: 0.75,
+  Swimming: 0.65,
+  Rowing: 0.65,
+  CrossTraining: 0.65,
+  MixedCardio: 0.6,
+  Cycling: 0.6,
+  Elliptical: 0.55,
+  Hiking: 0.5,
+  FunctionalStrengthTraining: 0.5,
+  TraditionalStrengthTraining: 0.45,
+  Walking: 0.35,
+  Yoga: 0.3,
+  Pilates: 0.3,
+  Cooldown: 0.25
+};
+const DEFAULT_INTENSITY = 0.5;
+
+export interface HeartRateRange extends MaxHeartRate {
+  resting_hr: number;
+  resting_source: 'config' | 'measured' | 'default';
+}
+
+export type LoadMethod = 'trimp' | 'duration_intensity';
+
+export interface WorkoutLoad extends WorkoutData {
+  load: number;
+  load_method: LoadMethod;
+}
+
+export interface DailyLoad {
+  date: string;
+  load: number;
+  /** Acute training load - 7-day exponentially weighted average */
+  atl: number;
+  /** Chronic training load - 42-day exponentially weighted average */
+  ctl: number;
+  /** Training stress balance - CTL minus ATL */
+  tsb: number;
+  /** Acute:chronic workload ratio; null until there is enough history */
+  acwr: number | null;
+}
+
+export interface TrainingHistory {
+  range: HeartRateRange;
+  /** Workouts in the requested period, with their load */
+  workouts: WorkoutLoad[];
+  /** One entry per day of the requested period */
+  daily: DailyLoad[];
+}
+
+/** Max HR as for heart zones; resting HR from heart.resting_hr, else the 30-day mean */
+export function heartRateRange(provider: DataProvider, settings: HealthConfig['heart']): HeartRateRange {
+  const max = maxHeartRate(settings);
+  if (settings.resting_hr !== null) return { ...max, resting_hr: settings.resting_hr, resting_source: 'config' };
+
+  const readings = provider.heart(30).map(d => d.resting_hr).filter((value): value is number => value !== null);
+  if (readings.length === 0) return { ...max, resting_hr: DEFAULT_RESTING_HR, resting_source: 'default' };
+  return {
+    ...max,
+    resting_hr: Math.round(readings.reduce((sum, value) => sum + value, 0) / readings.length),
+    resting_source: 'measured'
+  };
+}
+
+/**
+ * Banister TRIMP: minutes x HRr x 0.64e^(1.92 HRr), where HRr is the
+ * fraction of heart rate reserve at the workout's average heart rate
+ */
+export function sessionLoad(workout: WorkoutData, range: HeartRateRange): Pick<WorkoutLoad, 'load' | 'load_method'> {
+  const measured = workout.avg_hr !== null && range.max_hr > range.resting_hr;
+  const reserve = measured
+    ? Math.min(1, Math.max(0, (workout.avg_hr! - range.resting_hr) / (range.max_hr - range.resting_hr)))
+    : TYPICAL_INTENSITY[workout.type] ?? DEFAULT_INTENSITY;
+  return {
+    load: Math.round(workout.duration_minutes * reserve * 0.64 * Math.exp(1.92 * reserve) * 10) / 10,
+    load_method: measured ? 'trimp' : 'duration_intensity'
+  };
+}
+
+/**
+ * Load for every day from `from` to `to`, with days without a workout as
+ * zero. Both averages start from the mean daily load of the first
+ * CHRONIC_DAYS days rather than from zero, which would make any training
+ * look like a sudden ramp-up.
+ */
+export function dailyLoads(workouts: WorkoutLoad[], from: string, to: string): DailyLoad[] {
+  const totals = new Map<string, number>();
+  for (const workout of workouts) totals.set(workout.date, (totals.get(workout.date) ?? 0) + workout.load);
+  const firstWorkout = workouts.map(workout => workout.date).sort()[0];
+
+  const warmupEnd = addDays(from, CHRONIC_DAYS - 1);
+  const warmupDays = [...totals.keys()].filter(day => day >= from && day <= warmupEnd && day <= to);
+  const seed = warmupDays.reduce((total, day) => total + totals.get(day)!, 0) / CHRONIC_DAYS;
+
+  const daily: DailyLoad[] = [];
+  let atl = seed;
+  let ctl = seed;
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    const load = totals.get(day) ?? 0;
+    atl += (load - atl) / ACUTE_DAYS;
+    ctl += (load - ctl) / CHRONIC_DAYS;
+    const enoughHistory = firstWorkout !== undefined && day >= addDays(firstWorkout, MIN_HISTORY_DAYS - 1) && ctl >= MIN_CHRONIC_LOAD;
+    daily.push({
+      date: day,
+      load: Math.round(load * 10) / 10,
+      atl: Math.round(atl * 10) / 10,
+      ctl: Math.round(ctl * 10) / 10,
+      tsb: Math.round((ctl - atl) * 10) / 10,
+      acwr: enoughHistory ? Math.round(atl / ctl * 100) / 100 : null
+    });
+  }
+  return daily;
+}
+
+/**
+ * Workouts and daily load for the last `days` days. The series ends on the
+ * newest workout or activity day, whichever is later, so rest days at the
+ * end still lower the acute load. Null when there are no workouts at all.
+ */
+export function loadTrainingHistory(provider: DataProvider, days: number, settings: HealthConfig['heart']): TrainingHistory | null {
+  const workouts = provider.workouts(days + CHRONIC_DAYS);
+  if (workouts.length === 0) return null;
+
+  const range = heartRateRange(provider, settings);
+  const latestActivity = provider.activity(1)[0]?.date ?? '';
+  const end = [workouts[workouts.length - 1].date, latestActivity].sort()[1];
+  const warmupStart = addDays(end, -(days + CHRONIC_DAYS - 1));
+  const start = addDays(end, -(days - 1));
+
+  const loads = workouts
+    .filter(workout => workout.date >= warmupStart)
+    .map(workout => ({ ...workout, ...sessionLoad(workout, range) }));
+
+  return {
+    range,
+    workouts: loads.filter(workout => workout.date >= start),
+    daily: dailyLoads(loads, warmupStart, end).slice(-days)
+  };
+}
@@ -4,104 +4,581 @@
  * HATEOAS CLI reference implementation using Effect CLI
  */
 
-import { Command, Args, Options } from '@effect/cli';
-import { Effect, Console } from 'effect';
-import { output } from './utils/responses.js';
+import { FileSystem, Path, Terminal } from '@effect/platform';
+import { NodeContext } from '@effect/platform-node';
+import { Effect, Option, Runtime, Either } from 'effect';
+import { output, error, exitWith, setOutputFormat, captureOutput } from './utils/responses.js';
+import { ERRORS, NoResponse, cliFailure } from './utils/errors.js';
+import { CLIResponse } from './types/responses.js';
+import { OUTPUT_FORMATS } from './utils/formats.js';
+import { DataProviderService, SOURCE_NAMES, selectProvider } from './data/provider.js';
+import { SCENARIO_NAMES } from './data/mockData.js';
 import { rootCommand } from './commands/root.js';
 import { statusCommand } from './commands/status.js';
 import { hrvCommand } from './commands/hrv.js';
 import { sleepCommand } from './commands/sleep.js';
-import { alertCommand } from './commands/alert.js';
+import { activityCommand } from './commands/activity.js';
+import { heartCommand } from './commands/heart.js';
+import { workoutsCommand } from './commands/workouts.js';
+import { readinessCommand } from './commands/readiness.js';
+import { compareCommand, CompareOptions } from './commands/compare.js';
+import { alertCommand, alertAckCommand, alertSnoozeCommand, alertHistoryCommand, alertTestSinkCommand } from './commands/alert.js';
 import { importCommand } from './commands/import.js';
+import { configGetCommand, configSetCommand, configValidateCommand } from './commands/config.js';
+import { schemaCommand } from './commands/schema.js';
+import { errorsCommand } from './commands/errors.js';
+import { Args, Command, Options, withConstraints, withDocs } from './commands/definitions.js';
+import { helpCommand, optionsFirst, registerCommandTree } from './commands/help.js';
+import { runMcpServer } from './commands/mcp.js';
+import { serveCommand } from './commands/serve.js';
+import { defineTool } from './commands/tools.js';
+import { batchCommand } from './commands/batch.js';
+import { PeriodOptions } from './utils/period.js';
+
+/** What Effect CLI needs from the platform - file checks and the terminal */
+type CliEnvironment = FileSystem.FileSystem | Path.Path | Terminal.Terminal;
 
 // Define CLI options
+const sourceOption = Options.choice('source', SOURCE_NAMES).pipe(
+  Options.withDescription('Data source: mock, store (imported data) or fixture (JSON file). Defaults to the store when one exists'),
+  Options.optional
+);
+
+const fixtureOption = Options.file('fixture', { exists: 'yes' }).pipe(
+  Options.withDescription('JSON fixture file for --source fixture'),
+  Options.optional
+);
+
+const seedOption = Options.integer('seed').pipe(
+  Options.withDescription('Seed for reproducible mock data'),
+  Options.optional
+);
+
+const asOfOption = Options.text('as-of').pipe(
+  Options.withDescription('Reference date (YYYY-MM-DD, default: today): mock data is generated up to it, store and fixture data after it is left out'),
+  Options.optional
+);
+
+const scenarioOption = Options.choice('scenario', SCENARIO_NAMES).pipe(
+  Options.withDescription('Mock data scenario shared by every command in the invocation'),
+  Options.optional
+);
+
+const formatOption = Options.choice('format', OUTPUT_FORMATS).pipe(
+  Options.withDescription('Output format: json (default), ndjson (one line), yaml, csv (data rows) or table (human-readable)'),
+  Options.withDefault('json' as const)
+);
+
 const daysOption = Options.integer('days').pipe(
   Options.withDescription('Number of days to analyze (1-90)'),
-  Options.withDefault(7)
+  Options.withDefault(7),
+  withConstraints({ min: 1, max: 90 })
 );
 
+// Period options for hrv and sleep - any two of --days, --from and --to
+const periodOptions = {
+  days: Options.integer('days').pipe(
+    Options.withDescription('Number of days to analyze (default: 7; up to 90, or the whole store history when longer)'),
+    Options.optional,
+    withConstraints({ min: 1 })
+  ),
+  from: Options.text('from').pipe(
+    Options.withDescription('First day of the period (YYYY-MM-DD)'),
+    Options.optional
+  ),
+  to: Options.text('to').pipe(
+    Options.withDescription('Last day of the period (YYYY-MM-DD, default: the latest day with data)'),
+    Options.optional
+  ),
+  groupBy: Options.choice('group-by', ['week', 'month'] as const).pipe(
+    Options.withDescription('Add per-week (ISO, Monday to Sunday) or per-month statistics'),
+    Options.optional
+  )
+};
+
+type PeriodOptionValues = { days: Option.Option<number>; from: Option.Option<string>; to: Option.Option<string>; groupBy: Option.Option<'week' | 'month'> };
+
+function toPeriod(options: PeriodOptionValues): PeriodOptions {
+  return {
+    days: Option.getOrUndefined(options.days),
+    from: Option.getOrUndefined(options.from),
+    to: Option.getOrUndefined(options.to),
+    groupBy: Option.getOrUndefined(options.groupBy)
+  };
+}
+
 const fileArg = Args.file({ name: 'file', exists: 'yes' }).pipe(
   Args.withDescription('Path to Apple Health XML export file')
 );
 
+const dryRunOption = Options.boolean('dry-run').pipe(
+  Options.withDescription('Parse the export without saving it to the local store')
+);
+
 // Define commands
 const status = Command.make('status', {}, () => 
-  Effect.sync(() => output(statusCommand()))
+  Effect.map(DataProviderService, provider => output(statusCommand(provider)))
 ).pipe(
-  Command.withDescription('Show today\'s health overview')
+  Command.withDescription('Show today\'s health overview'),
+  withDocs({ examples: ['health status                 # Today\'s overview'] })
 );
 
-const hrv = Command.make('hrv', { days: daysOption }, ({ days }) =>
-  Effect.sync(() => output(hrvCommand(days)))
+const hrv = Command.make('hrv', periodOptions, options =>
+  Effect.map(DataProviderService, provider => output(hrvCommand(provider, toPeriod(options))))
 ).pipe(
-  Command.withDescription('Show HRV trends and analysis')
+  Command.withDescription('Show HRV trends against your personal baseline'),
+  withDocs({
+    examples: [
+      'health hrv --days 14          # 2 weeks HRV trend',
+      'health hrv --from 2024-01-01 --to 2024-03-31 --group-by week  # Quarter by ISO week'
+    ],
+    note: 'The 7-day average is judged against a normal range of the 60-day baseline mean ± 0.5 SD, in ln-RMSSD when samples have beat-to-beat intervals, else SDNN'
+  })
 );
 
-const sleep = Command.make('sleep', { days: daysOption }, ({ days }) =>
-  Effect.sync(() => output(sleepCommand(days)))
+const sleep = Command.make('sleep', periodOptions, options =>
+  Effect.map(DataProviderService, provider => output(sleepCommand(provider, toPeriod(options))))
 ).pipe(
-  Command.withDescription('Show sleep analysis and patterns')
+  Command.withDescription('Show sleep stages, efficiency, latency, wake after sleep onset and patterns'),
+  withDocs({
+    examples: [
+      'health sleep --days 30        # Monthly sleep analysis',
+      'health sleep --from 2024-01-01 --to 2024-03-31 --group-by month  # Quarterly review'
+    ],
+    note: 'Nights are rebuilt from overlapping Sleep Analysis samples and dated by the final wake; sessions of under 3 hours asleep, and any but the longest on a day, are naps. Clock times use circular statistics, so nights either side of midnight average correctly'
+  })
 );
 
-const alert = Command.make('alert', {}, () =>
-  Effect.sync(() => output(alertCommand()))
+const activity = Command.make('activity', { days: daysOption }, ({ days }) =>
+  Effect.map(DataProviderService, provider => output(activityCommand(provider, days)))
 ).pipe(
-  Command.withDescription('Check health alerts and thresholds')
+  Command.withDescription('Show steps, active energy, exercise and stand hours trends'),
+  withDocs({ examples: ['health activity --days 30     # Goal-hit rate and weekday vs weekend'] })
 );
 
-const importCmd = Command.make('import', { file: fileArg }, ({ file }) =>
-  Effect.sync(() => output(importCommand(file)))
+const heart = Command.make('heart', { days: daysOption }, ({ days }) =>
+  Effect.map(DataProviderService, provider => output(heartCommand(provider, days)))
 ).pipe(
-  Command.withDescription('Import Apple Health XML data (parser only)')
+  Command.withDescription('Show resting heart rate vs baseline, heart rate zones and workout recovery'),
+  withDocs({
+    examples: ['health heart --days 14        # Resting HR drift and time in zones'],
+    note: 'Zones use heart.max_hr, else 220 - heart.age, else 190; set heart.zone_method to hrr for heart rate reserve zones'
+  })
 );
 
-// Root command (self-documenting)
-const root = Command.make('health', {}, () =>
-  Effect.sync(() => output(rootCommand()))
+const workouts = Command.make('workouts', { days: daysOption }, ({ days }) =>
+  Effect.map(DataProviderService, provider => output(workoutsCommand(provider, days)))
+).pipe(
+  Command.withDescription('Show workouts with training load, acute/chronic load and training stress balance'),
+  withDocs({
+    examples: ['health workouts --days 28      # Sessions and how load built up'],
+    note: 'Load is TRIMP from average heart rate, or duration x typical intensity without it; acute and chronic load are 7- and 42-day weighted averages'
+  })
+);
+
+const readiness = Command.make('readiness', {}, () =>
+  Effect.map(DataProviderService, provider => output(readinessCommand(provider)))
+).pipe(
+  Command.withDescription('Show today\'s readiness score and how much each factor raised or lowered it'),
+  withDocs({
+    examples: ['health readiness              # Score with its breakdown'],
+    note: 'Starts at 50; HRV and resting HR against 30-day baselines, sleep against an 8h need, sleep consistency and yesterday\'s training load add or take away points'
+  })
+);
+
+const compareOptions = {
+  metric: Options.text('metric').pipe(
+    Options.withDescription('Comma-separated metrics: hrv, resting_hr, sleep, sleep_score, steps, active_calories, exercise_minutes (default: all)'),
+    Options.optional
+  ),
+  period: Options.text('period').pipe(
+    Options.withDescription('Length of each period, ending on the latest day with data: days or weeks, e.g. 7d, 28d or 4w'),
+    Options.withDefault('7d')
+  ),
+  vs: Options.text('vs').pipe(
+    Options.withDescription('What to compare against: previous, same-last-year or a YYYY-MM-DD..YYYY-MM-DD range'),
+    Options.withDefault('previous')
+  )
+};
+
+function toCompare({ metric, period, vs }: { metric: Option.Option<string>; period: string; vs: string }): CompareOptions {
+  return { metrics: Option.getOrUndefined(metric), period, vs };
+}
+
+const compare = Command.make('compare', compareOptions, options =>
+  Effect.map(DataProviderService, provider => output(compareCommand(provider, toCompare(options))))
+).pipe(
+  Command.withDescription('Compare a period with the one before, the same dates last year or a date range, metric by metric'),
+  withDocs({
+    examples: [
+      'health compare --metric hrv,sleep,steps --period 7d --vs previous  # This week vs last week',
+      'health compare --period 4w --vs same-last-year  # Training block vs a year ago'
+    ],
+    note: 'Each metric gets the change in its mean, a rank-biserial effect size and a two-sided Mann-Whitney U test; p below 0.05 is significant'
+  })
+);
+
+const alertIdArg = Args.text({ name: 'id' }).pipe(
+  Args.withDescription('Alert id (the rule id shown in health alert)')
+);
+
+const alertAck = Command.make('ack', {
+  id: alertIdArg,
+  by: Options.text('by').pipe(
+    Options.withDescription('Who acknowledged the alert'),
+    Options.withDefault(process.env.USER ?? 'cli')
+  )
+}, ({ id, by }) =>
+  Effect.map(DataProviderService, provider => output(alertAckCommand(provider, id, by)))
+).pipe(
+  Command.withDescription('Acknowledge an active alert so it is not raised again')
+);
+
+const alertSnooze = Command.make('snooze', {
+  id: alertIdArg,
+  duration: Options.text('for').pipe(Options.withDescription('Snooze duration, e.g. 12h, 2d, 1w'))
+}, ({ id, duration }) =>
+  Effect.map(DataProviderService, provider => output(alertSnoozeCommand(provider, id, duration)))
+).pipe(
+  Command.withDescription('Silence an active alert for a while'),
+  withDocs({ examples: ['health alert snooze --for 2d sleep_debt  # Quiet an alert for two days'] })
+);
+
+const alertHistory = Command.make('history', {
+  limit: Options.integer('limit').pipe(
+    Options.withDescription('Number of most recent events to show'),
+    Options.withDefault(50),
+    withConstraints({ min: 1 })
+  )
+}, ({ limit }) =>
+  Effect.map(DataProviderService, provider => output(alertHistoryCommand(provider, limit)))
+).pipe(
+  Command.withDescription('Show alert state and lifecycle events')
+);
+
+const alertTestSink = Command.make('test-sink', {
+  name: Args.text({ name: 'name' }).pipe(Args.withDescription('Sink name from notifications.sinks'))
+}, ({ name }) =>
+  Effect.flatMap(DataProviderService, provider => Effect.promise(() => alertTestSinkCommand(provider, name))).pipe(Effect.map(output))
+).pipe(
+  Command.withDescription('Send a sample alert through one notification sink')
+);
+
+const changesOnlyOption = Options.boolean('changes-only').pipe(
+  Options.withDescription('Only list alerts that are new or escalated and not acknowledged or snoozed')
+);
+
+const alert = Command.make('alert', { changesOnly: changesOnlyOption }, ({ changesOnly }) =>
+  Effect.flatMap(DataProviderService, provider => Effect.promise(() => alertCommand(provider, changesOnly))).pipe(Effect.map(output))
+).pipe(
+  Command.withDescription('Check health alerts and thresholds'),
+  Command.withSubcommands([alertAck, alertSnooze, alertHistory, alertTestSink]),
+  withDocs({ examples: ['health alert                  # Check current alerts'] })
+);
+
+const importCmd = Command.make('import', { file: fileArg, dryRun: dryRunOption }, ({ file, dryRun }) =>
+  Effect.promise(() => importCommand(file, dryRun)).pipe(Effect.map(output))
+).pipe(
+  Command.withDescription('Import Apple Health XML data (streaming parser)'),
+  withDocs({
+    examples: ['health import export.xml       # Save an Apple Health export to the local store'],
+    note: 'Streams exports of any size into the local store; --dry-run only parses'
+  })
+);
+
+const configKeyArg = Args.text({ name: 'key' }).pipe(
+  Args.withDescription('Dotted config key, e.g. alerts.thresholds.hrv_low.warning')
+);
+
+const configGet = Command.make('get', { key: configKeyArg.pipe(Args.optional) }, ({ key }) =>
+  Effect.sync(() => output(configGetCommand(Option.getOrUndefined(key))))
+).pipe(
+  Command.withDescription('Show the effective configuration or a single key')
+);
+
+const configSet = Command.make('set', {
+  key: configKeyArg,
+  value: Args.text({ name: 'value' }).pipe(Args.withDescription('New value (JSON numbers and booleans are parsed)'))
+}, ({ key, value }) =>
+  Effect.sync(() => output(configSetCommand(key, value)))
+).pipe(
+  Command.withDescription('Change a config value (validated before it is written)')
+);
+
+const configValidate = Command.make('validate', {}, () =>
+  Effect.sync(() => output(configValidateCommand()))
+).pipe(
+  Command.withDescription('Validate the config file')
+);
+
+const config = Command.make('config', {}, () =>
+  Effect.sync(() => output(configGetCommand()))
+).pipe(
+  Command.withDescription('Read and change user configuration (alert thresholds)'),
+  Command.withSubcommands([configGet, configSet, configValidate]),
+  withDocs({
+    examples: ['health config set alerts.thresholds.hrv_low.warning 35  # Custom threshold'],
+    note: 'Stored in ~/.config/health-cli/config.json (override with HEALTH_CLI_CONFIG)'
+  })
+);
+
+const schemaCmd = Command.make('schema', {
+  target: Args.text({ name: 'command' }).pipe(
+    Args.withDescription('Command to describe, e.g. hrv or "alert history" (default: all)'),
+    Args.repeated
+  )
+}, ({ target }) =>
+  Effect.sync(() => output(schemaCommand(target.join(' ') || undefined)))
+).pipe(
+  Command.withDescription('JSON Schema (draft 2020-12) for the response envelope and command results'),
+  withDocs({
+    examples: ['health schema alert history   # Response contract for one command'],
+    note: 'Generated from the same Effect Schemas every response is encoded through'
+  })
+);
+
+const errorsCmd = Command.make('errors', {
+  code: Args.text({ name: 'code' }).pipe(
+    Args.withDescription('Error code to describe, e.g. INVALID_DAYS_RANGE (default: all)'),
+    Args.optional
+  )
+}, ({ code }) =>
+  Effect.sync(() => output(errorsCommand(Option.getOrUndefined(code))))
+).pipe(
+  Command.withDescription('Error codes with their exit codes, categories, retryability and fixes'),
+  withDocs({ note: 'The process exit code identifies the error; 0 is success' })
+);
+
+const helpCmd = Command.make('help', {
+  target: Args.text({ name: 'command' }).pipe(
+    Args.withDescription('Command to describe, e.g. hrv or "alert snooze" (default: the root command)'),
+    Args.repeated
+  )
+}, ({ target }) =>
+  Effect.sync(() => output(helpCommand(target.join(' ') || undefined)))
+).pipe(
+  Command.withDescription('Reference for one command: options, arguments, types, defaults, ranges and examples'),
+  withDocs({ examples: ['health help alert snooze       # Everything about one command'] })
+);
+
+// Command tools for mcp and serve - the same options and command functions as the CLI
+const tools = [
+  defineTool({
+    name: 'status',
+    description: 'Today\'s health overview: readiness score, HRV, sleep, activity, summary and recommendations',
+    options: {},
+    args: {},
+    run: (_, provider) => statusCommand(provider)
+  }),
+  defineTool({
+    name: 'hrv',
+    description: 'Heart Rate Variability against a 60-day personal baseline: normal range, coefficient of variation, SDNN and RMSSD',
+    options: periodOptions,
+    args: {},
+    run: (options, provider) => hrvCommand(provider, toPeriod(options))
+  }),
+  defineTool({
+    name: 'sleep',
+    description: 'Sleep analysis: stages, efficiency, latency, wake after sleep onset, naps, averages, patterns, sleep debt, consistency and regularity (Sleep Regularity Index, mid-sleep, social jet lag, chronotype)',
+    options: periodOptions,
+    args: {},
+    run: (options, provider) => sleepCommand(provider, toPeriod(options))
+  }),
+  defineTool({
+    name: 'activity',
+    description: 'Activity trends: daily steps, energy, exercise and stand hours, goal-hit rates and weekday vs weekend',
+    options: { days: daysOption },
+    args: {},
+    run: ({ days }, provider) => activityCommand(provider, days)
+  }),
+  defineTool({
+    name: 'heart',
+    description: 'Heart rate: resting HR against its 30-day baseline, time in five zones and post-workout recovery',
+    options: { days: daysOption },
+    args: {},
+    run: ({ days }, provider) => heartCommand(provider, days)
+  }),
+  defineTool({
+    name: 'workouts',
+    description: 'Workouts: sessions with TRIMP load, acute and chronic training load, training stress balance and acute:chronic ratio',
+    options: { days: daysOption },
+    args: {},
+    run: ({ days }, provider) => workoutsCommand(provider, days)
+  }),
+  defineTool({
+    name: 'readiness',
+    description: 'Readiness: a 0-100 recovery score from HRV, resting HR, sleep duration, sleep consistency and yesterday\'s training load, with the points each one added or took away',
+    options: {},
+    args: {},
+    run: (_, provider) => readinessCommand(provider)
+  }),
+  defineTool({
+    name: 'compare',
+    description: 'Period-over-period comparison per metric: change in the mean, percent change, rank-biserial effect size and a Mann-Whitney significance test, against the previous period, the same dates last year or a date range',
+    options: compareOptions,
+    args: {},
+    run: (options, provider) => compareCommand(provider, toCompare(options))
+  }),
+  defineTool({
+    name: 'alert',
+    description: 'Evaluate alert rules, record alert lifecycle and notify configured sinks',
+    options: { changesOnly: changesOnlyOption },
+    args: {},
+    run: ({ changesOnly }, provider) => alertCommand(provider, changesOnly)
+  }),
+  defineTool({
+    name: 'import',
+    description: 'Import an Apple Health XML export into the local store',
+    options: { dryRun: dryRunOption },
+    args: { file: fileArg },
+    run: ({ file, dryRun }) => importCommand(file, dryRun)
+  })
+];
+
+const mcp = Command.make('mcp', {}, () =>
+  Effect.all([DataProviderService, Effect.runtime<CliEnvironment>()]).pipe(
+    Effect.flatMap(([provider, runtime]) => Effect.promise(() => runMcpServer(tools, provider, runtime)))
+  )
+).pipe(
+  Command.withDescription('Run a Model Context Protocol server over stdio'),
+  withDocs({ note: 'status, hrv, sleep, activity, heart, workouts, readiness, compare, alert and import are tools; input schemas come from the command options and the data source is resolved once at startup' })
+);
+
+const serve = Command.make('serve', {
+  port: Options.integer('port').pipe(
+    Options.withDescription('Port to listen on (127.0.0.1 only)'),
+    Options.withDefault(8080),
+    withConstraints({ min: 0, max: 65535 })
+  )
+}, ({ port }) =>
+  Effect.all([DataProviderService, Effect.runtime<CliEnvironment>()]).pipe(
+    Effect.flatMap(([provider, runtime]) => Effect.promise(() => serveCommand(port, tools, provider, runtime))),
+    Effect.map(output)
+  )
+).pipe(
+  Command.withDescription('Serve the commands as a local HTTP API with hypermedia links'),
+  withDocs({ note: 'GET /status, /hrv?days=, /sleep?days=, /activity?days=, /heart?days=, /workouts?days=, /readiness, /compare?period=&vs=, /alerts and POST /import; responses add _links for next_actions and error codes map to HTTP statuses' })
+);
+
+const batch = Command.make('batch', {
+  stopOnError: Options.boolean('stop-on-error').pipe(
+    Options.withDescription('Stop after the first command that fails')
+  )
+}, ({ stopOnError }) =>
+  Effect.all([health, Effect.runtime<CliEnvironment>()]).pipe(
+    Effect.flatMap(([globals, runtime]) => Effect.promise(() => batchCommand(
+      argv => Runtime.runPromise(runtime)(runCommandLine([...globalArgs(globals, argv), ...argv])),
+      stopOnError
+    ))),
+    Effect.map(allOk => { process.exitCode = allOk ? 0 : 1; })
+  )
 ).pipe(
+  Command.withDescription('Run one command per stdin line (argv array or string) and write one NDJSON envelope per line'),
+  withDocs({
+    examples: ['health batch < commands.ndjson  # Many commands, one process'],
+    note: 'Lines may be {id, argv|command} objects; the id is echoed back. Exits 1 if any command failed'
+  })
+);
+
+// Root command (self-documenting), carries the global data source options
+const globalOptions = {
+  source: sourceOption,
+  fixture: fixtureOption,
+  seed: seedOption,
+  asOf: asOfOption,
+  scenario: scenarioOption,
+  format: formatOption
+};
+
+const health = Command.make('health', globalOptions, () =>
+  Effect.sync(() => output(rootCommand()))
+);
+
+/**
+ * Batch items inherit the data source options the batch itself was started
+ * with, except those the item gives itself. Effect CLI keeps the first of a
+ * repeated option, so the item's own would otherwise be ignored.
+ */
+function globalArgs({ source, fixture, seed, asOf, scenario }: Command.Command.ParseConfig<typeof globalOptions>, argv: string[]): string[] {
+  const given = new Set(argv.map(token => token.split('=')[0]));
+  const flags: Record<string, Option.Option<string | number>> = { source, fixture, seed, 'as-of': asOf, scenario };
+  return Object.entries(flags).flatMap(([flag, value]) =>
+    Option.isSome(value) && !given.has(`--${flag}`) ? [`--${flag}`, String(value.value)] : []);
+}
+
+const root = health.pipe(
   Command.withDescription('Agent-first health data CLI'),
-  Command.withSubcommands([status, hrv, sleep, alert, importCmd])
+  Command.withSubcommands([status, hrv, sleep, activity, heart, workouts, readiness, compare, alert, importCmd, config, schemaCmd, errorsCmd, helpCmd, mcp, serve, batch]),
+  Command.provideEffect(DataProviderService, ({ source, fixture, seed, asOf, scenario }) => {
+    const provider = selectProvider({
+      source: Option.getOrUndefined(source),
+      fixture: Option.getOrUndefined(fixture),
+      seed: Option.getOrUndefined(seed),
+      asOf: Option.getOrUndefined(asOf),
+      scenario: Option.getOrUndefined(scenario)
+    });
+    return 'ok' in provider ? Effect.sync(() => output(provider)) : Effect.succeed(provider);
+  }),
+  // Outermost, so the format is set before the data source is resolved
+  Command.provideEffectDiscard(({ format }) => Effect.sync(() => setOutputFormat(format))),
+  withDocs({
+    examples: [
+      'health --source mock status   # Force mock data',
+      'health --seed 7 --scenario jet-lag sleep  # Reproducible scenario',
+      'health --as-of 2024-02-15 status  # Reproduce a past day from any source',
+      'health --format csv hrv --days 30  # HRV rows for a spreadsheet'
+    ]
+  })
 );
 
+// rootCommand() and health help document the commands from this tree
+registerCommandTree(root);
+
 // CLI application
 const cli = Command.run(root, {
   name: 'health',
   version: '1.0.0'
 });
 
+/** Runs one command line in-process with its response captured */
+function runCommandLine(argv: string[]): Effect.Effect<Either.Either<CLIResponse, NoResponse>, never, CliEnvironment> {
+  return captureOutput(cli([process.argv[0], process.argv[1], ...optionsFirst(argv)]));
+}
+
+const invocation = process.argv.slice(2);
+
 // Handle uncaught errors with proper JSON error response
-process.on('uncaughtException', (error) => {
-  output({
-    ok: false,
-    command: 'health',
-    error: {
-      message: error.message,
-      code: 'UNCAUGHT_EXCEPTION'
-    },
-    fix: 'Report this error to the maintainers',
-    next_actions: [
-      { command: 'health', description: 'Try again with root command' }
-    ]
-  });
+process.on('uncaughtException', (uncaught) => {
+  exitWith(error(invocation.join(' '), uncaught.message, 'UNCAUGHT_EXCEPTION'));
 });
 
 process.on('unhandledRejection', (reason) => {
-  output({
-    ok: false,
-    command: 'health', 
-    error: {
-      message: `Unhandled promise rejection: ${reason}`,
-      code: 'UNHANDLED_REJECTION'
-    },
-    fix: 'Report this error to the maintainers',
-    next_actions: [
-      { command: 'health', description: 'Try again with root command' }
-    ]
-  });
+  exitWith(error(invocation.join(' '), `Unhandled promise rejection: ${reason}`, 'UNHANDLED_REJECTION'));
 });
 
-// Run the CLI
-Effect.runPromise(cli(process.argv)).catch(() => {
-  // Effect CLI handles its own errors, but just in case
-  process.exit(1);
-});
\ No newline at end of file
+/** Built-ins whose output is text for people; Effect CLI prints those itself */
+const HELP_FLAGS = ['--help', '-h', '--version', '--wizard', '--completions'];
+
+// Run the CLI - everything else, including Effect CLI's own validation errors, ends in a JSON envelope
+const main = invocation.some(arg => HELP_FLAGS.includes(arg))
+  ? cli(process.argv).pipe(
+    Effect.catchAll(() => Effect.sync(() => { process.exitCode = ERRORS.INVALID_ARGUMENTS.exit_code; }))
+  )
+  : runCommandLine(invocation).pipe(
+    Effect.map(Either.match({
+      onRight: exitWith,
+      onLeft: ended => {
+        // No failure means the command wrote its own output (mcp, serve, batch)
+        const failure = cliFailure(invocation.join(' '), ended);
+        if (failure) exitWith(error(invocation.join(' '), failure.message, failure.code));
+      }
+    }))
+  );
+
+Effect.runPromise(main.pipe(Effect.provide(NodeContext.layer))).catch((runError: unknown) => {
+  exitWith(error(
+    invocation.join(' '),
+    `The CLI failed to start: ${runError instanceof Error ? runError.message : String(runError)}`,
+    'INTERNAL_ERROR'
+  ));
+});
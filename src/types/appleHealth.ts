@@ -0,0 +1,83 @@
+/**
+ * Apple Health export element types
+ * Mirrors the structure of export.xml as emitted by the Health app
+ */
+
+export type XMLAttributes = Record<string, string>;
+
+export interface MetadataEntry {
+  key: string;
+  value: string;
+}
+
+export interface InstantaneousBeat {
+  bpm: number;
+  time: string;
+}
+
+export interface HealthRecord {
+  type: string;
+  sourceName?: string;
+  sourceVersion?: string;
+  device?: string;
+  unit?: string;
+  creationDate?: string;
+  startDate: string;
+  endDate: string;
+  value?: string;
+  metadata: MetadataEntry[];
+  beats: InstantaneousBeat[];
+}
+
+export interface WorkoutStatistic {
+  type: string;
+  startDate?: string;
+  endDate?: string;
+  average?: number;
+  minimum?: number;
+  maximum?: number;
+  sum?: number;
+  unit?: string;
+}
+
+export interface Workout {
+  activityType: string;
+  duration?: number;
+  durationUnit?: string;
+  totalDistance?: number;
+  totalDistanceUnit?: string;
+  totalEnergyBurned?: number;
+  totalEnergyBurnedUnit?: string;
+  sourceName?: string;
+  startDate: string;
+  endDate: string;
+  metadata: MetadataEntry[];
+  statistics: WorkoutStatistic[];
+}
+
+export interface ActivitySummary {
+  date: string;
+  activeEnergyBurned?: number;
+  activeEnergyBurnedGoal?: number;
+  activeEnergyBurnedUnit?: string;
+  appleExerciseTime?: number;
+  appleExerciseTimeGoal?: number;
+  appleStandHours?: number;
+  appleStandHoursGoal?: number;
+}
+
+export interface Correlation {
+  type: string;
+  sourceName?: string;
+  startDate: string;
+  endDate: string;
+  metadata: MetadataEntry[];
+  records: HealthRecord[];
+}
+
+export interface ParseProgress {
+  bytes_read: number;
+  total_bytes: number;
+  percent: number;
+  elements: number;
+}
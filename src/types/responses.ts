@@ -3,15 +3,54 @@
  * Following HATEOAS principles for next actions
  */
 
+/** How a next action relates to the response it came with */
+export type ActionRel = 'drill-down' | 'widen-range' | 'remediate' | 'navigate';
+
+export type ActionPriority = 'high' | 'medium' | 'low';
+
+/** A templated value: the action's argv holds `{name}` where it goes */
+export interface ActionParam {
+  name: string;
+  type: 'integer' | 'string' | 'path' | 'duration' | 'date';
+  required: boolean;
+  /** The suggested value, used in `command` */
+  default?: string | number;
+  min?: number;
+  max?: number;
+  description?: string;
+}
+
 export interface NextAction {
+  /** Shell form, kept for compatibility: argv with defaults filled in and <name> for required params */
   command: string;
   description: string;
+  argv: string[];
+  params?: ActionParam[];
+  rel: ActionRel;
+  priority: ActionPriority;
+  /** The data that triggered the action, e.g. "added because HRV category is low" */
+  reason?: string;
+}
+
+export interface DataSourceInfo {
+  type: 'mock' | 'store' | 'fixture';
+  store?: string;
+  fixture?: string;
+  imported_at?: string;
+  seed?: number;
+  as_of?: string;
+  scenario?: string;
+  coverage?: {
+    start: string;
+    end: string;
+  } | null;
 }
 
 export interface SuccessResponse<T = any> {
   ok: true;
   command: string;
   result: T;
+  data_source?: DataSourceInfo;
   next_actions: NextAction[];
 }
 
@@ -21,6 +60,9 @@ export interface ErrorResponse {
   error: {
     message: string;
     code: string;
+    category: 'usage' | 'data' | 'io' | 'internal';
+    /** Whether the same command can succeed later without changes */
+    retryable: boolean;
   };
   fix: string;
   next_actions: NextAction[];
@@ -32,6 +74,8 @@ export type CLIResponse<T = any> = SuccessResponse<T> | ErrorResponse;
 export interface HRVData {
   date: string;
   value: number; // milliseconds
+  /** RMSSD in milliseconds from beat-to-beat intervals; null without them */
+  rmssd: number | null;
   category: 'low' | 'normal' | 'high';
 }
 
@@ -40,9 +84,59 @@ export interface SleepData {
   duration_hours: number;
   deep_sleep_hours: number;
   rem_sleep_hours: number;
+  /** Null when the source records no sleep stages */
+  core_sleep_hours: number | null;
   sleep_score: number;
   bedtime: string;
   wake_time: string;
+  time_in_bed_hours: number | null;
+  /** Asleep time as a percentage of time in bed */
+  efficiency: number | null;
+  /** Minutes from getting into bed to falling asleep */
+  latency_minutes: number | null;
+  /** Wake after sleep onset, in minutes */
+  waso_minutes: number | null;
+  /** Naps ending on the same day, outside the main sleep */
+  nap_count: number;
+  nap_hours: number;
+}
+
+export interface ActivityData {
+  date: string;
+  steps: number;
+  active_calories: number;
+  exercise_minutes: number;
+  stand_hours: number;
+}
+
+export interface HeartRateData {
+  date: string;
+  resting_hr: number | null; // bpm
+  walking_hr_avg: number | null; // bpm
+  /** Minutes spent at each heart rate; zones are drawn over this at analysis time */
+  hr_minutes: { bpm: number; minutes: number }[];
+}
+
+export interface HeartRecoveryData {
+  date: string;
+  workout: string;
+  end_time: string;
+  end_hr: number;
+  /** Drop in bpm one and two minutes after the workout ended */
+  recovery_1_min: number | null;
+  recovery_2_min: number | null;
+}
+
+export interface WorkoutData {
+  date: string;
+  /** Activity type without the HKWorkoutActivityType prefix, e.g. Running */
+  type: string;
+  start_time: string;
+  duration_minutes: number;
+  distance_km: number | null;
+  energy_kcal: number | null;
+  avg_hr: number | null;
+  max_hr: number | null;
 }
 
 export interface HealthStatus {
@@ -57,29 +151,48 @@ export interface HealthStatus {
     avg_7_day: number;
     score: number;
   };
+  /** null when there is no activity for the status date */
   activity: {
     steps: number;
     active_calories: number;
     exercise_minutes: number;
-  };
+  } | null;
   alerts: string[];
 }
 
 export interface AlertThreshold {
+  rule: string;
   metric: string;
+  condition: string;
   threshold: number;
   current: number;
+  baseline?: number;
   status: 'ok' | 'warning' | 'critical';
   message: string;
 }
 
 export interface ImportResult {
   file: string;
+  bytes_processed: number;
+  duration_ms: number;
   records_processed: number;
+  elements: {
+    records: number;
+    workouts: number;
+    activity_summaries: number;
+    correlations: number;
+  };
   data_types: string[];
+  record_types: Record<string, number>;
   date_range: {
     start: string;
     end: string;
   };
+  store: {
+    path: string;
+    collections: number;
+    imported_at: string;
+  } | null;
   warnings: string[];
+  note: string;
 }
\ No newline at end of file
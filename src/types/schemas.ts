@@ -0,0 +1,796 @@
+/**
+ * Effect Schemas for the response envelope and every command result
+ * success() encodes results through these, and `health schema` publishes
+ * them as JSON Schema - they are the contract agents can validate against
+ */
+import { Schema } from 'effect';
+import { AlertRuleSchema, SinkSchema, THRESHOLD_KEYS } from '../utils/config.js';
+
+// Envelope
+
+export const ActionParamSchema = Schema.Struct({
+  name: Schema.String,
+  type: Schema.Literal('integer', 'string', 'path', 'duration', 'date'),
+  required: Schema.Boolean,
+  default: Schema.optional(Schema.Union(Schema.String, Schema.Number)),
+  min: Schema.optional(Schema.Number),
+  max: Schema.optional(Schema.Number),
+  description: Schema.optional(Schema.String)
+}).annotations({ identifier: 'ActionParam', description: 'A templated value; argv holds {name} where it goes' });
+
+export const NextActionSchema = Schema.Struct({
+  command: Schema.String.annotations({ description: 'Shell form: argv with defaults filled in and <name> for required params' }),
+  description: Schema.String,
+  argv: Schema.Array(Schema.String),
+  params: Schema.optional(Schema.Array(ActionParamSchema)),
+  rel: Schema.Literal('drill-down', 'widen-range', 'remediate', 'navigate'),
+  priority: Schema.Literal('high', 'medium', 'low'),
+  reason: Schema.optional(Schema.String)
+}).annotations({ identifier: 'NextAction' });
+
+export const DataSourceInfoSchema = Schema.Struct({
+  type: Schema.Literal('mock', 'store', 'fixture'),
+  store: Schema.optional(Schema.String),
+  fixture: Schema.optional(Schema.String),
+  imported_at: Schema.optional(Schema.String),
+  seed: Schema.optional(Schema.Number),
+  as_of: Schema.optional(Schema.String),
+  scenario: Schema.optional(Schema.String),
+  coverage: Schema.optional(Schema.NullOr(Schema.Struct({ start: Schema.String, end: Schema.String })))
+}).annotations({ identifier: 'DataSourceInfo' });
+
+export const ErrorResponseSchema = Schema.Struct({
+  ok: Schema.Literal(false),
+  command: Schema.String,
+  error: Schema.Struct({
+    message: Schema.String,
+    code: Schema.String.annotations({ description: 'Documented by health errors' }),
+    category: Schema.Literal('usage', 'data', 'io', 'internal'),
+    retryable: Schema.Boolean
+  }),
+  fix: Schema.String,
+  next_actions: Schema.Array(NextActionSchema)
+}).annotations({ identifier: 'ErrorResponse', description: 'Every failed command returns this envelope' });
+
+export function successResponseSchema<S extends Schema.Schema.Any>(result: S) {
+  return Schema.Struct({
+    ok: Schema.Literal(true),
+    command: Schema.String,
+    result,
+    data_source: Schema.optional(DataSourceInfoSchema),
+    next_actions: Schema.Array(NextActionSchema)
+  }).annotations({ description: 'Every successful command returns this envelope' });
+}
+
+// Shared pieces
+
+const DateString = Schema.String.annotations({ description: 'Calendar day, YYYY-MM-DD' });
+const ClockTime = Schema.String.annotations({ description: 'Local wall-clock time, HH:MM' });
+const Timestamp = Schema.String.annotations({ description: 'ISO 8601 timestamp' });
+const Trend = Schema.Literal('improving', 'declining', 'stable', 'insufficient_data');
+const HRVCategory = Schema.Literal('low', 'normal', 'high');
+const AlertStatus = Schema.Literal('ok', 'warning', 'critical');
+
+const Period = Schema.Struct({
+  days: Schema.Number,
+  start_date: DateString,
+  end_date: DateString
+});
+
+/** Mean of the last 3 days vs the first 3 days of the period */
+const TrendAnalysis = Schema.Struct({
+  direction: Trend,
+  change: Schema.Number,
+  change_percent: Schema.optional(Schema.Number),
+  significance: Schema.Literal('none', 'moderate', 'significant')
+});
+
+export const HRVDataSchema = Schema.Struct({
+  date: DateString,
+  value: Schema.Number.annotations({ description: 'SDNN in milliseconds' }),
+  rmssd: Schema.NullOr(Schema.Number).annotations({ description: 'RMSSD in milliseconds from beat-to-beat intervals; null without them' }),
+  category: HRVCategory.annotations({ description: 'The 7-day average against the personal normal range; fixed 30/60 ms cutoffs until there is a baseline' })
+}).annotations({ identifier: 'HRVData' });
+
+export const SleepDataSchema = Schema.Struct({
+  date: DateString,
+  duration_hours: Schema.Number,
+  deep_sleep_hours: Schema.Number,
+  rem_sleep_hours: Schema.Number,
+  core_sleep_hours: Schema.NullOr(Schema.Number).annotations({ description: 'Null when the source records no sleep stages' }),
+  sleep_score: Schema.Number,
+  bedtime: ClockTime.annotations({ description: 'Start of the main sleep session - in bed, or asleep without an in-bed record' }),
+  wake_time: ClockTime.annotations({ description: 'Final wake of the main sleep session' }),
+  time_in_bed_hours: Schema.NullOr(Schema.Number),
+  efficiency: Schema.NullOr(Schema.Number).annotations({ description: 'Asleep time as a percentage of time in bed' }),
+  latency_minutes: Schema.NullOr(Schema.Number).annotations({ description: 'Minutes from getting into bed to falling asleep' }),
+  waso_minutes: Schema.NullOr(Schema.Number).annotations({ description: 'Wake after sleep onset, in minutes' }),
+  nap_count: Schema.Number,
+  nap_hours: Schema.Number
+}).annotations({ identifier: 'SleepData' });
+
+export const ActivityDataSchema = Schema.Struct({
+  date: DateString,
+  steps: Schema.Number,
+  active_calories: Schema.Number.annotations({ description: 'Active energy in kcal' }),
+  exercise_minutes: Schema.Number,
+  stand_hours: Schema.Number
+}).annotations({ identifier: 'ActivityData' });
+
+export const WorkoutDataSchema = Schema.Struct({
+  date: DateString,
+  type: Schema.String.annotations({ description: 'Activity type without the HKWorkoutActivityType prefix, e.g. Running' }),
+  start_time: ClockTime,
+  duration_minutes: Schema.Number,
+  distance_km: Schema.NullOr(Schema.Number),
+  energy_kcal: Schema.NullOr(Schema.Number),
+  avg_hr: Schema.NullOr(Schema.Number),
+  max_hr: Schema.NullOr(Schema.Number)
+}).annotations({ identifier: 'WorkoutData' });
+
+export const HeartRecoveryDataSchema = Schema.Struct({
+  date: DateString,
+  workout: Schema.String,
+  end_time: ClockTime,
+  end_hr: Schema.Number,
+  recovery_1_min: Schema.NullOr(Schema.Number).annotations({ description: 'Drop in bpm one minute after the workout ended' }),
+  recovery_2_min: Schema.NullOr(Schema.Number).annotations({ description: 'Drop in bpm two minutes after the workout ended' })
+}).annotations({ identifier: 'HeartRecoveryData' });
+
+export const HealthStatusSchema = Schema.Struct({
+  date: DateString,
+  hrv: Schema.Struct({
+    current: Schema.Number,
+    trend: Schema.Literal('up', 'down', 'stable'),
+    category: HRVCategory
+  }),
+  sleep: Schema.Struct({
+    last_night_hours: Schema.Number,
+    avg_7_day: Schema.Number,
+    score: Schema.Number
+  }),
+  activity: Schema.NullOr(Schema.Struct({
+    steps: Schema.Number,
+    active_calories: Schema.Number,
+    exercise_minutes: Schema.Number
+  })),
+  alerts: Schema.Array(Schema.String)
+});
+
+export const AlertThresholdSchema = Schema.Struct({
+  rule: Schema.String,
+  metric: Schema.String,
+  condition: Schema.String,
+  threshold: Schema.Number,
+  current: Schema.Number,
+  baseline: Schema.optional(Schema.Number),
+  status: AlertStatus,
+  message: Schema.String
+}).annotations({ identifier: 'AlertThreshold' });
+
+export const AlertRecordSchema = Schema.Struct({
+  id: Schema.String,
+  metric: Schema.String,
+  status: Schema.Literal('warning', 'critical', 'resolved'),
+  first_seen: Timestamp,
+  last_seen: Timestamp,
+  occurrences: Schema.Number,
+  acknowledged_by: Schema.NullOr(Schema.String),
+  acknowledged_at: Schema.NullOr(Timestamp),
+  snoozed_until: Schema.NullOr(Timestamp)
+}).annotations({ identifier: 'AlertRecord' });
+
+export const AlertEventSchema = Schema.Struct({
+  at: Timestamp,
+  id: Schema.String,
+  event: Schema.Literal('new', 'escalated', 'resolved', 'acknowledged', 'snoozed'),
+  status: Schema.Literal('warning', 'critical', 'resolved'),
+  current: Schema.optional(Schema.Number),
+  by: Schema.optional(Schema.String),
+  until: Schema.optional(Timestamp),
+  reason: Schema.optional(Schema.String)
+}).annotations({ identifier: 'AlertEvent' });
+
+export const DeliveryResultSchema = Schema.Struct({
+  sink: Schema.String,
+  type: Schema.Literal('webhook', 'exec', 'outbox'),
+  alert: Schema.String,
+  ok: Schema.Boolean,
+  attempts: Schema.Number,
+  error: Schema.optional(Schema.String)
+}).annotations({ identifier: 'DeliveryResult' });
+
+const Advice = Schema.Struct({
+  immediate: Schema.Array(Schema.String),
+  short_term: Schema.Array(Schema.String),
+  long_term: Schema.Array(Schema.String)
+});
+
+/** The merged configuration `health config get` reports */
+export const EffectiveConfigSchema = Schema.Struct({
+  alerts: Schema.Struct({
+    thresholds: Schema.Record({
+      key: Schema.Literal(...THRESHOLD_KEYS),
+      value: Schema.Struct({
+        metric: Schema.String,
+        direction: Schema.Literal('below', 'above'),
+        unit: Schema.String,
+        warning: Schema.Number,
+        critical: Schema.Number,
+        enabled: Schema.Boolean
+      })
+    }),
+    rules: Schema.Array(AlertRuleSchema)
+  }),
+  notifications: Schema.Struct({
+    sinks: Schema.Record({ key: Schema.String, value: SinkSchema })
+  }),
+  heart: Schema.Struct({
+    zone_method: Schema.Literal('max_hr', 'hrr'),
+    max_hr: Schema.NullOr(Schema.Int),
+    age: Schema.NullOr(Schema.Int),
+    resting_hr: Schema.NullOr(Schema.Int)
+  })
+});
+
+// Command results
+
+const ParameterDocSchema = Schema.Struct({
+  /** Flag for options (--days), <name> for positional arguments */
+  name: Schema.String,
+  type: Schema.Literal('string', 'integer', 'number', 'boolean', 'choice', 'path', 'date-time'),
+  required: Schema.Boolean,
+  repeated: Schema.optional(Schema.Boolean),
+  default: Schema.optional(Schema.Union(Schema.String, Schema.Number, Schema.Boolean)),
+  choices: Schema.optional(Schema.Array(Schema.String)),
+  min: Schema.optional(Schema.Number),
+  max: Schema.optional(Schema.Number),
+  must_exist: Schema.optional(Schema.Boolean),
+  aliases: Schema.optional(Schema.Array(Schema.String)),
+  description: Schema.optional(Schema.String)
+}).annotations({ identifier: 'ParameterDoc' });
+
+const CommandDocSchema = Schema.Struct({
+  /** Path below the program name, e.g. "alert snooze"; "health" is the root */
+  name: Schema.String,
+  description: Schema.String,
+  usage: Schema.String,
+  options: Schema.Array(ParameterDocSchema),
+  args: Schema.Array(ParameterDocSchema),
+  subcommands: Schema.optional(Schema.Array(Schema.String)),
+  examples: Schema.optional(Schema.Array(Schema.String)),
+  note: Schema.optional(Schema.String)
+}).annotations({ identifier: 'CommandDoc' });
+
+export const RootResultSchema = Schema.Struct({
+  name: Schema.String,
+  version: Schema.String,
+  description: Schema.String,
+  design_principles: Schema.Array(Schema.String),
+  global_options: Schema.Array(ParameterDocSchema),
+  commands: Schema.Array(CommandDocSchema),
+  examples: Schema.Array(Schema.String),
+  data_sources: Schema.Struct({
+    note: Schema.String,
+    supported_formats: Schema.Array(Schema.String),
+    privacy: Schema.String
+  })
+}).annotations({ identifier: 'RootResult' });
+
+export const HelpResultSchema = Schema.Struct({
+  command: CommandDocSchema,
+  subcommands: Schema.Array(CommandDocSchema),
+  global_options: Schema.Array(ParameterDocSchema)
+}).annotations({ identifier: 'HelpResult' });
+
+const ReadinessLevel = Schema.Literal('high', 'moderate', 'low', 'poor')
+  .annotations({ description: 'From the score: 70 and up, 50 and up, 30 and up, below 30' });
+
+const ReadinessCoverage = Schema.Number
+  .annotations({ description: 'Share of the factor weights that had data, 0-1; below 1 the score is closer to 50 than full data would put it' });
+
+export const StatusResultSchema = Schema.extend(HealthStatusSchema, Schema.Struct({
+  readiness: Schema.NullOr(Schema.Struct({
+    score: Schema.Number,
+    coverage: ReadinessCoverage,
+    level: ReadinessLevel,
+    recommendation: Schema.String
+  })).annotations({ description: 'Composite recovery score; health readiness shows its breakdown' }),
+  summary: Schema.String,
+  recommendations: Schema.Array(Schema.String)
+})).annotations({ identifier: 'StatusResult' });
+
+const HRVMetric = Schema.Literal('sdnn', 'ln_rmssd')
+  .annotations({ description: 'sdnn: Apple Health SDNN in ms; ln_rmssd: natural log of RMSSD from beat-to-beat intervals' });
+
+export const HRVResultSchema = Schema.Struct({
+  period: Period,
+  current: Schema.Struct({
+    value: Schema.Number.annotations({ description: 'SDNN in milliseconds' }),
+    rmssd: Schema.NullOr(Schema.Number),
+    ln_rmssd: Schema.NullOr(Schema.Number),
+    category: HRVCategory,
+    date: DateString
+  }),
+  baseline: Schema.NullOr(Schema.Struct({
+    metric: HRVMetric,
+    rolling_average: Schema.Number.annotations({ description: 'Average of the last 7 days, in the baseline metric' }),
+    rolling_cv_percent: Schema.NullOr(Schema.Number).annotations({ description: 'Day-to-day variation over the last 7 days; null with fewer than 3 readings' }),
+    mean: Schema.Number.annotations({ description: 'Mean of the 60 days before the last 7' }),
+    sd: Schema.Number,
+    cv_percent: Schema.Number,
+    normal_range: Schema.Struct({ lower: Schema.Number, upper: Schema.Number }).annotations({ description: 'Baseline mean ± 0.5 SD' }),
+    readings: Schema.Number,
+    position: Schema.Literal('below', 'within', 'above')
+  })).annotations({ description: 'Null until the 60 days before the last 7 have 14 readings' }),
+  beat_to_beat: Schema.NullOr(Schema.Struct({
+    days: Schema.Number.annotations({ description: 'Days in the period with RMSSD' }),
+    average_rmssd: Schema.Number,
+    average_ln_rmssd: Schema.Number
+  })).annotations({ description: 'RMSSD from the beat lists recorded with HRV samples; null without them' }),
+  statistics: Schema.Struct({
+    average: Schema.Number,
+    min: Schema.Number,
+    max: Schema.Number,
+    std_dev: Schema.Number
+  }),
+  trend: TrendAnalysis.annotations({ description: 'The 7-day average against the baseline; without one, the second half of the period against the first with a Mann-Whitney test' }),
+  distribution: Schema.Struct({
+    low: Schema.Number,
+    normal: Schema.Number,
+    high: Schema.Number
+  }),
+  groups: Schema.optional(Schema.Array(Schema.Struct({
+    period: Schema.String.annotations({ description: 'ISO week (2024-W03) or month (2024-01)' }),
+    start_date: DateString,
+    end_date: DateString,
+    days: Schema.Number.annotations({ description: 'Days with a reading' }),
+    average: Schema.Number,
+    min: Schema.Number,
+    max: Schema.Number,
+    std_dev: Schema.Number,
+    average_rmssd: Schema.NullOr(Schema.Number),
+    low_days: Schema.Number
+  }))).annotations({ description: 'Per-week or per-month statistics with --group-by; the first and last are clipped to the period' }),
+  data: Schema.Array(HRVDataSchema),
+  insights: Schema.Array(Schema.String)
+}).annotations({ identifier: 'HRVResult' });
+
+const NightSummary = Schema.Struct({
+  date: DateString,
+  score: Schema.Number,
+  duration: Schema.Number
+});
+
+export const SleepResultSchema = Schema.Struct({
+  period: Period,
+  last_night: Schema.Struct({
+    duration: Schema.Number,
+    score: Schema.Number,
+    bedtime: ClockTime,
+    wake_time: ClockTime,
+    deep_sleep: Schema.Number,
+    rem_sleep: Schema.Number,
+    core_sleep: Schema.NullOr(Schema.Number),
+    time_in_bed: Schema.NullOr(Schema.Number),
+    efficiency: Schema.NullOr(Schema.Number),
+    latency_minutes: Schema.NullOr(Schema.Number),
+    waso_minutes: Schema.NullOr(Schema.Number)
+  }),
+  averages: Schema.Struct({
+    duration: Schema.Number,
+    score: Schema.Number,
+    deep_sleep: Schema.Number,
+    rem_sleep: Schema.Number,
+    core_sleep: Schema.NullOr(Schema.Number),
+    bedtime: ClockTime,
+    wake_time: ClockTime,
+    efficiency: Schema.NullOr(Schema.Number),
+    latency_minutes: Schema.NullOr(Schema.Number),
+    waso_minutes: Schema.NullOr(Schema.Number)
+  }).annotations({ description: 'Null fields have no nights with that measurement' }),
+  naps: Schema.Struct({
+    days_with_naps: Schema.Number,
+    total_hours: Schema.Number,
+    average_minutes: Schema.NullOr(Schema.Number).annotations({ description: 'Per nap' })
+  }),
+  patterns: Schema.Struct({
+    duration_trend: Trend,
+    quality_trend: Trend,
+    sufficient_sleep_days: Schema.Number,
+    total_days: Schema.Number,
+    best_night: NightSummary,
+    worst_night: NightSummary
+  }),
+  sleep_debt: Schema.Struct({
+    total_hours: Schema.Number,
+    avg_per_night: Schema.Number,
+    status: Schema.Literal('minimal', 'moderate', 'significant')
+  }),
+  consistency: Schema.Struct({
+    bedtime_variance: Schema.Number.annotations({ description: 'Standard deviation in minutes' }),
+    wake_time_variance: Schema.Number.annotations({ description: 'Standard deviation in minutes' }),
+    sleep_regularity_index: Schema.NullOr(Schema.Number).annotations({ description: 'SRI, -100 to 100: the chance of the same sleep/wake state 24 hours apart, scaled; null with fewer than 3 pairs of consecutive nights' }),
+    consistency_score: Schema.Number.annotations({ description: '100 minus the mean deviation, averaged with the SRI when there is one' })
+  }).annotations({ description: 'Deviations are circular, so nights either side of midnight are close' }),
+  regularity: Schema.Struct({
+    midpoint: ClockTime.annotations({ description: 'Mean midpoint between bedtime and wake time' }),
+    workday_midpoint: Schema.NullOr(ClockTime),
+    free_day_midpoint: Schema.NullOr(ClockTime).annotations({ description: 'Nights waking on Saturday or Sunday' }),
+    social_jet_lag_minutes: Schema.NullOr(Schema.Number).annotations({ description: 'Free-day midpoint minus workday midpoint; null without 2 nights of each' }),
+    chronotype: Schema.NullOr(Schema.Struct({
+      corrected_free_day_midpoint: ClockTime.annotations({ description: 'Free-day midpoint corrected for catch-up sleep (MSFsc)' }),
+      category: Schema.Literal('early', 'intermediate', 'late')
+    }))
+  }),
+  groups: Schema.optional(Schema.Array(Schema.Struct({
+    period: Schema.String.annotations({ description: 'ISO week (2024-W03) or month (2024-01)' }),
+    start_date: DateString,
+    end_date: DateString,
+    nights: Schema.Number,
+    duration: Schema.Number,
+    score: Schema.Number,
+    deep_sleep: Schema.Number,
+    rem_sleep: Schema.Number,
+    efficiency: Schema.NullOr(Schema.Number),
+    bedtime: ClockTime,
+    wake_time: ClockTime,
+    sleep_debt_hours: Schema.Number.annotations({ description: 'Total shortfall against 8 hours a night' }),
+    consistency_score: Schema.Number
+  }))).annotations({ description: 'Per-week or per-month statistics with --group-by; the first and last are clipped to the period' }),
+  data: Schema.Array(SleepDataSchema),
+  insights: Schema.Array(Schema.String)
+}).annotations({ identifier: 'SleepResult' });
+
+const ActivityAverages = Schema.Struct({
+  steps: Schema.Number,
+  active_calories: Schema.Number,
+  exercise_minutes: Schema.Number,
+  stand_hours: Schema.Number
+});
+
+const GoalProgress = Schema.Struct({
+  target: Schema.Number,
+  days_met: Schema.Number,
+  hit_rate: Schema.Number.annotations({ description: 'Percent of days at or above the target' })
+});
+
+export const ActivityResultSchema = Schema.Struct({
+  period: Period,
+  latest: ActivityDataSchema,
+  averages: ActivityAverages,
+  goals: Schema.Struct({
+    steps: GoalProgress,
+    active_calories: GoalProgress,
+    exercise_minutes: GoalProgress,
+    stand_hours: GoalProgress
+  }),
+  weekday_vs_weekend: Schema.Struct({
+    weekday: Schema.NullOr(Schema.extend(ActivityAverages, Schema.Struct({ days: Schema.Number }))),
+    weekend: Schema.NullOr(Schema.extend(ActivityAverages, Schema.Struct({ days: Schema.Number }))),
+    steps_difference_percent: Schema.NullOr(Schema.Number).annotations({ description: 'Weekend steps vs weekday steps; null unless both occur' })
+  }),
+  trend: Schema.Struct({
+    steps: TrendAnalysis,
+    active_calories: TrendAnalysis,
+    exercise_minutes: TrendAnalysis,
+    stand_hours: TrendAnalysis
+  }),
+  data: Schema.Array(ActivityDataSchema),
+  insights: Schema.Array(Schema.String)
+}).annotations({ identifier: 'ActivityResult' });
+
+const HeartZone = Schema.Struct({
+  zone: Schema.Number,
+  name: Schema.String,
+  min_bpm: Schema.Number,
+  max_bpm: Schema.Number,
+  minutes: Schema.Number,
+  percent: Schema.Number.annotations({ description: 'Percent of the minutes spent in any zone' })
+});
+
+export const HeartResultSchema = Schema.Struct({
+  period: Period,
+  resting_hr: Schema.Struct({
+    latest: Schema.NullOr(Schema.Number),
+    average: Schema.NullOr(Schema.Number),
+    min: Schema.NullOr(Schema.Number),
+    max: Schema.NullOr(Schema.Number),
+    baseline: Schema.NullOr(Schema.Number).annotations({ description: 'Mean of the 30 days before the latest reading; null with fewer than 15 of them' }),
+    drift: Schema.NullOr(Schema.Number).annotations({ description: 'Latest minus baseline, in bpm' }),
+    elevated: Schema.Boolean,
+    threshold: Schema.Number.annotations({ description: 'bpm over baseline that counts as elevated (alerts.thresholds.rhr_elevated)' }),
+    trend: TrendAnalysis
+  }),
+  walking_hr: Schema.Struct({
+    latest: Schema.NullOr(Schema.Number),
+    average: Schema.NullOr(Schema.Number)
+  }),
+  zones: Schema.Struct({
+    method: Schema.Literal('max_hr', 'hrr'),
+    max_hr: Schema.Number,
+    max_hr_source: Schema.Literal('config', 'age', 'default'),
+    resting_hr: Schema.NullOr(Schema.Number).annotations({ description: 'Resting HR for the heart rate reserve (hrr method)' }),
+    zones: Schema.Array(HeartZone),
+    below_zone_minutes: Schema.Number,
+    total_minutes: Schema.Number
+  }),
+  recovery: Schema.Struct({
+    workouts: Schema.Number,
+    average_1_min: Schema.NullOr(Schema.Number),
+    average_2_min: Schema.NullOr(Schema.Number),
+    status: Schema.Literal('good', 'fair', 'poor', 'no_workouts'),
+    sessions: Schema.Array(HeartRecoveryDataSchema)
+  }),
+  data: Schema.Array(Schema.Struct({
+    date: DateString,
+    resting_hr: Schema.NullOr(Schema.Number),
+    walking_hr_avg: Schema.NullOr(Schema.Number),
+    zone_minutes: Schema.Array(Schema.Number).annotations({ description: 'Minutes in zones 1-5' })
+  })),
+  insights: Schema.Array(Schema.String)
+}).annotations({ identifier: 'HeartResult' });
+
+const DailyLoad = Schema.Struct({
+  date: DateString,
+  load: Schema.Number,
+  atl: Schema.Number.annotations({ description: 'Acute training load - 7-day exponentially weighted average' }),
+  ctl: Schema.Number.annotations({ description: 'Chronic training load - 42-day exponentially weighted average' }),
+  tsb: Schema.Number.annotations({ description: 'Training stress balance - CTL minus ATL' }),
+  acwr: Schema.NullOr(Schema.Number).annotations({ description: 'Acute:chronic workload ratio; null until there are 28 days of workouts' })
+});
+
+export const WorkoutsResultSchema = Schema.Struct({
+  period: Period,
+  sessions: Schema.Array(Schema.extend(WorkoutDataSchema, Schema.Struct({
+    load: Schema.Number,
+    load_method: Schema.Literal('trimp', 'duration_intensity').annotations({ description: 'TRIMP from average heart rate, or duration x typical intensity without heart rate' })
+  }))),
+  totals: Schema.Struct({
+    sessions: Schema.Number,
+    duration_minutes: Schema.Number,
+    distance_km: Schema.Number,
+    energy_kcal: Schema.Number,
+    load: Schema.Number
+  }),
+  by_type: Schema.Array(Schema.Struct({
+    type: Schema.String,
+    sessions: Schema.Number,
+    duration_minutes: Schema.Number,
+    load: Schema.Number
+  })),
+  heart_rate_range: Schema.Struct({
+    max_hr: Schema.Number,
+    max_hr_source: Schema.Literal('config', 'age', 'default'),
+    resting_hr: Schema.Number,
+    resting_hr_source: Schema.Literal('config', 'measured', 'default')
+  }),
+  training_load: Schema.extend(DailyLoad, Schema.Struct({
+    status: Schema.Literal('insufficient_history', 'undertraining', 'optimal', 'elevated', 'high_risk')
+      .annotations({ description: 'From the acute:chronic ratio: below 0.8, up to 1.3, up to 1.5, above 1.5' })
+  })),
+  data: Schema.Array(DailyLoad),
+  insights: Schema.Array(Schema.String)
+}).annotations({ identifier: 'WorkoutsResult' });
+
+export const ReadinessResultSchema = Schema.Struct({
+  date: DateString,
+  score: Schema.Number.annotations({ description: '0-100; 50 is neutral and each contributor adds or takes away points' }),
+  coverage: ReadinessCoverage,
+  level: ReadinessLevel,
+  recommendation: Schema.String,
+  contributors: Schema.Array(Schema.Struct({
+    factor: Schema.Literal('hrv', 'resting_hr', 'sleep_duration', 'sleep_consistency', 'prior_day_load'),
+    label: Schema.String,
+    value: Schema.NullOr(Schema.Number),
+    reference: Schema.NullOr(Schema.Number).annotations({ description: 'What the value is judged against - a 30-day baseline, the sleep need or the chronic load' }),
+    unit: Schema.String,
+    weight: Schema.Number.annotations({ description: 'Most points the factor can add or take away; the weights sum to 50' }),
+    points: Schema.Number.annotations({ description: 'Points added to (positive) or taken from (negative) the score; 0 without data' }),
+    available: Schema.Boolean,
+    detail: Schema.String
+  })),
+  insights: Schema.Array(Schema.String)
+}).annotations({ identifier: 'ReadinessResult' });
+
+const CompareSample = Schema.Struct({
+  days: Schema.Number.annotations({ description: 'Days with a reading' }),
+  mean: Schema.NullOr(Schema.Number),
+  median: Schema.NullOr(Schema.Number)
+});
+
+export const CompareResultSchema = Schema.Struct({
+  current_period: Period,
+  baseline_period: Schema.extend(Period, Schema.Struct({
+    vs: Schema.Literal('previous', 'same-last-year', 'range')
+  })),
+  alpha: Schema.Number.annotations({ description: 'p-values below this are significant' }),
+  metrics: Schema.Array(Schema.Struct({
+    metric: Schema.Literal('hrv', 'resting_hr', 'sleep', 'sleep_score', 'steps', 'active_calories', 'exercise_minutes'),
+    label: Schema.String,
+    unit: Schema.String,
+    current: CompareSample,
+    baseline: CompareSample,
+    change: Schema.NullOr(Schema.Number).annotations({ description: 'Current mean minus baseline mean, in unit' }),
+    change_percent: Schema.NullOr(Schema.Number),
+    effect_size: Schema.NullOr(Schema.Number).annotations({ description: 'Rank-biserial correlation, -1 to 1; positive when current days tend to be higher' }),
+    magnitude: Schema.NullOr(Schema.Literal('negligible', 'small', 'medium', 'large')).annotations({ description: '|effect size| from 0.1, 0.3 and 0.5' }),
+    test: Schema.NullOr(Schema.Struct({
+      u: Schema.Number,
+      p_value: Schema.Number.annotations({ description: 'Two-sided Mann-Whitney U test' }),
+      exact: Schema.Boolean.annotations({ description: 'Exact without ties and up to 20 days a side, else the normal approximation' }),
+      significant: Schema.Boolean
+    })).annotations({ description: 'Null with fewer than 2 days of readings in either period' }),
+    assessment: Schema.Literal('better', 'worse', 'no_change', 'insufficient_data')
+      .annotations({ description: 'A significant change in the metric\'s better or worse direction (lower is better for resting HR)' })
+  })),
+  most_changed: Schema.NullOr(Schema.String).annotations({ description: 'The metric with the largest |effect size|' }),
+  insights: Schema.Array(Schema.String)
+}).annotations({ identifier: 'CompareResult' });
+
+export const AlertResultSchema = Schema.Struct({
+  timestamp: Timestamp,
+  alert_summary: Schema.Struct({
+    total_checks: Schema.Number,
+    active_alerts: Schema.Number,
+    warnings: Schema.Number,
+    critical: Schema.Number,
+    ok: Schema.Number
+  }),
+  changes: Schema.Struct({
+    new: Schema.Array(Schema.String),
+    escalated: Schema.Array(Schema.String),
+    resolved: Schema.Array(Schema.String),
+    to_notify: Schema.Array(Schema.String)
+  }),
+  active_alerts: Schema.Array(Schema.Struct({
+    id: Schema.String,
+    rule: Schema.String,
+    metric: Schema.String,
+    status: AlertStatus,
+    condition: Schema.String,
+    current_value: Schema.Number,
+    threshold: Schema.Number,
+    baseline: Schema.optional(Schema.Number),
+    message: Schema.String,
+    priority: Schema.Literal('high', 'medium'),
+    lifecycle: Schema.Struct({
+      change: Schema.Literal('new', 'escalated', 'ongoing'),
+      first_seen: Timestamp,
+      occurrences: Schema.Number,
+      acknowledged_by: Schema.NullOr(Schema.String),
+      snoozed_until: Schema.NullOr(Timestamp)
+    })
+  })),
+  all_thresholds: Schema.Array(AlertThresholdSchema),
+  notifications: Schema.Array(DeliveryResultSchema),
+  skipped_checks: Schema.Array(Schema.Struct({ rule: Schema.String, metric: Schema.String, reason: Schema.String })),
+  recommendations: Advice,
+  next_check: Timestamp,
+  state_file: Schema.NullOr(Schema.String).annotations({ description: 'Null when reproducing a past day with --as-of - the state is not read or written' })
+}).annotations({ identifier: 'AlertResult' });
+
+export const AlertChangeResultSchema = Schema.Struct({
+  alert: AlertRecordSchema,
+  note: Schema.String
+}).annotations({ identifier: 'AlertChangeResult' });
+
+export const AlertHistoryResultSchema = Schema.Struct({
+  last_checked: Schema.NullOr(Timestamp),
+  next_check: Schema.NullOr(Timestamp),
+  active: Schema.Array(AlertRecordSchema),
+  resolved: Schema.Array(AlertRecordSchema),
+  total_events: Schema.Number,
+  events: Schema.Array(AlertEventSchema)
+}).annotations({ identifier: 'AlertHistoryResult' });
+
+export const ImportResultSchema = Schema.Struct({
+  file: Schema.String,
+  bytes_processed: Schema.Number,
+  duration_ms: Schema.Number,
+  records_processed: Schema.Number,
+  elements: Schema.Struct({
+    records: Schema.Number,
+    workouts: Schema.Number,
+    activity_summaries: Schema.Number,
+    correlations: Schema.Number
+  }),
+  data_types: Schema.Array(Schema.String),
+  record_types: Schema.Record({ key: Schema.String, value: Schema.Number }),
+  date_range: Schema.Struct({ start: Schema.String, end: Schema.String }),
+  store: Schema.NullOr(Schema.Struct({
+    path: Schema.String,
+    collections: Schema.Number,
+    imported_at: Timestamp
+  })),
+  warnings: Schema.Array(Schema.String),
+  note: Schema.String
+}).annotations({ identifier: 'ImportResult' });
+
+export const ConfigGetResultSchema = Schema.Union(
+  Schema.Struct({
+    path: Schema.String,
+    exists: Schema.Boolean,
+    config: EffectiveConfigSchema
+  }),
+  Schema.Struct({
+    key: Schema.String,
+    value: Schema.Unknown,
+    source: Schema.Literal('default', 'file')
+  })
+).annotations({ identifier: 'ConfigGetResult' });
+
+export const ConfigSetResultSchema = Schema.Struct({
+  path: Schema.String,
+  key: Schema.String,
+  value: Schema.Unknown,
+  previous: Schema.Unknown,
+  effective: Schema.Unknown
+}).annotations({ identifier: 'ConfigSetResult' });
+
+export const ConfigValidateResultSchema = Schema.Struct({
+  path: Schema.String,
+  exists: Schema.Boolean,
+  valid: Schema.Literal(true),
+  enabled_thresholds: Schema.Array(Schema.String),
+  disabled_thresholds: Schema.Array(Schema.String)
+}).annotations({ identifier: 'ConfigValidateResult' });
+
+export const SchemaResultSchema = Schema.Struct({
+  dialect: Schema.String,
+  command: Schema.optional(Schema.String),
+  commands: Schema.Array(Schema.String),
+  schemas: Schema.Record({ key: Schema.String, value: Schema.Unknown })
+}).annotations({ identifier: 'SchemaResult' });
+
+const ErrorInfoSchema = Schema.Struct({
+  code: Schema.String,
+  exit_code: Schema.Int,
+  category: Schema.Literal('usage', 'data', 'io', 'internal'),
+  retryable: Schema.Boolean,
+  description: Schema.String,
+  fix: Schema.String.annotations({ description: 'Default fix; commands often return a more specific one' }),
+  next_actions: Schema.Array(NextActionSchema)
+}).annotations({ identifier: 'ErrorInfo' });
+
+export const ErrorsResultSchema = Schema.Union(
+  Schema.Struct({ errors: Schema.Array(ErrorInfoSchema) }),
+  ErrorInfoSchema
+).annotations({ identifier: 'ErrorsResult' });
+
+/** Result schema per command path, as typed after `health` */
+export const RESULT_SCHEMAS = {
+  'health': RootResultSchema,
+  'status': StatusResultSchema,
+  'hrv': HRVResultSchema,
+  'sleep': SleepResultSchema,
+  'activity': ActivityResultSchema,
+  'heart': HeartResultSchema,
+  'workouts': WorkoutsResultSchema,
+  'readiness': ReadinessResultSchema,
+  'compare': CompareResultSchema,
+  'alert': AlertResultSchema,
+  'alert ack': AlertChangeResultSchema,
+  'alert snooze': AlertChangeResultSchema,
+  'alert history': AlertHistoryResultSchema,
+  'alert test-sink': DeliveryResultSchema,
+  'import': ImportResultSchema,
+  'config get': ConfigGetResultSchema,
+  'config set': ConfigSetResultSchema,
+  'config validate': ConfigValidateResultSchema,
+  'schema': SchemaResultSchema,
+  'errors': ErrorsResultSchema,
+  'help': HelpResultSchema
+} satisfies Record<string, Schema.Schema.Any>;
+
+export type ParameterDoc = typeof ParameterDocSchema.Type;
+export type CommandDoc = typeof CommandDocSchema.Type;
+export type StatusResult = typeof StatusResultSchema.Type;
+export type HRVResult = typeof HRVResultSchema.Type;
+export type SleepResult = typeof SleepResultSchema.Type;
+export type ActivityResult = typeof ActivityResultSchema.Type;
+export type HeartResult = typeof HeartResultSchema.Type;
+export type WorkoutsResult = typeof WorkoutsResultSchema.Type;
+export type ReadinessResult = typeof ReadinessResultSchema.Type;
+export type CompareResult = typeof CompareResultSchema.Type;
+export type AlertResult = typeof AlertResultSchema.Type;
@@ -0,0 +1,79 @@
+/**
+ * Next action builders - the HATEOAS links every response carries
+ */
+import { ActionParam, ActionPriority, ActionRel, NextAction } from '../types/responses.js';
+
+export interface ActionOptions {
+  rel: ActionRel;
+  params?: ActionParam[];
+  priority?: ActionPriority;
+  reason?: string;
+}
+
+/**
+ * Builds a next action from an argv template. `{name}` tokens are params;
+ * the shell form in `command` fills in each param's default, or <name>.
+ */
+export function action(argv: string[], description: string, options: ActionOptions): NextAction {
+  const params = options.params ?? [];
+  const command = argv.map(token => token.replace(/\{([\w-]+)\}/g, (placeholder, name) => {
+    const param = params.find(p => p.name === name);
+    return param?.default !== undefined ? String(param.default) : `<${name}>`;
+  })).join(' ');
+
+  return {
+    command,
+    description,
+    argv,
+    ...(params.length > 0 && { params }),
+    rel: options.rel,
+    priority: options.priority ?? 'medium',
+    ...(options.reason && { reason: options.reason })
+  };
+}
+
+/** The legacy `{command, description}` form, e.g. next_actions on custom alert rules in the config file */
+export function fromCommand(legacy: { command: string; description: string }, rel: ActionRel = 'navigate'): NextAction {
+  const tokens = legacy.command.trim().split(/\s+/);
+  const params = tokens
+    .filter(token => /^<[\w-]+>$/.test(token))
+    .map((token): ActionParam => ({ name: token.slice(1, -1), type: 'string', required: true }));
+  return action(tokens.map(token => token.replace(/^<([\w-]+)>$/, '{$1}')), legacy.description, { rel, params });
+}
+
+/** Ties an action to the data that triggered it and moves it up */
+export function because(nextAction: NextAction, reason: string, priority: ActionPriority = 'high'): NextAction {
+  return { ...nextAction, priority, reason };
+}
+
+/** Params shared by many commands */
+export const PARAMS = {
+  days: (suggested: number): ActionParam => ({
+    name: 'days', type: 'integer', required: false, default: suggested, min: 1, max: 90,
+    description: 'Days of history to analyze'
+  }),
+  file: { name: 'file', type: 'path', required: true, description: 'Apple Health export.xml' } as ActionParam,
+  date: (name: string, suggested: string, description: string): ActionParam => ({
+    name, type: 'date', required: false, default: suggested, description
+  }),
+  duration: (suggested: string): ActionParam => ({
+    name: 'duration', type: 'duration', required: false, default: suggested,
+    description: 'A whole number followed by m, h, d or w'
+  })
+};
+
+// Common next actions
+export const COMMON_ACTIONS = {
+  ROOT: action(['health'], 'Show available commands', { rel: 'navigate' }),
+  STATUS: action(['health', 'status'], 'View today\'s health overview', { rel: 'navigate' }),
+  READINESS: action(['health', 'readiness'], 'See what raised or lowered today\'s readiness score', { rel: 'navigate' }),
+  HRV: action(['health', 'hrv'], 'View HRV trends', { rel: 'navigate' }),
+  SLEEP: action(['health', 'sleep'], 'View sleep analysis', { rel: 'navigate' }),
+  ACTIVITY: action(['health', 'activity'], 'View activity trends', { rel: 'navigate' }),
+  HEART: action(['health', 'heart'], 'View resting heart rate, zones and recovery', { rel: 'navigate' }),
+  WORKOUTS: action(['health', 'workouts'], 'View workouts and training load', { rel: 'navigate' }),
+  COMPARE: action(['health', 'compare'], 'Compare the last 7 days with the 7 before', { rel: 'navigate' }),
+  ALERTS: action(['health', 'alert'], 'Check health alerts', { rel: 'navigate' }),
+  IMPORT: action(['health', 'import', '{file}'], 'Import Apple Health data', { rel: 'remediate', params: [PARAMS.file] }),
+  MOCK: action(['health', '--source', 'mock', 'status'], 'Use mock data instead', { rel: 'remediate' })
+};
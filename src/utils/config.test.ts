@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Either } from 'effect';
+import { getPath, loadConfig, resolveConfig, setPath, validateConfig } from './config.js';
+
+const issues = (raw: unknown) => {
+  const result = validateConfig(raw);
+  return Either.isLeft(result) ? result.left : [];
+};
+
+describe('validateConfig', () => {
+  test('checks threshold overrides against the defaults they are merged with', () => {
+    assert.deepEqual(issues({ alerts: { thresholds: { hrv_low: { warning: 35, critical: 25 } } } }), []);
+    assert.deepEqual(issues({ alerts: { thresholds: { hrv_low: { warning: 15 } } } }), [
+      { path: 'alerts.thresholds.hrv_low', message: 'critical (20) must be below warning (15)' }
+    ]);
+    assert.deepEqual(issues({ alerts: { thresholds: { exercise_max: { critical: 300 } } } }), [
+      { path: 'alerts.thresholds.exercise_max', message: 'critical (300) must be above warning (360)' }
+    ]);
+  });
+
+  test('checks the level order of custom rules', () => {
+    const rule = { id: 'low_steps', metric: 'steps', aggregate: 'latest', comparator: 'below', warning: 2000, critical: 5000, message: 'Low' };
+    assert.match(issues({ alerts: { rules: [rule] } })[0].message, /critical must be below warning/);
+  });
+});
+
+describe('resolveConfig', () => {
+  test('leaves thresholds without a data source off unless enabled', () => {
+    const defaults = resolveConfig({}).alerts.thresholds;
+    assert.equal(defaults.hrv_low.enabled, true);
+    assert.equal(defaults.stress_max.enabled, false);
+    assert.equal(resolveConfig({ alerts: { thresholds: { stress_max: { enabled: true } } } }).alerts.thresholds.stress_max.enabled, true);
+  });
+});
+
+describe('getPath and setPath', () => {
+  test('read and copy-on-write dotted keys', () => {
+    const config = { alerts: { rules: [{ id: 'a', warning: 1 }] } };
+    const updated = setPath(config, 'alerts.rules.0.warning', 2);
+
+    assert.equal(getPath(updated, 'alerts.rules.0.warning'), 2);
+    assert.ok(Array.isArray(getPath(updated, 'alerts.rules')));
+    assert.equal(config.alerts.rules[0].warning, 1);
+    assert.equal(getPath(updated, 'alerts.missing.key'), undefined);
+    assert.deepEqual(setPath(undefined, 'heart.max_hr', 190), { heart: { max_hr: 190 } });
+  });
+});
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-config-')); });
+  afterEach(() => {
+    delete process.env.HEALTH_CLI_CONFIG;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const load = (configPath: string) => {
+    process.env.HEALTH_CLI_CONFIG = configPath;
+    const config = loadConfig('alert');
+    assert.ok('ok' in config && !config.ok);
+    assert.equal(config.error.code, 'INVALID_CONFIG');
+    return config.error.message;
+  };
+
+  test('reports a config file that cannot be read or parsed', () => {
+    assert.match(load(dir), new RegExp(`^Could not read ${dir}: EISDIR`));
+    const file = path.join(dir, 'config.json');
+    fs.writeFileSync(file, '{"alerts":');
+    assert.match(load(file), new RegExp(`^Could not read ${file}: Unexpected end of JSON input`));
+  });
+});
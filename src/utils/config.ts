@@ -0,0 +1,292 @@
+/**
+ * User configuration - ~/.config/health-cli/config.json
+ * Validated with Effect Schema; anything not set falls back to the defaults below
+ */
+import { Schema, ParseResult, Either } from 'effect';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ErrorResponse } from '../types/responses.js';
+import { error } from './responses.js';
+import { action, COMMON_ACTIONS } from './actions.js';
+
+export interface ThresholdDefinition {
+  metric: string;
+  direction: 'below' | 'above';
+  unit: string;
+  warning: number;
+  critical: number;
+  /** Off by default - no built-in data source provides the metric yet */
+  enabled?: boolean;
+}
+
+/** Alert thresholds, keyed the same way as ALERT_CONFIG.thresholds */
+export const THRESHOLD_DEFINITIONS = {
+  hrv_low: { metric: 'HRV', direction: 'below', unit: 'ms', warning: 30, critical: 20 },
+  sleep_min: { metric: 'Sleep Duration', direction: 'below', unit: 'hours', warning: 6, critical: 5 },
+  sleep_quality_min: { metric: 'Sleep Quality', direction: 'below', unit: 'score', warning: 65, critical: 50 },
+  steps_min: { metric: 'Daily Steps', direction: 'below', unit: 'steps', warning: 5000, critical: 2000 },
+  exercise_max: { metric: 'Exercise Minutes', direction: 'above', unit: 'minutes', warning: 360, critical: 480 },
+  active_calories_min: { metric: 'Active Calories', direction: 'below', unit: 'kcal', warning: 200, critical: 100 },
+  screen_time_max: { metric: 'Screen Time', direction: 'above', unit: 'minutes', warning: 600, critical: 720, enabled: false },
+  late_usage_threshold: { metric: 'Late Night Usage', direction: 'above', unit: 'hours after midnight', warning: 2, critical: 3, enabled: false },
+  stress_max: { metric: 'Stress Level', direction: 'above', unit: 'score', warning: 70, critical: 85, enabled: false },
+  rhr_elevated: { metric: 'Resting Heart Rate', direction: 'above', unit: 'bpm over baseline', warning: 5, critical: 10 }
+} satisfies Record<string, ThresholdDefinition>;
+
+export type ThresholdKey = keyof typeof THRESHOLD_DEFINITIONS;
+
+export const THRESHOLD_KEYS = Object.keys(THRESHOLD_DEFINITIONS) as ThresholdKey[];
+
+/** Daily series an alert rule can read */
+export const RULE_METRICS = [
+  'hrv', 'sleep_hours', 'sleep_score', 'steps', 'active_calories', 'exercise_minutes',
+  'screen_time', 'late_usage', 'stress', 'resting_hr', 'acwr'
+] as const;
+
+export type RuleMetric = typeof RULE_METRICS[number];
+
+// Exact optionals: an explicit null/undefined is an error, and issues point at the offending key
+const optional = <S extends Schema.Schema.All>(schema: S) => Schema.optionalWith(schema, { exact: true });
+
+/** Whether the critical level is at or past the warning level in the alert direction */
+function levelsOrdered(direction: 'below' | 'above', warning: number, critical: number): boolean {
+  return direction === 'below' ? critical <= warning : critical >= warning;
+}
+
+const ThresholdSettingSchema = Schema.Struct({
+  enabled: optional(Schema.Boolean),
+  warning: optional(Schema.Number),
+  critical: optional(Schema.Number)
+});
+
+const RuleAdviceSchema = Schema.Struct({
+  immediate: optional(Schema.Array(Schema.String)),
+  short_term: optional(Schema.Array(Schema.String)),
+  long_term: optional(Schema.Array(Schema.String))
+});
+
+/**
+ * A declarative alert rule: aggregate a daily metric, compare it with the
+ * warning/critical levels, and require the condition on N consecutive days.
+ * For `baseline_ratio` the levels are fractions of the baseline mean (0.85 = 85%),
+ * for `baseline_delta` they are differences from it in the metric's unit.
+ */
+export const AlertRuleSchema = Schema.Struct({
+  id: Schema.String.pipe(Schema.pattern(/^[a-z][a-z0-9_]*$/, { message: () => 'Rule ids are lower_snake_case' })),
+  name: optional(Schema.String),
+  metric: Schema.Literal(...RULE_METRICS),
+  aggregate: Schema.Literal('latest', 'mean', 'baseline_ratio', 'baseline_delta'),
+  window_days: optional(Schema.Int.pipe(Schema.between(1, 30))),
+  baseline_days: optional(Schema.Int.pipe(Schema.between(7, 90))),
+  comparator: Schema.Literal('below', 'above'),
+  warning: optional(Schema.Number),
+  critical: optional(Schema.Number),
+  consecutive_days: optional(Schema.Int.pipe(Schema.between(1, 14))),
+  enabled: optional(Schema.Boolean),
+  message: Schema.String,
+  ok_message: optional(Schema.String),
+  recommendations: optional(RuleAdviceSchema),
+  next_actions: optional(Schema.Array(Schema.Struct({ command: Schema.String, description: Schema.String })))
+}).pipe(Schema.filter(rule => {
+  if (rule.warning === undefined && rule.critical === undefined) return 'A rule needs a warning or critical level';
+  if (rule.warning === undefined || rule.critical === undefined) return true;
+  return levelsOrdered(rule.comparator, rule.warning, rule.critical) || `critical must be ${rule.comparator} warning`;
+}));
+
+export type AlertRule = typeof AlertRuleSchema.Type;
+
+const SinkDeliverySchema = {
+  enabled: optional(Schema.Boolean),
+  /** Only notify for alerts at or above this severity */
+  min_status: optional(Schema.Literal('warning', 'critical')),
+  retries: optional(Schema.Int.pipe(Schema.between(0, 10))),
+  backoff_ms: optional(Schema.Int.pipe(Schema.between(0, 60000))),
+  timeout_ms: optional(Schema.Int.pipe(Schema.between(100, 120000)))
+};
+
+/** Where alert notifications go: an HTTP endpoint, a shell command, or an NDJSON file */
+export const SinkSchema = Schema.Union(
+  Schema.Struct({
+    type: Schema.Literal('webhook'),
+    url: Schema.String.pipe(Schema.pattern(/^https?:\/\//, { message: () => 'Webhook urls start with http:// or https://' })),
+    headers: optional(Schema.Record({ key: Schema.String, value: Schema.String })),
+    ...SinkDeliverySchema
+  }),
+  Schema.Struct({
+    type: Schema.Literal('exec'),
+    command: Schema.String.pipe(Schema.minLength(1)),
+    ...SinkDeliverySchema
+  }),
+  Schema.Struct({
+    type: Schema.Literal('outbox'),
+    path: Schema.String.pipe(Schema.minLength(1)),
+    ...SinkDeliverySchema
+  })
+);
+
+export type SinkConfig = typeof SinkSchema.Type;
+
+/** Heart rate zones: from max HR (measured, or 220 - age), or Karvonen heart rate reserve */
+export const HeartSettingsSchema = Schema.Struct({
+  zone_method: optional(Schema.Literal('max_hr', 'hrr')),
+  max_hr: optional(Schema.Int.pipe(Schema.between(100, 230))),
+  age: optional(Schema.Int.pipe(Schema.between(10, 100))),
+  /** Resting HR for the reserve; the measured baseline is used when unset */
+  resting_hr: optional(Schema.Int.pipe(Schema.between(30, 120)))
+});
+
+export const ConfigFileSchema = Schema.Struct({
+  alerts: optional(Schema.Struct({
+    // Overrides are checked merged with the defaults, so a lone warning cannot pass the default critical
+    thresholds: optional(Schema.partialWith(Schema.Record({
+      key: Schema.Literal(...THRESHOLD_KEYS),
+      value: ThresholdSettingSchema
+    }), { exact: true }).pipe(Schema.filter(thresholds => THRESHOLD_KEYS.flatMap(key => {
+      const { direction, warning, critical } = { ...THRESHOLD_DEFINITIONS[key], ...thresholds[key] };
+      return levelsOrdered(direction, warning, critical) ? [] : [{
+        path: [key],
+        message: `critical (${critical}) must be ${direction} warning (${warning})`
+      }];
+    })))),
+    rules: optional(Schema.Array(AlertRuleSchema).pipe(Schema.filter(rules => {
+      const ids = rules.map(rule => rule.id);
+      const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+      return duplicate === undefined || `Duplicate rule id: ${duplicate}`;
+    })))
+  })),
+  notifications: optional(Schema.Struct({
+    sinks: optional(Schema.Record({ key: Schema.String, value: SinkSchema }))
+  })),
+  heart: optional(HeartSettingsSchema)
+});
+
+export type ConfigFile = typeof ConfigFileSchema.Type;
+
+export interface ThresholdSetting extends ThresholdDefinition {
+  enabled: boolean;
+}
+
+export interface HealthConfig {
+  alerts: {
+    thresholds: Record<ThresholdKey, ThresholdSetting>;
+    /** Custom rules from the config file; built-in rules live in data/alertRules.ts */
+    rules: AlertRule[];
+  };
+  notifications: {
+    sinks: Record<string, SinkConfig>;
+  };
+  heart: {
+    zone_method: 'max_hr' | 'hrr';
+    max_hr: number | null;
+    age: number | null;
+    resting_hr: number | null;
+  };
+}
+
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+export function getConfigPath(): string {
+  if (process.env.HEALTH_CLI_CONFIG) return process.env.HEALTH_CLI_CONFIG;
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'health-cli', 'config.json');
+}
+
+/** Reads the raw config file; a missing file is an empty config */
+export function readConfigFile(configPath: string = getConfigPath()): unknown {
+  if (!fs.existsSync(configPath)) return {};
+  return JSON.parse(fs.readFileSync(configPath, 'utf8'));
+}
+
+/** Validates raw config, rejecting unknown keys so typos don't go unnoticed */
+export function validateConfig(raw: unknown): Either.Either<ConfigFile, ConfigIssue[]> {
+  return Schema.decodeUnknownEither(ConfigFileSchema, { onExcessProperty: 'error', errors: 'all' })(raw).pipe(
+    Either.mapLeft(parseError => ParseResult.ArrayFormatter.formatErrorSync(parseError).map(issue => ({
+      path: issue.path.join('.') || '(root)',
+      message: issue.message
+    })))
+  );
+}
+
+/** Merges a validated config file over the defaults */
+export function resolveConfig(file: ConfigFile): HealthConfig {
+  const overrides = file.alerts?.thresholds ?? {};
+  const thresholds = Object.fromEntries(THRESHOLD_KEYS.map(key => [key, {
+    enabled: true,
+    ...THRESHOLD_DEFINITIONS[key],
+    ...overrides[key]
+  }])) as Record<ThresholdKey, ThresholdSetting>;
+
+  return {
+    alerts: { thresholds, rules: [...(file.alerts?.rules ?? [])] },
+    notifications: { sinks: { ...file.notifications?.sinks } },
+    heart: {
+      zone_method: file.heart?.zone_method ?? 'max_hr',
+      max_hr: file.heart?.max_hr ?? null,
+      age: file.heart?.age ?? null,
+      resting_hr: file.heart?.resting_hr ?? null
+    }
+  };
+}
+
+/** Loads the effective config, or an INVALID_CONFIG error response */
+export function loadConfig(command: string): HealthConfig | ErrorResponse {
+  const configPath = getConfigPath();
+  let raw: unknown;
+  try {
+    raw = readConfigFile(configPath);
+  } catch (readError: unknown) {
+    return configError(command, `Could not read ${configPath}: ${readError instanceof Error ? readError.message : String(readError)}`);
+  }
+
+  const validated = validateConfig(raw);
+  if (Either.isLeft(validated)) {
+    const issues = validated.left.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    return configError(command, `Invalid config at ${configPath}: ${issues}`);
+  }
+  return resolveConfig(validated.right);
+}
+
+export function writeConfigFile(config: ConfigFile, configPath: string = getConfigPath()): void {
+  fs.mkdirSync(path.dirname(configPath), { recursive: true });
+  fs.writeFileSync(configPath, JSON.stringify(config, null, 2) + '\n');
+}
+
+/** Reads a dotted key such as "alerts.thresholds.hrv_low.warning" */
+export function getPath(target: unknown, key: string): unknown {
+  return key.split('.').reduce<unknown>((value, part) => isRecord(value) ? value[part] : undefined, target);
+}
+
+/** Returns a copy of `target` with the dotted key set, creating objects on the way */
+export function setPath(target: unknown, key: string, value: unknown): unknown {
+  const [head, ...rest] = key.split('.');
+  const child = (current: unknown) => rest.length === 0 ? value : setPath(current, rest.join('.'), value);
+  if (Array.isArray(target)) {
+    const copy: unknown[] = [...target];
+    copy[Number(head)] = child(copy[Number(head)]);
+    return copy;
+  }
+  const copy: Record<string, unknown> = isRecord(target) ? { ...target } : {};
+  copy[head] = child(copy[head]);
+  return copy;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function configError(command: string, message: string): ErrorResponse {
+  return error(
+    command,
+    message,
+    'INVALID_CONFIG',
+    `Fix or remove ${getConfigPath()}`,
+    [
+      action(['health', 'config', 'validate'], 'List every problem in the config file', { rel: 'remediate' }),
+      COMMON_ACTIONS.ROOT
+    ]
+  );
+}
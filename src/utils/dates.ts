@@ -0,0 +1,125 @@
+/**
+ * Date helpers - calendar days are handled as YYYY-MM-DD strings
+ */
+
+export function toDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function isValidDay(day: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) return false;
+  const date = new Date(`${day}T00:00:00Z`);
+  return !isNaN(date.getTime()) && toDay(date) === day;
+}
+
+export function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDay(date);
+}
+
+/** Whole days from `from` to `to` - negative when `to` is earlier */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+/** The same calendar day `years` later (negative for earlier); 29 February becomes 28 February outside leap years */
+export function addYears(day: string, years: number): string {
+  const shifted = `${Number(day.substring(0, 4)) + years}${day.substring(4)}`;
+  return isValidDay(shifted) ? shifted : addDays(`${shifted.substring(0, 8)}01`, 27);
+}
+
+export type CalendarUnit = 'week' | 'month';
+
+/**
+ * The calendar week (ISO, Monday to Sunday) or month a day falls in, keyed
+ * as 2024-W03 or 2024-01
+ */
+export function calendarPeriod(day: string, unit: CalendarUnit): { key: string; start: string; end: string } {
+  const date = new Date(`${day}T00:00:00Z`);
+  if (unit === 'month') {
+    const start = `${day.substring(0, 7)}-01`;
+    const next = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+    return { key: day.substring(0, 7), start, end: addDays(toDay(next), -1) };
+  }
+
+  const start = addDays(day, -((date.getUTCDay() + 6) % 7));
+  // The ISO week-numbering year is the one the week's Thursday falls in
+  const thursday = addDays(start, 3);
+  const week = Math.floor(daysBetween(`${thursday.substring(0, 4)}-01-01`, thursday) / 7) + 1;
+  return { key: `${thursday.substring(0, 4)}-W${week.toString().padStart(2, '0')}`, start, end: addDays(start, 6) };
+}
+
+/** Parses Apple Health timestamps such as "2024-01-15 07:59:00 -0800" */
+export function parseAppleDate(value: string): Date {
+  const match = value.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-])(\d{2})(\d{2})$/);
+  if (!match) return new Date(value);
+  const [, day, time, sign, hours, minutes] = match;
+  return new Date(`${day}T${time}${sign}${hours}:${minutes}`);
+}
+
+/** Local wall-clock "HH:MM" of an Apple Health timestamp */
+export function appleClockTime(value: string): string {
+  return value.substring(11, 16);
+}
+
+/** Minutes since midnight of an HH:MM clock time */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/** HH:MM of a number of minutes, wrapped into one day */
+export function minutesToTime(minutes: number): string {
+  const wrapped = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${Math.floor(wrapped / 60).toString().padStart(2, '0')}:${(wrapped % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Clock times are angles on a 24-hour circle, so 23:30 and 00:30 are an hour
+ * apart rather than 23. Mean direction and resultant length of the angles.
+ */
+function clockVector(minutes: number[]): { mean: number; length: number } {
+  const angles = minutes.map(m => m / 1440 * 2 * Math.PI);
+  const x = angles.reduce((sum, a) => sum + Math.cos(a), 0) / angles.length;
+  const y = angles.reduce((sum, a) => sum + Math.sin(a), 0) / angles.length;
+  return { mean: (Math.atan2(y, x) / (2 * Math.PI) * 1440 + 1440) % 1440, length: Math.hypot(x, y) };
+}
+
+/** Circular mean of clock times in minutes since midnight */
+export function circularMeanMinutes(minutes: number[]): number {
+  return clockVector(minutes).mean;
+}
+
+/** Circular standard deviation of clock times, in minutes */
+export function circularSDMinutes(minutes: number[]): number {
+  const { length } = clockVector(minutes);
+  return Math.sqrt(-2 * Math.log(Math.max(length, Number.EPSILON))) / (2 * Math.PI) * 1440;
+}
+
+/** Signed difference `to - from` between clock times, in minutes from -720 to 720 */
+export function clockDifference(from: number, to: number): number {
+  return ((to - from + 720) % 1440 + 1440) % 1440 - 720;
+}
+
+/**
+ * Seconds since midnight of a beat time in an HRV beat list, such as
+ * "7:59:01.23 AM"; null if it is in another format
+ */
+export function parseBeatTime(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2}):(\d{2}(?:\.\d+)?)\s*(AM|PM)?$/i);
+  if (!match) return null;
+  const [, hours, minutes, seconds, meridiem] = match;
+  let hour = Number(hours);
+  if (meridiem) hour = hour % 12 + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+  return hour * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+const DURATION_UNITS: Record<string, number> = { m: 60000, h: 3600000, d: 86400000, w: 604800000 };
+
+/** Parses durations such as "30m", "12h", "2d" or "1w" into milliseconds */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d+)\s*([mhdw])$/);
+  if (!match || Number(match[1]) === 0) return null;
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+}
@@ -0,0 +1,90 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { HelpDoc, Span, ValidationError } from '@effect/cli';
+import { Cause } from 'effect';
+import { cliFailure, ERROR_CODES, ERRORS, ErrorCategory } from './errors.js';
+import { error, exitCode } from './responses.js';
+
+const CLI = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'index.ts');
+
+const EXIT_RANGES: Record<ErrorCategory, [number, number]> = {
+  usage: [2, 29],
+  data: [30, 49],
+  io: [50, 69],
+  internal: [70, 79]
+};
+
+describe('error registry', () => {
+  test('gives every code its own exit code in its category\'s range', () => {
+    const exitCodes = ERROR_CODES.map(code => ERRORS[code].exit_code);
+    assert.equal(new Set(exitCodes).size, exitCodes.length);
+    for (const code of ERROR_CODES) {
+      const [low, high] = EXIT_RANGES[ERRORS[code].category];
+      const { exit_code } = ERRORS[code];
+      assert.ok(exit_code >= low && exit_code <= high, `${code} exits with ${exit_code}, outside ${low}-${high}`);
+    }
+  });
+
+  test('exits with the code\'s exit code, 0 on success and 1 for codes it does not know', () => {
+    assert.equal(exitCode({ ok: true, command: 'health status', result: {}, next_actions: [] }), 0);
+    assert.equal(exitCode(error('hrv --days 0', 'Invalid days: 0', 'INVALID_DAYS_RANGE')), 10);
+    assert.equal(exitCode(error('import export.xml', 'No space left on device', 'DISK_FULL')), 56);
+    const foreign = error('alert', 'Failed', 'SINK_FAILED');
+    assert.equal(exitCode({ ...foreign, error: { ...foreign.error, code: 'SOMETHING_ELSE' } }), 1);
+  });
+
+  test('fills in the fix and next actions from the registry', () => {
+    const response = error('status', 'No data', 'NO_DATA');
+    assert.deepEqual(response.error, { message: 'No data', code: 'NO_DATA', category: 'data', retryable: false });
+    assert.equal(response.fix, ERRORS.NO_DATA.fix);
+    assert.deepEqual(response.next_actions, ERRORS.NO_DATA.next_actions);
+  });
+});
+
+describe('cliFailure', () => {
+  test('reports a rejected option or argument as INVALID_ARGUMENTS without colours', () => {
+    const validation = ValidationError.invalidValue(HelpDoc.p(Span.concat(Span.text('Expected an integer for '), Span.code('--days'))));
+    assert.deepEqual(cliFailure('hrv --days x', { cause: Cause.fail(validation), printed: false }), {
+      message: 'Expected an integer for --days',
+      code: 'INVALID_ARGUMENTS'
+    });
+  });
+
+  test('reports a command line that names no command as INVALID_COMMAND', () => {
+    const mismatch = ValidationError.commandMismatch(HelpDoc.p('Missing command name: health'));
+    assert.deepEqual(cliFailure('sleeep', { cause: Cause.fail(mismatch), printed: false }), { message: 'Missing command name: health', code: 'INVALID_COMMAND' });
+    // Effect CLI prints usage instead of failing for some mismatches
+    assert.deepEqual(cliFailure('sleeep', { cause: Cause.empty, printed: true }), { message: 'Not a health command: sleeep', code: 'INVALID_COMMAND' });
+  });
+
+  test('reports a crash as INTERNAL_ERROR with the first line of the cause', () => {
+    assert.deepEqual(cliFailure('status', { cause: Cause.die(new Error('boom\n  at somewhere')), printed: false }), { message: 'Error: boom', code: 'INTERNAL_ERROR' });
+  });
+
+  test('is null when the command ended without a response or output', () => {
+    assert.equal(cliFailure('mcp', { cause: Cause.empty, printed: false }), null);
+  });
+});
+
+describe('exit codes', () => {
+  const run = (...args: string[]) => spawnSync(process.execPath, ['--import', 'tsx', CLI, '--source', 'mock', '--seed', '1', ...args], { encoding: 'utf8', timeout: 60000 });
+
+  test('end the process with the error\'s exit code', () => {
+    const cases: [string[], string, number][] = [
+      [['hrv', '--days', '120'], 'INVALID_DAYS_RANGE', 10],
+      [['hrv', '--days', 'x'], 'INVALID_ARGUMENTS', 2],
+      [['hrv', '--days', '0'], 'INVALID_ARGUMENTS', 2],
+      [['sleeep'], 'INVALID_COMMAND', 3],
+      [['errors', 'NOPE'], 'UNKNOWN_ERROR_CODE', 18]
+    ];
+    for (const [args, code, status] of cases) {
+      const result = run(...args);
+      assert.equal(JSON.parse(result.stdout).error.code, code, args.join(' '));
+      assert.equal(result.status, status, args.join(' '));
+    }
+    assert.equal(run('status').status, 0);
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Error registry - every error code the CLI can return, with its exit code,
+ * category, whether retrying can help, and the default fix and next actions
+ * error() falls back on. `health errors` publishes it.
+ */
+import { HelpDoc, ValidationError } from '@effect/cli';
+import { Cause, Option } from 'effect';
+import { NextAction } from '../types/responses.js';
+import { action, COMMON_ACTIONS } from './actions.js';
+
+export type ErrorCategory = 'usage' | 'data' | 'io' | 'internal';
+
+export interface ErrorDefinition {
+  /** Process exit code - unique per error code */
+  exit_code: number;
+  category: ErrorCategory;
+  /** Whether the same command can succeed later without changes */
+  retryable: boolean;
+  description: string;
+  fix: string;
+  next_actions: NextAction[];
+}
+
+const CONFIG_VALIDATE = action(['health', 'config', 'validate'], 'List every problem in the config file', { rel: 'remediate' });
+const ALERT_HISTORY = action(['health', 'alert', 'history'], 'See the active alerts and their ids', { rel: 'remediate' });
+
+/**
+ * Exit codes are grouped by category: 2-29 usage, 30-49 data, 50-69 io,
+ * 70-79 internal. Codes are stable - add new ones, never renumber.
+ */
+export const ERRORS = {
+  // usage - the command line or request needs to change
+  INVALID_ARGUMENTS: {
+    exit_code: 2,
+    category: 'usage',
+    retryable: false,
+    description: 'An option or argument is missing, unknown or has the wrong type',
+    fix: 'Check the options against the root command',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  },
+  INVALID_COMMAND: {
+    exit_code: 3,
+    category: 'usage',
+    retryable: false,
+    description: 'The command line does not name a health command',
+    fix: 'Start with a command name such as status, hrv or sleep',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  },
+  INVALID_DAYS_RANGE: {
+    exit_code: 10,
+    category: 'usage',
+    retryable: false,
+    description: '--days, or the days between --from and --to, is outside the supported range (up to 90, or the store\'s history when longer)',
+    fix: 'Use a value between 1 and 90 days',
+    next_actions: [COMMON_ACTIONS.HRV, COMMON_ACTIONS.SLEEP]
+  },
+  INVALID_DATE: {
+    exit_code: 11,
+    category: 'usage',
+    retryable: false,
+    description: 'A date is not a calendar day in YYYY-MM-DD format',
+    fix: 'Use a calendar date in YYYY-MM-DD format',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  },
+  INVALID_DURATION: {
+    exit_code: 12,
+    category: 'usage',
+    retryable: false,
+    description: 'A duration is not a whole number followed by m, h, d or w',
+    fix: 'Use a whole number followed by m, h, d or w - e.g. 30m, 12h, 2d, 1w',
+    next_actions: [ALERT_HISTORY]
+  },
+  INVALID_LIMIT: {
+    exit_code: 13,
+    category: 'usage',
+    retryable: false,
+    description: '--limit is not a positive number',
+    fix: 'Use a positive number of events',
+    next_actions: [ALERT_HISTORY]
+  },
+  INVALID_PORT: {
+    exit_code: 14,
+    category: 'usage',
+    retryable: false,
+    description: '--port is outside 0-65535',
+    fix: 'Use a port between 1 and 65535, or 0 for any free port',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  },
+  MISSING_FIXTURE: {
+    exit_code: 15,
+    category: 'usage',
+    retryable: false,
+    description: '--source fixture was given without --fixture',
+    fix: 'Pass --fixture <file> together with --source fixture',
+    next_actions: [COMMON_ACTIONS.MOCK]
+  },
+  UNKNOWN_COMMAND: {
+    exit_code: 16,
+    category: 'usage',
+    retryable: false,
+    description: 'health help or health schema was asked about a command that does not exist or has no schema',
+    fix: 'Run health to list the commands',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  },
+  UNKNOWN_CONFIG_KEY: {
+    exit_code: 17,
+    category: 'usage',
+    retryable: false,
+    description: 'A config key path does not exist',
+    fix: 'Run health config get to see the available keys',
+    next_actions: [action(['health', 'config', 'get'], 'Show the effective configuration', { rel: 'remediate' })]
+  },
+  UNKNOWN_ERROR_CODE: {
+    exit_code: 18,
+    category: 'usage',
+    retryable: false,
+    description: 'health errors was asked for a code that is not in the registry',
+    fix: 'Run health errors to list every error code',
+    next_actions: [action(['health', 'errors'], 'List every error code', { rel: 'remediate' })]
+  },
+  UNSUPPORTED_IN_BATCH: {
+    exit_code: 19,
+    category: 'usage',
+    retryable: false,
+    description: 'A batch line asked for a long-running command or a built-in flag',
+    fix: 'Run it as its own process',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  },
+  INVALID_BATCH_LINE: {
+    exit_code: 20,
+    category: 'usage',
+    retryable: false,
+    description: 'A batch line is not an argv array, a command string or an object with argv or command',
+    fix: 'Write one command per line, e.g. ["hrv", "--days", "14"] or {"id": "a", "command": "sleep --days 30"}',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  },
+  INVALID_BODY: {
+    exit_code: 21,
+    category: 'usage',
+    retryable: false,
+    description: 'An HTTP request body is not a JSON object',
+    fix: 'Send a JSON object, e.g. {"file": "export.xml"}',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  },
+  METHOD_NOT_ALLOWED: {
+    exit_code: 22,
+    category: 'usage',
+    retryable: false,
+    description: 'An HTTP endpoint was called with the wrong method',
+    fix: 'See the Allow header for the supported method',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  },
+  NOT_FOUND: {
+    exit_code: 23,
+    category: 'usage',
+    retryable: false,
+    description: 'No HTTP endpoint at the requested path',
+    fix: 'GET / lists the commands; each tool has an endpoint',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  },
+  INVALID_RANGE: {
+    exit_code: 24,
+    category: 'usage',
+    retryable: false,
+    description: '--from is after --to, or --days, --from and --to were all given',
+    fix: 'Give at most two of --days, --from and --to, with --from on or before --to',
+    next_actions: [COMMON_ACTIONS.HRV, COMMON_ACTIONS.SLEEP]
+  },
+  INVALID_PERIOD: {
+    exit_code: 25,
+    category: 'usage',
+    retryable: false,
+    description: '--period is not a whole number of days or weeks, or is longer than the supported range',
+    fix: 'Use a whole number followed by d or w - e.g. 7d, 28d or 4w',
+    next_actions: [COMMON_ACTIONS.COMPARE]
+  },
+  INVALID_COMPARISON: {
+    exit_code: 26,
+    category: 'usage',
+    retryable: false,
+    description: '--vs is not previous, same-last-year or a YYYY-MM-DD..YYYY-MM-DD range',
+    fix: 'Use --vs previous, --vs same-last-year or --vs 2024-01-01..2024-01-07',
+    next_actions: [COMMON_ACTIONS.COMPARE]
+  },
+  INVALID_METRIC: {
+    exit_code: 27,
+    category: 'usage',
+    retryable: false,
+    description: '--metric names a metric compare does not know',
+    fix: 'Use a comma-separated list of hrv, resting_hr, sleep, sleep_score, steps, active_calories and exercise_minutes',
+    next_actions: [COMMON_ACTIONS.COMPARE]
+  },
+
+  // data - the data or config the command works on is missing or invalid
+  NO_DATA: {
+    exit_code: 30,
+    category: 'data',
+    retryable: false,
+    description: 'The data source has no records for the metric',
+    fix: 'Import an Apple Health export that contains the metric',
+    next_actions: [COMMON_ACTIONS.IMPORT, COMMON_ACTIONS.MOCK]
+  },
+  NO_STORE: {
+    exit_code: 31,
+    category: 'data',
+    retryable: false,
+    description: '--source store was chosen but nothing has been imported',
+    fix: 'Import an Apple Health export first, or choose another --source',
+    next_actions: [COMMON_ACTIONS.IMPORT, COMMON_ACTIONS.MOCK]
+  },
+  PARSE_ERROR: {
+    exit_code: 32,
+    category: 'data',
+    retryable: false,
+    description: 'The file is not a readable Apple Health export',
+    fix: 'Ensure the file is a valid Apple Health export XML',
+    next_actions: [COMMON_ACTIONS.ROOT, COMMON_ACTIONS.MOCK]
+  },
+  INVALID_FIXTURE: {
+    exit_code: 33,
+    category: 'data',
+    retryable: false,
+    description: 'The --fixture file is not JSON with hrv, sleep, activity, heart, hr_recovery and/or workouts arrays, or an entry does not match its data schema',
+    fix: 'Point --fixture at a JSON file with hrv, sleep, activity, heart, hr_recovery and/or workouts arrays',
+    next_actions: [COMMON_ACTIONS.MOCK]
+  },
+  INVALID_CONFIG: {
+    exit_code: 34,
+    category: 'data',
+    retryable: false,
+    description: 'The config file or a new config value does not pass validation',
+    fix: 'Correct the listed keys in the config file',
+    next_actions: [CONFIG_VALIDATE, COMMON_ACTIONS.ROOT]
+  },
+  ALERT_NOT_FOUND: {
+    exit_code: 35,
+    category: 'data',
+    retryable: false,
+    description: 'No active alert has the given id',
+    fix: 'Alert ids are rule ids - run health alert history to see the active ones',
+    next_actions: [ALERT_HISTORY, COMMON_ACTIONS.ALERTS]
+  },
+  SINK_NOT_FOUND: {
+    exit_code: 36,
+    category: 'data',
+    retryable: false,
+    description: 'No notification sink has the given name',
+    fix: 'Add one under notifications.sinks in the config file',
+    next_actions: [CONFIG_VALIDATE]
+  },
+
+  // io - a file, port or remote endpoint failed
+  FILE_NOT_FOUND: {
+    exit_code: 50,
+    category: 'io',
+    retryable: false,
+    description: 'The file does not exist',
+    fix: 'Check the file path and ensure the file exists',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  },
+  SINK_FAILED: {
+    exit_code: 51,
+    category: 'io',
+    retryable: true,
+    description: 'A notification sink could not be reached after its retries',
+    fix: 'Check that the sink is reachable, then try it again',
+    next_actions: [action(['health', 'config', 'get', 'notifications'], 'Show configured notification sinks', { rel: 'remediate' })]
+  },
+  PORT_IN_USE: {
+    exit_code: 52,
+    category: 'io',
+    retryable: true,
+    description: 'Another process is listening on the port',
+    fix: 'Stop the other process or pick another --port',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  },
+  SERVE_FAILED: {
+    exit_code: 53,
+    category: 'io',
+    retryable: false,
+    description: 'The HTTP server could not listen on the port',
+    fix: 'Check that the port is free and allowed',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  },
+  FILE_READ_FAILED: {
+    exit_code: 54,
+    category: 'io',
+    retryable: false,
+    description: 'The file exists but could not be read',
+    fix: 'Check that the path is a file you have permission to read',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  },
+  STORE_WRITE_FAILED: {
+    exit_code: 55,
+    category: 'io',
+    retryable: false,
+    description: 'The local store could not be written, e.g. its directory is not writable',
+    fix: 'Check that the data directory (HEALTH_CLI_DATA_DIR) is writable, then import again',
+    next_actions: [COMMON_ACTIONS.MOCK]
+  },
+  DISK_FULL: {
+    exit_code: 56,
+    category: 'io',
+    retryable: true,
+    description: 'The disk ran out of space while the local store was written',
+    fix: 'Free up disk space or point HEALTH_CLI_DATA_DIR at another disk, then import again',
+    next_actions: [COMMON_ACTIONS.MOCK]
+  },
+
+  // internal - a bug; report it
+  INTERNAL_ERROR: {
+    exit_code: 70,
+    category: 'internal',
+    retryable: false,
+    description: 'A command failed in an unexpected way',
+    fix: 'Report this error to the maintainers',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  },
+  UNCAUGHT_EXCEPTION: {
+    exit_code: 71,
+    category: 'internal',
+    retryable: false,
+    description: 'An exception escaped every handler',
+    fix: 'Report this error to the maintainers',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  },
+  UNHANDLED_REJECTION: {
+    exit_code: 72,
+    category: 'internal',
+    retryable: false,
+    description: 'A promise rejection escaped every handler',
+    fix: 'Report this error to the maintainers',
+    next_actions: [COMMON_ACTIONS.ROOT]
+  }
+} as const satisfies Record<string, ErrorDefinition>;
+
+export type ErrorCode = keyof typeof ERRORS;
+
+export const ERROR_CODES = Object.keys(ERRORS) as ErrorCode[];
+
+export function isErrorCode(code: string): code is ErrorCode {
+  return (ERROR_CODES as string[]).includes(code);
+}
+
+/** How a command ended when it produced no response (see captureOutput) */
+export interface NoResponse {
+  cause: Cause.Cause<unknown>;
+  /** Whether it printed through Effect's Console instead, e.g. Effect CLI help text */
+  printed: boolean;
+}
+
+/**
+ * The error for a command line Effect CLI rejected, or for a command that
+ * crashed. Null when the command ended normally without a response - mcp,
+ * serve and batch write their own output.
+ */
+export function cliFailure(command: string, { cause, printed }: NoResponse): { message: string; code: ErrorCode } | null {
+  const failure = Cause.failureOption(cause);
+  if (Option.isSome(failure) && ValidationError.isValidationError(failure.value)) {
+    const validation = failure.value;
+    const text = 'error' in validation ? stripAnsi(HelpDoc.toAnsiText(validation.error)).trim() : '';
+    const mismatch = ValidationError.isCommandMismatch(validation) || ValidationError.isMissingSubcommand(validation);
+    return { message: text || `Invalid command line: ${command}`, code: mismatch ? 'INVALID_COMMAND' : 'INVALID_ARGUMENTS' };
+  }
+  if (!Cause.isEmpty(cause)) {
+    return { message: Cause.pretty(cause).split('\n')[0], code: 'INTERNAL_ERROR' };
+  }
+  // Effect CLI prints usage instead of failing when the arguments match no command
+  return printed ? { message: `Not a health command: ${command}`, code: 'INVALID_COMMAND' } : null;
+}
+
+/** A failed system call, as opposed to Node's own ERR_* errors */
+export function isSystemError(failure: unknown): failure is NodeJS.ErrnoException {
+  return failure instanceof Error && typeof (failure as NodeJS.ErrnoException).syscall === 'string';
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*m/g, '');
+}
@@ -0,0 +1,123 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderResponse } from './formats.js';
+import { CLIResponse } from '../types/responses.js';
+import { error } from './responses.js';
+
+/** Strings a renderer could mistake for syntax or for another type */
+const TRICKY = [
+  'plain words',
+  'comma, separated',
+  'say "hi"',
+  'two\nlines',
+  'carriage\rreturn',
+  '',
+  'trailing space ',
+  'true',
+  'No',
+  '42',
+  '-1.5e3',
+  '2024-01-01',
+  '- dash',
+  '? question',
+  'key: value',
+  '# comment',
+  '[list]',
+  '{map}',
+  '~',
+  '*anchor',
+  'café ❤'
+];
+
+const response = (result: unknown): CLIResponse => ({ ok: true, command: 'health test', result, next_actions: [] });
+
+/** RFC 4180: quoted cells may hold commas, newlines and doubled quotes */
+function parseCSV(text: string): string[][] {
+  const rows: string[][] = [[]];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') { rows[rows.length - 1].push(cell); cell = ''; }
+    else if (char === '\n') { rows[rows.length - 1].push(cell); cell = ''; rows.push([]); }
+    else cell += char;
+  }
+  rows[rows.length - 1].push(cell);
+  return rows;
+}
+
+/** The value of a `key: scalar` line: JSON-quoted, or plain as written */
+function yamlScalar(line: string): string {
+  const text = line.slice(line.indexOf(': ') + 2);
+  return text.startsWith('"') ? JSON.parse(text) : text;
+}
+
+describe('renderResponse', () => {
+  test('csv quotes cells so they parse back to the same rows', () => {
+    const data = TRICKY.map((text, i) => ({ id: i, text, nested: { note: text } }));
+    const rows = parseCSV(renderResponse(response({ data }), 'csv'));
+    assert.deepEqual(rows[0], ['id', 'text', 'nested.note']);
+    assert.deepEqual(rows.slice(1), data.map(row => [String(row.id), row.text, row.text]));
+  });
+
+  test('csv puts columns missing from some rows in the header', () => {
+    const rows = parseCSV(renderResponse(response({ groups: [{ a: 1 }, { b: [1, 2] }] }), 'csv'));
+    assert.deepEqual(rows, [['a', 'b'], ['1', ''], ['', '1; 2']]);
+  });
+
+  test('csv renders an error as a single row', () => {
+    const rows = parseCSV(renderResponse(error('hrv --days 0', 'Invalid days: 0, must be 1-90', 'INVALID_DAYS_RANGE'), 'csv'));
+    assert.deepEqual(rows, [
+      ['ok', 'command', 'code', 'message', 'fix'],
+      ['false', 'health hrv --days 0', 'INVALID_DAYS_RANGE', 'Invalid days: 0, must be 1-90', 'Use a value between 1 and 90 days']
+    ]);
+  });
+
+  test('yaml quotes strings that would read back as another value', () => {
+    const result = Object.fromEntries(TRICKY.map((text, i) => [`s${i}`, text]));
+    const lines = renderResponse(response(result), 'yaml').split('\n');
+    const start = lines.indexOf('result:') + 1;
+    assert.deepEqual(lines.slice(start, start + TRICKY.length).map(yamlScalar), TRICKY);
+    // Only the plain cases stay unquoted
+    assert.equal(lines[start], '  s0: plain words');
+    assert.equal(lines[start + TRICKY.indexOf('true')], '  s7: "true"');
+    assert.equal(lines[start + TRICKY.indexOf('2024-01-01')], '  s11: "2024-01-01"');
+  });
+
+  test('yaml nests objects in arrays under the dash', () => {
+    const yaml = renderResponse(response({ days: [{ date: '2024-01-01', value: 42, tags: [] }, { date: '2024-01-02', value: null, tags: ['a'] }] }), 'yaml');
+    assert.equal(yaml, [
+      'ok: true',
+      'command: health test',
+      'result:',
+      '  days:',
+      '    - date: "2024-01-01"',
+      '      value: 42',
+      '      tags: []',
+      '    - date: "2024-01-02"',
+      '      value: null',
+      '      tags:',
+      '        - a',
+      'next_actions: []'
+    ].join('\n'));
+  });
+
+  test('yaml quotes keys that are not plain identifiers', () => {
+    const yaml = renderResponse(response({ 'two words': 1, 'a.b-c': 2 }), 'yaml');
+    assert.match(yaml, /^ {2}"two words": 1$/m);
+    assert.match(yaml, /^ {2}a\.b-c: 2$/m);
+  });
+
+  test('json and ndjson parse back to the response', () => {
+    const sample = response({ text: TRICKY });
+    assert.deepEqual(JSON.parse(renderResponse(sample, 'json')), sample);
+    const ndjson = renderResponse(sample, 'ndjson');
+    assert.ok(!ndjson.includes('\n'));
+    assert.deepEqual(JSON.parse(ndjson), sample);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Output renderers - every format renders the full CLIResponse union,
+ * so errors come out in the same format as results
+ */
+import { CLIResponse, NextAction } from '../types/responses.js';
+
+export const OUTPUT_FORMATS = ['json', 'ndjson', 'yaml', 'csv', 'table'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export function renderResponse(response: CLIResponse, format: OutputFormat): string {
+  switch (format) {
+    case 'json': return JSON.stringify(response, null, 2);
+    case 'ndjson': return JSON.stringify(response);
+    case 'yaml': return renderYAML(response);
+    case 'csv': return renderCSV(response);
+    case 'table': return renderTable(response);
+  }
+}
+
+// YAML
+
+function renderYAML(value: unknown): string {
+  return yamlLines(value, 0).join('\n');
+}
+
+function yamlLines(value: unknown, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${pad}[]`];
+    return value.flatMap(item => {
+      if (isScalar(item) || isEmpty(item)) return [`${pad}- ${yamlScalar(item)}`];
+      // The first key of a nested block shares the line with the dash
+      const [first, ...rest] = yamlLines(item, indent + 2);
+      return [`${pad}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  if (isObject(value)) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) return [`${pad}{}`];
+    return entries.flatMap(([key, item]) => isScalar(item) || isEmpty(item)
+      ? [`${pad}${yamlKey(key)}: ${yamlScalar(item)}`]
+      : [`${pad}${yamlKey(key)}:`, ...yamlLines(item, indent + 2)]);
+  }
+
+  return [`${pad}${yamlScalar(value)}`];
+}
+
+function yamlKey(key: string): string {
+  return /^[A-Za-z_][\w.-]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/** Plain scalars where unambiguous, JSON-quoted strings otherwise (JSON strings are valid YAML) */
+function yamlScalar(value: unknown): string {
+  if (Array.isArray(value)) return '[]';
+  if (isObject(value)) return '{}';
+  if (value === null || value === undefined) return 'null';
+  if (typeof value !== 'string') return String(value);
+  const plain = /^[A-Za-z0-9_./@+()' -]*[A-Za-z0-9_./@+()']$/.test(value)
+    && !/^(true|false|null|yes|no|on|off|~|[-+]?[\d.]+(e[-+]?\d+)?)$/i.test(value)
+    && !/^[-?]/.test(value)
+    && !/^\d{4}-\d{2}-\d{2}/.test(value); // YAML 1.1 would read dates as timestamps
+  return plain ? value : JSON.stringify(value);
+}
+
+// CSV
+
+/**
+ * Success: the result's `groups` (with --group-by) or `data` array, or its
+ * first array of objects, as rows; otherwise field/value pairs. Errors: a
+ * single row with code, message and fix.
+ */
+function renderCSV(response: CLIResponse): string {
+  if (!response.ok) {
+    return csvRows([
+      ['ok', 'command', 'code', 'message', 'fix'],
+      ['false', response.command, response.error.code, response.error.message, response.fix]
+    ]);
+  }
+
+  const rows = primaryRows(response.result);
+  if (rows) {
+    const flat = rows.map(row => flatten(row));
+    const columns = [...new Set(flat.flatMap(row => Object.keys(row)))];
+    return csvRows([columns, ...flat.map(row => columns.map(column => row[column] ?? ''))]);
+  }
+
+  return csvRows([['field', 'value'], ...Object.entries(flatten(response.result))]);
+}
+
+function primaryRows(result: unknown): Record<string, unknown>[] | null {
+  if (isObjectArray(result)) return result;
+  if (!isObject(result)) return null;
+  if (isObjectArray(result.groups)) return result.groups;
+  if (isObjectArray(result.data)) return result.data;
+  const firstArray = Object.values(result).find(isObjectArray);
+  return firstArray ?? null;
+}
+
+function csvRows(rows: string[][]): string {
+  return rows.map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Table
+
+/** Human-readable layout for debugging by hand; next_actions are listed at the bottom */
+function renderTable(response: CLIResponse): string {
+  const lines: string[] = [];
+
+  if (response.ok) {
+    const source = response.data_source ? `  (source: ${response.data_source.type})` : '';
+    lines.push(`✔ ${response.command}${source}`, '');
+    tableSections(response.result, '', lines);
+  } else {
+    lines.push(
+      `✘ ${response.command}`,
+      '',
+      `Error [${response.error.code}]: ${response.error.message}`,
+      `Fix: ${response.fix}`
+    );
+  }
+
+  lines.push('', 'Next actions:');
+  lines.push(...alignColumns(response.next_actions.map((action: NextAction) => [`  ${action.command}`, action.description])));
+  if (response.next_actions.length === 0) lines.push('  (none)');
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n');
+}
+
+function tableSections(value: unknown, path: string, lines: string[]): void {
+  if (!isObject(value)) {
+    if (Array.isArray(value)) arraySection(value, path || 'result', lines);
+    else lines.push(formatCell(value));
+    return;
+  }
+
+  // Scalars first as an aligned key/value block, then one section per array
+  const pairs: string[][] = [];
+  const arrays: [string, unknown[]][] = [];
+  for (const [key, item] of Object.entries(flattenObjects(value, path))) {
+    if (Array.isArray(item) && item.length > 0) arrays.push([key, item]);
+    else pairs.push([key, Array.isArray(item) ? '(none)' : formatCell(item)]);
+  }
+
+  lines.push(...alignColumns(pairs));
+  for (const [key, items] of arrays) arraySection(items, key, lines);
+}
+
+function arraySection(items: unknown[], title: string, lines: string[]): void {
+  lines.push('', `${title} (${items.length})`);
+  if (isObjectArray(items)) {
+    const flat = items.map(item => flatten(item));
+    const columns = [...new Set(flat.flatMap(row => Object.keys(row)))];
+    lines.push(...alignColumns([columns, columns.map(c => '-'.repeat(c.length)), ...flat.map(row => columns.map(c => row[c] ?? ''))]));
+  } else {
+    lines.push(...items.map(item => `  - ${formatCell(item)}`));
+  }
+}
+
+function alignColumns(rows: string[][]): string[] {
+  const widths: number[] = [];
+  for (const row of rows) row.forEach((cell, i) => { widths[i] = Math.max(widths[i] ?? 0, cell.length); });
+  return rows.map(row => row.map((cell, i) => i === row.length - 1 ? cell : cell.padEnd(widths[i])).join('  ').trimEnd());
+}
+
+// Shared helpers
+
+/** Nested objects become dotted keys; arrays are kept as values */
+function flattenObjects(value: Record<string, unknown>, prefix: string): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isObject(item) && !isEmpty(item)) Object.assign(flat, flattenObjects(item, path));
+    else flat[path] = item;
+  }
+  return flat;
+}
+
+/** Like flattenObjects, but every value becomes a cell string */
+function flatten(value: unknown): Record<string, string> {
+  if (!isObject(value)) return { value: formatCell(value) };
+  return Object.fromEntries(Object.entries(flattenObjects(value, '')).map(([key, item]) => [key, formatCell(item)]));
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.every(isScalar) ? value.join('; ') : JSON.stringify(value);
+  if (isObject(value)) return JSON.stringify(value);
+  return String(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isObjectArray(value: unknown): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isObject);
+}
+
+function isScalar(value: unknown): boolean {
+  return value === null || value === undefined || typeof value !== 'object';
+}
+
+function isEmpty(value: unknown): boolean {
+  return (Array.isArray(value) && value.length === 0) || (isObject(value) && Object.keys(value).length === 0);
+}
@@ -0,0 +1,74 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import * as net from 'net';
+import { AlertNotification, deliver } from './notify.js';
+
+const NOTIFICATION: AlertNotification = {
+  event: 'test',
+  sent_at: '2024-01-02T08:00:00.000Z',
+  source: 'mock',
+  alert: {
+    id: 'hrv_low',
+    rule: 'hrv_low',
+    metric: 'hrv',
+    condition: 'below',
+    threshold: 30,
+    current: 25,
+    status: 'warning',
+    message: 'HRV is below 30 ms'
+  },
+  lifecycle: null
+};
+
+describe('deliver', () => {
+  let server: http.Server;
+  let base: string;
+  let requests = 0;
+
+  before(async () => {
+    // /404 answers 404, /slow never answers, anything else answers 503
+    server = http.createServer((request, response) => {
+      requests++;
+      if (request.url === '/slow') return;
+      response.writeHead(request.url === '/404' ? 404 : 503).end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+  });
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  const webhook = (url: string, retries = 0) => deliver('hook', { type: 'webhook', url, retries, backoff_ms: 0, timeout_ms: 100 }, NOTIFICATION);
+
+  test('retries server errors and gives up after the last attempt', async () => {
+    requests = 0;
+    const result = await webhook(`${base}/busy`, 2);
+    assert.deepEqual(result, { sink: 'hook', type: 'webhook', alert: 'hrv_low', ok: false, attempts: 3, error: 'HTTP 503 Service Unavailable' });
+    assert.equal(requests, 3);
+  });
+
+  test('does not retry a client error', async () => {
+    const result = await webhook(`${base}/404`, 2);
+    assert.equal(result.attempts, 1);
+    assert.equal(result.error, 'HTTP 404 Not Found');
+  });
+
+  test('reports a timeout and the network error behind a failed fetch', async () => {
+    assert.equal((await webhook(`${base}/slow`)).error, 'No response within 100ms');
+
+    // A port that was just free refuses the connection
+    const closed = net.createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const { port } = closed.address() as net.AddressInfo;
+    await new Promise(resolve => closed.close(resolve));
+    assert.match((await webhook(`http://127.0.0.1:${port}/`)).error!, /ECONNREFUSED/);
+  });
+
+  test('reports how an exec hook failed', async () => {
+    const result = await deliver('script', { type: 'exec', command: 'echo nope >&2; exit 3', retries: 0 }, NOTIFICATION);
+    assert.equal(result.error, 'Hook exited with code 3: nope');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Alert notification sinks - webhook POST, exec hook (alert JSON on stdin)
+ * and an NDJSON outbox file. Every delivery is retried with exponential backoff.
+ */
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AlertThreshold } from '../types/responses.js';
+import { SinkConfig } from './config.js';
+
+export interface AlertNotification {
+  /** reminder: a snooze ran out while the alert was still active */
+  event: 'new' | 'escalated' | 'reminder' | 'test';
+  sent_at: string;
+  source: string;
+  alert: AlertThreshold & { id: string };
+  lifecycle: {
+    first_seen: string;
+    occurrences: number;
+  } | null;
+}
+
+export interface DeliveryResult {
+  sink: string;
+  type: SinkConfig['type'];
+  alert: string;
+  ok: boolean;
+  attempts: number;
+  error?: string;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BACKOFF_MS = 500;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/** A failure retrying cannot fix, such as a 4xx from a webhook */
+class PermanentDeliveryError extends Error {}
+
+/** Whether a sink wants this notification, based on its enabled flag and min_status */
+export function sinkAccepts(sink: SinkConfig, notification: AlertNotification): boolean {
+  if (sink.enabled === false) return false;
+  return sink.min_status !== 'critical' || notification.alert.status === 'critical';
+}
+
+/** Sends every notification to every sink that accepts it, one delivery at a time */
+export async function notifySinks(sinks: Record<string, SinkConfig>, notifications: AlertNotification[]): Promise<DeliveryResult[]> {
+  const results: DeliveryResult[] = [];
+  for (const notification of notifications) {
+    for (const [name, sink] of Object.entries(sinks)) {
+      if (sinkAccepts(sink, notification)) results.push(await deliver(name, sink, notification));
+    }
+  }
+  return results;
+}
+
+/** Delivers one notification, retrying with backoff_ms, 2x, 4x... between attempts */
+export async function deliver(name: string, sink: SinkConfig, notification: AlertNotification): Promise<DeliveryResult> {
+  const maxAttempts = (sink.retries ?? DEFAULT_RETRIES) + 1;
+  const backoff = sink.backoff_ms ?? DEFAULT_BACKOFF_MS;
+  const result: DeliveryResult = { sink: name, type: sink.type, alert: notification.alert.id, ok: false, attempts: 0 };
+
+  while (result.attempts < maxAttempts) {
+    result.attempts++;
+    try {
+      await send(sink, notification);
+      result.ok = true;
+      delete result.error;
+      return result;
+    } catch (sendError: unknown) {
+      result.error = sendError instanceof Error ? sendError.message : String(sendError);
+      if (sendError instanceof PermanentDeliveryError) return result;
+      if (result.attempts < maxAttempts) await sleep(backoff * 2 ** (result.attempts - 1));
+    }
+  }
+
+  return result;
+}
+
+function send(sink: SinkConfig, notification: AlertNotification): Promise<void> {
+  const payload = JSON.stringify(notification);
+  const timeout = sink.timeout_ms ?? DEFAULT_TIMEOUT_MS;
+
+  switch (sink.type) {
+    case 'webhook': return postWebhook(sink.url, sink.headers ?? {}, payload, timeout);
+    case 'exec': return runHook(sink.command, payload, timeout);
+    case 'outbox': return appendOutbox(sink.path, payload);
+  }
+}
+
+async function postWebhook(url: string, headers: Record<string, string>, payload: string, timeout: number): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'user-agent': 'health-cli/1.0.0', ...headers },
+      body: payload,
+      signal: AbortSignal.timeout(timeout)
+    });
+  } catch (fetchError: unknown) {
+    if (!(fetchError instanceof Error)) throw new Error(String(fetchError));
+    if (fetchError.name === 'TimeoutError') throw new Error(`No response within ${timeout}ms`);
+    // fetch() fails with a bare "fetch failed" and puts the network error in the cause
+    throw new Error(fetchError.cause instanceof Error ? fetchError.cause.message : fetchError.message);
+  }
+
+  if (response.ok) return;
+  // 408 and 429 are worth another try, other client errors will not change
+  const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+  const message = `HTTP ${response.status} ${response.statusText}`.trim();
+  throw retryable ? new Error(message) : new PermanentDeliveryError(message);
+}
+
+function runHook(command: string, payload: string, timeout: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, { shell: true, stdio: ['pipe', 'ignore', 'pipe'] });
+    let stderr = '';
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`Hook did not finish within ${timeout}ms`));
+    }, timeout);
+
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    child.on('error', spawnError => {
+      clearTimeout(timer);
+      reject(spawnError);
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0) resolve();
+      else reject(new Error(`Hook exited with code ${code}${stderr.trim() ? `: ${stderr.trim().slice(-200)}` : ''}`));
+    });
+
+    // A hook that ignores stdin closes the pipe early - that is not a failure
+    child.stdin.on('error', () => {});
+    child.stdin.end(payload + '\n');
+  });
+}
+
+async function appendOutbox(outboxPath: string, payload: string): Promise<void> {
+  const resolved = path.resolve(outboxPath.replace(/^~(?=$|\/)/, os.homedir()));
+  fs.mkdirSync(path.dirname(resolved), { recursive: true });
+  fs.appendFileSync(resolved, payload + '\n');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,100 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockProvider } from '../data/mockData.js';
+import { groupByCalendar, inPeriod, Period, periodActions, resolvePeriod } from './period.js';
+
+const AS_OF = '2024-03-31';
+const provider = createMockProvider({ seed: 1, asOf: AS_OF });
+
+function resolve(options: Parameters<typeof resolvePeriod>[3]): Period {
+  const period = resolvePeriod('hrv', provider, 'hrv', options);
+  assert.ok(!('ok' in period), 'expected a period');
+  return period;
+}
+
+function errorCode(options: Parameters<typeof resolvePeriod>[3]): string {
+  const period = resolvePeriod('hrv', provider, 'hrv', options);
+  assert.ok('ok' in period, 'expected an error');
+  return period.error.code;
+}
+
+describe('resolvePeriod', () => {
+  test('defaults to 7 days ending on the latest data', () => {
+    const period = resolve({});
+    assert.deepEqual([period.from, period.to, period.days], ['2024-03-25', AS_OF, 7]);
+    assert.equal(period.explicit, false);
+    assert.equal(period.command, 'hrv --days 7');
+    assert.equal(period.provider, provider);
+  });
+
+  test('counts --days back from the latest data', () => {
+    const period = resolve({ days: 30 });
+    assert.deepEqual([period.from, period.to], ['2024-03-02', AS_OF]);
+  });
+
+  test('runs --from alone up to the latest data', () => {
+    const period = resolve({ from: '2024-03-20' });
+    assert.deepEqual([period.from, period.to, period.days], ['2024-03-20', AS_OF, 12]);
+    assert.equal(period.explicit, true);
+  });
+
+  test('counts --days forward from --from', () => {
+    const period = resolve({ from: '2024-01-01', days: 10 });
+    assert.deepEqual([period.from, period.to], ['2024-01-01', '2024-01-10']);
+  });
+
+  test('counts --days back from --to and cuts the source off there', () => {
+    const period = resolve({ to: '2024-02-29', days: 7 });
+    assert.deepEqual([period.from, period.to], ['2024-02-23', '2024-02-29']);
+    assert.equal(period.provider.asOf, '2024-02-29');
+    assert.equal(period.command, 'hrv --days 7 --to 2024-02-29');
+  });
+
+  test('keeps --group-by', () => {
+    assert.equal(resolve({ from: '2024-02-01', to: '2024-03-31', groupBy: 'month' }).groupBy, 'month');
+  });
+
+  test('rejects dates that are not calendar days', () => {
+    assert.equal(errorCode({ from: '2024-02-30' }), 'INVALID_DATE');
+    assert.equal(errorCode({ to: '03/01/2024' }), 'INVALID_DATE');
+  });
+
+  test('rejects --from after --to, and all three options at once', () => {
+    assert.equal(errorCode({ from: '2024-03-10', to: '2024-03-01' }), 'INVALID_RANGE');
+    assert.equal(errorCode({ days: 7, from: '2024-03-01', to: '2024-03-07' }), 'INVALID_RANGE');
+  });
+
+  test('rejects periods outside 1 to 90 days', () => {
+    assert.equal(errorCode({ days: 0 }), 'INVALID_DAYS_RANGE');
+    assert.equal(errorCode({ days: 91 }), 'INVALID_DAYS_RANGE');
+    assert.equal(errorCode({ from: '2023-01-01', to: '2024-01-01' }), 'INVALID_DAYS_RANGE');
+    assert.equal(resolve({ days: 90 }).days, 90);
+  });
+});
+
+describe('periodActions', () => {
+  test('links the period before an explicit range', () => {
+    const [previous] = periodActions('hrv', resolve({ from: '2024-03-01', to: '2024-03-10' }));
+    assert.equal(previous.command, 'health hrv --from 2024-02-20 --to 2024-02-29');
+  });
+
+  test('offers weekly and monthly rollups of long periods', () => {
+    const commands = periodActions('hrv', resolve({ days: 60 })).map(a => a.command);
+    assert.deepEqual(commands, ['health hrv --days 60 --group-by week', 'health hrv --days 60 --group-by month']);
+    assert.deepEqual(periodActions('hrv', resolve({ days: 14 })), []);
+  });
+});
+
+describe('inPeriod and groupByCalendar', () => {
+  const entries = ['2024-01-28', '2024-01-29', '2024-02-04', '2024-02-05'].map(date => ({ date }));
+
+  test('inPeriod keeps entries inside the period', () => {
+    const period = resolve({ from: '2024-01-29', to: '2024-02-04' });
+    assert.deepEqual(inPeriod(period, entries).map(e => e.date), ['2024-01-29', '2024-02-04']);
+  });
+
+  test('groups by ISO week and by month', () => {
+    assert.deepEqual(groupByCalendar(entries, 'week').map(g => [g.key, g.entries.length]), [['2024-W04', 1], ['2024-W05', 2], ['2024-W06', 1]]);
+    assert.deepEqual(groupByCalendar(entries, 'month').map(g => [g.key, g.start, g.end]), [['2024-01', '2024-01-01', '2024-01-31'], ['2024-02', '2024-02-01', '2024-02-29']]);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Analysis periods - --days, --from and --to resolve to one calendar range,
+ * and --group-by splits it into weeks or months
+ */
+import { ErrorResponse, NextAction } from '../types/responses.js';
+import { DataProvider, Metric } from '../data/provider.js';
+import { error } from './responses.js';
+import { action, PARAMS } from './actions.js';
+import { addDays, calendarPeriod, CalendarUnit, daysBetween, isValidDay, toDay } from './dates.js';
+
+export const DEFAULT_DAYS = 7;
+
+/** Longest period, unless the source has more history than this */
+export const MAX_DAYS = 90;
+
+export interface PeriodOptions {
+  days?: number;
+  from?: string;
+  to?: string;
+  groupBy?: CalendarUnit;
+}
+
+export interface Period {
+  from: string;
+  to: string;
+  days: number;
+  groupBy: CalendarUnit | null;
+  /** Whether --from or --to was given, rather than a number of days back from the latest data */
+  explicit: boolean;
+  /** The command line the period came from, e.g. `hrv --from 2024-01-01 --to 2024-03-31` */
+  command: string;
+  /** The data source cut off at the end of the period */
+  provider: DataProvider;
+}
+
+export interface CalendarGroup<T> {
+  key: string;
+  start: string;
+  end: string;
+  entries: T[];
+}
+
+/**
+ * Resolves the period options for a command reading `metric`. Without --to
+ * the period ends on the latest day with data; any two of --days, --from
+ * and --to fix the third.
+ */
+export function resolvePeriod(command: string, provider: DataProvider, metric: Metric, options: PeriodOptions): Period | ErrorResponse {
+  const { from, to, groupBy } = options;
+  const commandLine = [
+    command,
+    ...(options.days !== undefined || (from === undefined && to === undefined) ? ['--days', String(options.days ?? DEFAULT_DAYS)] : []),
+    ...(from !== undefined ? ['--from', from] : []),
+    ...(to !== undefined ? ['--to', to] : []),
+    ...(groupBy !== undefined ? ['--group-by', groupBy] : [])
+  ].join(' ');
+
+  const invalid = [from, to].find(day => day !== undefined && !isValidDay(day));
+  if (invalid !== undefined) {
+    return error(
+      commandLine,
+      `Invalid date: ${invalid}`,
+      'INVALID_DATE',
+      'Use calendar dates in YYYY-MM-DD format for --from and --to',
+      [
+        action(['health', command], 'Use default 7 days', { rel: 'remediate' }),
+        action(['health', command, '--from', '{from}', '--to', '{to}'], 'Analyze an explicit date range', {
+          rel: 'remediate',
+          params: [PARAMS.date('from', '2024-01-01', 'First day, YYYY-MM-DD'), PARAMS.date('to', '2024-03-31', 'Last day, YYYY-MM-DD')]
+        })
+      ]
+    );
+  }
+
+  if (options.days !== undefined && from !== undefined && to !== undefined) {
+    return error(
+      commandLine,
+      '--days, --from and --to cannot all be given',
+      'INVALID_RANGE',
+      'Give at most two of --days, --from and --to',
+      [
+        action(['health', command, '--from', '{from}', '--to', '{to}'], 'Keep the date range and drop --days', {
+          rel: 'remediate',
+          params: [PARAMS.date('from', from, 'First day, YYYY-MM-DD'), PARAMS.date('to', to, 'Last day, YYYY-MM-DD')]
+        })
+      ]
+    );
+  }
+
+  const source = provider.describe([metric]);
+  const coverage = source.coverage ?? null;
+  const dataEnd = coverage?.end ?? source.as_of ?? toDay(provider.now());
+  // A store with a longer history can be analyzed in full
+  const maxDays = Math.max(MAX_DAYS, coverage ? daysBetween(coverage.start, coverage.end) + 1 : 0);
+  const tooLong = (message: string, end: string) => error(
+    commandLine,
+    message,
+    'INVALID_DAYS_RANGE',
+    `Use a value between 1 and ${maxDays} days`,
+    [
+      action(['health', command], 'Use default 7 days', { rel: 'remediate' }),
+      action(['health', command, '--days', '{days}'], 'Try 1 month', { rel: 'remediate', params: [PARAMS.days(30)] }),
+      action(['health', command, '--from', '{from}', '--to', '{to}'], `Analyze ${maxDays} days up to ${end}`, {
+        rel: 'remediate',
+        params: [PARAMS.date('from', addDays(end, -(maxDays - 1)), 'First day, YYYY-MM-DD'), PARAMS.date('to', end, 'Last day, YYYY-MM-DD')]
+      })
+    ]
+  );
+
+  const days = options.days ?? DEFAULT_DAYS;
+  if (days < 1 || days > maxDays) return tooLong(`Days parameter must be between 1 and ${maxDays}`, to ?? dataEnd);
+
+  const end = to ?? (from !== undefined && options.days !== undefined ? addDays(from, days - 1) : dataEnd);
+  const start = from ?? addDays(end, -(days - 1));
+
+  if (start > end) {
+    return error(
+      commandLine,
+      `--from ${start} is after --to ${end}`,
+      'INVALID_RANGE',
+      'Use a --from date on or before --to',
+      [
+        action(['health', command, '--from', '{from}', '--to', '{to}'], 'Swap the dates', {
+          rel: 'remediate',
+          params: [PARAMS.date('from', end, 'First day, YYYY-MM-DD'), PARAMS.date('to', start, 'Last day, YYYY-MM-DD')]
+        })
+      ]
+    );
+  }
+
+  const length = daysBetween(start, end) + 1;
+  if (length > maxDays) {
+    return tooLong(`The range from ${start} to ${end} is ${length} days; the ${provider.name} source supports up to ${maxDays}`, end);
+  }
+
+  return {
+    from: start,
+    to: end,
+    days: length,
+    groupBy: groupBy ?? null,
+    explicit: from !== undefined || to !== undefined,
+    command: commandLine,
+    provider: end < dataEnd ? provider.until(end) : provider
+  };
+}
+
+/**
+ * Links for moving around explicit and long periods: the period just before
+ * one given with --from or --to, and weekly or monthly rollups of a long one
+ */
+export function periodActions(command: string, period: Period): NextAction[] {
+  const actions: NextAction[] = [];
+
+  if (period.explicit) {
+    actions.push(action(['health', command, '--from', '{from}', '--to', '{to}'], `View the ${period.days} days before`, {
+      rel: 'navigate',
+      params: [
+        PARAMS.date('from', addDays(period.from, -period.days), 'First day, YYYY-MM-DD'),
+        PARAMS.date('to', addDays(period.from, -1), 'Last day, YYYY-MM-DD')
+      ]
+    }));
+  }
+
+  if (period.groupBy === null && period.days >= 28) {
+    const argv = ['health', ...period.command.split(' ')];
+    actions.push(action([...argv, '--group-by', 'week'], 'Roll up into weekly statistics', { rel: 'drill-down' }));
+    if (period.days >= 60) actions.push(action([...argv, '--group-by', 'month'], 'Roll up into monthly statistics', { rel: 'drill-down' }));
+  }
+
+  return actions;
+}
+
+/** Entries inside the period */
+export function inPeriod<T extends { date: string }>(period: Period, entries: T[]): T[] {
+  return entries.filter(entry => entry.date >= period.from && entry.date <= period.to);
+}
+
+/** Entries by calendar week or month, oldest first; periods without entries are left out */
+export function groupByCalendar<T extends { date: string }>(entries: T[], unit: CalendarUnit): CalendarGroup<T>[] {
+  const groups = new Map<string, CalendarGroup<T>>();
+  for (const entry of entries) {
+    const { key, start, end } = calendarPeriod(entry.date, unit);
+    if (!groups.has(key)) groups.set(key, { key, start, end, entries: [] });
+    groups.get(key)!.entries.push(entry);
+  }
+  return [...groups.values()].sort((a, b) => a.start.localeCompare(b.start));
+}
@@ -1,38 +1,129 @@
 /**
  * Response utilities for agent-first CLI
  */
-import { CLIResponse, NextAction, SuccessResponse, ErrorResponse } from '../types/responses.js';
+import { Cause, Console, Effect, Either, Exit, Schema } from 'effect';
+import { CLIResponse, NextAction, SuccessResponse, ErrorResponse, DataSourceInfo } from '../types/responses.js';
+import { OutputFormat, renderResponse } from './formats.js';
+import { ERRORS, ErrorCode, NoResponse, isErrorCode } from './errors.js';
 
-export function success<T>(command: string, result: T, nextActions: NextAction[]): SuccessResponse<T> {
+let outputFormat: OutputFormat = 'json';
+
+/** Set once from the global --format option, before any command runs */
+export function setOutputFormat(format: OutputFormat): void {
+  outputFormat = format;
+}
+
+/**
+ * Results are encoded through their schema (src/types/schemas.ts), so a field
+ * that drifts from the published contract fails loudly instead of shipping
+ */
+export function success<A, I>(
+  command: string,
+  schema: Schema.Schema<A, I>,
+  result: A,
+  nextActions: NextAction[],
+  dataSource?: DataSourceInfo
+): SuccessResponse<I> {
   return {
     ok: true,
     command: `health ${command}`,
-    result,
+    result: Schema.encodeSync(schema, { onExcessProperty: 'error' })(result),
+    ...(dataSource && { data_source: dataSource }),
     next_actions: nextActions
   };
 }
 
-export function error(command: string, message: string, code: string, fix: string, nextActions: NextAction[]): ErrorResponse {
+/** fix and nextActions default to the code's entry in the error registry (utils/errors.ts) */
+export function error(
+  command: string,
+  message: string,
+  code: ErrorCode,
+  fix?: string,
+  nextActions?: NextAction[]
+): ErrorResponse {
+  const definition = ERRORS[code];
   return {
     ok: false,
     command: `health ${command}`,
-    error: { message, code },
-    fix,
-    next_actions: nextActions
+    error: { message, code, category: definition.category, retryable: definition.retryable },
+    fix: fix ?? definition.fix,
+    next_actions: nextActions ?? [...definition.next_actions]
   };
 }
 
+/** Receives responses instead of stdout while captureOutput() runs */
+let responseSink: ((response: CLIResponse) => void) | null = null;
+
+/** Thrown by output() under captureOutput() - it ends the command the way process.exit would */
+class ResponseCaptured extends Error {}
+
 export function output(response: CLIResponse): never {
-  console.log(JSON.stringify(response, null, 2));
-  process.exit(response.ok ? 0 : 1);
-}
-
-// Common next actions
-export const COMMON_ACTIONS = {
-  ROOT: { command: 'health', description: 'Show available commands' },
-  STATUS: { command: 'health status', description: 'View today\'s health overview' },
-  HRV: { command: 'health hrv', description: 'View HRV trends' },
-  SLEEP: { command: 'health sleep', description: 'View sleep analysis' },
-  ALERTS: { command: 'health alert', description: 'Check health alerts' },
-  IMPORT: { command: 'health import <file>', description: 'Import Apple Health data' }
-};
\ No newline at end of file
+  if (responseSink) {
+    responseSink(response);
+    throw new ResponseCaptured();
+  }
+  return exitWith(response);
+}
+
+/** Prints the response and exits with its code - bypasses captureOutput() */
+export function exitWith(response: CLIResponse): never {
+  console.log(renderResponse(response, outputFormat));
+  process.exit(exitCode(response));
+}
+
+/** 0 on success, otherwise the error code's exit code from the registry */
+export function exitCode(response: CLIResponse): number {
+  if (response.ok) return 0;
+  return isErrorCode(response.error.code) ? ERRORS[response.error.code].exit_code : 1;
+}
+
+/**
+ * Runs a command with output() captured rather than printed and exited on,
+ * so one process can run many commands. Right is the command's response;
+ * Left is how it ended without one (e.g. an argument validation error).
+ * Anything the command prints through Effect's Console - Effect CLI help
+ * and usage text - is dropped so it cannot interleave with the responses.
+ */
+export function captureOutput<R>(command: Effect.Effect<unknown, unknown, R>): Effect.Effect<Either.Either<CLIResponse, NoResponse>, never, R> {
+  return Effect.suspend(() => {
+    let response: CLIResponse | null = null;
+    let printed = false;
+    const previous = responseSink;
+    responseSink = captured => { response = captured; };
+    return Effect.exit(command).pipe(
+      Console.withConsole(quietConsole(() => { printed = true; })),
+      Effect.ensuring(Effect.sync(() => { responseSink = previous; })),
+      Effect.map(exit => response !== null
+        ? Either.right(response)
+        : Either.left({ cause: Exit.isFailure(exit) ? exit.cause : Cause.empty, printed }))
+    );
+  });
+}
+
+/** A Console that only notes that something was printed */
+function quietConsole(onPrint: () => void): Console.Console {
+  const print = () => Effect.sync(onPrint);
+  const ignore = () => Effect.void;
+  return {
+    [Console.TypeId]: Console.TypeId,
+    assert: ignore,
+    clear: Effect.void,
+    count: ignore,
+    countReset: ignore,
+    debug: print,
+    dir: print,
+    dirxml: print,
+    error: print,
+    group: ignore,
+    groupEnd: Effect.void,
+    info: print,
+    log: print,
+    table: print,
+    time: ignore,
+    timeEnd: ignore,
+    timeLog: print,
+    trace: print,
+    warn: print,
+    unsafe: console
+  };
+}